@@ -12,6 +12,12 @@
  *
  * The generated license key is a single string: base64(signature).base64(payload)
  * Users paste this into the app's license activation field.
+ *
+ * Admin attestations vouch that an admin's device identity key is theirs, so
+ * teammates accept the emergency policies it signs. The admin reads the
+ * fingerprint off Settings → Admin → Emergency Access and pastes the result
+ * back there:
+ *   node scripts/generate-license.js --team "Acme Corp" --attest-admin <fingerprint>
  */
 
 const crypto = require('crypto');
@@ -87,6 +93,12 @@ function generateLicense(opts) {
     expiresAt,
     features: features ? features.split(',') : ['pro'],
     issuedAt: new Date().toISOString(),
+    // Shared by every key issued to the team (member and admin keys alike) so
+    // secure peer connections work across them. Pass the same --team-secret
+    // when issuing more keys for an existing team.
+    teamSecret: typeof opts['team-secret'] === 'string'
+      ? opts['team-secret']
+      : crypto.randomBytes(32).toString('base64'),
   };
 
   const payloadJson = JSON.stringify(payload);
@@ -109,6 +121,41 @@ function generateLicense(opts) {
   console.log('License Key:');
   console.log(licenseKey);
   console.log('');
+  console.log('Team secret (reuse with --team-secret for this team\'s other keys):');
+  console.log(payload.teamSecret);
+  console.log('');
+}
+
+// ── Generate admin attestation ─────────────────────────────────
+
+function generateAttestation(opts) {
+  const fingerprint = String(opts['attest-admin']).trim().toLowerCase();
+  if (!/^[0-9a-f]{64}$/.test(fingerprint)) {
+    console.error('Error: --attest-admin takes the 64-character device fingerprint shown in the app');
+    process.exit(1);
+  }
+
+  // Same default lifetime as a license; reissue alongside the admin's key.
+  const payload = {
+    kind: 'adminAttestation',
+    teamName: opts.team,
+    fingerprint,
+    expiresAt: opts.expires || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0],
+    issuedAt: new Date().toISOString(),
+  };
+
+  const payloadBuffer = Buffer.from(JSON.stringify(payload), 'utf-8');
+  const privateKeyPem = fs.readFileSync(PRIVATE_KEY_PATH, 'utf-8');
+  const signature = crypto.sign(null, payloadBuffer, privateKeyPem);
+
+  console.log('Admin attestation generated successfully!');
+  console.log('');
+  console.log('Payload:');
+  console.log(JSON.stringify(payload, null, 2));
+  console.log('');
+  console.log('Attestation:');
+  console.log(`${signature.toString('base64')}.${payloadBuffer.toString('base64')}`);
+  console.log('');
 }
 
 // ── Main ───────────────────────────────────────────────────────
@@ -124,6 +171,8 @@ if (args.help) {
   console.log('  --expires <date>    Expiry date YYYY-MM-DD (default: 1 year from now)');
   console.log('  --lifetime          Generate a lifetime license (no expiry)');
   console.log('  --features <list>   Comma-separated features (default: pro)');
+  console.log('  --team-secret <b64> Reuse an existing team secret (default: generate a new one)');
+  console.log('  --attest-admin <fp> Issue an admin attestation for a device fingerprint instead of a key');
   console.log('  --show-public-key   Print the public key for embedding in the app');
   console.log('  --help              Show this help');
   process.exit(0);
@@ -146,4 +195,8 @@ if (!args.team) {
   process.exit(0);
 }
 
-generateLicense(args);
+if (args['attest-admin']) {
+  generateAttestation(args);
+} else {
+  generateLicense(args);
+}
@@ -0,0 +1,196 @@
+#!/usr/bin/env node
+/**
+ * ZenState Relay Server
+ *
+ * Optional rendezvous point for teammates who can't see each other over
+ * Bonjour / the UDP beacon (different VLAN, VPN, working from home). Each app
+ * registers its userId; the relay tells everyone who else is around and
+ * forwards opaque peer frames between them. It never parses PeerMessages, so
+ * secure transport (Settings → Network) stays end-to-end through it.
+ *
+ * Usage:
+ *   node scripts/relay-server.js --port 47390 --token <shared-secret>
+ *
+ * The token is the only check on who registers: the relay doesn't know the
+ * team's identity keys, so it refuses a userId that's already connected but
+ * can't stop a token holder claiming one that isn't. Secure transport is
+ * what keeps such an impostor from reading or forging peer traffic.
+ *
+ * Wire format: same 4-byte big-endian length prefix + JSON as the peer
+ * protocol. Client → relay:
+ *   { op: 'register', userId, token }
+ *   { op: 'send', to, data }     data = base64 bytes for that peer
+ *   { op: 'close', to }          tear down the virtual link to `to`
+ *   { op: 'ping' }
+ * Relay → client:
+ *   { op: 'registered', peers }  userIds already connected
+ *   { op: 'joined', userId } / { op: 'left', userId }
+ *   { op: 'recv', from, data } / { op: 'closed', from }
+ *   { op: 'error', message }     followed by disconnect
+ */
+
+const net = require('net');
+
+const DEFAULT_PORT = 47390;
+// Peer frames top out around 1 MB (see MAX_FRAME_BYTES in NetworkingService);
+// base64 adds a third, plus the envelope.
+const MAX_FRAME_BYTES = 1_500_000;
+const IDLE_TIMEOUT_MS = 60_000; // clients ping every 20s
+const MAX_USER_ID_LENGTH = 64;
+
+// ── Parse CLI arguments ────────────────────────────────────────
+
+function parseArgs() {
+  const args = process.argv.slice(2);
+  const parsed = {};
+
+  for (let i = 0; i < args.length; i++) {
+    if (args[i].startsWith('--')) {
+      const key = args[i].substring(2);
+      const value = args[i + 1] && !args[i + 1].startsWith('--') ? args[++i] : true;
+      parsed[key] = value;
+    }
+  }
+
+  return parsed;
+}
+
+// ── Framing ────────────────────────────────────────────────────
+
+function send(socket, message) {
+  if (socket.destroyed || !socket.writable) return;
+  const json = Buffer.from(JSON.stringify(message), 'utf-8');
+  const length = Buffer.alloc(4);
+  length.writeUInt32BE(json.length, 0);
+  socket.write(Buffer.concat([length, json]));
+}
+
+// ── Relay ──────────────────────────────────────────────────────
+
+function startRelay({ port, token }) {
+  const clients = new Map(); // userId → socket
+
+  function broadcast(message, exceptUserId) {
+    for (const [userId, socket] of clients) {
+      if (userId !== exceptUserId) send(socket, message);
+    }
+  }
+
+  function handleMessage(socket, state, message) {
+    if (!state.userId) {
+      if (message.op !== 'register') return;
+      if (token && message.token !== token) {
+        send(socket, { op: 'error', message: 'Invalid relay token' });
+        socket.end();
+        return;
+      }
+      if (typeof message.userId !== 'string' || !message.userId || message.userId.length > MAX_USER_ID_LENGTH) {
+        send(socket, { op: 'error', message: 'Invalid userId' });
+        socket.end();
+        return;
+      }
+
+      // The relay can't tell a teammate reconnecting from someone else
+      // claiming their userId, so it never hands a live registration over.
+      // A client whose old connection died (new network, restart) gets in
+      // once that socket is gone — at the latest after IDLE_TIMEOUT_MS.
+      const previous = clients.get(message.userId);
+      if (previous && previous !== socket && !previous.destroyed) {
+        send(socket, { op: 'error', message: 'Already connected from elsewhere' });
+        socket.end();
+        return;
+      }
+
+      state.userId = message.userId;
+      clients.set(state.userId, socket);
+      send(socket, { op: 'registered', peers: Array.from(clients.keys()).filter((id) => id !== state.userId) });
+      if (!previous) broadcast({ op: 'joined', userId: state.userId }, state.userId);
+      console.log(`+ ${state.userId} (${socket.remoteAddress}) — ${clients.size} connected`);
+      return;
+    }
+
+    switch (message.op) {
+      case 'send': {
+        const target = typeof message.to === 'string' ? clients.get(message.to) : undefined;
+        if (!target || typeof message.data !== 'string') return;
+        send(target, { op: 'recv', from: state.userId, data: message.data });
+        break;
+      }
+      case 'close': {
+        const target = typeof message.to === 'string' ? clients.get(message.to) : undefined;
+        if (target) send(target, { op: 'closed', from: state.userId });
+        break;
+      }
+      case 'ping':
+        send(socket, { op: 'pong' });
+        break;
+    }
+  }
+
+  const server = net.createServer((socket) => {
+    const state = { userId: null };
+    let buffer = Buffer.alloc(0);
+
+    socket.setTimeout(IDLE_TIMEOUT_MS);
+    socket.on('timeout', () => socket.destroy());
+    socket.on('error', (err) => console.warn(`Socket error (${state.userId ?? socket.remoteAddress}): ${err.message}`));
+
+    socket.on('data', (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length > MAX_FRAME_BYTES) {
+          console.warn(`Oversized frame (${length} bytes) from ${state.userId ?? socket.remoteAddress} — closing`);
+          socket.destroy();
+          return;
+        }
+        if (buffer.length < 4 + length) break;
+        const frame = buffer.subarray(4, 4 + length);
+        buffer = buffer.subarray(4 + length);
+        try {
+          handleMessage(socket, state, JSON.parse(frame.toString('utf-8')));
+        } catch (err) {
+          console.warn('Bad frame:', err.message);
+        }
+      }
+    });
+
+    socket.on('close', () => {
+      if (!state.userId || clients.get(state.userId) !== socket) return;
+      clients.delete(state.userId);
+      broadcast({ op: 'left', userId: state.userId });
+      console.log(`- ${state.userId} — ${clients.size} connected`);
+    });
+  });
+
+  server.on('error', (err) => {
+    console.error('Relay server error:', err.message);
+    process.exit(1);
+  });
+
+  server.listen(port, () => {
+    console.log(`ZenState relay listening on port ${port}${token ? '' : ' (no token — anyone can register)'}`);
+  });
+}
+
+// ── Main ───────────────────────────────────────────────────────
+
+const args = parseArgs();
+
+if (args.help) {
+  console.log('Usage: node scripts/relay-server.js [options]');
+  console.log('');
+  console.log('Options:');
+  console.log(`  --port <number>     TCP port to listen on (default: ${DEFAULT_PORT})`);
+  console.log('  --token <secret>    Shared token clients must present (or set RELAY_TOKEN)');
+  console.log('                      Anyone with the token can register any userId that');
+  console.log('                      isn\'t connected yet; turn on secure transport so an');
+  console.log('                      impostor can\'t read or fake a teammate\'s traffic.');
+  console.log('  --help              Show this help');
+  process.exit(0);
+}
+
+startRelay({
+  port: parseInt(args.port, 10) || DEFAULT_PORT,
+  token: typeof args.token === 'string' ? args.token : process.env.RELAY_TOKEN || '',
+});
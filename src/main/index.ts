@@ -4,13 +4,32 @@ import path from 'path';
 import crypto from 'crypto';
 import { createTray, updateTrayIcon } from './tray';
 import { createPopoverWindow, createDashboardWindow, createAlertWindow, createMiniTimerWindow } from './windows';
-import { NetworkingService } from './networking/NetworkingService';
+import { NetworkingService, SecureTransportConfig } from './networking/NetworkingService';
+import { getDeviceIdentity, getPinnedPeers, forgetPinnedPeer, clearPinnedPeers } from './networking/peerIdentity';
+import { clearAvatarCache } from './networking/avatarCache';
+import { identityFingerprint } from './networking/SecureChannel';
+import { RelayConfig, parseRelayAddress } from './networking/RelayClient';
 import { PersistenceService } from './services/persistence';
 import { TimeTracker } from './services/timeTracker';
 import { setupUpdater, checkForUpdate } from './updater';
-import { IPC, AvailabilityStatus, User, MessageType, AppSettings, PinnedTodo, MyAssignmentsDueScope } from '../shared/types';
+import { IPC, AvailabilityStatus, User, HeldAlert, MessageType, AppSettings, PinnedTodo, MyAssignmentsDueScope, FocusSchedule, ActiveFocusBlockInfo, SecureTransportStatus, RelayStatus, OutboundMessage, MeetingSlot, MeetingReminder, EmergencyPolicy, DeliveryState, ReceivedPing, PingReply, PING_QUICK_REPLIES, TimesheetSyncStatus, TaskRef, TimerCheckpoint, WorkSegment, PauseReason, TimerCycleInfo, TimerCyclePhase, AppRule, SuggestedSession, TimesheetReviewChoice, DailyReviewItem, RoundingRule, BackgroundTimer } from '../shared/types';
 import { LicenseManager } from './services/licenseManager';
 import { BasecampService } from './services/basecamp';
+import { ProviderRegistry } from './services/providers/registry';
+import { TimesheetSyncQueue, NewSyncOp, SyncOutcome, diffTimesheetFields, sameTask, taskOf } from './services/providers/syncQueue';
+import { TimesheetReconciler } from './services/basecamp/reconcile';
+import { FocusScheduler, ActiveFocusBlock } from './services/focusScheduler';
+import { ActivityLog } from './services/activityLog';
+import { AppTracker, ForegroundWindow } from './services/appTracker';
+import { TimesheetReview } from './services/timesheetReview';
+import { BackgroundTimers, backgroundElapsed } from './services/backgroundTimers';
+import { DoNotDisturb } from './services/doNotDisturb';
+import { PeerStatusHistory } from './services/peerStatusHistory';
+import { MeetingReminders } from './services/meetingReminders';
+import { EmergencyAccess, AuditInput, describePolicy } from './services/emergencyAccess';
+import { isPostable, postedHours, roundingRuleFor } from '../shared/rounding';
+import { TeamDirectory } from './services/teamDirectory';
+import { Outbox } from './services/outbox';
 
 // ── Global Error Safety Net ─────────────────────────────────────
 // Catches any unhandled errors that slip through socket error handlers.
@@ -55,6 +74,21 @@ const persistence = new PersistenceService();
 const timeTracker = new TimeTracker(persistence);
 const licenseManager = new LicenseManager();
 const basecamp = new BasecampService();
+const focusScheduler = new FocusScheduler(persistence);
+const activityLog = new ActivityLog(persistence);
+const teamDirectory = new TeamDirectory(persistence);
+// Teammates' status changes over the last two weeks, for the team calendar.
+const peerStatusHistory = new PeerStatusHistory(persistence);
+const outbox = new Outbox(persistence);
+// Meetings agreed for a later slot, on either side of the request.
+const meetingReminders = new MeetingReminders(persistence);
+// Who may send emergency requests (an admin's team-wide policy), and the
+// local audit log of every one.
+const emergencyAccess = new EmergencyAccess(persistence, licenseManager);
+const providers = new ProviderRegistry();
+providers.register(basecamp);
+const timesheetSync = new TimesheetSyncQueue(persistence, providers, timeTracker);
+const reconciler = new TimesheetReconciler(persistence, basecamp.api, timeTracker, timesheetSync, () => basecamp.oauth.getActiveAccountId());
 
 // Timer state
 let timerInterval: NodeJS.Timeout | null = null;
@@ -65,24 +99,92 @@ let timerIsRunning = false;
 let timerTaskLabel = '';
 let timerCategory: string | undefined;
 let timerTargetDuration: number | undefined;
-let timerBasecamp: { accountId: number; projectId: number; todoId: number; todoListId?: number } | undefined;
+let timerTask: TaskRef | undefined;
+// Closed run intervals of the current session; the open one starts at
+// timerStartTime. Saved on the session so pauses keep their real times.
+let timerSegments: WorkSegment[] = [];
 // In-progress notes the user types into the mini-timer pill while the session
 // is active. Pre-fills the timesheet confirmation popup at stop time and is
 // saved to the local session record either way.
 let currentSessionNotes = '';
+// True when the running timer was started by a focus schedule, so the block's
+// end can stop it without touching a timer the user started themselves.
+let timerStartedBySchedule = false;
 let longRunGuardFired = false;
 const LONG_RUN_GUARD_SECONDS = 3 * 3600; // 3 hours — prompts the user to confirm they're still working
+// The running timer is checkpointed to disk on every state change and at
+// least this often while it ticks, so at most this much is lost to a crash.
+const TIMER_CHECKPOINT_INTERVAL_MS = 30_000;
+let lastTimerCheckpointAt = 0;
+// A timer the last run left behind (crash, reboot, quit mid-session), waiting
+// on the user's resume / stop / discard choice. Its checkpoint stays on disk
+// until then, so crashing again before answering doesn't lose it.
+let orphanedTimer: TimerCheckpoint | null = null;
+let timerRecoveryAlertWin: BrowserWindow | null = null;
+let timerRecoveryResponded = false;
+
+// Focus cycle: countdown work intervals alternating with breaks. Each work
+// interval is an ordinary timer (and its own session); a break runs on its
+// own tick with no timer behind it.
+let timerCycle: {
+  taskLabel: string;
+  category?: string;
+  task?: TaskRef;
+  projectName?: string;
+  round: number;
+  roundsPerLongBreak: number;
+  phase: TimerCyclePhase;
+  breakLength: number; // seconds; current break only
+  breakEndsAt: number; // ms; current break only
+  switchedStatus: boolean; // this break moved the user Focused → Available
+} | null = null;
+let cycleBreakInterval: NodeJS.Timeout | null = null;
+
+// Foreground-app tracker. Quiet while a timer (or a cycle break) is running.
+const appTracker = new AppTracker(persistence, () => timerIsRunning || timerIsPaused || !!timerCycle);
+// The rule behind the open "start timer?" prompt, if any.
+let appSuggestionRule: AppRule | null = null;
+let appSuggestionAlertWin: BrowserWindow | null = null;
+let appSuggestionResponded = false;
 
 // Pending timesheet entry awaiting user confirmation (one at a time — only one timer can run).
 // When `requireTimesheetConfirmation` is on, stopTimer parks the entry here and opens an
 // alert window. The alert posts back via IPC.TIMER_TIMESHEET_CONFIRM with the user's choice.
-let pendingTimesheetEntry: {
+interface PendingTimesheetEntry {
   sessionId: string;
   sessionDateStr: string;
-  basecamp: { accountId: number; projectId: number; todoId: number; todoListId?: number };
+  task: TaskRef;
   taskLabel: string;
   durationSec: number;
-} | null = null;
+  notes: string;
+}
+let pendingTimesheetEntry: PendingTimesheetEntry | null = null;
+
+// Sessions closed by switching tasks wait here for the timer to stop, so they
+// can be reviewed together with the last one. When more than one is up for
+// review they move to `pendingTimesheetReview` and a single batch alert opens
+// (IPC.TIMER_TIMESHEET_BATCH_CONFIRM).
+let unreviewedTimesheetEntries: PendingTimesheetEntry[] = [];
+let pendingTimesheetReview: PendingTimesheetEntry[] | null = null;
+// Stopped while another confirmation was open; reviewed when it closes.
+let waitingTimesheetEntries: PendingTimesheetEntry[] = [];
+
+// "Review later": with `timesheetReviewMode` = endOfDay, stopped sessions are
+// queued here instead of prompting, and one review window opens at the
+// configured time (or from the Timesheet tab).
+const timesheetReview = new TimesheetReview(persistence);
+let timesheetReviewWin: BrowserWindow | null = null;
+
+// Named timers running next to the primary one (the timer state above). The
+// popover lists them; each stop saves its own session.
+const backgroundTimers = new BackgroundTimers(persistence);
+
+// Do Not Disturb: every incoming alert asks it first; held ones come back
+// as one digest notification.
+const doNotDisturb = new DoNotDisturb(persistence, () => ({
+  focused: persistence.getUser()?.status === AvailabilityStatus.Focused,
+  meetingMode: meetingModeActive,
+}));
 
 // Track the active timesheet confirm + long-run-guard alert windows so we can
 // detect close-via-X (treat as discard + notify) and force-close on sign-out.
@@ -183,6 +285,19 @@ app.on('ready', async () => {
     user.isAdmin = licenseState.isValid && licenseState.isAdmin;
     persistence.saveUser(user);
     startNetworking(user);
+    // A timer still running when the last run ended (crash, reboot, quit).
+    // Ahead of the scheduler, which may start a timer of its own.
+    offerTimerRecovery();
+    startFocusScheduler();
+    activityLog.start();
+    peerStatusHistory.start();
+    appTracker.reconfigure();
+    timesheetReview.start();
+    backgroundTimers.start();
+    doNotDisturb.start();
+    meetingReminders.start();
+    // Replay timesheet writes left queued by the last run.
+    void timesheetSync.retry();
   }
 
   // v5.1.1 — Always open the Dashboard on launch. Previously the app would
@@ -247,7 +362,19 @@ app.on('child-process-gone', (_event, details) => {
 });
 
 app.on('before-quit', () => {
+  // Quitting (or an auto-update restart) leaves a running timer checkpointed
+  // rather than stopped; the next launch offers to resume it.
+  checkpointTimer();
+  backgroundTimers.stop();
   networking?.stop();
+  focusScheduler.stop();
+  activityLog.stop();
+  peerStatusHistory.stop();
+  appTracker.stop();
+  timesheetReview.stop();
+  doNotDisturb.stop();
+  meetingReminders.stop();
+  teamDirectory.flush();
   globalShortcut.unregisterAll();
 });
 
@@ -323,8 +450,34 @@ function togglePopover() {
 
 // ── Networking ─────────────────────────────────────────────────
 
+// Secure transport needs both the setting and a team key from a valid license.
+function secureTransportConfig(): SecureTransportConfig | null {
+  const settings = persistence.getSettings();
+  if (!settings.secureTransportEnabled) return null;
+  const teamKey = licenseManager.getTeamSecret();
+  if (!teamKey) return null;
+  return { identity: getDeviceIdentity(), teamKey, allowLegacy: settings.allowLegacyPeers };
+}
+
+// Re-read the config and renegotiate every connection. Called when the
+// setting or the license changes.
+function reconfigureSecureTransport() {
+  if (!networking) return;
+  networking.setSecureTransport(secureTransportConfig());
+  networking.restart();
+}
+
+function relayConfig(): RelayConfig | null {
+  const settings = persistence.getSettings();
+  if (!settings.relayEnabled) return null;
+  const address = parseRelayAddress(settings.relayAddress);
+  return address ? { ...address, token: settings.relayToken } : null;
+}
+
 function startNetworking(user: User) {
-  networking = new NetworkingService(user);
+  networking = new NetworkingService(user, secureTransportConfig(), relayConfig());
+  // The saved flag may predate the policy we hold.
+  syncEmergencyAccess();
 
   networking.on('peerDiscovered', (peer: User) => {
     // Free tier: cap at 3 visible peers
@@ -332,39 +485,119 @@ function startNetworking(user: User) {
       const currentPeers = networking?.getPeers() ?? [];
       if (currentPeers.length > 3) return; // Don't broadcast beyond cap
     }
+    teamDirectory.record(peer, true);
+    peerStatusHistory.record(peer.id, peer.status);
     broadcastToWindows(IPC.PEER_DISCOVERED, peer);
+    broadcastToWindows(IPC.TEAM_DIRECTORY_CHANGED, teamDirectory.list());
+    shareEmergencyPolicy(peer.id);
+  });
+
+  // Fires after peerDiscovered for a new peer, and on its own when a known
+  // peer reconnects over a fresh socket — either way, retry the outbox.
+  networking.on('peerConnected', (peer: User) => {
+    if (teamDirectory.has(peer.id)) deliverQueued(peer.id);
   });
 
   networking.on('peerUpdated', (peer: User) => {
+    // Only peers that made it past the discover cap are remembered
+    if (teamDirectory.has(peer.id)) {
+      teamDirectory.record(peer);
+      peerStatusHistory.record(peer.id, peer.status);
+    }
     broadcastToWindows(IPC.PEER_UPDATED, peer);
   });
 
   networking.on('peerLost', (peerId: string) => {
+    teamDirectory.markOffline(peerId);
+    peerStatusHistory.markOffline(peerId);
     broadcastToWindows(IPC.PEER_LOST, peerId);
+    broadcastToWindows(IPC.TEAM_DIRECTORY_CHANGED, teamDirectory.list());
   });
 
-  networking.on('meetingRequest', (data: { from: string; senderId: string; message?: string }) => {
+  networking.on('meetingRequest', (data: { from: string; senderId: string; message?: string; messageId?: string; slots?: MeetingSlot[] }) => {
+    if (data.messageId) incomingMeetingRequestIds.set(data.senderId, data.messageId);
+    else incomingMeetingRequestIds.delete(data.senderId);
+    // A new request replaces one the user snoozed.
+    unsnoozeMeetingRequest(data.senderId);
+    incomingMeetingRequests.set(data.senderId, data);
     broadcastToWindows(IPC.MEETING_REQUEST, data);
-    showMeetingRequestAlert(data);
+    if (doNotDisturb.admit({ kind: 'meetingRequest', senderId: data.senderId, senderName: data.from, text: data.message })) {
+      showMeetingRequestAlert(data);
+    }
   });
 
   networking.on('meetingRequestCancel', (senderId: string) => {
+    unsnoozeMeetingRequest(senderId);
+    incomingMeetingRequests.delete(senderId);
     broadcastToWindows(IPC.MEETING_REQUEST_CANCEL, senderId);
   });
 
-  networking.on('meetingResponse', (data: { accepted: boolean; from: string; message?: string }) => {
+  networking.on('meetingResponse', (data: { accepted: boolean; from: string; senderId: string; message?: string; slot?: MeetingSlot }) => {
+    if (data.accepted && data.slot?.at) scheduleMeetingReminder(data.senderId, data.from, data.slot);
     broadcastToWindows(IPC.MEETING_RESPONSE, data);
-    showMeetingResponseAlert(data);
+    if (doNotDisturb.admit({ kind: 'meetingResponse', senderId: data.senderId, senderName: data.from, text: data.message })) {
+      showMeetingResponseAlert(data);
+    }
+  });
+
+  // The recipient of our request suggested other times. It answers the
+  // request, so the Team tab stops showing it as pending.
+  networking.on('meetingCounter', (data: { from: string; senderId: string; message?: string; slots: MeetingSlot[] }) => {
+    broadcastToWindows(IPC.MEETING_RESPONSE, { accepted: false, from: data.from, senderId: data.senderId, message: data.message });
+    if (doNotDisturb.admit({ kind: 'meetingResponse', senderId: data.senderId, senderName: data.from, text: data.message })) {
+      showMeetingCounterAlert(data);
+    }
+  });
+
+  networking.on('meetingSnoozed', (data: { from: string; senderId: string; minutes: number }) => {
+    if (!doNotDisturb.admit({ kind: 'meetingResponse', senderId: data.senderId, senderName: data.from })) return;
+    try {
+      new Notification({
+        title: `${data.from} saw your meeting request`,
+        body: `They'll get back to you in ${data.minutes} min.`,
+        silent: true,
+      }).show();
+    } catch (err) {
+      console.warn('Failed to show meeting snooze notification:', err);
+    }
   });
 
   networking.on('emergencyRequest', (data: { from: string; senderId: string; message?: string }) => {
+    const me = persistence.getUser();
+    const audit = { actorId: data.senderId, actorName: data.from, targetId: me?.id, targetName: me?.name, reason: data.message };
+    // Outside the team policy it's only a meeting request.
+    const blocked = emergencyAccess.checkReceive(data.senderId, data.message);
+    if (blocked) {
+      auditEmergency({ ...audit, action: 'blocked', detail: `Shown as a meeting request: ${blocked}` });
+      broadcastToWindows(IPC.MEETING_REQUEST, data);
+      if (doNotDisturb.admit({ kind: 'meetingRequest', senderId: data.senderId, senderName: data.from, text: data.message })) {
+        showMeetingRequestAlert(data);
+      }
+      return;
+    }
+    auditEmergency({ ...audit, action: 'received' });
     broadcastToWindows(IPC.EMERGENCY_REQUEST, data);
-    showEmergencyAlert(data);
+    if (doNotDisturb.admit({ kind: 'emergency', senderId: data.senderId, senderName: data.from, text: data.message })) {
+      showEmergencyAlert(data);
+    }
   });
 
-  networking.on('emergencyAccess', (granted: boolean) => {
-    // Persist the updated canSendEmergency flag on this user
+  networking.on('emergencyAccess', (granted: boolean, from: { senderId: string; senderName: string }) => {
     const user = persistence.getUser();
+    auditEmergency({
+      action: granted ? 'granted' : 'revoked',
+      actorId: from.senderId,
+      actorName: from.senderName,
+      targetId: user?.id,
+      targetName: user?.name,
+    });
+    // With a team policy in place, the policy says who may send; a bare
+    // grant from an older client doesn't change that.
+    if (emergencyAccess.isEnforced()) {
+      syncEmergencyAccess();
+      return;
+    }
+    // Persist the updated canSendEmergency flag on this user
     if (user) {
       user.canSendEmergency = granted;
       persistence.saveUser(user);
@@ -372,10 +605,41 @@ function startNetworking(user: User) {
     broadcastToWindows(IPC.EMERGENCY_ACCESS, granted);
   });
 
-  networking.on('quickPing', (data: { senderId: string; senderName: string; message: string; timestamp: string }) => {
+  networking.on('emergencyPolicy', (data: unknown, fromId: string) => {
+    const policy = emergencyAccess.applyRemote(data);
+    if (!policy) return;
+    auditEmergency({
+      action: 'policyChanged',
+      actorId: policy.updatedById ?? fromId,
+      actorName: policy.updatedBy ?? peerName(fromId),
+      detail: describePolicy(policy),
+    });
+    shareEmergencyPolicy(null, fromId);
+    syncEmergencyAccess();
+  });
+
+  networking.on('quickPing', (data: { senderId: string; senderName: string; message: string; timestamp: string; messageId?: string; conversationId?: string }) => {
     handleIncomingPing(data);
   });
 
+  networking.on('pingReply', (reply: PingReply) => {
+    handleIncomingPingReply(reply);
+  });
+
+  networking.on('receipt', (data: { messageId: string; userId: string; state: DeliveryState }) => {
+    if (outbox.update(data.messageId, data.userId, data.state)) {
+      broadcastToWindows(IPC.OUTBOX_CHANGED, outbox.list());
+    }
+  });
+
+  networking.on('peerRejected', (data: { userId: string | null; name?: string; reason: string }) => {
+    broadcastToWindows(IPC.SECURITY_PEER_REJECTED, data);
+  });
+
+  networking.on('relayStatusChanged', (status: RelayStatus) => {
+    broadcastToWindows(IPC.RELAY_STATUS_CHANGED, status);
+  });
+
   networking.start();
 
   // Handle system sleep/wake — network interfaces change after resume
@@ -388,19 +652,28 @@ function startNetworking(user: User) {
     console.log('System suspending — tearing down local network advertising');
     networking?.prepareForSuspend();
     autoPauseTimer('suspend');
+    activityLog.suspended();
   });
 
   powerMonitor.on('resume', () => {
     console.log('System resumed — triggering network restart');
     networking?.handleSystemResume();
+    activityLog.woke();
     notifyTimerPausedOnResume();
+    // The scheduler's interval doesn't tick while asleep — catch up on any
+    // block that opened or closed during suspend.
+    focusScheduler.evaluate();
+    // Whatever took the network down may be gone — don't sit out the backoff.
+    void timesheetSync.retry();
   });
 
   powerMonitor.on('lock-screen', () => {
     autoPauseTimer('lock');
+    activityLog.locked();
   });
 
   powerMonitor.on('unlock-screen', () => {
+    activityLog.woke();
     notifyTimerPausedOnResume();
   });
 }
@@ -408,9 +681,9 @@ function startNetworking(user: User) {
 // Pause the running timer with a tagged reason. Idempotent — safe to call when
 // no timer is active. The renderer learns of it via the standard TIMER_AUTO_PAUSED
 // event with a `reason` field so the popover can show context.
-function autoPauseTimer(reason: 'suspend' | 'lock' | 'idle' | 'focus-loss') {
+function autoPauseTimer(reason: Exclude<PauseReason, 'manual' | 'restart'>) {
   if (timerIsRunning && !timerIsPaused) {
-    pauseTimer();
+    pauseTimer(reason);
     broadcastToWindows(IPC.TIMER_AUTO_PAUSED, { reason });
   }
 }
@@ -492,6 +765,10 @@ function showMiniTimer() {
 
 function pushTimerStateToMiniTimer() {
   if (!miniTimerWindow || miniTimerWindow.isDestroyed()) return;
+  if (timerCycle && timerCycle.phase !== 'work') {
+    miniTimerWindow.webContents.send(IPC.TIMER_UPDATE, cycleBreakState());
+    return;
+  }
   const elapsed = timerStartTime
     ? timerAccumulatedTime + (Date.now() - timerStartTime.getTime()) / 1000
     : timerAccumulatedTime;
@@ -502,6 +779,7 @@ function pushTimerStateToMiniTimer() {
     taskLabel: timerTaskLabel,
     category: timerCategory,
     targetDuration: timerTargetDuration,
+    cycle: cycleInfo(),
   });
 }
 
@@ -530,18 +808,18 @@ function bindAlertPayload(alertWin: BrowserWindow, payload: unknown) {
   });
 }
 
-function showMeetingRequestAlert(data: { from: string; senderId: string; message?: string }) {
+function showMeetingRequestAlert(data: { from: string; senderId: string; message?: string; slots?: MeetingSlot[] }) {
   const alert = createAlertWindow(getRendererURL('alert.html'), {
     width: 360,
-    height: 380,
+    height: data.slots ? 500 : 380,
   });
   bindAlertPayload(alert, { type: 'meetingRequest', ...data });
 }
 
-function showMeetingResponseAlert(data: { accepted: boolean; from: string; message?: string }) {
+function showMeetingResponseAlert(data: { accepted: boolean; from: string; message?: string; slot?: MeetingSlot }) {
   const alertWin = createAlertWindow(getRendererURL('alert.html'), {
     width: 360,
-    height: data.message ? 300 : 240,
+    height: (data.message ? 300 : 240) + (data.slot ? 30 : 0),
   });
   bindAlertPayload(alertWin, {
     type: 'meetingResponse',
@@ -549,6 +827,28 @@ function showMeetingResponseAlert(data: { accepted: boolean; from: string; messa
     senderId: '',
     accepted: data.accepted,
     message: data.message,
+    slot: data.slot,
+  });
+}
+
+function showMeetingCounterAlert(data: { from: string; senderId: string; message?: string; slots: MeetingSlot[] }) {
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 360,
+    height: 400,
+  });
+  bindAlertPayload(alertWin, { type: 'meetingCounter', ...data });
+}
+
+function showMeetingReminderAlert(reminder: MeetingReminder) {
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 360,
+    height: reminder.message ? 300 : 240,
+  });
+  bindAlertPayload(alertWin, {
+    type: 'meetingReminder',
+    from: reminder.withName,
+    senderId: reminder.withUserId,
+    message: reminder.message,
   });
 }
 
@@ -574,12 +874,44 @@ function showTimerCompleteAlert(taskLabel: string, targetDuration: number, statu
   });
 }
 
+// ── Do Not Disturb ──────────────────────────────────────────────
+
+const HELD_ALERT_LABELS: Record<HeldAlert['kind'], string> = {
+  meetingRequest: 'Meeting request',
+  meetingResponse: 'Answer to your meeting request',
+  meetingReminder: 'Meeting reminder',
+  emergency: 'Emergency request',
+  ping: 'Ping',
+  pingReply: 'Ping reply',
+  breakReminder: 'Break reminder',
+};
+
+// One notification for everything that was held: "Ping from Sam ×3", one
+// line per kind and sender. The pings and requests themselves reached the
+// app when they arrived; only their popups were held.
+doNotDisturb.on('digest', (alerts: HeldAlert[]) => {
+  const counts = new Map<string, number>();
+  for (const alert of alerts) {
+    const line = alert.senderName ? `${HELD_ALERT_LABELS[alert.kind]} from ${alert.senderName}` : HELD_ALERT_LABELS[alert.kind];
+    counts.set(line, (counts.get(line) ?? 0) + 1);
+  }
+  try {
+    new Notification({
+      title: alerts.length === 1 ? 'While you were in Do Not Disturb' : `${alerts.length} alerts while you were in Do Not Disturb`,
+      body: [...counts].map(([line, n]) => (n > 1 ? `${line} ×${n}` : line)).join('\n'),
+      silent: false,
+    }).show();
+  } catch (err) {
+    console.warn('Failed to show Do Not Disturb digest:', err);
+  }
+});
+
 // ── Break Reminders ─────────────────────────────────────────────
 
 function scheduleBreakReminder(intervalSeconds: number) {
   clearBreakReminder();
   breakReminderTimeout = setTimeout(() => {
-    showBreakReminderAlert();
+    if (doNotDisturb.admit({ kind: 'breakReminder' })) showBreakReminderAlert();
     broadcastToWindows(IPC.BREAK_REMINDER, {});
     // Re-schedule for next interval
     if (timerIsRunning && !timerIsPaused) {
@@ -715,73 +1047,429 @@ function cancelStatusRevertTimer() {
 // returns to their desk can catch up on what they missed.
 const RECENT_PINGS_MAX = 20;
 const RECENT_PINGS_TTL_MS = 6 * 60 * 60 * 1000; // 6 hours
-let recentPings: Array<{ id: string; senderId: string; senderName: string; message: string; timestamp: string }> = [];
+let recentPings: ReceivedPing[] = [];
+// Replies in both directions, threaded by conversationId (the original ping's
+// messageId). Same lifetime as recent pings.
+const PING_REPLIES_MAX = 100;
+let pingReplies: PingReply[] = [];
 
 function pruneRecentPings() {
   const cutoff = Date.now() - RECENT_PINGS_TTL_MS;
   recentPings = recentPings.filter((p) => new Date(p.timestamp).getTime() >= cutoff);
+  pingReplies = pingReplies.filter((r) => new Date(r.timestamp).getTime() >= cutoff);
 }
 
-function handleIncomingPing(data: { senderId: string; senderName: string; message: string; timestamp: string }) {
+function handleIncomingPing(data: { senderId: string; senderName: string; message: string; timestamp: string; messageId?: string; conversationId?: string }) {
   pruneRecentPings();
-  const ping = {
+  const ping: ReceivedPing = {
     id: crypto.randomUUID(),
     senderId: data.senderId,
     senderName: data.senderName,
     message: data.message,
     timestamp: data.timestamp,
+    messageId: data.messageId,
+    conversationId: data.conversationId,
   };
   recentPings = [ping, ...recentPings].slice(0, RECENT_PINGS_MAX);
+  broadcastToWindows(IPC.TEAM_PING_RECEIVED, ping);
+  if (!doNotDisturb.admit({ kind: 'ping', senderId: data.senderId, senderName: data.senderName, text: data.message })) return;
 
   // Native notification — visible across full-screen apps, plays a sound by default.
+  // On macOS it also offers the quick replies and a reply field, so a ping
+  // can be answered without opening the app.
   try {
-    new Notification({
+    const conversationId = data.conversationId;
+    const notification = new Notification({
       title: data.senderName,
       body: data.message,
       silent: false,
-    }).show();
+      ...(conversationId ? {
+        actions: PING_QUICK_REPLIES.map((text) => ({ type: 'button' as const, text })),
+        hasReply: true,
+        replyPlaceholder: 'Reply…',
+      } : {}),
+    });
+    if (conversationId) {
+      notification.on('action', (_e, index) => {
+        const text = PING_QUICK_REPLIES[index];
+        if (text) replyToPing(conversationId, data.senderId, text);
+      });
+      notification.on('reply', (_e, reply) => {
+        if (reply.trim()) replyToPing(conversationId, data.senderId, reply.trim());
+      });
+    }
+    notification.show();
   } catch (err) {
     console.warn('Failed to show ping notification:', err);
   }
+}
 
-  broadcastToWindows(IPC.TEAM_PING_RECEIVED, ping);
+function recordPingReply(reply: PingReply) {
+  pruneRecentPings();
+  pingReplies = [...pingReplies, reply].slice(-PING_REPLIES_MAX);
+  broadcastToWindows(IPC.TEAM_PING_REPLIES_CHANGED, pingReplies);
+}
+
+// Answer a ping, or the other side's reply to one. Goes through the outbox
+// like the ping itself, and counts as having read it.
+function replyToPing(conversationId: string, toId: string, message: string): PingReply[] {
+  const user = persistence.getUser();
+  if (!user) return pingReplies;
+  const { messageId } = queueOutbound('pingReply', [toId], message, conversationId);
+  sendPingReadReceipts(recentPings.filter((p) => p.conversationId === conversationId && p.senderId === toId));
+  recordPingReply({
+    id: messageId,
+    conversationId,
+    fromId: user.id,
+    fromName: user.name,
+    toId,
+    message,
+    timestamp: new Date().toISOString(),
+  });
+  return pingReplies;
+}
+
+function handleIncomingPingReply(reply: PingReply) {
+  recordPingReply(reply);
+  if (!doNotDisturb.admit({ kind: 'pingReply', senderId: reply.fromId, senderName: reply.fromName, text: reply.message })) return;
+  try {
+    new Notification({
+      title: `${reply.fromName} replied`,
+      body: reply.message,
+      silent: false,
+    }).show();
+  } catch (err) {
+    console.warn('Failed to show ping reply notification:', err);
+  }
+}
+
+function sendPingReadReceipts(pings: ReceivedPing[]) {
+  for (const ping of pings) {
+    if (ping.read || !ping.messageId) continue;
+    ping.read = true;
+    networking?.sendReadReceipt(ping.senderId, ping.messageId);
+  }
+}
+
+// ── Outbox (pings, replies + meeting requests to teammates who may be away) ──
+// Each recipient gets an entry; whatever can't be written right now waits
+// for their next connection. Receipts move entries on to delivered/read.
+
+// senderId → messageId of the meeting request they last sent us, so our
+// answer can double as a read receipt.
+const incomingMeetingRequestIds = new Map<string, string>();
+
+// Pings start a conversation under their own id; replies pass the ping's.
+function queueOutbound(kind: OutboundMessage['kind'], recipientIds: string[], text?: string, conversationId?: string, slots?: MeetingSlot[]): { messageId: string; sent: number } {
+  const now = new Date().toISOString();
+  const messageId = crypto.randomUUID();
+  const entries: OutboundMessage[] = recipientIds.map((recipientId) => ({
+    id: messageId,
+    kind,
+    conversationId: kind === 'ping' ? messageId : conversationId,
+    recipientId,
+    recipientName: peerName(recipientId),
+    text,
+    slots,
+    createdAt: now,
+    updatedAt: now,
+    state: 'queued',
+  }));
+  outbox.enqueue(entries);
+  let sent = 0;
+  for (const entry of entries) {
+    if (networking?.sendOutbound(entry)) {
+      outbox.update(entry.id, entry.recipientId, 'sent');
+      sent++;
+    }
+  }
+  broadcastToWindows(IPC.OUTBOX_CHANGED, outbox.list());
+  return { messageId, sent };
+}
+
+function peerName(userId: string): string {
+  return networking?.getPeers().find((p) => p.id === userId)?.name
+    ?? teamDirectory.list().find((e) => e.user.id === userId)?.user.name
+    ?? 'Unknown';
+}
+
+function deliverQueued(recipientId: string) {
+  if (!networking) return;
+  const pending = outbox.pendingFor(recipientId, networking.supportsReceipts(recipientId));
+  if (pending.length === 0) return;
+  console.log(`Outbox: delivering ${pending.length} queued message(s) to ${recipientId}`);
+  for (const entry of pending) {
+    if (networking.sendOutbound(entry)) outbox.update(entry.id, entry.recipientId, 'sent');
+  }
+  broadcastToWindows(IPC.OUTBOX_CHANGED, outbox.list());
+}
+
+// ── Emergency access ──────────────────────────────────────────
+// EmergencyAccess holds the team policy and the audit log; here the policy
+// is applied to this user and passed to peers, and admins' edits are turned
+// into grants for clients that predate policies.
+
+function auditEmergency(input: AuditInput) {
+  emergencyAccess.record(input);
+  broadcastToWindows(IPC.EMERGENCY_AUDIT_CHANGED, emergencyAccess.auditLog());
+}
+
+// Send the policy to one peer, or to everyone but `exceptId` — if there is
+// one and we can vouch for it (see EmergencyAccess.signedPolicy).
+function shareEmergencyPolicy(toId: string | null, exceptId?: string) {
+  const user = persistence.getUser();
+  const signed = user ? emergencyAccess.signedPolicy(user.id) : null;
+  if (signed) networking?.sendEmergencyPolicy(toId, signed, exceptId);
+}
+
+// Bring this user's canSendEmergency in line with the policy, so the Team tab
+// and popover offer the button only to those who may use it.
+function syncEmergencyAccess() {
+  broadcastToWindows(IPC.EMERGENCY_POLICY_CHANGED, emergencyAccess.getPolicy());
+  const user = persistence.getUser();
+  if (!user || !emergencyAccess.isEnforced()) return;
+  const allowed = emergencyAccess.mayAllow(user.id);
+  if (user.canSendEmergency === allowed) return;
+  user.canSendEmergency = allowed;
+  persistence.saveUser(user);
+  broadcastToWindows(IPC.EMERGENCY_ACCESS, allowed);
+}
+
+// An admin saved the policy. Teammates added or removed also get the old
+// grant message, which is all older clients understand.
+function saveEmergencyPolicy(draft: Pick<EmergencyPolicy, 'allowedSenderIds' | 'dailyLimit' | 'requireReason'>): EmergencyPolicy {
+  const admin = persistence.getUser();
+  if (!admin?.isAdmin) return emergencyAccess.getPolicy();
+  const before = emergencyAccess.getPolicy();
+  const policy = emergencyAccess.save(draft, admin);
+  const actor = { actorId: admin.id, actorName: admin.name };
+
+  const added = policy.allowedSenderIds.filter((id) => !before.allowedSenderIds.includes(id));
+  const removed = before.allowedSenderIds.filter((id) => !policy.allowedSenderIds.includes(id));
+  for (const id of added) {
+    networking?.grantEmergencyAccess(id, true);
+    auditEmergency({ ...actor, action: 'granted', targetId: id, targetName: peerName(id) });
+  }
+  for (const id of removed) {
+    networking?.grantEmergencyAccess(id, false);
+    auditEmergency({ ...actor, action: 'revoked', targetId: id, targetName: peerName(id) });
+  }
+  if (before.updatedAt === null || before.dailyLimit !== policy.dailyLimit || before.requireReason !== policy.requireReason) {
+    auditEmergency({ ...actor, action: 'policyChanged', detail: describePolicy(policy) });
+  }
+
+  shareEmergencyPolicy(null);
+  syncEmergencyAccess();
+  return policy;
+}
+
+// ── Meeting slots ─────────────────────────────────────────────
+// A meeting request can propose times instead of "now". The recipient picks
+// one, suggests others, or snoozes the request; an accepted slot becomes a
+// MeetingReminder on both sides, which alerts when it comes due.
+
+type IncomingMeetingRequest = { from: string; senderId: string; message?: string; slots?: MeetingSlot[] };
+
+// senderId → their latest meeting request, to show again after a snooze.
+const incomingMeetingRequests = new Map<string, IncomingMeetingRequest>();
+const snoozedMeetingRequests = new Map<string, NodeJS.Timeout>();
+
+// Answering a request (or suggesting other times) doubles as its read receipt.
+function markMeetingRequestRead(senderId: string) {
+  const requestId = incomingMeetingRequestIds.get(senderId);
+  if (!requestId) return;
+  networking?.sendReadReceipt(senderId, requestId);
+  incomingMeetingRequestIds.delete(senderId);
+}
+
+// Gives an accepted slot its time. "After my focus block" is when the
+// current scheduled block ends — or now, with none running.
+function resolveSlot(slot: MeetingSlot): MeetingSlot {
+  if (slot.at) return slot;
+  return { ...slot, at: focusScheduler.getActive()?.endsAt ?? new Date().toISOString() };
+}
+
+// The reminder repeats what the meeting is about: the message of the request
+// behind it, whichever side sent it.
+function scheduleMeetingReminder(withUserId: string, withName: string, slot: MeetingSlot) {
+  if (!slot.at) return;
+  const message = incomingMeetingRequests.get(withUserId)?.message
+    ?? outbox.list().find((e) => e.kind === 'meetingRequest' && e.recipientId === withUserId)?.text;
+  meetingReminders.add({ id: slot.id, withUserId, withName, at: slot.at, message });
+  broadcastToWindows(IPC.MEETING_REMINDERS_CHANGED, meetingReminders.list());
+}
+
+function snoozeMeetingRequest(senderId: string, minutes: number) {
+  unsnoozeMeetingRequest(senderId);
+  const request = incomingMeetingRequests.get(senderId);
+  if (!request) return;
+  snoozedMeetingRequests.set(senderId, setTimeout(() => {
+    snoozedMeetingRequests.delete(senderId);
+    if (incomingMeetingRequests.get(senderId) !== request) return;
+    if (doNotDisturb.admit({ kind: 'meetingRequest', senderId, senderName: request.from, text: request.message })) {
+      showMeetingRequestAlert(request);
+    }
+  }, minutes * 60 * 1000));
+}
+
+function unsnoozeMeetingRequest(senderId: string) {
+  const timer = snoozedMeetingRequests.get(senderId);
+  if (!timer) return;
+  clearTimeout(timer);
+  snoozedMeetingRequests.delete(senderId);
+}
+
+// Sign-out and reset.
+function clearSnoozedMeetingRequests() {
+  for (const timer of snoozedMeetingRequests.values()) clearTimeout(timer);
+  snoozedMeetingRequests.clear();
+  incomingMeetingRequests.clear();
+}
+
+meetingReminders.on('due', (reminder: MeetingReminder) => {
+  broadcastToWindows(IPC.MEETING_REMINDERS_CHANGED, meetingReminders.list());
+  if (doNotDisturb.admit({ kind: 'meetingReminder', senderName: reminder.withName, text: reminder.message })) {
+    showMeetingReminderAlert(reminder);
+  }
+});
+
+// ── Focus Schedules ───────────────────────────────────────────
+// The FocusScheduler decides when a block opens/closes; these handlers apply
+// it through the same status path as a manual change. The status the user had
+// before the block is restored at the end — but only if they're still
+// Focused, so a manual change mid-block isn't overridden.
+let scheduleRevertStatus: AvailabilityStatus | null = null;
+
+function toActiveBlockInfo(block: ActiveFocusBlock | null): ActiveFocusBlockInfo | null {
+  if (!block) return null;
+  return {
+    scheduleId: block.schedule.id,
+    name: block.schedule.name,
+    startsAt: block.startsAt,
+    endsAt: block.endsAt,
+  };
+}
+
+function applyScheduledStatus(status: AvailabilityStatus) {
+  const user = persistence.getUser();
+  if (!user) return;
+  user.status = status;
+  persistence.saveUser(user);
+  networking?.updateUser(user);
+  updateTrayIcon(user, 0, timerIsRunning);
+  broadcastToWindows(IPC.PEER_UPDATED, user);
+}
+
+focusScheduler.on('blockStarted', (block: ActiveFocusBlock) => {
+  const user = persistence.getUser();
+  if (!user) return;
+  const { schedule } = block;
+
+  // A pending auto-revert would flip us back to Available mid-block.
+  cancelStatusRevertTimer();
+  scheduleRevertStatus = user.status;
+  if (user.status !== AvailabilityStatus.Focused) {
+    applyScheduledStatus(AvailabilityStatus.Focused);
+  }
+
+  // Never hijack a timer the user already has running.
+  if (schedule.autoStartFocus && !timerIsRunning && !timerIsPaused) {
+    endCycle();
+    startTimer(schedule.taskLabel?.trim() || schedule.name);
+    timerStartedBySchedule = true;
+    checkpointTimer();
+  }
+
+  try {
+    new Notification({
+      title: 'Focus block started',
+      body: `${schedule.name} — until ${new Date(block.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}`,
+      silent: true,
+    }).show();
+  } catch (err) {
+    console.warn('Failed to show focus block notification:', err);
+  }
+  broadcastToWindows(IPC.SCHEDULES_ACTIVE_CHANGED, toActiveBlockInfo(block));
+});
+
+focusScheduler.on('blockEnded', () => {
+  if (timerStartedBySchedule && (timerIsRunning || timerIsPaused)) {
+    stopTimer();
+  }
+  const user = persistence.getUser();
+  if (user && user.status === AvailabilityStatus.Focused && scheduleRevertStatus && scheduleRevertStatus !== AvailabilityStatus.Focused) {
+    applyScheduledStatus(scheduleRevertStatus);
+  }
+  scheduleRevertStatus = null;
+  broadcastToWindows(IPC.SCHEDULES_ACTIVE_CHANGED, null);
+});
+
+function startFocusScheduler() {
+  scheduleRevertStatus = null;
+  focusScheduler.start();
+}
+
+// Loose shape check for schedules coming over IPC — the renderer builds them
+// from form inputs, so guard against NaN hours or an empty weekday list.
+function isValidSchedule(s: FocusSchedule): boolean {
+  const validTime = (t: { hour: number; minute: number } | undefined) =>
+    !!t && Number.isInteger(t.hour) && Number.isInteger(t.minute)
+    && t.hour >= 0 && t.hour <= 23 && t.minute >= 0 && t.minute <= 59;
+  if (typeof s?.id !== 'string' || !s.id) return false;
+  if (typeof s.name !== 'string' || !s.name.trim()) return false;
+  if (!validTime(s.startTime) || !validTime(s.endTime)) return false;
+  if (s.startTime.hour === s.endTime.hour && s.startTime.minute === s.endTime.minute) return false;
+  if (!Array.isArray(s.daysOfWeek) || s.daysOfWeek.some((d) => !Number.isInteger(d) || d < 0 || d > 6)) return false;
+  return true;
 }
 
 // ── Timer Logic ────────────────────────────────────────────────
 
-function startTimer(taskLabel: string, category?: string, targetDuration?: number, basecampLink?: { accountId: number; projectId: number; todoId: number; todoListId?: number; projectName?: string }) {
+function startTimer(taskLabel: string, category?: string, targetDuration?: number, task?: TaskRef, projectName?: string) {
+  // Starting something new settles a timer the last run left behind — its
+  // time is kept, ending at its last recorded activity.
+  if (orphanedTimer) settleOrphanedTimer('stop');
+
   timerTaskLabel = taskLabel;
   timerCategory = category;
   timerTargetDuration = targetDuration;
-  // Strip the projectName off the persisted timer state — it's only needed for
-  // the recents push and would otherwise leak into the session record.
-  timerBasecamp = basecampLink ? {
-    accountId: basecampLink.accountId,
-    projectId: basecampLink.projectId,
-    todoId: basecampLink.todoId,
-    todoListId: basecampLink.todoListId,
-  } : undefined;
+  timerTask = task ? taskOf(task) : undefined;
   timerStartTime = new Date();
   timerAccumulatedTime = 0;
+  timerSegments = [];
   timerIsPaused = false;
   timerIsRunning = true;
   currentSessionNotes = '';
+  timerStartedBySchedule = false;
   longRunGuardFired = false;
   meetingModeActive = false; // Meeting mode is per-session; reset for a fresh start
   broadcastToWindows(IPC.TIMER_MEETING_MODE_CHANGED, false);
-  showMiniTimer();
 
-  // Bump recents so the popover's quick-pick row stays useful.
-  if (basecampLink && basecampLink.todoListId !== undefined) {
+  pushRecentTask(taskLabel, task, projectName);
+
+  runTimer();
+  checkpointTimer();
+}
+
+// Bump recents so the popover's quick-pick row stays useful. Recents are
+// Basecamp to-dos.
+function pushRecentTask(taskLabel: string, task?: TaskRef, projectName?: string) {
+  if (task?.provider === 'basecamp' && task.ref.todoListId !== undefined) {
     persistence.pushRecentTodo({
-      todoId: basecampLink.todoId,
-      projectId: basecampLink.projectId,
-      todoListId: basecampLink.todoListId,
-      accountId: basecampLink.accountId,
+      todoId: task.ref.todoId,
+      projectId: task.ref.projectId,
+      todoListId: task.ref.todoListId,
+      accountId: task.ref.accountId,
       content: taskLabel,
-      projectName: basecampLink.projectName ?? '',
+      projectName: projectName ?? '',
     });
   }
+}
+
+// Side effects of a running timer — pill, break reminders, idle detection and
+// the 1s tick. Shared by a fresh start and a resumed checkpoint.
+function runTimer() {
+  showMiniTimer();
 
   // Start break reminders if enabled
   const settings = persistence.getSettings();
@@ -807,12 +1495,13 @@ function startTimer(taskLabel: string, category?: string, targetDuration?: numbe
         category: timerCategory,
         targetDuration: timerTargetDuration,
         remaining,
+        cycle: cycleInfo(),
       });
       // Don't bang-assert the user — sign-out may have just nulled it while
       // the interval was already scheduled. Skip the tray update in that
       // racing window; stopTimer's reset will clear the tray on next tick.
       const tickUser = persistence.getUser();
-      if (tickUser) updateTrayIcon(tickUser, elapsed, true);
+      if (tickUser) updateTrayIcon(tickUser, elapsed, true, cycleTrayLabel());
 
       // Long-run guard — once per session, prompt the user when they cross
       // the threshold so a forgotten timer can't quietly pollute the timesheet.
@@ -821,6 +1510,10 @@ function startTimer(taskLabel: string, category?: string, targetDuration?: numbe
         showLongRunAlert(elapsed);
       }
 
+      if (Date.now() - lastTimerCheckpointAt >= TIMER_CHECKPOINT_INTERVAL_MS) {
+        checkpointTimer();
+      }
+
       // Countdown complete
       if (timerTargetDuration && remaining !== undefined && remaining <= 0) {
         handleCountdownComplete();
@@ -829,6 +1522,146 @@ function startTimer(taskLabel: string, category?: string, targetDuration?: numbe
   }, 1000);
 }
 
+// Write the running timer to disk (see TimerCheckpoint). No-op when no timer
+// is running; stopTimer clears it.
+function checkpointTimer() {
+  if (!timerIsRunning) return;
+  persistence.saveTimerCheckpoint({
+    taskLabel: timerTaskLabel,
+    category: timerCategory,
+    targetDuration: timerTargetDuration,
+    task: timerTask,
+    notes: currentSessionNotes,
+    startedBySchedule: timerStartedBySchedule,
+    segments: timerSegments,
+    accumulatedSeconds: timerAccumulatedTime,
+    runningSince: timerStartTime && !timerIsPaused ? timerStartTime.toISOString() : null,
+    savedAt: new Date().toISOString(),
+    lastActivityAt: lastActivityIsoTime(),
+    cycle: timerCycle?.phase === 'work'
+      ? { round: timerCycle.round, roundsPerLongBreak: timerCycle.roundsPerLongBreak, projectName: timerCycle.projectName }
+      : undefined,
+  });
+  lastTimerCheckpointAt = Date.now();
+}
+
+// Elapsed seconds of a checkpointed timer as of `at` (clamped to the
+// checkpoint's own running window).
+function checkpointElapsed(cp: TimerCheckpoint, at: number): number {
+  if (!cp.runningSince) return cp.accumulatedSeconds;
+  const since = new Date(cp.runningSince).getTime();
+  const until = Math.min(Math.max(at, since), new Date(cp.savedAt).getTime());
+  return cp.accumulatedSeconds + (until - since) / 1000;
+}
+
+// Where "stop at last activity" ends a checkpointed timer: the last keyboard
+// or mouse activity it saw, but never before it last started running.
+function checkpointStopAt(cp: TimerCheckpoint): number {
+  const activity = new Date(cp.lastActivityAt).getTime();
+  return cp.runningSince ? Math.max(activity, new Date(cp.runningSince).getTime()) : activity;
+}
+
+// Load a checkpoint back into the timer state, frozen as of `at`: the segment
+// that was running is closed there, tagged with `pauseReason` if the session
+// goes on. A focus cycle's work interval comes back in its cycle and round.
+function loadTimerCheckpoint(cp: TimerCheckpoint, at: number, pauseReason?: PauseReason) {
+  timerTaskLabel = cp.taskLabel;
+  timerCategory = cp.category;
+  timerTargetDuration = cp.targetDuration;
+  timerTask = cp.task;
+  timerAccumulatedTime = checkpointElapsed(cp, at);
+  // A checkpoint from an older build has no segments; its time before
+  // `runningSince` stays in the total without one.
+  timerSegments = [...(cp.segments ?? [])];
+  if (cp.runningSince) {
+    const since = Date.parse(cp.runningSince);
+    const end = Math.min(Math.max(at, since), Date.parse(cp.savedAt));
+    timerSegments.push({ start: cp.runningSince, end: new Date(end).toISOString(), pauseReason });
+  }
+  timerStartTime = null;
+  timerIsPaused = false;
+  timerIsRunning = true;
+  currentSessionNotes = cp.notes;
+  timerStartedBySchedule = cp.startedBySchedule;
+  timerCycle = cp.cycle
+    ? {
+      taskLabel: cp.taskLabel,
+      category: cp.category,
+      task: cp.task,
+      projectName: cp.cycle.projectName,
+      round: cp.cycle.round,
+      roundsPerLongBreak: cp.cycle.roundsPerLongBreak,
+      phase: 'work',
+      breakLength: 0,
+      breakEndsAt: 0,
+      switchedStatus: false,
+    }
+    : null;
+}
+
+// On launch: a checkpoint still on disk means the last run never stopped its
+// timer. Ask what to do with it.
+function offerTimerRecovery() {
+  const cp = persistence.getTimerCheckpoint();
+  if (!cp) return;
+  orphanedTimer = cp;
+
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 380,
+    height: 340,
+  });
+  timerRecoveryAlertWin = alertWin;
+  timerRecoveryResponded = false;
+  const stopAt = checkpointStopAt(cp);
+  bindAlertPayload(alertWin, {
+    type: 'timerRecovery',
+    from: cp.taskLabel,
+    senderId: '',
+    elapsedSeconds: checkpointElapsed(cp, Date.parse(cp.savedAt)),
+    stopElapsedSeconds: checkpointElapsed(cp, stopAt),
+    lastActivityAt: new Date(stopAt).toISOString(),
+  });
+  // Closing without choosing keeps the time: stop at the last activity, the
+  // same as an explicit "stop".
+  alertWin.on('closed', () => {
+    if (timerRecoveryAlertWin === alertWin) timerRecoveryAlertWin = null;
+    if (timerRecoveryResponded) return;
+    if (orphanedTimer) settleOrphanedTimer('stop');
+  });
+}
+
+function settleOrphanedTimer(action: 'resume' | 'stop' | 'discard') {
+  const cp = orphanedTimer;
+  if (!cp) return;
+  orphanedTimer = null;
+  if (timerRecoveryAlertWin && !timerRecoveryAlertWin.isDestroyed()) {
+    timerRecoveryResponded = true;
+    timerRecoveryAlertWin.destroy();
+  }
+  timerRecoveryAlertWin = null;
+
+  if (action === 'discard') {
+    persistence.saveTimerCheckpoint(null);
+    return;
+  }
+  if (action === 'stop') {
+    // Runs the normal save + timesheet pipeline, dated when the work ended.
+    const stopAt = checkpointStopAt(cp);
+    loadTimerCheckpoint(cp, stopAt);
+    stopTimer(new Date(stopAt));
+    return;
+  }
+  // Resume from where the checkpoint left off; the time the app was down
+  // isn't counted.
+  loadTimerCheckpoint(cp, Date.parse(cp.savedAt), 'restart');
+  timerStartTime = new Date();
+  longRunGuardFired = timerAccumulatedTime >= LONG_RUN_GUARD_SECONDS;
+  meetingModeActive = false;
+  broadcastToWindows(IPC.TIMER_MEETING_MODE_CHANGED, false);
+  runTimer();
+  checkpointTimer();
+}
+
 // Compute when the user last had keyboard/mouse activity. Used to back-date
 // the timer stop time when they choose "Walked away at..." in the long-run alert.
 function lastActivityIsoTime(): string {
@@ -868,7 +1701,7 @@ function showLongRunAlert(elapsedSeconds: number) {
   });
 }
 
-function showTimesheetConfirmAlert(taskLabel: string, durationSec: number, notes?: string) {
+function showTimesheetConfirmAlert(taskLabel: string, durationSec: number, notes: string | undefined, rounding: RoundingRule) {
   const alertWin = createAlertWindow(getRendererURL('alert.html'), {
     width: 400,
     height: 460,
@@ -883,6 +1716,9 @@ function showTimesheetConfirmAlert(taskLabel: string, durationSec: number, notes
     // this into TimesheetConfirmPanel's `defaultNotes` so the user doesn't
     // have to retype what they jotted down mid-session.
     message: notes,
+    // For the "posts as" preview — the hours themselves are worked out again
+    // on confirm, from the time the user ends up with.
+    rounding,
   });
   // If the user dismisses the alert with Cmd+W / Alt+F4 / system X without
   // picking Post or Discard, the local session was already saved with
@@ -903,10 +1739,54 @@ function showTimesheetConfirmAlert(taskLabel: string, durationSec: number, notes
         console.warn('Failed to show timesheet-dropped notification:', err);
       }
     }
+    reviewWaitingTimesheetEntries();
+  });
+}
+
+// One review for every session a switched timer produced. Same close-via-X
+// handling as the single confirm: nothing is posted, the sessions stay local.
+function showTimesheetBatchAlert(entries: PendingTimesheetEntry[]) {
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 440,
+    height: Math.min(640, 200 + entries.length * 120),
+  });
+  timesheetConfirmAlertWin = alertWin;
+  pendingTimesheetReview = entries;
+  bindAlertPayload(alertWin, {
+    type: 'timesheetBatchConfirm',
+    from: '',
+    senderId: '',
+    reviewItems: entries.map((e) => ({ sessionId: e.sessionId, taskLabel: e.taskLabel, durationSec: e.durationSec, notes: e.notes, rounding: roundingFor(e.task) })),
+  });
+  alertWin.on('closed', () => {
+    if (timesheetConfirmAlertWin === alertWin) timesheetConfirmAlertWin = null;
+    if (pendingTimesheetReview === entries) {
+      pendingTimesheetReview = null;
+      try {
+        new Notification({
+          title: 'Sessions saved locally',
+          body: `${entries.length} sessions weren't sent to Basecamp. Use Settings → Backfill to sync later.`,
+          silent: false,
+        }).show();
+      } catch (err) {
+        console.warn('Failed to show timesheet-dropped notification:', err);
+      }
+    }
+    reviewWaitingTimesheetEntries();
   });
 }
 
 function handleCountdownComplete() {
+  // A focus-cycle work interval: log it and go on to the break. stopTimer
+  // ends any cycle, so carry this one past it.
+  if (timerCycle?.phase === 'work') {
+    const cycle = timerCycle;
+    stopTimer();
+    timerCycle = cycle;
+    startCycleBreak();
+    return;
+  }
+
   const user = persistence.getUser();
   let statusChanged = false;
 
@@ -927,14 +1807,144 @@ function handleCountdownComplete() {
   showTimerCompleteAlert(taskLabel, targetDuration || 0, statusChanged);
 }
 
-function pauseTimer() {
-  if (timerIsRunning && !timerIsPaused && timerStartTime) {
-    timerAccumulatedTime += (Date.now() - timerStartTime.getTime()) / 1000;
-    timerStartTime = null;
-    timerIsPaused = true;
-    clearBreakReminder();
-    const remaining = timerTargetDuration ? Math.max(0, timerTargetDuration - timerAccumulatedTime) : undefined;
-    broadcastToWindows(IPC.TIMER_UPDATE, {
+// ── Focus Cycles ───────────────────────────────────────────────
+
+function startCycle(taskLabel: string, category?: string, task?: TaskRef, projectName?: string) {
+  endCycle();
+  if (timerIsRunning || timerIsPaused) stopTimer();
+  const settings = persistence.getSettings();
+  timerCycle = {
+    taskLabel,
+    category,
+    task: task ? taskOf(task) : undefined,
+    projectName,
+    round: 1,
+    roundsPerLongBreak: Math.max(1, settings.cycleRoundsPerLongBreak),
+    phase: 'work',
+    breakLength: 0,
+    breakEndsAt: 0,
+    switchedStatus: false,
+  };
+  startTimer(taskLabel, category, settings.cycleWorkMinutes * 60, task, projectName);
+}
+
+function cycleInfo(): TimerCycleInfo | undefined {
+  if (!timerCycle) return undefined;
+  return { phase: timerCycle.phase, round: timerCycle.round, roundsPerLongBreak: timerCycle.roundsPerLongBreak };
+}
+
+// "2/4" while working, "Break" on a break — for the tray title.
+function cycleTrayLabel(): string | undefined {
+  if (!timerCycle) return undefined;
+  if (timerCycle.phase !== 'work') return 'Break';
+  return `${((timerCycle.round - 1) % timerCycle.roundsPerLongBreak) + 1}/${timerCycle.roundsPerLongBreak}`;
+}
+
+function setCycleStatus(status: AvailabilityStatus) {
+  const user = persistence.getUser();
+  if (!user) return;
+  user.status = status;
+  persistence.saveUser(user);
+  networking?.updateUser(user);
+  broadcastToWindows(IPC.PEER_UPDATED, user);
+}
+
+// Timer state for the current break. Reported as a running countdown so the
+// pill and popover keep showing it; `cycle.phase` tells them it's a break.
+function cycleBreakState() {
+  const c = timerCycle!;
+  const remaining = Math.max(0, (c.breakEndsAt - Date.now()) / 1000);
+  return {
+    elapsed: c.breakLength - remaining,
+    isRunning: true,
+    isPaused: false,
+    taskLabel: c.taskLabel,
+    targetDuration: c.breakLength,
+    remaining,
+    cycle: cycleInfo(),
+  };
+}
+
+function startCycleBreak() {
+  const c = timerCycle;
+  if (!c) return;
+  const settings = persistence.getSettings();
+  const long = c.round % c.roundsPerLongBreak === 0;
+  c.phase = long ? 'longBreak' : 'shortBreak';
+  c.breakLength = (long ? settings.cycleLongBreakMinutes : settings.cycleShortBreakMinutes) * 60;
+  c.breakEndsAt = Date.now() + c.breakLength * 1000;
+  if (persistence.getUser()?.status === AvailabilityStatus.Focused) {
+    setCycleStatus(AvailabilityStatus.Available);
+    c.switchedStatus = true;
+  }
+  showMiniTimer();
+  tickCycleBreak();
+  cycleBreakInterval = setInterval(tickCycleBreak, 1000);
+  try {
+    new Notification({
+      title: long ? 'Long break' : 'Break time',
+      body: `Round ${c.round} done — ${Math.round(c.breakLength / 60)} minutes off.`,
+      silent: false,
+    }).show();
+  } catch (err) {
+    console.warn('Failed to show cycle break notification:', err);
+  }
+}
+
+function tickCycleBreak() {
+  if (!timerCycle || timerCycle.phase === 'work') return;
+  const state = cycleBreakState();
+  broadcastToWindows(IPC.TIMER_UPDATE, state);
+  const user = persistence.getUser();
+  if (user) updateTrayIcon(user, state.remaining, true, cycleTrayLabel());
+  if (state.remaining <= 0) endCycleBreak();
+}
+
+// Break over: back to Focused (if the break took us off it) and into the
+// next work interval on the same task.
+function endCycleBreak() {
+  const c = timerCycle;
+  if (!c) return;
+  if (cycleBreakInterval) clearInterval(cycleBreakInterval);
+  cycleBreakInterval = null;
+  if (c.switchedStatus && persistence.getUser()?.status === AvailabilityStatus.Available) {
+    setCycleStatus(AvailabilityStatus.Focused);
+  }
+  c.switchedStatus = false;
+  c.round += 1;
+  c.phase = 'work';
+  startTimer(c.taskLabel, c.category, persistence.getSettings().cycleWorkMinutes * 60, c.task, c.projectName);
+}
+
+// Leave cycle mode. During a break there's no timer to stop, so clear what
+// the break put up here; during work the caller deals with the timer.
+function endCycle() {
+  const c = timerCycle;
+  if (!c) return;
+  timerCycle = null;
+  if (c.phase === 'work') return;
+  if (cycleBreakInterval) clearInterval(cycleBreakInterval);
+  cycleBreakInterval = null;
+  broadcastToWindows(IPC.TIMER_UPDATE, {
+    elapsed: 0,
+    isRunning: false,
+    isPaused: false,
+    taskLabel: '',
+  });
+  hideMiniTimer();
+  const user = persistence.getUser();
+  if (user) updateTrayIcon(user, 0, false);
+}
+
+function pauseTimer(reason: PauseReason = 'manual') {
+  if (timerIsRunning && !timerIsPaused && timerStartTime) {
+    timerAccumulatedTime += (Date.now() - timerStartTime.getTime()) / 1000;
+    timerSegments.push({ start: timerStartTime.toISOString(), end: new Date().toISOString(), pauseReason: reason });
+    timerStartTime = null;
+    timerIsPaused = true;
+    clearBreakReminder();
+    const remaining = timerTargetDuration ? Math.max(0, timerTargetDuration - timerAccumulatedTime) : undefined;
+    broadcastToWindows(IPC.TIMER_UPDATE, {
       elapsed: timerAccumulatedTime,
       isRunning: true,
       isPaused: true,
@@ -942,7 +1952,9 @@ function pauseTimer() {
       category: timerCategory,
       targetDuration: timerTargetDuration,
       remaining,
+      cycle: cycleInfo(),
     });
+    checkpointTimer();
   }
 }
 
@@ -955,113 +1967,81 @@ function resumeTimer() {
     if (settings.breakReminderEnabled) {
       scheduleBreakReminder(settings.breakReminderIntervalSeconds);
     }
+    checkpointTimer();
+  }
+}
+
+// Timesheet views refresh on this; Basecamp ones only for their own project.
+function broadcastTimesheetUpdated(task: TaskRef) {
+  broadcastToWindows('basecamp:timesheet-updated', task.provider === 'basecamp' ? { projectId: task.ref.projectId, todoId: task.ref.todoId } : {});
+}
+
+function roundingFor(task?: TaskRef): RoundingRule {
+  return roundingRuleFor(persistence.getSettings(), task);
+}
+
+// Hours to post for `seconds` worked on `task`, under its rounding rule.
+function hoursFor(seconds: number, task?: TaskRef): string {
+  return postedHours(seconds, roundingFor(task));
+}
+
+// Hand a timesheet write to the sync queue. Offline or a flaky provider just
+// leaves it queued (the Timesheet tab shows it as pending); only a write the
+// provider rejected outright is reported as an error.
+async function queueTimesheetWrite(op: NewSyncOp, context: string): Promise<SyncOutcome> {
+  const outcome = await timesheetSync.enqueue(op);
+  if (outcome === 'failed') {
+    const failed = timesheetSync.getStatus().ops.find((o) => o.sessionId === op.sessionId && o.status === 'failed');
+    broadcastToWindows('basecamp:timesheet-error', {
+      task: op.task,
+      context,
+      sessionId: op.sessionId,
+      message: failed?.lastError ?? `${providers.forTask(op.task).name} post failed`,
+    });
   }
+  return outcome;
 }
 
-function stopTimer() {
+// `endAt` back-dates the stop (a recovered timer ends at its last activity).
+function stopTimer(endAt = new Date()) {
   if (!timerIsRunning && !timerIsPaused) return;
 
   // Capture state and flip the running flag immediately so a concurrent caller
   // (e.g. countdown-complete firing while the user clicks Stop) early-returns
   // at the guard above instead of double-saving the session.
-  const capturedTaskLabel = timerTaskLabel;
-  const capturedCategory = timerCategory;
-  const capturedBasecamp = timerBasecamp;
-  const capturedNotes = currentSessionNotes.trim();
   const wasPaused = timerIsPaused;
   timerIsRunning = false;
   timerIsPaused = false;
 
-  let totalDuration = timerAccumulatedTime;
-  if (timerStartTime && !wasPaused) {
-    totalDuration += (Date.now() - timerStartTime.getTime()) / 1000;
-  }
-
-  // Save session — persist the Basecamp link so we can mark it synced later
-  // (and so it can be backfilled if the push fails or was never attempted).
-  const saved = timeTracker.addSession({
-    taskLabel: capturedTaskLabel,
-    category: capturedCategory,
-    duration: totalDuration,
-    startTime: new Date(Date.now() - totalDuration * 1000).toISOString(),
-    endTime: new Date().toISOString(),
-    basecamp: capturedBasecamp ? { ...capturedBasecamp, synced: false } : undefined,
-  });
-
-  // If the user jotted notes into the pill during the session, persist them
-  // on the local record now — independent of the Basecamp confirm flow, so
-  // sessions without a Basecamp link still keep the notes.
-  if (capturedNotes) {
-    timeTracker.updateSession(saved.sessionId, saved.dateStr, { notes: capturedNotes });
-  }
+  const unreviewed = settleTimerSession(saveTimerSession(endAt, wasPaused), endAt);
+  if (unreviewed) unreviewedTimesheetEntries.push(unreviewed);
+  // The session is on disk now — nothing left to recover.
+  persistence.saveTimerCheckpoint(null);
+  // Every session this timer produced (more than one if it was switched
+  // between tasks) goes up for review together.
+  reviewTimesheetEntries(takeUnreviewedTimesheetEntries());
 
-  // Decide what to do with the elapsed time on the Basecamp side.
-  // - sub-minute sessions: never sync (noise)
-  // - confirmation off: keep legacy auto-post behavior
-  // - confirmation on: park the entry as pending and open the confirmation alert.
-  //   The session is already saved locally with synced=false, so a Discard
-  //   leaves it as un-synced data the user can backfill later if they change their mind.
-  if (capturedBasecamp && totalDuration >= 60) {
-    const settings = persistence.getSettings();
-    const link = capturedBasecamp;
-
-    if (settings.requireTimesheetConfirmation) {
-      pendingTimesheetEntry = {
-        sessionId: saved.sessionId,
-        sessionDateStr: saved.dateStr,
-        basecamp: link,
-        taskLabel: capturedTaskLabel,
-        durationSec: totalDuration,
-      };
-      showTimesheetConfirmAlert(capturedTaskLabel, totalDuration, capturedNotes);
-    } else {
-      const hours = (totalDuration / 3600).toFixed(2);
-      const date = isoDateLocal(new Date());
-      // If the user wrote notes mid-session, use them as the timesheet entry
-      // description — same convention as the confirm-popup path.
-      const description = capturedNotes || capturedTaskLabel;
-      basecamp.api.createTimesheetEntry({
-        todoId: link.todoId,
-        date,
-        hours,
-        description,
-      }).then((entry) => {
-        // Persist the returned entry id alongside `synced: true` so future
-        // local edits/deletes can propagate to the same Basecamp entry.
-        const existing = timeTracker.findSession(saved.sessionId, saved.dateStr);
-        if (existing?.basecamp) {
-          timeTracker.updateSession(saved.sessionId, saved.dateStr, {
-            basecamp: { ...existing.basecamp, synced: true, entryId: entry.id },
-          });
-        } else {
-          timeTracker.markSessionSynced(saved.sessionId, saved.dateStr);
-        }
-        broadcastToWindows('basecamp:timesheet-updated', { projectId: link.projectId, todoId: link.todoId });
-      }).catch((err) => {
-        console.warn('Failed to create Basecamp timesheet entry:', err);
-        broadcastToWindows('basecamp:timesheet-error', {
-          projectId: link.projectId,
-          todoId: link.todoId,
-          context: 'auto-post-on-stop',
-          message: (err as Error)?.message ?? 'Basecamp post failed',
-        });
-      });
-    }
-  }
+  resetTimer();
+}
 
-  // Reset (timerIsRunning + timerIsPaused already flipped at the top to make
-  // stopTimer re-entrancy-safe).
+// Clear the primary timer's state and its side effects — after a stop, or
+// once it has moved to the background. The caller has already flipped
+// timerIsRunning + timerIsPaused (that's what makes stopTimer re-entrancy-safe).
+function resetTimer() {
   if (timerInterval) clearInterval(timerInterval);
   timerInterval = null;
   timerStartTime = null;
   clearBreakReminder();
   stopIdleDetection();
   timerAccumulatedTime = 0;
+  timerSegments = [];
+  endCycle();
   timerTaskLabel = '';
   timerCategory = undefined;
   timerTargetDuration = undefined;
-  timerBasecamp = undefined;
+  timerTask = undefined;
   currentSessionNotes = '';
+  timerStartedBySchedule = false;
   if (meetingModeActive) {
     meetingModeActive = false;
     broadcastToWindows(IPC.TIMER_MEETING_MODE_CHANGED, false);
@@ -1084,6 +2064,465 @@ function stopTimer() {
   if (user) updateTrayIcon(user, 0, false);
 }
 
+// Move the timer onto another task without stopping it. The time so far is
+// saved as its own session and timing carries on under the new task from the
+// same moment, keeping the break reminder, idle detection, meeting mode and
+// any countdown or focus cycle. Timesheet confirmations wait for the stop.
+function switchTimer(taskLabel: string, category?: string, task?: TaskRef, projectName?: string) {
+  // A cycle break has no timer behind it; the switch applies from the next
+  // work interval.
+  if (timerCycle) {
+    Object.assign(timerCycle, { taskLabel, category, task: task ? taskOf(task) : undefined, projectName });
+    if (timerCycle.phase !== 'work') {
+      tickCycleBreak();
+      return;
+    }
+  }
+  if (!timerIsRunning && !timerIsPaused) {
+    startTimer(taskLabel, category, undefined, task, projectName);
+    return;
+  }
+
+  const endAt = new Date();
+  const wasPaused = timerIsPaused;
+  const closed = saveTimerSession(endAt, wasPaused);
+  const unreviewed = settleTimerSession(closed, endAt);
+  if (unreviewed) unreviewedTimesheetEntries.push(unreviewed);
+
+  timerTaskLabel = taskLabel;
+  timerCategory = category;
+  timerTask = task ? taskOf(task) : undefined;
+  // A countdown keeps counting down across the switch.
+  if (timerTargetDuration) timerTargetDuration = Math.max(0, timerTargetDuration - closed.durationSec);
+  timerAccumulatedTime = 0;
+  timerSegments = [];
+  timerStartTime = wasPaused ? null : endAt;
+  currentSessionNotes = '';
+  // The block's timer was the task it started; the one switched to is the
+  // user's, and outlives the block.
+  timerStartedBySchedule = false;
+  longRunGuardFired = false;
+  pushRecentTask(taskLabel, task, projectName);
+
+  // Switching to something is getting back to work.
+  if (wasPaused) resumeTimer();
+  broadcastToWindows(IPC.TIMER_UPDATE, {
+    elapsed: 0,
+    isRunning: true,
+    isPaused: false,
+    taskLabel: timerTaskLabel,
+    category: timerCategory,
+    targetDuration: timerTargetDuration,
+    remaining: timerTargetDuration,
+    cycle: cycleInfo(),
+  });
+  checkpointTimer();
+}
+
+// Close the running segment at `endAt` and save everything timed so far as a
+// session, with any notes from the pill. Timer state is left for the caller
+// to reset (stopTimer) or carry on (switchTimer).
+function saveTimerSession(endAt: Date, wasPaused: boolean): Omit<PendingTimesheetEntry, 'task'> & { task?: TaskRef } {
+  const notes = currentSessionNotes.trim();
+  const segments = [...timerSegments];
+
+  let totalDuration = timerAccumulatedTime;
+  if (timerStartTime && !wasPaused) {
+    // A back-dated stop never ends before the running segment began.
+    const end = Math.max(endAt.getTime(), timerStartTime.getTime());
+    totalDuration += (end - timerStartTime.getTime()) / 1000;
+    segments.push({ start: timerStartTime.toISOString(), end: new Date(end).toISOString() });
+  }
+  // The last segment ends the session; nothing paused after it.
+  const last = segments[segments.length - 1];
+  if (last) segments[segments.length - 1] = { start: last.start, end: last.end };
+
+  // Save session — persist the task link so we can mark it synced later
+  // (and so it can be backfilled if the push fails or was never attempted).
+  const saved = timeTracker.addSession({
+    taskLabel: timerTaskLabel,
+    category: timerCategory,
+    duration: totalDuration,
+    startTime: segments[0]?.start ?? new Date(endAt.getTime() - totalDuration * 1000).toISOString(),
+    endTime: last?.end ?? endAt.toISOString(),
+    link: timerTask ? { ...timerTask, synced: false } : undefined,
+    segments: segments.length > 0 ? segments : undefined,
+  });
+
+  // If the user jotted notes into the pill during the session, persist them
+  // on the local record now — independent of the Basecamp confirm flow, so
+  // sessions without a Basecamp link still keep the notes.
+  if (notes) {
+    timeTracker.updateSession(saved.sessionId, saved.dateStr, { notes });
+  }
+
+  return {
+    sessionId: saved.sessionId,
+    sessionDateStr: saved.dateStr,
+    task: timerTask,
+    taskLabel: timerTaskLabel,
+    durationSec: totalDuration,
+    notes,
+  };
+}
+
+// Decide what to do with a saved session's time on the Basecamp side.
+// - sub-minute sessions: never sync (noise), unless the rule sets a minimum
+// - confirmation off: keep legacy auto-post behavior
+// - confirmation on: return the entry for the caller to hold until its timer
+//   stops, when reviewTimesheetEntries opens the confirmation alert — or,
+//   reviewing at the end of the day, queue it for that. The session is
+//   already saved locally with synced=false, so a Discard leaves it as
+//   un-synced data the user can backfill later if they change their mind.
+function settleTimerSession(closed: Omit<PendingTimesheetEntry, 'task'> & { task?: TaskRef }, endAt: Date): PendingTimesheetEntry | null {
+  const task = closed.task;
+  if (!task || !isPostable(closed.durationSec, roundingFor(task))) return null;
+
+  const settings = persistence.getSettings();
+  if (settings.requireTimesheetConfirmation && settings.timesheetReviewMode === 'endOfDay') {
+    timesheetReview.enqueue({ sessionId: closed.sessionId, sessionDate: closed.sessionDateStr });
+    return null;
+  }
+  if (settings.requireTimesheetConfirmation) {
+    return { ...closed, task };
+  }
+  const hours = hoursFor(closed.durationSec, task);
+  const date = isoDateLocal(endAt);
+  // If the user wrote notes mid-session, use them as the timesheet entry
+  // description — same convention as the confirm-popup path.
+  const description = closed.notes || closed.taskLabel;
+  void queueTimesheetWrite({
+    kind: 'create',
+    sessionId: closed.sessionId,
+    sessionDate: closed.sessionDateStr,
+    taskLabel: closed.taskLabel,
+    task,
+    fields: { date, hours, description },
+  }, 'auto-post-on-stop');
+  return null;
+}
+
+// Whatever stopped while the last confirmation was up.
+function reviewWaitingTimesheetEntries() {
+  if (waitingTimesheetEntries.length === 0) return;
+  const entries = waitingTimesheetEntries;
+  waitingTimesheetEntries = [];
+  reviewTimesheetEntries(entries);
+}
+
+function takeUnreviewedTimesheetEntries(): PendingTimesheetEntry[] {
+  const entries = unreviewedTimesheetEntries;
+  unreviewedTimesheetEntries = [];
+  return entries;
+}
+
+// Open the confirmation for what settleTimerSession handed back: the familiar
+// single-session alert for one, a batch review for several. With a background
+// timer, another stop can come while a confirmation is still open; those
+// entries wait for it to close rather than replace the one it's posting.
+function reviewTimesheetEntries(entries: PendingTimesheetEntry[]) {
+  if (timesheetConfirmAlertWin && !timesheetConfirmAlertWin.isDestroyed()) {
+    waitingTimesheetEntries.push(...entries);
+    return;
+  }
+  if (entries.length === 1) {
+    pendingTimesheetEntry = entries[0];
+    showTimesheetConfirmAlert(entries[0].taskLabel, entries[0].durationSec, entries[0].notes, roundingFor(entries[0].task));
+  } else if (entries.length > 1) {
+    showTimesheetBatchAlert(entries);
+  }
+}
+
+// Post a reviewed session with the hours and notes from the confirmation
+// (single, batch or end-of-day). `date` is the entry's day on the timesheet.
+// Null when the rule leaves nothing to post.
+async function postReviewedTimesheet(pending: PendingTimesheetEntry, edits: { hours?: string; notes?: string; durationSec?: number }, date = isoDateLocal(new Date())): Promise<SyncOutcome | null> {
+  const editedHours = edits.hours && /^\d+(\.\d+)?$/.test(edits.hours)
+    ? edits.hours
+    : (pending.durationSec / 3600).toFixed(2);
+  // The user-typed notes become the timesheet entry's description (the field
+  // Basecamp displays next to hours on the timesheet view). Fall back to the
+  // task label only if no notes were provided, so the entry isn't description-less.
+  const trimmedNotes = (edits.notes ?? '').trim();
+  const description = trimmedNotes || pending.taskLabel;
+
+  // v5.1.1 / v5.1.3 — When the user edits the duration in the Review-
+  // before-posting popup, that edited value goes to Basecamp BUT the local
+  // session's `duration` field was previously left at the original timer-
+  // measured value. v5.1.3 prefers the exact `durationSec` field (added so
+  // odd minute values like 1m, 5m, 20m don't drift up to 30s when round-
+  // tripped through the lossy decimal-hours toFixed(2) representation).
+  // Falls back to parsing `hours` for backwards compatibility.
+  const editedDurationSec = (typeof edits.durationSec === 'number' && Number.isFinite(edits.durationSec) && edits.durationSec > 0)
+    ? Math.round(edits.durationSec)
+    : Math.round(parseFloat(editedHours) * 3600);
+  const durationChanged = Number.isFinite(editedDurationSec)
+    && editedDurationSec > 0
+    && Math.abs(editedDurationSec - pending.durationSec) >= 1;
+  // The popup edits the time worked; the rounding rule turns it into the
+  // hours posted, while the session keeps the unrounded time.
+  const postedSec = durationChanged ? editedDurationSec : pending.durationSec;
+  const hours = hoursFor(postedSec, pending.task);
+
+  // Apply the notes and the edited duration (v5.1.1) locally first so the
+  // row reflects what's being posted even while the write is queued. The
+  // queue stamps entryId + synced=true once Basecamp accepts it, so the row
+  // in TimesheetTab can later be edited and propagate to the same entry.
+  if (trimmedNotes || durationChanged) {
+    timeTracker.updateSession(pending.sessionId, pending.sessionDateStr, {
+      ...(trimmedNotes ? { notes: trimmedNotes } : {}),
+      ...(durationChanged ? { duration: editedDurationSec } : {}),
+    });
+  }
+  // Rounded to nothing (short of one increment, rounding down): the session
+  // stays local, as if discarded.
+  if (!isPostable(postedSec, roundingFor(pending.task))) return null;
+  // B-2 fix: a rejected post is broadcast so the popover/dashboard can show
+  // a toast — the alert window has already closed by this point.
+  return queueTimesheetWrite({
+    kind: 'create',
+    sessionId: pending.sessionId,
+    sessionDate: pending.sessionDateStr,
+    taskLabel: pending.taskLabel,
+    task: pending.task,
+    fields: { date, hours, description },
+  }, 'confirm-post');
+}
+
+// ── End-of-day Review ──────────────────────────────────────────
+// TimesheetReview holds the queue and says when; the window and the posting
+// live here.
+
+timesheetReview.on('due', () => {
+  showDailyReview();
+});
+
+timesheetReview.on('changed', () => {
+  broadcastToWindows(IPC.TIMESHEET_REVIEW_CHANGED, dailyReviewEntries().length);
+});
+
+// Queued sessions that still need posting, read fresh — they may have been
+// edited, posted from the Timesheet tab or deleted since they stopped.
+// Anything that no longer needs a review drops out of the queue.
+function dailyReviewEntries(): PendingTimesheetEntry[] {
+  const entries: PendingTimesheetEntry[] = [];
+  const done: string[] = [];
+  for (const q of timesheetReview.getQueue()) {
+    const session = timeTracker.findSession(q.sessionId, q.sessionDate);
+    if (!session?.link || session.link.synced || session.link.entryId) {
+      done.push(q.sessionId);
+      continue;
+    }
+    entries.push({
+      sessionId: session.id,
+      sessionDateStr: q.sessionDate,
+      task: taskOf(session.link),
+      taskLabel: session.taskLabel,
+      durationSec: session.duration,
+      notes: session.notes ?? '',
+    });
+  }
+  if (done.length > 0) timesheetReview.remove(done);
+  return entries;
+}
+
+function showDailyReview() {
+  if (timesheetReviewWin && !timesheetReviewWin.isDestroyed()) {
+    timesheetReviewWin.show();
+    timesheetReviewWin.focus();
+    return;
+  }
+  const entries = dailyReviewEntries();
+  if (entries.length === 0) return;
+  const items: DailyReviewItem[] = entries.map((e) => ({
+    sessionId: e.sessionId,
+    taskLabel: e.taskLabel,
+    durationSec: e.durationSec,
+    notes: e.notes,
+    rounding: roundingFor(e.task),
+    date: e.sessionDateStr,
+    groupKey: JSON.stringify(e.task),
+  }));
+  const groups = new Set(items.map((i) => i.groupKey)).size;
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 480,
+    height: Math.min(720, 240 + items.length * 96 + groups * 32),
+  });
+  timesheetReviewWin = alertWin;
+  bindAlertPayload(alertWin, {
+    type: 'timesheetReview',
+    from: '',
+    senderId: '',
+    dailyReviewItems: items,
+  });
+  // Closed without posting ("Later", Cmd+W): the queue is left as it was.
+  alertWin.on('closed', () => {
+    if (timesheetReviewWin === alertWin) timesheetReviewWin = null;
+  });
+}
+
+// ── Background Timers ──────────────────────────────────────────
+// BackgroundTimers holds the list; the sessions, and swapping one with the
+// primary timer, happen here.
+
+backgroundTimers.on('changed', (timers: BackgroundTimer[]) => {
+  broadcastToWindows(IPC.BACKGROUND_TIMERS_CHANGED, timers);
+});
+
+function startBackgroundTimer(taskLabel: string, category?: string, task?: TaskRef, projectName?: string) {
+  backgroundTimers.add({
+    taskLabel,
+    category,
+    task: task ? taskOf(task) : undefined,
+    projectName,
+    notes: '',
+    segments: [],
+    accumulatedSeconds: 0,
+    runningSince: new Date().toISOString(),
+  });
+  pushRecentTask(taskLabel, task, projectName);
+}
+
+// Save a background timer's time as its own session and send it through the
+// same timesheet path as a primary stop.
+function stopBackgroundTimer(id: string, endAt = new Date()) {
+  const timer = backgroundTimers.remove(id);
+  if (!timer) return;
+  const segments = [...timer.segments];
+  if (timer.runningSince) {
+    const end = Math.max(endAt.getTime(), Date.parse(timer.runningSince));
+    segments.push({ start: timer.runningSince, end: new Date(end).toISOString() });
+  }
+  const last = segments[segments.length - 1];
+  if (last) segments[segments.length - 1] = { start: last.start, end: last.end };
+
+  const duration = backgroundElapsed(timer, endAt.getTime());
+  const notes = timer.notes.trim();
+  const saved = timeTracker.addSession({
+    taskLabel: timer.taskLabel,
+    category: timer.category,
+    duration,
+    startTime: segments[0]?.start ?? new Date(endAt.getTime() - duration * 1000).toISOString(),
+    endTime: last?.end ?? endAt.toISOString(),
+    notes: notes || undefined,
+    link: timer.task ? { ...timer.task, synced: false } : undefined,
+    segments: segments.length > 0 ? segments : undefined,
+  });
+  const unreviewed = settleTimerSession({
+    sessionId: saved.sessionId,
+    sessionDateStr: saved.dateStr,
+    task: timer.task,
+    taskLabel: timer.taskLabel,
+    durationSec: duration,
+    notes,
+  }, endAt);
+  if (unreviewed) reviewTimesheetEntries([unreviewed]);
+}
+
+// Move the primary timer to the background, time and notes intact. A
+// countdown or focus cycle doesn't come along — those are primary-only.
+function sendTimerToBackground() {
+  if (!timerIsRunning && !timerIsPaused) {
+    endCycle(); // a cycle break has no timer to move
+    return;
+  }
+  const wasPaused = timerIsPaused;
+  timerIsRunning = false;
+  timerIsPaused = false;
+
+  backgroundTimers.add({
+    taskLabel: timerTaskLabel,
+    category: timerCategory,
+    task: timerTask,
+    notes: currentSessionNotes,
+    segments: [...timerSegments],
+    accumulatedSeconds: timerAccumulatedTime,
+    runningSince: timerStartTime && !wasPaused ? timerStartTime.toISOString() : null,
+  });
+  persistence.saveTimerCheckpoint(null);
+  // The primary timer is done; whatever it switched through is up for review.
+  reviewTimesheetEntries(takeUnreviewedTimesheetEntries());
+  resetTimer();
+}
+
+// Make a background timer the primary one — on the pill and tray, with the
+// break reminder and idle detection. A primary timer already running takes
+// its place in the background.
+function promoteBackgroundTimer(id: string) {
+  const timer = backgroundTimers.get(id);
+  if (!timer) return;
+  if (orphanedTimer) settleOrphanedTimer('stop');
+  sendTimerToBackground();
+  backgroundTimers.remove(id);
+
+  timerTaskLabel = timer.taskLabel;
+  timerCategory = timer.category;
+  timerTargetDuration = undefined;
+  timerTask = timer.task;
+  timerSegments = [...timer.segments];
+  timerAccumulatedTime = timer.accumulatedSeconds;
+  // Promoting a paused timer is picking it back up.
+  timerStartTime = timer.runningSince ? new Date(timer.runningSince) : new Date();
+  timerIsPaused = false;
+  timerIsRunning = true;
+  currentSessionNotes = timer.notes;
+  timerStartedBySchedule = false;
+  longRunGuardFired = backgroundElapsed(timer) >= LONG_RUN_GUARD_SECONDS;
+  meetingModeActive = false;
+  broadcastToWindows(IPC.TIMER_MEETING_MODE_CHANGED, false);
+  runTimer();
+  checkpointTimer();
+}
+
+// ── App Tracker ────────────────────────────────────────────────
+// AppTracker decides when a rule has matched long enough; the prompt and the
+// timer start live here.
+
+appTracker.on('prompt', (rule: AppRule, fg: ForegroundWindow) => {
+  offerAppSuggestion(rule, fg);
+});
+
+appTracker.on('suggestionsChanged', (suggestions: SuggestedSession[]) => {
+  broadcastToWindows(IPC.APP_SUGGESTIONS_CHANGED, suggestions);
+});
+
+function offerAppSuggestion(rule: AppRule, fg: ForegroundWindow) {
+  if (appSuggestionAlertWin && !appSuggestionAlertWin.isDestroyed()) return;
+  const alertWin = createAlertWindow(getRendererURL('alert.html'), {
+    width: 360,
+    height: 260,
+  });
+  appSuggestionAlertWin = alertWin;
+  appSuggestionRule = rule;
+  appSuggestionResponded = false;
+  bindAlertPayload(alertWin, {
+    type: 'appSuggestion',
+    from: rule.taskLabel,
+    senderId: '',
+    message: fg.title ? `${fg.appName} — ${fg.title}` : fg.appName,
+  });
+  // Closing the prompt is a "not now".
+  alertWin.on('closed', () => {
+    if (appSuggestionAlertWin === alertWin) appSuggestionAlertWin = null;
+    if (appSuggestionResponded) return;
+    if (appSuggestionRule) appTracker.snooze(appSuggestionRule.id);
+    appSuggestionRule = null;
+  });
+}
+
+function respondAppSuggestion(action: 'start' | 'dismiss') {
+  const rule = appSuggestionRule;
+  appSuggestionRule = null;
+  if (!rule) return;
+  if (action === 'dismiss') {
+    appTracker.snooze(rule.id);
+    return;
+  }
+  // The prompt may have sat there while the user started something themselves.
+  if (timerIsRunning || timerIsPaused || timerCycle) return;
+  startTimer(rule.taskLabel, rule.category, undefined, rule.task);
+}
+
 // ── IPC Handlers ───────────────────────────────────────────────
 
 function setupIPC() {
@@ -1118,38 +2557,122 @@ function setupIPC() {
       persistence.saveUser(user);
       networking?.updateUser(user);
       broadcastToWindows(IPC.PEER_UPDATED, user);
+      // Leaving Focused may release held alerts.
+      doNotDisturb.evaluate();
     }
   });
 
   // Meeting requests
-  ipcMain.on(IPC.SEND_MEETING_REQUEST, (_e, data: { userId: string; message?: string }) => {
-    networking?.sendMeetingRequest(data.userId, data.message);
+  ipcMain.on(IPC.SEND_MEETING_REQUEST, (_e, data: { userId: string; message?: string; slots?: MeetingSlot[] }) => {
+    queueOutbound('meetingRequest', [data.userId], data.message, undefined, data.slots?.length ? data.slots : undefined);
   });
 
   ipcMain.on(IPC.CANCEL_MEETING_REQUEST, (_e, userId: string) => {
+    if (outbox.cancelMeetingRequests(userId)) broadcastToWindows(IPC.OUTBOX_CHANGED, outbox.list());
     networking?.cancelMeetingRequest(userId);
   });
 
-  ipcMain.on(IPC.RESPOND_MEETING_REQUEST, (_e, data: { userId: string; accepted: boolean; message?: string }) => {
-    networking?.respondToMeetingRequest(data.userId, data.accepted, data.message);
+  // Also answers a counter-proposal, with one of its slots.
+  ipcMain.on(IPC.RESPOND_MEETING_REQUEST, (_e, data: { userId: string; accepted: boolean; message?: string; slot?: MeetingSlot }) => {
+    markMeetingRequestRead(data.userId);
+    const slot = data.accepted && data.slot ? resolveSlot(data.slot) : undefined;
+    if (slot) scheduleMeetingReminder(data.userId, peerName(data.userId), slot);
+    unsnoozeMeetingRequest(data.userId);
+    incomingMeetingRequests.delete(data.userId);
+    networking?.respondToMeetingRequest(data.userId, data.accepted, data.message, slot);
+  });
+
+  ipcMain.on(IPC.COUNTER_MEETING_REQUEST, (_e, data: { userId: string; slots: MeetingSlot[]; message?: string }) => {
+    if (data.slots.length === 0) return;
+    markMeetingRequestRead(data.userId);
+    unsnoozeMeetingRequest(data.userId);
+    networking?.counterMeetingRequest(data.userId, data.slots, data.message);
+  });
+
+  ipcMain.on(IPC.SNOOZE_MEETING_REQUEST, (_e, data: { userId: string; minutes: number }) => {
+    snoozeMeetingRequest(data.userId, data.minutes);
+    networking?.snoozeMeetingRequest(data.userId, data.minutes);
   });
 
-  ipcMain.on(IPC.SEND_EMERGENCY_REQUEST, (_e, data: { userId: string; message?: string }) => {
-    networking?.sendEmergencyRequest(data.userId, data.message);
+  ipcMain.handle(IPC.MEETING_REMINDERS_GET, () => meetingReminders.list());
+
+  ipcMain.handle(IPC.MEETING_REMINDERS_REMOVE, (_e, id: string) => {
+    if (meetingReminders.remove(id)) broadcastToWindows(IPC.MEETING_REMINDERS_CHANGED, meetingReminders.list());
+    return meetingReminders.list();
+  });
+
+  ipcMain.handle(IPC.SEND_EMERGENCY_REQUEST, (_e, data: { userId: string; message?: string }) => {
+    const user = persistence.getUser();
+    if (!user || !networking) return { ok: false, error: 'Not connected' };
+    const reason = data.message?.trim() || undefined;
+    const audit = { actorId: user.id, actorName: user.name, targetId: data.userId, targetName: peerName(data.userId), reason };
+    const error = emergencyAccess.checkSend(user, reason);
+    if (error) {
+      auditEmergency({ ...audit, action: 'blocked', detail: error });
+      return { ok: false, error };
+    }
+    networking.sendEmergencyRequest(data.userId, reason);
+    auditEmergency({ ...audit, action: 'sent' });
+    return { ok: true };
   });
 
+  // The popover's one-teammate toggle — an edit to the policy's sender list.
   ipcMain.on(IPC.GRANT_EMERGENCY_ACCESS, (_e, data: { userId: string; granted: boolean }) => {
-    networking?.grantEmergencyAccess(data.userId, data.granted);
+    const policy = emergencyAccess.getPolicy();
+    const allowedSenderIds = data.granted
+      ? [...policy.allowedSenderIds, data.userId]
+      : policy.allowedSenderIds.filter((id) => id !== data.userId);
+    saveEmergencyPolicy({ ...policy, allowedSenderIds });
   });
 
+  ipcMain.handle(IPC.EMERGENCY_POLICY_GET, () => emergencyAccess.getPolicy());
+
+  ipcMain.handle(IPC.EMERGENCY_POLICY_SAVE, (_e, draft: Pick<EmergencyPolicy, 'allowedSenderIds' | 'dailyLimit' | 'requireReason'>) => saveEmergencyPolicy(draft));
+
+  // The issuer's attestation for this device's identity key, which lets
+  // teammates accept policies this admin signs.
+  ipcMain.handle(IPC.EMERGENCY_ATTESTATION_GET, () => {
+    return licenseManager.getAdminAttestationState(identityFingerprint(getDeviceIdentity().publicKey));
+  });
+
+  ipcMain.handle(IPC.EMERGENCY_ATTESTATION_SAVE, (_e, attestation: string) => {
+    const state = licenseManager.activateAdminAttestation(String(attestation), identityFingerprint(getDeviceIdentity().publicKey));
+    if (state.isValid) shareEmergencyPolicy(null);
+    return state;
+  });
+
+  ipcMain.handle(IPC.EMERGENCY_AUDIT_GET, () => emergencyAccess.auditLog());
+
   // Timer
-  ipcMain.on(IPC.START_TIMER, (_e, data: { taskLabel: string; category?: string; targetDuration?: number; basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number; projectName?: string } }) => {
-    startTimer(data.taskLabel, data.category, data.targetDuration, data.basecamp);
+  ipcMain.on(IPC.START_TIMER, (_e, data: { taskLabel: string; category?: string; targetDuration?: number; task?: TaskRef; projectName?: string; cycle?: boolean }) => {
+    if (data.cycle) {
+      startCycle(data.taskLabel, data.category, data.task, data.projectName);
+      return;
+    }
+    endCycle();
+    startTimer(data.taskLabel, data.category, data.targetDuration, data.task, data.projectName);
+  });
+  ipcMain.on(IPC.STOP_TIMER, () => {
+    endCycle(); // a break has no timer for stopTimer to stop
+    stopTimer();
+  });
+  ipcMain.on(IPC.SWITCH_TIMER, (_e, data: { taskLabel: string; category?: string; task?: TaskRef; projectName?: string }) => {
+    switchTimer(data.taskLabel, data.category, data.task, data.projectName);
   });
-  ipcMain.on(IPC.STOP_TIMER, () => stopTimer());
   ipcMain.on(IPC.PAUSE_TIMER, () => pauseTimer());
   ipcMain.on(IPC.RESUME_TIMER, () => resumeTimer());
 
+  ipcMain.handle(IPC.BACKGROUND_TIMERS_GET, () => backgroundTimers.list());
+  ipcMain.on(IPC.BACKGROUND_TIMER_START, (_e, data: { taskLabel: string; category?: string; task?: TaskRef; projectName?: string }) => {
+    if (typeof data?.taskLabel !== 'string' || !data.taskLabel.trim()) return;
+    startBackgroundTimer(data.taskLabel.trim(), data.category, data.task, data.projectName);
+  });
+  ipcMain.on(IPC.BACKGROUND_TIMER_STOP, (_e, id: string) => stopBackgroundTimer(id));
+  ipcMain.on(IPC.BACKGROUND_TIMER_PAUSE, (_e, id: string) => backgroundTimers.pause(id));
+  ipcMain.on(IPC.BACKGROUND_TIMER_RESUME, (_e, id: string) => backgroundTimers.resume(id));
+  ipcMain.on(IPC.BACKGROUND_TIMER_PROMOTE, (_e, id: string) => promoteBackgroundTimer(id));
+  ipcMain.on(IPC.TIMER_SEND_TO_BACKGROUND, () => sendTimerToBackground());
+
   // Pre-flight Basecamp timesheet confirmation. Renderer sends back the user's
   // chosen action (post or discard) plus an optional edited hours value.
   // - post:    create the entry, mark the local session synced, refresh badges
@@ -1160,72 +2683,53 @@ function setupIPC() {
     pendingTimesheetEntry = null;
 
     if (payload.action === 'discard') return;
+    await postReviewedTimesheet(pending, payload);
+  });
 
-    const link = pending.basecamp;
-    const hours = payload.hours && /^\d+(\.\d+)?$/.test(payload.hours)
-      ? payload.hours
-      : (pending.durationSec / 3600).toFixed(2);
-    const date = isoDateLocal(new Date());
-    // The user-typed notes become the timesheet entry's description (the field
-    // Basecamp displays next to hours on the timesheet view). Fall back to the
-    // task label only if no notes were provided, so the entry isn't description-less.
-    const trimmedNotes = (payload.notes ?? '').trim();
-    const description = trimmedNotes || pending.taskLabel;
-
-    // v5.1.1 / v5.1.3 — When the user edits the duration in the Review-
-    // before-posting popup, that edited value goes to Basecamp BUT the local
-    // session's `duration` field was previously left at the original timer-
-    // measured value. v5.1.3 prefers the exact `durationSec` field (added so
-    // odd minute values like 1m, 5m, 20m don't drift up to 30s when round-
-    // tripped through the lossy decimal-hours toFixed(2) representation).
-    // Falls back to parsing `hours` for backwards compatibility.
-    const editedDurationSec = (typeof payload.durationSec === 'number' && Number.isFinite(payload.durationSec) && payload.durationSec > 0)
-      ? Math.round(payload.durationSec)
-      : Math.round(parseFloat(hours) * 3600);
-    const durationChanged = Number.isFinite(editedDurationSec)
-      && editedDurationSec > 0
-      && Math.abs(editedDurationSec - pending.durationSec) >= 1;
+  // Batch review after a switched timer stops — one choice per session.
+  // Sessions left unticked stay local and unsynced, like a Discard.
+  ipcMain.on(IPC.TIMER_TIMESHEET_BATCH_CONFIRM, async (_e, choices: TimesheetReviewChoice[]) => {
+    const entries = pendingTimesheetReview;
+    if (!entries) return;
+    pendingTimesheetReview = null;
+
+    for (const entry of entries) {
+      const choice = choices.find((c) => c.sessionId === entry.sessionId);
+      if (!choice?.post) continue;
+      await postReviewedTimesheet(entry, choice);
+    }
+  });
 
+  // End-of-day review. Every session in `choices` leaves the queue; the
+  // ticked ones are posted on their own day, the rest stay local and
+  // unsynced, like a Discard.
+  ipcMain.handle(IPC.TIMESHEET_REVIEW_GET_COUNT, () => dailyReviewEntries().length);
+  ipcMain.on(IPC.TIMESHEET_REVIEW_OPEN, () => showDailyReview());
+  ipcMain.on(IPC.TIMESHEET_REVIEW_SUBMIT, async (_e, choices: TimesheetReviewChoice[]) => {
+    const entries = dailyReviewEntries();
+    timesheetReview.remove(choices.map((c) => c.sessionId));
+
+    let synced = 0;
+    let queued = 0;
+    for (const entry of entries) {
+      const choice = choices.find((c) => c.sessionId === entry.sessionId);
+      if (!choice?.post) continue;
+      const outcome = await postReviewedTimesheet(entry, choice, entry.sessionDateStr);
+      if (outcome === 'synced') synced += 1;
+      else if (outcome === 'queued') queued += 1;
+    }
+    // Rejected posts already surface as a toast via queueTimesheetWrite.
+    if (synced + queued === 0) return;
     try {
-      const entry = await basecamp.api.createTimesheetEntry({
-        todoId: link.todoId,
-        date,
-        hours,
-        description,
-      });
-      // Persist entryId alongside synced=true and the notes in one write,
-      // so the row in TimesheetTab can later be edited and propagate to the
-      // same Basecamp entry. Also propagate the edited duration (v5.1.1) so
-      // the local row reflects what was actually posted to Basecamp.
-      const existing = timeTracker.findSession(pending.sessionId, pending.sessionDateStr);
-      if (existing?.basecamp) {
-        timeTracker.updateSession(pending.sessionId, pending.sessionDateStr, {
-          basecamp: { ...existing.basecamp, synced: true, entryId: entry.id },
-          ...(trimmedNotes ? { notes: trimmedNotes } : {}),
-          ...(durationChanged ? { duration: editedDurationSec } : {}),
-        });
-      } else {
-        timeTracker.markSessionSynced(pending.sessionId, pending.sessionDateStr);
-        if (trimmedNotes || durationChanged) {
-          timeTracker.updateSession(pending.sessionId, pending.sessionDateStr, {
-            ...(trimmedNotes ? { notes: trimmedNotes } : {}),
-            ...(durationChanged ? { duration: editedDurationSec } : {}),
-          });
-        }
-      }
-      broadcastToWindows('basecamp:timesheet-updated', { projectId: link.projectId, todoId: link.todoId });
+      new Notification({
+        title: 'Timesheet posted',
+        body: queued > 0
+          ? `${synced} of ${synced + queued} entries are on Basecamp; the rest will sync when it's reachable.`
+          : `${synced} ${synced === 1 ? 'entry' : 'entries'} posted to Basecamp.`,
+        silent: true,
+      }).show();
     } catch (err) {
-      // B-2 fix: surface the failure via a broadcast so the popover/dashboard
-      // can show a toast. The alert window has already closed by this point,
-      // so the user has no way to know the post failed without this signal.
-      console.warn('Failed to create confirmed Basecamp timesheet entry:', err);
-      broadcastToWindows('basecamp:timesheet-error', {
-        projectId: link.projectId,
-        todoId: link.todoId,
-        context: 'confirm-post',
-        sessionId: pending.sessionId,
-        message: (err as Error)?.message ?? 'Basecamp post failed',
-      });
+      console.warn('Failed to show timesheet-review notification:', err);
     }
   });
 
@@ -1242,15 +2746,10 @@ function setupIPC() {
       return;
     }
     if (payload.action === 'backdate' && payload.stopAtIso) {
-      // Recompute the elapsed duration as if the user had stopped at the
-      // back-dated moment, then call stopTimer() so the existing save+sync
-      // pipeline runs unchanged.
-      const stopAt = new Date(payload.stopAtIso).getTime();
-      const startWall = timerStartTime ? timerStartTime.getTime() - timerAccumulatedTime * 1000 : Date.now();
-      const correctedDuration = Math.max(0, (stopAt - startWall) / 1000);
-      timerAccumulatedTime = correctedDuration;
-      timerStartTime = null; // freeze elapsed at the corrected value
-      stopTimer();
+      // Stop as if the user had stopped at the back-dated moment, so the
+      // existing save+sync pipeline runs unchanged and the last segment
+      // ends there.
+      stopTimer(new Date(payload.stopAtIso));
     }
   });
 
@@ -1270,25 +2769,40 @@ function setupIPC() {
       return;
     }
     if (payload.action === 'pause') {
-      pauseTimer();
+      pauseTimer('idle');
       broadcastToWindows(IPC.TIMER_AUTO_PAUSED, { reason: 'idle-confirmed' });
       return;
     }
     if (payload.action === 'backdate' && payload.stopAtIso) {
-      const stopAt = new Date(payload.stopAtIso).getTime();
-      const startWall = timerStartTime ? timerStartTime.getTime() - timerAccumulatedTime * 1000 : Date.now();
-      const correctedDuration = Math.max(0, (stopAt - startWall) / 1000);
-      timerAccumulatedTime = correctedDuration;
-      timerStartTime = null;
-      stopTimer();
+      stopTimer(new Date(payload.stopAtIso));
     }
   });
 
+  // Recovery prompt for a timer the last run left behind.
+  ipcMain.on(IPC.TIMER_RECOVERY_RESPONSE, (_e, payload: { action: 'resume' | 'stop' | 'discard' }) => {
+    timerRecoveryResponded = true;
+    settleOrphanedTimer(payload.action);
+  });
+
+  ipcMain.on(IPC.APP_SUGGESTION_RESPONSE, (_e, payload: { action: 'start' | 'dismiss' }) => {
+    appSuggestionResponded = true;
+    respondAppSuggestion(payload.action);
+  });
+
+  ipcMain.handle(IPC.APP_TRACKER_GET_STATUS, () => appTracker.getStatus());
+  ipcMain.handle(IPC.APP_SUGGESTIONS_GET, () => appTracker.getSuggestions());
+  ipcMain.handle(IPC.APP_SUGGESTIONS_DISMISS, (_e, id: string) => {
+    const next = appTracker.dismissSuggestion(id);
+    broadcastToWindows(IPC.APP_SUGGESTIONS_CHANGED, next);
+    return next;
+  });
+
   // Meeting mode toggle from the pill's expanded panel. Per-session flag —
   // cleared on stopTimer (in startTimer too, so a fresh session starts off).
   ipcMain.on(IPC.TIMER_SET_MEETING_MODE, (_e, on: boolean) => {
     meetingModeActive = !!on;
     broadcastToWindows(IPC.TIMER_MEETING_MODE_CHANGED, meetingModeActive);
+    doNotDisturb.evaluate();
   });
 
   // Time tracking data
@@ -1297,41 +2811,52 @@ function setupIPC() {
     return timeTracker.getAllRecords();
   });
   // v5.1.0 — Delete a session locally AND remove the matching Basecamp entry
-  // when one exists. Reads `entryId` before the local delete (otherwise we'd
-  // lose it). Local delete always proceeds; Basecamp errors are surfaced.
+  // when one exists (or a create for it is still queued). Reads `entryId`
+  // before the local delete (otherwise we'd lose it). Local delete always
+  // proceeds; the Basecamp delete is queued if it can't go out right now.
   ipcMain.handle(IPC.DELETE_SESSION, async (_e, data: { sessionId: string; date: string }) => {
     const session = timeTracker.findSession(data.sessionId, data.date);
     if (!session) return { ok: false, error: 'Session not found', basecampDeleted: false };
 
-    const entryId = session.basecamp?.entryId;
-    const hadBasecampLink = !!session.basecamp?.todoId;
+    const link = session.link;
+    const entryId = link?.entryId;
+    const hadBasecampLink = !!link;
+    const pendingCreate = timesheetSync.hasPendingCreate(data.sessionId);
 
     timeTracker.deleteSession(data.sessionId, data.date);
 
-    if (!entryId) {
+    if (!link || (!entryId && !pendingCreate)) {
       // Either never linked, or pre-v5.1.0 session without persisted entryId.
       // Renderer surfaces a "fix manually" warning when hadBasecampLink is true.
       return { ok: true, basecampDeleted: false, hadBasecampLink };
     }
 
-    try {
-      await basecamp.api.deleteTimesheetEntry(entryId);
-      broadcastToWindows('basecamp:timesheet-updated', { projectId: session.basecamp?.projectId, todoId: session.basecamp?.todoId });
-      return { ok: true, basecampDeleted: true, hadBasecampLink };
-    } catch (err) {
-      console.warn('Local session deleted but Basecamp delete failed:', err);
-      return { ok: true, basecampDeleted: false, hadBasecampLink, error: (err as Error)?.message ?? 'Basecamp delete failed' };
+    const outcome = await queueTimesheetWrite({
+      kind: 'delete',
+      sessionId: data.sessionId,
+      sessionDate: data.date,
+      taskLabel: session.taskLabel,
+      task: taskOf(link),
+      entryId,
+      baseline: link.lastPushed,
+    }, 'delete');
+    if (outcome === 'failed') {
+      const failed = timesheetSync.getStatus().ops.find((o) => o.sessionId === data.sessionId);
+      return { ok: true, basecampDeleted: false, hadBasecampLink, error: failed?.lastError ?? `${providers.forTask(link).name} delete failed` };
     }
+    return { ok: true, basecampDeleted: outcome === 'synced', basecampQueued: outcome !== 'synced', hadBasecampLink };
   });
 
-  // v5.1.0 — Propagate session edits to Basecamp. Four cases based on the
-  // before/after Basecamp link state:
-  //   A. linked → same todo  → PUT /timesheet_entries/{id} (update in place)
-  //   B. linked → diff todo  → DELETE old + POST new (re-parenting via API is not supported)
-  //   C. linked → unlinked   → DELETE the entry
-  //   D. unlinked → linked   → POST new entry
-  // On any Basecamp failure, local session is flipped to synced=false so the
-  // Backfill flow can retry later.
+  // v5.1.0 — Propagate session edits to the linked provider. Four cases based
+  // on the before/after link state:
+  //   A. linked → same task  → update the entry in place (if date, hours or notes changed)
+  //   B. linked → diff task  → delete old + create new (entries can't be re-parented)
+  //   C. linked → unlinked   → delete the entry
+  //   D. unlinked → linked   → create a new entry
+  // "Linked" includes a session whose create is still queued. Writes go
+  // through the sync queue, so offline edits are replayed later and an entry
+  // edited on the provider's side meanwhile surfaces as a conflict instead of
+  // being overwritten.
   ipcMain.handle(IPC.UPDATE_SESSION, async (_e, data: { sessionId: string; date: string; updates: Parameters<typeof timeTracker.updateSession>[2] }) => {
     const before = timeTracker.findSession(data.sessionId, data.date);
     if (!before) return { ok: false, error: 'Session not found' };
@@ -1340,107 +2865,97 @@ function setupIPC() {
     const after = timeTracker.findSession(data.sessionId, data.date);
     if (!after) return { ok: false, error: 'Session vanished after update' };
 
-    const bcBefore = before.basecamp;
-    const bcAfter = after.basecamp;
-    const bcConnected = basecamp.oauth.isConnected();
-    const hadEntry = !!bcBefore?.entryId;
-
-    // Default response — only mutated if we actually round-trip to Basecamp.
-    let basecampSynced = !!bcBefore?.synced;
-    let basecampError: string | undefined;
-    let needsManualFix = false;
+    const linkBefore = before.link;
+    const linkAfter = after.link;
+    const hadEntry = !!linkBefore?.entryId;
+    const onProvider = hadEntry || timesheetSync.hasPendingCreate(data.sessionId);
 
     const date = data.date.split('T')[0];
     const description = (after.notes && after.notes.trim()) || after.taskLabel;
-    const hours = (after.duration / 3600).toFixed(2);
+    const hours = hoursFor(after.duration, linkAfter);
+    const fields = { date, hours, description };
+    const base = { sessionId: data.sessionId, sessionDate: data.date, taskLabel: after.taskLabel };
+    const sameLink = !!linkBefore && !!linkAfter && sameTask(linkBefore, linkAfter);
+    // Edited down to less than the rule posts (under a minute, or short of
+    // one increment rounding down): no entry, rather than a zero-hour one.
+    const postable = !!linkAfter && isPostable(after.duration, roundingFor(linkAfter));
+
+    const ops: NewSyncOp[] = [];
+    let needsManualFix = false;
 
-    try {
-      // Case A — same link: update in place
-      if (hadEntry && bcAfter?.todoId && bcAfter.todoId === bcBefore!.todoId) {
-        if (!bcConnected) throw new Error('Basecamp is not connected');
-        const updated = await basecamp.api.updateTimesheetEntry(bcBefore!.entryId!, { date, hours, description });
-        timeTracker.updateSession(data.sessionId, data.date, {
-          basecamp: { ...bcAfter, synced: true, entryId: updated.id },
-        });
-        basecampSynced = true;
-      }
-      // Case B — re-link to a different todo: delete old, create new
-      else if (hadEntry && bcAfter?.todoId && bcAfter.todoId !== bcBefore!.todoId) {
-        if (!bcConnected) throw new Error('Basecamp is not connected');
-        try {
-          await basecamp.api.deleteTimesheetEntry(bcBefore!.entryId!);
-        } catch (delErr) {
-          // Old entry orphaned — log but don't block. User can fix manually.
-          console.warn('Re-link: failed to delete old Basecamp entry; continuing with create:', delErr);
-        }
-        const created = await basecamp.api.createTimesheetEntry({
-          todoId: bcAfter.todoId,
-          date,
-          hours,
-          description,
-        });
-        timeTracker.updateSession(data.sessionId, data.date, {
-          basecamp: { ...bcAfter, synced: true, entryId: created.id },
-        });
-        basecampSynced = true;
-      }
-      // Case C — unlink an entry that was on Basecamp: delete the entry
-      else if (hadEntry && !bcAfter) {
-        if (!bcConnected) throw new Error('Basecamp is not connected');
-        await basecamp.api.deleteTimesheetEntry(bcBefore!.entryId!);
-      }
-      // Case D — newly linked: create a fresh entry
-      else if (!bcBefore && bcAfter?.todoId) {
-        if (!bcConnected) throw new Error('Basecamp is not connected');
-        const created = await basecamp.api.createTimesheetEntry({
-          todoId: bcAfter.todoId,
-          date,
-          hours,
-          description,
-        });
-        timeTracker.updateSession(data.sessionId, data.date, {
-          basecamp: { ...bcAfter, synced: true, entryId: created.id },
-        });
-        basecampSynced = true;
-      }
-      // Pre-v5.1.0 session: synced locally but no entryId on file. Can't push
-      // to Basecamp without knowing which entry to update. Flag so the UI can
-      // tell the user to also fix in Basecamp manually.
-      else if (bcAfter?.todoId && bcAfter.synced && !hadEntry) {
-        needsManualFix = true;
+    // Case A — same link: update in place, if anything the entry shows
+    // changed. A billing-only edit stays local.
+    if (onProvider && sameLink && !postable) {
+      ops.push({ ...base, kind: 'delete', task: taskOf(linkBefore!), entryId: linkBefore!.entryId, baseline: linkBefore!.lastPushed });
+    }
+    else if (onProvider && sameLink) {
+      const pushed = linkBefore!.lastPushed ?? {
+        date,
+        hours: hoursFor(before.duration, linkBefore),
+        description: (before.notes && before.notes.trim()) || before.taskLabel,
+      };
+      if (diffTimesheetFields(fields, pushed).length > 0) {
+        ops.push({ ...base, kind: 'update', task: taskOf(linkAfter!), entryId: linkBefore!.entryId, fields, baseline: linkBefore!.lastPushed });
       }
+    }
+    // Case B — re-link to a different task: delete old, create new
+    else if (onProvider && linkAfter && !sameLink) {
+      ops.push({ ...base, kind: 'delete', task: taskOf(linkBefore!), entryId: linkBefore!.entryId, baseline: linkBefore!.lastPushed });
+      if (postable) ops.push({ ...base, kind: 'create', task: taskOf(linkAfter), fields });
+    }
+    // Case C — unlink an entry that was posted: delete the entry
+    else if (onProvider && !linkAfter) {
+      ops.push({ ...base, kind: 'delete', task: taskOf(linkBefore!), entryId: linkBefore!.entryId, baseline: linkBefore!.lastPushed });
+    }
+    // Case D — newly linked: create a fresh entry, if it's worth one
+    else if (!linkBefore && linkAfter && postable) {
+      ops.push({ ...base, kind: 'create', task: taskOf(linkAfter), fields });
+    }
+    // Pre-v5.1.0 Basecamp session: synced locally but no entryId on file.
+    // Can't push without knowing which entry to update. Flag so the UI can
+    // tell the user to also fix it in Basecamp manually.
+    else if (linkAfter?.synced && !hadEntry) {
+      needsManualFix = true;
+    }
 
-      // Broadcast so other surfaces refresh their views.
-      const touchedProject = bcAfter?.projectId ?? bcBefore?.projectId;
-      if (touchedProject) {
-        broadcastToWindows('basecamp:timesheet-updated', { projectId: touchedProject, todoId: bcAfter?.todoId });
-      }
-    } catch (err) {
-      // Reset synced so Backfill (or a future retry) catches the drift.
-      const current = timeTracker.findSession(data.sessionId, data.date);
-      if (current?.basecamp) {
-        timeTracker.updateSession(data.sessionId, data.date, {
-          basecamp: { ...current.basecamp, synced: false },
-        });
-      }
-      basecampSynced = false;
-      basecampError = (err as Error)?.message ?? 'Basecamp update failed';
-      console.warn('UPDATE_SESSION: Basecamp propagation failed:', err);
+    if (ops.length === 0) {
+      return { ok: true, basecampSynced: !!linkBefore?.synced, needsManualFix };
+    }
+
+    // Unsynced until the queue confirms. A new task (or no entry at all)
+    // means the old id belongs to the entry being deleted.
+    if (linkAfter) {
+      const relinked = !!linkBefore && !sameLink;
+      timeTracker.updateSession(data.sessionId, data.date, {
+        link: relinked || !postable
+          ? { ...linkAfter, synced: false, entryId: undefined, lastPushed: undefined }
+          : { ...linkAfter, synced: false },
+      });
     }
 
+    let outcome: SyncOutcome = 'synced';
+    for (const op of ops) outcome = await queueTimesheetWrite(op, 'edit');
+
+    const failed = outcome === 'failed'
+      ? timesheetSync.getStatus().ops.find((o) => o.sessionId === data.sessionId && o.status === 'failed')
+      : undefined;
     return {
       ok: true,
-      basecampSynced,
+      basecampSynced: outcome === 'synced',
+      basecampQueued: outcome === 'queued',
+      basecampConflict: outcome === 'conflict',
       needsManualFix,
-      error: basecampError,
+      error: failed ? (failed.lastError ?? `${providers.forTask(failed.task).name} update failed`) : undefined,
     };
   });
 
+  ipcMain.handle(IPC.ACTIVITY_GET_DAY, (_e, date: string) => activityLog.spansFor(date));
+
   // Manual session add — for "+ Add session" / "Log time" flows. Different
   // from `stopTimer`'s implicit add in that the user explicitly typed the
-  // duration, so we skip the confirm popup and post to Basecamp directly
-  // (if the entry has a Basecamp link + meets the sub-minute floor).
-  ipcMain.handle(IPC.ADD_SESSION, async (_e, data: { taskLabel: string; duration: number; startTime: string; notes?: string; basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number } | null }) => {
+  // duration, so we skip the confirm popup and post to the provider directly
+  // (if the entry is linked to a task + meets the sub-minute floor).
+  ipcMain.handle(IPC.ADD_SESSION, async (_e, data: { taskLabel: string; duration: number; startTime: string; notes?: string; category?: string; task?: TaskRef | null }) => {
     try {
       if (!data.taskLabel?.trim()) return { ok: false, error: 'Task label required' };
       if (!Number.isFinite(data.duration) || data.duration <= 0) return { ok: false, error: 'Duration must be greater than zero' };
@@ -1448,49 +2963,32 @@ function setupIPC() {
       if (Number.isNaN(start.getTime())) return { ok: false, error: 'Invalid start time' };
       const endTime = new Date(start.getTime() + data.duration * 1000).toISOString();
       const trimmedNotes = (data.notes ?? '').trim();
-      const link = data.basecamp ?? undefined;
+      const task = data.task ? taskOf(data.task) : undefined;
       const saved = timeTracker.addSession({
         taskLabel: data.taskLabel.trim(),
+        category: data.category || undefined,
         duration: data.duration,
         startTime: start.toISOString(),
         endTime,
         notes: trimmedNotes || undefined,
-        basecamp: link ? { ...link, synced: false } : undefined,
+        link: task ? { ...task, synced: false } : undefined,
       });
 
-      // Auto-post to Basecamp when the entry is linked + >= 1 minute. No
-      // confirm popup — the user already typed the duration. If the post
-      // fails, the session stays unsynced and Backfill picks it up.
-      if (link && data.duration >= 60) {
-        const hours = (data.duration / 3600).toFixed(2);
+      // Auto-post when the entry is linked and worth posting. No confirm popup —
+      // the user already typed the duration. If the post can't go out now it
+      // stays queued and replays on its own.
+      if (task && isPostable(data.duration, roundingFor(task))) {
+        const hours = hoursFor(data.duration, task);
         const date = isoDateLocal(start);
         const description = trimmedNotes || data.taskLabel.trim();
-        basecamp.api.createTimesheetEntry({
-          todoId: link.todoId,
-          date,
-          hours,
-          description,
-        }).then((entry) => {
-          // Persist entryId so future edits/deletes can propagate.
-          const existing = timeTracker.findSession(saved.sessionId, saved.dateStr);
-          if (existing?.basecamp) {
-            timeTracker.updateSession(saved.sessionId, saved.dateStr, {
-              basecamp: { ...existing.basecamp, synced: true, entryId: entry.id },
-            });
-          } else {
-            timeTracker.markSessionSynced(saved.sessionId, saved.dateStr);
-          }
-          broadcastToWindows('basecamp:timesheet-updated', { projectId: link.projectId, todoId: link.todoId });
-        }).catch((err) => {
-          console.warn('Manual session: Basecamp post failed (Backfill will retry):', err);
-          broadcastToWindows('basecamp:timesheet-error', {
-            projectId: link.projectId,
-            todoId: link.todoId,
-            context: 'manual-add',
-            sessionId: saved.sessionId,
-            message: (err as Error)?.message ?? 'Basecamp post failed',
-          });
-        });
+        void queueTimesheetWrite({
+          kind: 'create',
+          sessionId: saved.sessionId,
+          sessionDate: saved.dateStr,
+          taskLabel: data.taskLabel.trim(),
+          task,
+          fields: { date, hours, description },
+        }, 'manual-add');
       }
 
       return { ok: true, sessionId: saved.sessionId, dateStr: saved.dateStr };
@@ -1566,6 +3064,14 @@ function setupIPC() {
   ipcMain.on('user:login', (_e, user: User) => {
     persistence.saveUser(user);
     startNetworking(user);
+    startFocusScheduler();
+    activityLog.start();
+    peerStatusHistory.start();
+    appTracker.reconfigure();
+    timesheetReview.start();
+    backgroundTimers.start();
+    doNotDisturb.start();
+    meetingReminders.start();
     updateTrayIcon(user, 0, false);
     // Re-register global shortcuts here too — sign-out unregisters them, and
     // a fresh app start hits the registerShortcuts() call from app.on('ready'),
@@ -1584,12 +3090,18 @@ function setupIPC() {
   // todos, recent pings, in-flight timers, or registered global shortcuts.
   ipcMain.on('user:sign-out', () => {
     // Persist any in-progress timer session before tearing down state.
+    endCycle();
     if (timerIsRunning || timerIsPaused) {
       stopTimer();
     }
+    settleOrphanedTimer('stop');
+    for (const t of backgroundTimers.list()) stopBackgroundTimer(t.id);
     // Drop any pending timesheet confirmation; the local session was already
     // saved with synced=false so it can still be backfilled if reconnected.
     pendingTimesheetEntry = null;
+    pendingTimesheetReview = null;
+    unreviewedTimesheetEntries = [];
+    waitingTimesheetEntries = [];
     currentSessionNotes = '';
     longRunGuardFired = false;
 
@@ -1607,15 +3119,36 @@ function setupIPC() {
       idlePromptAlertWin.destroy();
     }
     idlePromptAlertWin = null;
+    if (timesheetReviewWin && !timesheetReviewWin.isDestroyed()) {
+      timesheetReviewWin.destroy();
+    }
+    timesheetReviewWin = null;
     meetingModeActive = false;
 
     // Stop background timers tied to user state.
     cancelStatusRevertTimer();
     clearBreakReminder();
     stopIdleDetection();
-
-    // Clear in-memory ping history and hide the floating pill.
+    focusScheduler.stop();
+    activityLog.stop();
+    peerStatusHistory.stop();
+    appTracker.stop();
+    timesheetReview.stop();
+    backgroundTimers.stop();
+    doNotDisturb.stop();
+    meetingReminders.stop();
+    clearSnoozedMeetingRequests();
+    scheduleRevertStatus = null;
+
+    // Clear in-memory ping history, anything still queued under this
+    // identity, and hide the floating pill.
     recentPings = [];
+    pingReplies = [];
+    incomingMeetingRequestIds.clear();
+    outbox.clear();
+    meetingReminders.clear();
+    timesheetSync.clear();
+    reconciler.clear();
     if (miniTimerWindow && !miniTimerWindow.isDestroyed()) {
       miniTimerWindow.hide();
     }
@@ -1654,10 +3187,16 @@ function setupIPC() {
   ipcMain.handle('data:reset-all', () => {
     // Stop a running timer first so we don't try to save a session into the
     // store we're about to clear.
+    endCycle();
     if (timerIsRunning || timerIsPaused) {
       stopTimer();
     }
+    settleOrphanedTimer('discard');
+    backgroundTimers.clear();
     pendingTimesheetEntry = null;
+    pendingTimesheetReview = null;
+    unreviewedTimesheetEntries = [];
+    waitingTimesheetEntries = [];
     currentSessionNotes = '';
     if (timesheetConfirmAlertWin && !timesheetConfirmAlertWin.isDestroyed()) timesheetConfirmAlertWin.destroy();
     if (longRunAlertWin && !longRunAlertWin.isDestroyed()) longRunAlertWin.destroy();
@@ -1667,14 +3206,38 @@ function setupIPC() {
     cancelStatusRevertTimer();
     clearBreakReminder();
     stopIdleDetection();
+    focusScheduler.stop();
+    activityLog.stop();
+    peerStatusHistory.stop();
+    appTracker.stop();
+    timesheetReview.stop();
+    backgroundTimers.stop();
+    doNotDisturb.stop();
+    meetingReminders.stop();
+    clearSnoozedMeetingRequests();
+    scheduleRevertStatus = null;
     recentPings = [];
+    pingReplies = [];
     if (miniTimerWindow && !miniTimerWindow.isDestroyed()) miniTimerWindow.hide();
 
     // Wipe persistence — sessions, plans, recents, groups, basecamp, license.
     // App settings are kept (notification preferences etc. aren't user-data).
     persistence.saveRecords([]);
+    activityLog.clear();
+    peerStatusHistory.clear();
+    appTracker.clearSuggestions();
+    timesheetReview.clear();
     persistence.clearTodayAndRecents();
     for (const g of persistence.getPeerGroups()) persistence.deletePeerGroup(g.id);
+    teamDirectory.clear();
+    outbox.clear();
+    meetingReminders.clear();
+    emergencyAccess.clear();
+    timesheetSync.clear();
+    reconciler.clear();
+    persistence.saveSchedules([]);
+    clearPinnedPeers();
+    clearAvatarCache();
     try { basecamp.disconnect(); } catch (err) { console.warn('basecamp disconnect on reset failed:', err); }
     licenseManager.deactivateLicense();
     persistence.deleteUser();
@@ -1708,7 +3271,21 @@ function setupIPC() {
   // App settings
   ipcMain.handle(IPC.GET_SETTINGS, () => persistence.getSettings());
   ipcMain.handle(IPC.SAVE_SETTINGS, (_e, settings: AppSettings) => {
+    const previous = persistence.getSettings();
     persistence.saveSettings(settings);
+    if (previous.secureTransportEnabled !== settings.secureTransportEnabled
+      || previous.allowLegacyPeers !== settings.allowLegacyPeers) {
+      reconfigureSecureTransport();
+    }
+    if (previous.relayEnabled !== settings.relayEnabled
+      || previous.relayAddress !== settings.relayAddress
+      || previous.relayToken !== settings.relayToken) {
+      networking?.setRelay(relayConfig());
+    }
+    if (previous.appTrackerEnabled !== settings.appTrackerEnabled && persistence.getUser()) {
+      appTracker.reconfigure();
+    }
+    doNotDisturb.evaluate();
     // Broadcast settings change to all windows so popup can update
     broadcastToWindows('settings:updated', settings);
     return true;
@@ -1725,12 +3302,13 @@ function setupIPC() {
 
   // ── Quick Ping (anyone-to-many lightweight notification) ────────
   ipcMain.handle(IPC.TEAM_SEND_PING, (_e, data: { recipientIds: string[]; message: string }) => {
-    if (!networking) return { ok: false, delivered: 0, error: 'Not connected to network' };
     if (!data.message?.trim() || data.recipientIds.length === 0) {
       return { ok: false, delivered: 0, error: 'Message and at least one recipient required' };
     }
-    const delivered = networking.sendQuickPing(data.recipientIds, data.message.trim());
-    return { ok: true, delivered, total: data.recipientIds.length };
+    // Recipients without a live connection are queued rather than dropped.
+    const { messageId, sent } = queueOutbound('ping', data.recipientIds, data.message.trim());
+    const total = data.recipientIds.length;
+    return { ok: true, delivered: sent, queued: total - sent, total, messageId };
   });
 
   ipcMain.handle(IPC.TEAM_GET_RECENT_PINGS, () => {
@@ -1739,15 +3317,87 @@ function setupIPC() {
   });
 
   ipcMain.handle(IPC.TEAM_DISMISS_PING, (_e, pingId: string) => {
+    sendPingReadReceipts(recentPings.filter((p) => p.id === pingId));
     recentPings = recentPings.filter((p) => p.id !== pingId);
     return recentPings;
   });
 
+  // The renderer is showing the ping list — tell the senders they've been read.
+  ipcMain.handle(IPC.TEAM_MARK_PINGS_READ, () => {
+    sendPingReadReceipts(recentPings);
+    return recentPings;
+  });
+
+  ipcMain.handle(IPC.TEAM_REPLY_PING, (_e, data: { conversationId: string; toId: string; message: string }) => {
+    if (!data.message?.trim()) return pingReplies;
+    return replyToPing(data.conversationId, data.toId, data.message.trim());
+  });
+
+  ipcMain.handle(IPC.TEAM_GET_PING_REPLIES, () => {
+    pruneRecentPings();
+    return pingReplies;
+  });
+
+  ipcMain.handle(IPC.OUTBOX_GET, () => outbox.list());
+
+  // ── Team directory ────────────────────────────────────────────
+  ipcMain.handle(IPC.TEAM_DIRECTORY_GET, () => teamDirectory.list());
+
+  ipcMain.handle(IPC.TEAM_DIRECTORY_FORGET, (_e, userId: string) => {
+    const next = teamDirectory.forget(userId);
+    broadcastToWindows(IPC.TEAM_DIRECTORY_CHANGED, next);
+    return next;
+  });
+
+  ipcMain.handle(IPC.TEAM_DIRECTORY_FORGET_STALE, () => {
+    const connected = (networking?.getPeers() ?? []).map((p) => p.id);
+    const next = teamDirectory.forgetStale(connected);
+    broadcastToWindows(IPC.TEAM_DIRECTORY_CHANGED, next);
+    return next;
+  });
+  ipcMain.handle(IPC.TEAM_HISTORY_GET, (_e, from: string, to: string) => peerStatusHistory.timeline(from, to));
+
   // ── Peer groups ───────────────────────────────────────────────
   ipcMain.handle(IPC.GROUPS_GET, () => persistence.getPeerGroups());
   ipcMain.handle(IPC.GROUPS_SAVE, (_e, group: Parameters<typeof persistence.savePeerGroup>[0]) => persistence.savePeerGroup(group));
   ipcMain.handle(IPC.GROUPS_DELETE, (_e, groupId: string) => persistence.deletePeerGroup(groupId));
 
+  // ── Secure peer transport ─────────────────────────────────────
+  ipcMain.handle(IPC.SECURITY_GET_STATUS, (): SecureTransportStatus => ({
+    enabled: !!networking?.isSecureTransportEnabled(),
+    available: !!licenseManager.getTeamSecret(),
+    fingerprint: identityFingerprint(getDeviceIdentity().publicKey),
+    peers: networking?.getPeerTransports() ?? [],
+    pinned: getPinnedPeers(),
+  }));
+
+  // Forgetting a pin lets that teammate's next connection pin a new device
+  // key (after a reinstall or a new machine).
+  ipcMain.handle(IPC.SECURITY_FORGET_PEER, (_e, userId: string) => forgetPinnedPeer(userId));
+
+  // ── Relay ─────────────────────────────────────────────────────
+  ipcMain.handle(IPC.RELAY_GET_STATUS, (): RelayStatus => (
+    networking?.getRelayStatus() ?? { configured: false, connected: false, error: null, peerCount: 0 }
+  ));
+
+  // ── Focus schedules ───────────────────────────────────────────
+  // Every write re-evaluates immediately so enabling a block that should
+  // already be running (or disabling the active one) takes effect now rather
+  // than on the next scheduler tick.
+  ipcMain.handle(IPC.SCHEDULES_GET, () => persistence.getSchedules());
+  ipcMain.handle(IPC.SCHEDULES_SAVE, (_e, schedule: FocusSchedule) => {
+    if (!isValidSchedule(schedule)) return { ok: false, error: 'Invalid schedule' };
+    const schedules = persistence.saveSchedule({ ...schedule, name: schedule.name.trim(), taskLabel: schedule.taskLabel?.trim() || undefined });
+    if (persistence.getUser()) focusScheduler.evaluate();
+    return { ok: true, schedules };
+  });
+  ipcMain.handle(IPC.SCHEDULES_DELETE, (_e, scheduleId: string) => {
+    const schedules = persistence.deleteSchedule(scheduleId);
+    if (persistence.getUser()) focusScheduler.evaluate();
+    return schedules;
+  });
+  ipcMain.handle(IPC.SCHEDULES_GET_ACTIVE, () => toActiveBlockInfo(focusScheduler.getActive()));
+
   // Avatar photo picker (crops to center square, then resizes to 128x128)
   ipcMain.handle('dialog:pick-avatar-image', async () => {
     const result = await dialog.showOpenDialog({
@@ -1868,6 +3518,7 @@ function setupIPC() {
       broadcastToWindows(IPC.PEER_UPDATED, user);
     }
     broadcastToWindows('license:changed', state);
+    reconfigureSecureTransport();
     return state;
   });
 
@@ -1887,13 +3538,20 @@ function setupIPC() {
       broadcastToWindows(IPC.PEER_UPDATED, user);
     }
     broadcastToWindows('license:changed', state);
+    reconfigureSecureTransport();
     return state;
   });
 
   // ── Basecamp ──────────────────────────────────────────────────
   basecamp.on('authChanged', (state) => {
     broadcastToWindows(IPC.BC_AUTH_CHANGED, state);
+    // Writes are held while disconnected; replay them once reconnected.
+    if (basecamp.oauth.isConnected()) void timesheetSync.retry();
   });
+  timesheetSync.on('changed', (status: TimesheetSyncStatus) => {
+    broadcastToWindows(IPC.BC_SYNC_CHANGED, status);
+  });
+  timesheetSync.on('applied', (task: TaskRef) => broadcastTimesheetUpdated(task));
   basecamp.on('reauthRequired', () => {
     // Forced disconnect from a 401 → refresh-failed cascade. Tell the
     // renderer to surface a persistent banner, and fire a native
@@ -1942,57 +3600,62 @@ function setupIPC() {
     basecamp.oauth.cancelConnect();
     return true;
   });
-  ipcMain.handle(IPC.BC_DISCONNECT, () => {
-    basecamp.disconnect();
+  // No account id: sign out of every Basecamp login.
+  ipcMain.handle(IPC.BC_DISCONNECT, (_e, accountId?: number) => {
+    basecamp.disconnect(accountId);
+    return basecamp.getAuthState();
+  });
+  ipcMain.handle(IPC.BC_SET_ACTIVE_ACCOUNT, (_e, accountId: number) => {
+    basecamp.setActiveAccount(accountId);
     return basecamp.getAuthState();
   });
 
-  ipcMain.handle(IPC.BC_LIST_PROJECTS, async () => {
+  ipcMain.handle(IPC.BC_LIST_PROJECTS, async (_e, data?: { accountId?: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.listProjects() };
+      return { ok: true, data: await basecamp.apiFor(data?.accountId).listProjects() };
     } catch (err) {
       return { ok: false, error: describeError(err, 'listProjects') };
     }
   });
-  ipcMain.handle(IPC.BC_LIST_TODO_LISTS, async (_e, data: { projectId: number; todoSetId: number }) => {
+  ipcMain.handle(IPC.BC_LIST_TODO_LISTS, async (_e, data: { accountId?: number; projectId: number; todoSetId: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.listTodoLists(data.projectId, data.todoSetId) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).listTodoLists(data.projectId, data.todoSetId) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'listTodoLists') };
     }
   });
-  ipcMain.handle(IPC.BC_LIST_TODOS, async (_e, data: { projectId: number; todoListId: number }) => {
+  ipcMain.handle(IPC.BC_LIST_TODOS, async (_e, data: { accountId?: number; projectId: number; todoListId: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.listTodos(data.projectId, data.todoListId) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).listTodos(data.projectId, data.todoListId) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'listTodos') };
     }
   });
-  ipcMain.handle(IPC.BC_CREATE_TODO, async (_e, data: { projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => {
+  ipcMain.handle(IPC.BC_CREATE_TODO, async (_e, data: { accountId?: number; projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.createTodo(data) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).createTodo(data) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'createTodo') };
     }
   });
-  ipcMain.handle(IPC.BC_POST_COMMENT, async (_e, data: { projectId: number; todoId: number; content: string }) => {
+  ipcMain.handle(IPC.BC_POST_COMMENT, async (_e, data: { accountId?: number; projectId: number; todoId: number; content: string }) => {
     try {
-      await basecamp.api.postComment(data);
+      await basecamp.apiFor(data.accountId).postComment(data);
       return { ok: true };
     } catch (err) {
       return { ok: false, error: describeError(err, 'postComment') };
     }
   });
-  ipcMain.handle(IPC.BC_CREATE_TIME_ENTRY, async (_e, data: { todoId: number; date: string; hours: string; description?: string }) => {
+  ipcMain.handle(IPC.BC_CREATE_TIME_ENTRY, async (_e, data: { accountId?: number; todoId: number; date: string; hours: string; description?: string }) => {
     try {
-      return { ok: true, data: await basecamp.api.createTimesheetEntry(data) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).createTimesheetEntry(data) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'createTimesheetEntry') };
     }
   });
-  ipcMain.handle(IPC.BC_GET_PROJECT_TIMESHEET, async (_e, data: { projectId: number }) => {
+  ipcMain.handle(IPC.BC_GET_PROJECT_TIMESHEET, async (_e, data: { accountId?: number; projectId: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.getProjectTimesheet(data.projectId) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).getProjectTimesheet(data.projectId) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'getProjectTimesheet') };
     }
@@ -2001,16 +3664,16 @@ function setupIPC() {
   // v5.1.0 — Direct Basecamp time-entry update/delete. Most callers should go
   // through UPDATE_SESSION/DELETE_SESSION which orchestrate local + remote;
   // these are exposed for special cases (e.g. a future reconcile tool).
-  ipcMain.handle(IPC.BC_UPDATE_TIME_ENTRY, async (_e, data: { entryId: number; date?: string; hours?: string; description?: string; personId?: number }) => {
+  ipcMain.handle(IPC.BC_UPDATE_TIME_ENTRY, async (_e, data: { accountId?: number; entryId: number; date?: string; hours?: string; description?: string; personId?: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.updateTimesheetEntry(data.entryId, data) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).updateTimesheetEntry(data.entryId, data) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'updateTimesheetEntry') };
     }
   });
-  ipcMain.handle(IPC.BC_DELETE_TIME_ENTRY, async (_e, data: { entryId: number }) => {
+  ipcMain.handle(IPC.BC_DELETE_TIME_ENTRY, async (_e, data: { accountId?: number; entryId: number }) => {
     try {
-      await basecamp.api.deleteTimesheetEntry(data.entryId);
+      await basecamp.apiFor(data.accountId).deleteTimesheetEntry(data.entryId);
       return { ok: true };
     } catch (err) {
       return { ok: false, error: describeError(err, 'deleteTimesheetEntry') };
@@ -2019,25 +3682,25 @@ function setupIPC() {
 
   // v5.1.0 — Pin UX shortcuts. /my/assignments removes the 3-layer drill for
   // the common case; search/due back it up for the long tail.
-  ipcMain.handle(IPC.BC_GET_MY_ASSIGNMENTS, async () => {
+  ipcMain.handle(IPC.BC_GET_MY_ASSIGNMENTS, async (_e, data?: { accountId?: number }) => {
     try {
-      return { ok: true, data: await basecamp.api.getMyAssignments() };
+      return { ok: true, data: await basecamp.apiFor(data?.accountId).getMyAssignments() };
     } catch (err) {
       return { ok: false, error: describeError(err, 'getMyAssignments') };
     }
   });
-  ipcMain.handle(IPC.BC_GET_MY_ASSIGNMENTS_DUE, async (_e, data: { scope: MyAssignmentsDueScope }) => {
+  ipcMain.handle(IPC.BC_GET_MY_ASSIGNMENTS_DUE, async (_e, data: { accountId?: number; scope: MyAssignmentsDueScope }) => {
     try {
-      return { ok: true, data: await basecamp.api.getMyAssignmentsDue(data.scope) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).getMyAssignmentsDue(data.scope) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'getMyAssignmentsDue') };
     }
   });
-  ipcMain.handle(IPC.BC_SEARCH_TODOS, async (_e, data: { query: string }) => {
+  ipcMain.handle(IPC.BC_SEARCH_TODOS, async (_e, data: { accountId?: number; query: string }) => {
     try {
       const q = (data.query ?? '').trim();
       if (q.length < 2) return { ok: true, data: [] };
-      return { ok: true, data: await basecamp.api.searchTodos(q) };
+      return { ok: true, data: await basecamp.apiFor(data.accountId).searchTodos(q) };
     } catch (err) {
       return { ok: false, error: describeError(err, 'searchTodos') };
     }
@@ -2051,17 +3714,58 @@ function setupIPC() {
     return alertPayloads.get(e.sender.id) ?? null;
   });
 
-  // One-shot backfill: scan local sessions tagged with a Basecamp todo that
-  // haven't been pushed yet, group by (todoId, date), post each as a timesheet
-  // entry, and mark them synced. Returns counts so the UI can report progress.
-  ipcMain.handle(IPC.BC_BACKFILL_TIMESHEET, async () => {
+  // Timesheet sync queue — writes waiting on Basecamp, and the user's
+  // answers to conflicts / failures.
+  ipcMain.handle(IPC.BC_SYNC_GET_STATUS, () => timesheetSync.getStatus());
+  ipcMain.handle(IPC.BC_SYNC_RETRY, async () => {
+    await timesheetSync.retry();
+    return timesheetSync.getStatus();
+  });
+  ipcMain.handle(IPC.BC_SYNC_RESOLVE, async (_e, data: { opId: string; keep: 'local' | 'remote' }) => {
+    await timesheetSync.resolve(data.opId, data.keep);
+    return timesheetSync.getStatus();
+  });
+  ipcMain.handle(IPC.BC_SYNC_DISCARD, (_e, opId: string) => {
+    timesheetSync.discard(opId);
+    return timesheetSync.getStatus();
+  });
+
+  // Reconciliation — diff local sessions against the user's Basecamp
+  // timesheet for a date range, then pull / push / ignore per row.
+  ipcMain.handle(IPC.BC_RECONCILE_GET, async (_e, data: { startDate: string; endDate: string }) => {
     if (!basecamp.oauth.isConnected()) {
       return { ok: false, error: 'Basecamp is not connected' };
     }
+    if (!/^\d{4}-\d{2}-\d{2}$/.test(data.startDate) || !/^\d{4}-\d{2}-\d{2}$/.test(data.endDate) || data.startDate > data.endDate) {
+      return { ok: false, error: 'Invalid date range' };
+    }
+    try {
+      return { ok: true, data: await reconciler.diff(data.startDate, data.endDate) };
+    } catch (err) {
+      return { ok: false, error: describeError(err, 'reconcile') };
+    }
+  });
+  ipcMain.handle(IPC.BC_RECONCILE_APPLY, async (_e, data: { key: string; action: 'pull' | 'push' | 'ignore' }) => {
+    try {
+      const { queued } = await reconciler.apply(data.key, data.action);
+      if (data.action === 'pull') broadcastToWindows('basecamp:timesheet-updated', {});
+      return { ok: true, queued };
+    } catch (err) {
+      return { ok: false, error: (err as Error)?.message ?? 'Could not apply' };
+    }
+  });
+
+  // One-shot backfill: scan local sessions linked to a task that haven't been
+  // pushed yet, group by (task, date), post each as a timesheet entry through
+  // the task's provider, and mark them synced. Returns counts so the UI can
+  // report progress.
+  ipcMain.handle(IPC.BC_BACKFILL_TIMESHEET, async () => {
+    if (!providers.anyConnected()) {
+      return { ok: false, error: 'Basecamp is not connected' };
+    }
 
     type Group = {
-      todoId: number;
-      projectId: number;
+      task: TaskRef;
       dateStr: string; // YYYY-MM-DD
       sessions: { sessionId: string; dateStr: string; duration: number; taskLabel: string }[];
     };
@@ -2073,17 +3777,14 @@ function setupIPC() {
     for (const rec of records) {
       const dateStr = rec.date.split('T')[0];
       for (const s of rec.sessions) {
-        if (!s.basecamp || !s.basecamp.todoId) continue;
-        if (s.basecamp.synced) continue;
-        if (s.duration < 60) continue; // skip sub-minute sessions
+        if (!s.link || s.link.synced) continue;
+        if (!isPostable(s.duration, roundingFor(s.link))) continue; // skip sub-minute noise
+        if (timesheetSync.hasPending(s.id)) continue; // already on its way
+        if (!providers.isConnected(s.link)) continue; // signed out of that provider/account
         totalUnsynced++;
-        const key = `${s.basecamp.todoId}|${dateStr}`;
-        const g = groups.get(key) ?? {
-          todoId: s.basecamp.todoId,
-          projectId: s.basecamp.projectId,
-          dateStr,
-          sessions: [],
-        };
+        const task = taskOf(s.link);
+        const key = `${JSON.stringify(task)}|${dateStr}`;
+        const g = groups.get(key) ?? { task, dateStr, sessions: [] };
         g.sessions.push({ sessionId: s.id, dateStr, duration: s.duration, taskLabel: s.taskLabel });
         groups.set(key, g);
       }
@@ -2095,44 +3796,37 @@ function setupIPC() {
 
     let migrated = 0;
     let failed = 0;
-    const projectsTouched = new Set<number>();
+    const tasksTouched: TaskRef[] = [];
     const failures: string[] = [];
 
     for (const g of groups.values()) {
       const totalSec = g.sessions.reduce((a, b) => a + b.duration, 0);
-      const hours = (totalSec / 3600).toFixed(2);
+      const hours = hoursFor(totalSec, g.task);
       const description = g.sessions[0].taskLabel;
       try {
-        const entry = await basecamp.api.createTimesheetEntry({
-          todoId: g.todoId,
-          date: g.dateStr,
-          hours,
-          description,
-        });
+        const entry = await providers.forTask(g.task).createEntry(g.task, { date: g.dateStr, hours, description });
         // Stamp the shared entryId on every session in the group so future
-        // edits/deletes of any of them propagate to the single Basecamp entry
-        // they were merged into.
+        // edits/deletes of any of them propagate to the single entry they
+        // were merged into.
         for (const s of g.sessions) {
           const existing = timeTracker.findSession(s.sessionId, s.dateStr);
-          if (existing?.basecamp) {
+          if (existing?.link) {
             timeTracker.updateSession(s.sessionId, s.dateStr, {
-              basecamp: { ...existing.basecamp, synced: true, entryId: entry.id },
+              link: { ...existing.link, synced: true, entryId: entry.id },
             });
           } else {
             timeTracker.markSessionSynced(s.sessionId, s.dateStr);
           }
           migrated++;
         }
-        projectsTouched.add(g.projectId);
+        tasksTouched.push(g.task);
       } catch (err) {
         failed += g.sessions.length;
-        failures.push(`${g.dateStr} todo ${g.todoId}: ${(err as Error).message}`);
+        failures.push(`${g.dateStr} ${g.sessions[0].taskLabel}: ${(err as Error).message}`);
       }
     }
 
-    for (const projectId of projectsTouched) {
-      broadcastToWindows('basecamp:timesheet-updated', { projectId });
-    }
+    for (const task of tasksTouched) broadcastTimesheetUpdated(task);
 
     return {
       ok: true,
@@ -2360,6 +4054,7 @@ function setupIPC() {
     // Cap at a reasonable length — these end up as Basecamp timesheet
     // descriptions, which aren't meant to hold paragraphs.
     currentSessionNotes = (notes ?? '').slice(0, 500);
+    checkpointTimer();
   });
 
   // Manual JS-driven drag for the mini-timer pill. The renderer fires a stream
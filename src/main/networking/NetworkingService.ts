@@ -3,7 +3,21 @@ import net from 'net';
 import dgram from 'dgram';
 import os from 'os';
 import Bonjour, { Service } from 'bonjour-service';
-import { User, PeerMessage, MessageType } from '../../shared/types';
+import { User, PeerMessage, PeerPresence, PRESENCE_FIELDS, MessageType, PeerTransport, RelayStatus, OutboundMessage, MeetingSlot, SignedEmergencyPolicy } from '../../shared/types';
+import { MAX_MEETING_SLOTS } from '../../shared/meetingSlots';
+import {
+  DeviceIdentity,
+  SecureChannel,
+  InitiatorHandshake,
+  ResponderHandshake,
+  beginHandshake,
+  respondToHello,
+  completeHandshake,
+  verifyFinish,
+} from './SecureChannel';
+import { getPinnedPeer, pinPeer } from './peerIdentity';
+import { RelayClient, RelayConfig } from './RelayClient';
+import { avatarHash, cacheAvatar, getCachedAvatar, profileVersion } from './avatarCache';
 
 const SERVICE_TYPE = 'zenstate';
 const BEACON_PORT = 5354;
@@ -16,6 +30,55 @@ const HEARTBEAT_INTERVAL = 5000;
 const BEACON_INTERVAL = 10000;
 const NETWORK_CHECK_INTERVAL = 10000; // Check for IP changes every 10s
 const PEER_STALE_THRESHOLD = 60000; // Remove peers with no activity for 60s
+// How long a secure-enabled socket waits for the other side to say something
+// before assuming it's a legacy peer that's waiting on us.
+const NEGOTIATION_TIMEOUT = 3000;
+// Remembered ping/reply/meeting request ids, so a resend after a dropped
+// connection doesn't notify twice.
+const SEEN_MESSAGE_IDS_MAX = 500;
+// Same cap validateUserProfile puts on avatars (base64 ≈ 375KB image).
+const MAX_AVATAR_LENGTH = 500000;
+const OUTBOUND_TYPES: Record<OutboundMessage['kind'], MessageType> = {
+  ping: MessageType.QuickPing,
+  pingReply: MessageType.PingReply,
+  meetingRequest: MessageType.MeetingRequest,
+};
+
+export interface SecureTransportConfig {
+  identity: DeviceIdentity;
+  teamKey: Buffer;
+  allowLegacy: boolean;
+}
+
+// Per-socket transport state. Every socket starts `negotiating` when secure
+// transport is on, or `legacy` when it's off.
+interface SocketState {
+  mode: 'negotiating' | PeerTransport;
+  role: 'initiator' | 'responder';
+  initiator?: InitiatorHandshake;
+  responder?: ResponderHandshake;
+  channel?: SecureChannel;
+  negotiationTimer?: NodeJS.Timeout;
+  // The userId this socket speaks for — from the handshake when secure, from
+  // the first UserInfo when legacy. Messages claiming anyone else are dropped.
+  peerId?: string;
+  // The peer said in its UserInfo that it acknowledges messageIds.
+  receipts?: boolean;
+  // The peer said in its UserInfo that it takes `presence` heartbeats and
+  // avatars by hash. Until then it gets the whole User every time.
+  profileDeltas?: boolean;
+  // What we've asked this peer for and not had yet, so a heartbeat every 5s
+  // doesn't repeat the request.
+  requestedProfile?: string; // profileVersion
+  requestedAvatar?: string;  // avatarHash
+}
+
+// Our own profile as we send it: the avatar's hash and the profile version
+// filled in from the fields they cover.
+function stampProfile(user: User): User {
+  const stamped = { ...user, avatarHash: user.avatarImageData ? avatarHash(user.avatarImageData) : undefined };
+  return { ...stamped, profileVersion: profileVersion(stamped) };
+}
 
 /**
  * NetworkingService — Port of BonjourService.swift
@@ -25,6 +88,14 @@ const PEER_STALE_THRESHOLD = 60000; // Remove peers with no activity for 60s
  * - Same wire format: 4-byte big-endian length prefix + JSON
  * - Same PeerMessage structure
  * - Same UDP beacon: ZENSTATE|<uuid>|<port> on port 5354
+ *
+ * With a SecureTransportConfig, each connection first tries the encrypted
+ * handshake in SecureChannel.ts and falls back to the plain framing when the
+ * other side answers in plaintext (unless legacy peers are disallowed).
+ *
+ * With a RelayConfig, teammates registered on the same relay are reached
+ * through a RelayStream instead of a TCP socket; everything above the socket
+ * (handshake, framing, heartbeats) is shared with LAN peers.
  */
 export class NetworkingService extends EventEmitter {
   private currentUser: User;
@@ -48,10 +119,17 @@ export class NetworkingService extends EventEmitter {
   private lastKnownAddresses: string[] = []; // Track IP changes
   private peerLastActivity = new Map<string, number>(); // userId → timestamp of last received message
   private isRestarting = false;
+  private secure: SecureTransportConfig | null;
+  private sockets = new WeakMap<net.Socket, SocketState>();
+  private relayConfig: RelayConfig | null;
+  private relayClient: RelayClient | null = null;
+  private seenMessageIds = new Set<string>(); // `${senderId}:${messageId}`, oldest first
 
-  constructor(user: User) {
+  constructor(user: User, secure: SecureTransportConfig | null = null, relay: RelayConfig | null = null) {
     super();
-    this.currentUser = user;
+    this.currentUser = stampProfile(user);
+    this.secure = secure;
+    this.relayConfig = relay;
   }
 
   /**
@@ -63,6 +141,9 @@ export class NetworkingService extends EventEmitter {
       console.log(`Socket cleanup (${reason})`);
     }
 
+    const state = this.sockets.get(socket);
+    if (state?.negotiationTimer) clearTimeout(state.negotiationTimer);
+
     for (const [userId, conn] of this.connections) {
       if (conn === socket) {
         this.connections.delete(userId);
@@ -95,6 +176,7 @@ export class NetworkingService extends EventEmitter {
 
     this.beaconSocket?.close();
     this.beaconListener?.close();
+    this.stopRelay();
 
     for (const socket of this.connections.values()) {
       socket.destroy();
@@ -139,6 +221,9 @@ export class NetworkingService extends EventEmitter {
     this.beaconSocket = null;
     this.beaconListener = null;
 
+    // The relay connection went out over the old interface too
+    this.stopRelay();
+
     // Destroy all peer sockets — they are bound to old network
     for (const [userId, socket] of this.connections) {
       socket.destroy();
@@ -205,7 +290,7 @@ export class NetworkingService extends EventEmitter {
   }
 
   updateUser(user: User) {
-    this.currentUser = user;
+    this.currentUser = stampProfile(user);
     this.broadcastStatusUpdate();
   }
 
@@ -213,6 +298,48 @@ export class NetworkingService extends EventEmitter {
     return Array.from(this.peers.values());
   }
 
+  /**
+   * Swap the secure transport config (setting toggled, license changed).
+   * Only affects new connections — call restart() to renegotiate existing ones.
+   */
+  setSecureTransport(config: SecureTransportConfig | null) {
+    this.secure = config;
+  }
+
+  isSecureTransportEnabled(): boolean {
+    return !!this.secure;
+  }
+
+  /**
+   * Point at a different relay (or none). Takes effect immediately; LAN
+   * connections are left alone.
+   */
+  setRelay(config: RelayConfig | null) {
+    this.stopRelay();
+    this.relayConfig = config;
+    if (this.tcpServer && this.tcpPort) this.startRelay();
+  }
+
+  getRelayStatus(): RelayStatus {
+    return {
+      configured: !!this.relayConfig,
+      connected: this.relayClient?.isConnected() ?? false,
+      error: this.relayClient?.getLastError() ?? null,
+      peerCount: this.relayClient?.getRelayPeers().length ?? 0,
+    };
+  }
+
+  // How each connected peer is currently talking to us.
+  getPeerTransports(): { userId: string; name: string; transport: PeerTransport }[] {
+    const result: { userId: string; name: string; transport: PeerTransport }[] = [];
+    for (const [userId, socket] of this.connections) {
+      const mode = this.sockets.get(socket)?.mode;
+      if (mode !== 'secure' && mode !== 'legacy') continue;
+      result.push({ userId, name: this.peers.get(userId)?.name ?? userId, transport: mode });
+    }
+    return result;
+  }
+
   /**
    * Manually connect to a peer by IP address and port.
    * Used as a fallback when auto-discovery fails.
@@ -269,32 +396,46 @@ export class NetworkingService extends EventEmitter {
     return Array.from(broadcasts);
   }
 
-  sendMeetingRequest(userId: string, message?: string) {
+  cancelMeetingRequest(userId: string) {
+    this.sendPeerMessage(userId, {
+      type: MessageType.MeetingRequestCancel,
+      senderId: this.currentUser.id,
+      senderName: this.currentUser.name,
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // `slot` is the proposed time accepted, with its `at` filled in; without
+  // one, accepting means now.
+  respondToMeetingRequest(userId: string, accepted: boolean, message?: string, slot?: MeetingSlot) {
     this.sendPeerMessage(userId, {
-      type: MessageType.MeetingRequest,
+      type: accepted ? MessageType.MeetingRequestAccepted : MessageType.MeetingRequestDeclined,
       senderId: this.currentUser.id,
       senderName: this.currentUser.name,
       timestamp: new Date().toISOString(),
       requestMessage: message,
+      slot: accepted ? slot : undefined,
     });
   }
 
-  cancelMeetingRequest(userId: string) {
+  counterMeetingRequest(userId: string, slots: MeetingSlot[], message?: string) {
     this.sendPeerMessage(userId, {
-      type: MessageType.MeetingRequestCancel,
+      type: MessageType.MeetingRequestCountered,
       senderId: this.currentUser.id,
       senderName: this.currentUser.name,
       timestamp: new Date().toISOString(),
+      requestMessage: message,
+      slots,
     });
   }
 
-  respondToMeetingRequest(userId: string, accepted: boolean, message?: string) {
+  snoozeMeetingRequest(userId: string, minutes: number) {
     this.sendPeerMessage(userId, {
-      type: accepted ? MessageType.MeetingRequestAccepted : MessageType.MeetingRequestDeclined,
+      type: MessageType.MeetingRequestSnoozed,
       senderId: this.currentUser.id,
       senderName: this.currentUser.name,
       timestamp: new Date().toISOString(),
-      requestMessage: message,
+      snoozeMinutes: minutes,
     });
   }
 
@@ -308,27 +449,41 @@ export class NetworkingService extends EventEmitter {
     });
   }
 
-  // Quick ping — lightweight team-wide notification anyone can send.
-  // Pings are one-way; recipients see a native notification + an in-app
-  // banner. Returns the count of peers actually reached so the sender can
-  // show a "Sent to 3 people" toast.
-  sendQuickPing(recipientIds: string[], message: string): number {
-    const msg: PeerMessage = {
-      type: MessageType.QuickPing,
+  // Write one recipient's copy of a ping, ping reply or meeting request (see
+  // services/outbox.ts). Returns false when there's no live connection, so the
+  // caller keeps it queued for when they're back.
+  sendOutbound(entry: OutboundMessage): boolean {
+    const socket = this.connections.get(entry.recipientId);
+    if (!socket || socket.destroyed || !socket.writable) return false;
+    this.sendWireMessage(socket, {
+      type: OUTBOUND_TYPES[entry.kind],
+      senderId: this.currentUser.id,
+      senderName: this.currentUser.name,
+      timestamp: entry.createdAt,
+      requestMessage: entry.text,
+      messageId: entry.id,
+      conversationId: entry.conversationId,
+      slots: entry.slots,
+    });
+    return true;
+  }
+
+  // Tell the sender we've seen their ping or meeting request.
+  sendReadReceipt(userId: string, messageId: string) {
+    this.sendPeerMessage(userId, {
+      type: MessageType.MessageRead,
       senderId: this.currentUser.id,
       senderName: this.currentUser.name,
       timestamp: new Date().toISOString(),
-      requestMessage: message,
-    };
-    let delivered = 0;
-    for (const userId of recipientIds) {
-      const socket = this.connections.get(userId);
-      if (socket && !socket.destroyed) {
-        this.sendWireMessage(socket, msg);
-        delivered++;
-      }
-    }
-    return delivered;
+      messageId,
+    });
+  }
+
+  // Whether the connected peer acknowledges messageIds — older clients and
+  // the Mac app don't, so an unacknowledged message to them isn't resent.
+  supportsReceipts(userId: string): boolean {
+    const socket = this.connections.get(userId);
+    return !!socket && this.sockets.get(socket)?.receipts === true;
   }
 
   grantEmergencyAccess(userId: string, granted: boolean) {
@@ -349,6 +504,24 @@ export class NetworkingService extends EventEmitter {
     });
   }
 
+  // To one peer, or to everyone connected but `exceptId` when `userId` is
+  // null — passing on a newer policy we just received. Secure connections
+  // only: the receiver checks the signature against the key it pinned.
+  sendEmergencyPolicy(userId: string | null, signed: SignedEmergencyPolicy, exceptId?: string) {
+    const ids = userId ? [userId] : [...this.connections.keys()].filter((id) => id !== exceptId);
+    for (const id of ids) {
+      const socket = this.connections.get(id);
+      if (!socket || this.sockets.get(socket)?.mode !== 'secure') continue;
+      this.sendPeerMessage(id, {
+        type: MessageType.EmergencyPolicyUpdate,
+        senderId: this.currentUser.id,
+        senderName: this.currentUser.name,
+        timestamp: new Date().toISOString(),
+        payload: JSON.stringify(signed),
+      });
+    }
+  }
+
   // ── TCP Server (replaces NWListener) ─────────────────────────
 
   private startTCPServer() {
@@ -368,6 +541,7 @@ export class NetworkingService extends EventEmitter {
       this.startBeaconListener();
       this.startBeaconBroadcast();
       this.startNetworkChangeDetection();
+      this.startRelay();
     };
 
     let usingFallback = false;
@@ -399,8 +573,14 @@ export class NetworkingService extends EventEmitter {
       this.cleanupSocket(socket, `close:${remoteAddr}`);
     });
 
-    // Send our userInfo (symmetric handshake — matches Swift fix)
-    this.sendUserInfo(socket);
+    if (this.secure) {
+      // Wait for the initiator's SecureHello (or its plaintext UserInfo)
+      this.beginNegotiation(socket, 'responder');
+    } else {
+      // Send our userInfo (symmetric handshake — matches Swift fix)
+      this.sockets.set(socket, { mode: 'legacy', role: 'responder' });
+      this.sendUserInfo(socket);
+    }
     this.setupSocketReceiver(socket);
   }
 
@@ -478,8 +658,7 @@ export class NetworkingService extends EventEmitter {
       console.log(`Connected to ${endpointKey}`);
       this.pendingConnections.delete(endpointKey);
       this.pendingRetries.delete(endpointKey);
-      this.sendUserInfo(socket);
-      this.setupSocketReceiver(socket);
+      this.startOutgoingSession(socket);
     });
 
     socket.on('error', (err) => {
@@ -511,11 +690,78 @@ export class NetworkingService extends EventEmitter {
     });
   }
 
+  // Our side opened the connection (TCP connect or relay link): speak first.
+  private startOutgoingSession(socket: net.Socket) {
+    if (this.secure) {
+      this.beginNegotiation(socket, 'initiator');
+    } else {
+      this.sockets.set(socket, { mode: 'legacy', role: 'initiator' });
+      this.sendUserInfo(socket);
+    }
+    this.setupSocketReceiver(socket);
+  }
+
+  // ── Relay (cross-subnet discovery) ───────────────────────────
+
+  private startRelay() {
+    if (!this.relayConfig || this.relayClient) return;
+    const relay = new RelayClient(this.currentUser.id, this.relayConfig);
+    this.relayClient = relay;
+
+    relay.on('peerAvailable', (peerId: string) => this.connectViaRelay(peerId));
+    relay.on('incoming', (link: net.Socket) => this.handleIncomingConnection(link));
+    relay.on('statusChanged', () => this.emit('relayStatusChanged', this.getRelayStatus()));
+    relay.start();
+  }
+
+  private stopRelay() {
+    if (!this.relayClient) return;
+    this.relayClient.removeAllListeners();
+    this.relayClient.stop();
+    this.relayClient = null;
+    this.emit('relayStatusChanged', this.getRelayStatus());
+  }
+
+  private connectViaRelay(peerId: string) {
+    const relay = this.relayClient;
+    if (!relay || relay.hasLink(peerId)) return;
+    // A direct LAN connection always beats the relay hop
+    const existing = this.connections.get(peerId);
+    if (existing && !existing.destroyed) return;
+
+    console.log(`Relay: opening link to ${peerId}`);
+    // RelayStream implements the subset of net.Socket this class uses
+    const socket = relay.openLink(peerId) as unknown as net.Socket;
+    socket.on('error', (err) => {
+      console.log(`Relay link error for ${peerId}: ${err.message}`);
+      this.cleanupSocket(socket, `relay error: ${err.message}`);
+    });
+    socket.on('close', () => {
+      this.cleanupSocket(socket, `close:relay:${peerId}`);
+    });
+    this.startOutgoingSession(socket);
+  }
+
+  // Re-open relay links that dropped (stale timeout, LAN link that went away)
+  // for teammates still registered on the relay.
+  private reconnectRelayPeers() {
+    const relay = this.relayClient;
+    if (!relay?.isConnected()) return;
+    for (const peerId of relay.getRelayPeers()) {
+      if (relay.shouldInitiate(peerId)) this.connectViaRelay(peerId);
+    }
+  }
+
   // ── Wire Protocol ────────────────────────────────────────────
   // Identical to Swift: 4-byte big-endian UInt32 length + JSON payload
 
   private sendUserInfo(socket: net.Socket) {
-    const userPayload = Buffer.from(JSON.stringify(this.currentUser), 'utf-8');
+    // A peer that caches avatars gets the hash; it asks for the image if it
+    // doesn't have it.
+    const user = this.sockets.get(socket)?.profileDeltas
+      ? { ...this.currentUser, avatarImageData: undefined }
+      : this.currentUser;
+    const userPayload = Buffer.from(JSON.stringify(user), 'utf-8');
 
     const message: PeerMessage = {
       type: MessageType.UserInfo,
@@ -523,6 +769,8 @@ export class NetworkingService extends EventEmitter {
       senderName: this.currentUser.name,
       payload: userPayload.toString('base64'),
       timestamp: new Date().toISOString(),
+      supportsReceipts: true,
+      supportsProfileDeltas: true,
     };
 
     this.sendWireMessage(socket, message);
@@ -534,7 +782,9 @@ export class NetworkingService extends EventEmitter {
     }
 
     try {
-      const jsonData = Buffer.from(JSON.stringify(message), 'utf-8');
+      const state = this.sockets.get(socket);
+      let jsonData: Buffer = Buffer.from(JSON.stringify(message), 'utf-8');
+      if (state?.mode === 'secure') jsonData = state.channel!.encrypt(jsonData);
       const lengthBuf = Buffer.alloc(4);
       lengthBuf.writeUInt32BE(jsonData.length, 0);
 
@@ -559,6 +809,120 @@ export class NetworkingService extends EventEmitter {
     this.sendWireMessage(socket, message);
   }
 
+  // ── Secure Negotiation ───────────────────────────────────────
+  // The initiator opens with SecureHello. A secure responder answers with
+  // SecureHelloReply; anything else (a legacy peer's UserInfo, or silence
+  // until NEGOTIATION_TIMEOUT) drops the socket to the legacy framing.
+
+  private beginNegotiation(socket: net.Socket, role: 'initiator' | 'responder') {
+    const state: SocketState = { mode: 'negotiating', role };
+    this.sockets.set(socket, state);
+
+    if (role === 'initiator') {
+      state.initiator = beginHandshake(this.secure!.identity, this.currentUser.id);
+      this.sendHandshakeMessage(socket, MessageType.SecureHello, state.initiator.hello);
+    }
+
+    state.negotiationTimer = setTimeout(() => {
+      if (state.mode === 'negotiating' && !socket.destroyed) {
+        this.fallBackToLegacy(socket, 'no handshake');
+      }
+    }, NEGOTIATION_TIMEOUT);
+  }
+
+  private sendHandshakeMessage(socket: net.Socket, type: MessageType, body: object) {
+    this.sendWireMessage(socket, {
+      type,
+      senderId: this.currentUser.id,
+      senderName: this.currentUser.name,
+      payload: Buffer.from(JSON.stringify(body), 'utf-8').toString('base64'),
+      timestamp: new Date().toISOString(),
+    });
+  }
+
+  // Returns false (and closes the socket) when legacy peers aren't allowed.
+  private fallBackToLegacy(socket: net.Socket, reason: string): boolean {
+    const state = this.sockets.get(socket)!;
+    if (state.negotiationTimer) clearTimeout(state.negotiationTimer);
+    if (this.secure && !this.secure.allowLegacy) {
+      this.rejectPeer(socket, null, `peer can't negotiate secure transport (${reason})`);
+      return false;
+    }
+    console.log(`Falling back to legacy transport with ${socket.remoteAddress} (${reason})`);
+    state.mode = 'legacy';
+    this.sendUserInfo(socket);
+    return true;
+  }
+
+  private handleNegotiationMessage(message: PeerMessage, socket: net.Socket, state: SocketState) {
+    const secure = this.secure!;
+    try {
+      const body = () => JSON.parse(Buffer.from(message.payload ?? '', 'base64').toString('utf-8'));
+
+      switch (message.type) {
+        case MessageType.SecureHello: {
+          if (state.role !== 'responder' || state.responder) throw new Error('Unexpected hello');
+          const { reply, state: responder } = respondToHello(body(), secure.identity, secure.teamKey, this.currentUser.id);
+          state.responder = responder;
+          this.sendHandshakeMessage(socket, MessageType.SecureHelloReply, reply);
+          return;
+        }
+
+        case MessageType.SecureHelloReply: {
+          if (state.role !== 'initiator' || !state.initiator) throw new Error('Unexpected hello reply');
+          const { finish, channel } = completeHandshake(state.initiator, body(), secure.identity, secure.teamKey);
+          this.sendHandshakeMessage(socket, MessageType.SecureFinish, finish);
+          this.establishSecure(socket, state, channel);
+          return;
+        }
+
+        case MessageType.SecureFinish: {
+          if (state.role !== 'responder' || !state.responder) throw new Error('Unexpected finish');
+          this.establishSecure(socket, state, verifyFinish(state.responder, body(), secure.teamKey));
+          return;
+        }
+
+        default:
+          // The other side spoke plaintext first — it doesn't do (or has
+          // switched off) the secure transport.
+          if (this.fallBackToLegacy(socket, `peer sent ${message.type}`)) {
+            this.handleReceivedMessage(message, socket);
+          }
+      }
+    } catch (err) {
+      const reason = err instanceof Error ? err.message : String(err);
+      this.rejectPeer(socket, message.senderId || null, `secure handshake failed: ${reason}`);
+    }
+  }
+
+  private establishSecure(socket: net.Socket, state: SocketState, channel: SecureChannel) {
+    if (channel.peerUserId === this.currentUser.id) {
+      this.cleanupSocket(socket, 'connected to self');
+      return;
+    }
+    // Trust on first use: once a teammate's device key is pinned, a different
+    // key claiming the same userId is refused until the pin is forgotten.
+    const pinned = getPinnedPeer(channel.peerUserId);
+    if (pinned && pinned.fingerprint !== channel.peerFingerprint) {
+      this.rejectPeer(socket, channel.peerUserId, 'device identity key changed');
+      return;
+    }
+
+    if (state.negotiationTimer) clearTimeout(state.negotiationTimer);
+    state.mode = 'secure';
+    state.channel = channel;
+    state.peerId = channel.peerUserId;
+    state.initiator = undefined;
+    state.responder = undefined;
+    this.sendUserInfo(socket);
+  }
+
+  private rejectPeer(socket: net.Socket, userId: string | null, reason: string) {
+    console.warn(`Rejected peer ${userId ?? socket.remoteAddress}: ${reason}`);
+    this.emit('peerRejected', { userId, name: userId ? this.peers.get(userId)?.name : undefined, reason });
+    this.cleanupSocket(socket, 'peer rejected');
+  }
+
   // ── Receive Messages ─────────────────────────────────────────
 
   private setupSocketReceiver(socket: net.Socket) {
@@ -594,9 +958,27 @@ export class NetworkingService extends EventEmitter {
         const messageData = buffer.subarray(4, 4 + messageLength);
         buffer = buffer.subarray(4 + messageLength);
 
+        const state = this.sockets.get(socket);
+        let plain: Buffer = messageData;
+        if (state?.mode === 'secure') {
+          try {
+            plain = state.channel!.decrypt(messageData);
+          } catch (err) {
+            // Tampered, replayed or out of sync — the stream can't be trusted
+            // past this point.
+            console.warn(`Dropping secure connection to ${socket.remoteAddress}:`, err);
+            this.cleanupSocket(socket, 'decrypt failed');
+            return;
+          }
+        }
+
         try {
-          const message: PeerMessage = JSON.parse(messageData.toString('utf-8'));
-          this.handleReceivedMessage(message, socket);
+          const message: PeerMessage = JSON.parse(plain.toString('utf-8'));
+          if (state?.mode === 'negotiating') {
+            this.handleNegotiationMessage(message, socket, state);
+          } else {
+            this.handleReceivedMessage(message, socket);
+          }
         } catch (err) {
           console.error('Failed to decode message:', err);
         }
@@ -605,6 +987,16 @@ export class NetworkingService extends EventEmitter {
   }
 
   private handleReceivedMessage(message: PeerMessage, socket: net.Socket) {
+    const state = this.sockets.get(socket);
+    if (!state) return;
+
+    // Once a socket has introduced itself, everything on it must come from
+    // that user — otherwise any LAN peer could speak for anyone else.
+    if (message.type !== MessageType.UserInfo && message.senderId !== state.peerId) {
+      console.warn(`Dropped ${message.type} claiming ${message.senderId} on socket bound to ${state.peerId ?? 'nobody'}`);
+      return;
+    }
+
     // Track activity for any message from a known sender
     if (message.senderId) {
       this.peerLastActivity.set(message.senderId, Date.now());
@@ -620,6 +1012,22 @@ export class NetworkingService extends EventEmitter {
               console.warn('Rejected invalid user profile from:', message.senderId);
               break;
             }
+            if (state.peerId && state.peerId !== user.id) {
+              console.warn(`Rejected UserInfo for ${user.id} on socket bound to ${state.peerId}`);
+              break;
+            }
+            // A teammate we've pinned has talked to us securely before; a
+            // plaintext connection claiming their id is treated as a spoof.
+            if (state.mode === 'legacy' && this.secure && getPinnedPeer(user.id)) {
+              this.rejectPeer(socket, user.id, 'pinned peer connected without encryption');
+              break;
+            }
+            state.peerId = user.id;
+            state.receipts = message.supportsReceipts === true;
+            state.profileDeltas = message.supportsProfileDeltas === true;
+            state.requestedProfile = undefined;
+            this.resolveAvatar(user, socket, state);
+            if (state.mode === 'secure') pinPeer(user.id, user.name, state.channel!.peerFingerprint);
 
             // Clean up stale connection if different socket exists
             const existingSocket = this.connections.get(user.id);
@@ -639,6 +1047,8 @@ export class NetworkingService extends EventEmitter {
             } else {
               this.emit('peerUpdated', user);
             }
+            // New or replaced socket: anything waiting for this peer can go now.
+            if (existingSocket !== socket) this.emit('peerConnected', user);
           } catch (err) {
             console.error('Failed to decode user info:', err);
           }
@@ -648,12 +1058,15 @@ export class NetworkingService extends EventEmitter {
 
       case MessageType.StatusUpdate:
       case MessageType.Heartbeat: {
-        if (message.payload) {
+        if (message.presence) {
+          this.applyPresence(message.presence, socket, state);
+        } else if (message.payload) {
           try {
             const raw = JSON.parse(Buffer.from(message.payload, 'base64').toString('utf-8'));
             const user = this.validateUserProfile(raw);
-            if (!user) break;
+            if (!user || user.id !== state.peerId) break;
 
+            this.resolveAvatar(user, socket, state);
             user.lastSeen = new Date().toISOString();
             this.peers.set(user.id, user);
             this.peerLastActivity.set(user.id, Date.now());
@@ -665,11 +1078,45 @@ export class NetworkingService extends EventEmitter {
         break;
       }
 
+      case MessageType.UserInfoRequest:
+        this.sendUserInfo(socket);
+        break;
+
+      case MessageType.AvatarRequest:
+        // Only the avatar we have now — an old hash has nothing to send.
+        if (!this.currentUser.avatarImageData || message.requestMessage !== this.currentUser.avatarHash) break;
+        this.sendWireMessage(socket, {
+          type: MessageType.AvatarData,
+          senderId: this.currentUser.id,
+          senderName: this.currentUser.name,
+          timestamp: new Date().toISOString(),
+          requestMessage: this.currentUser.avatarHash,
+          payload: this.currentUser.avatarImageData,
+        });
+        break;
+
+      case MessageType.AvatarData: {
+        const peer = this.peers.get(message.senderId);
+        const data = message.payload;
+        if (!peer || !data || data.length > MAX_AVATAR_LENGTH) break;
+        // Content-addressed: only what hashes to the avatar we asked for.
+        if (message.requestMessage !== peer.avatarHash || avatarHash(data) !== peer.avatarHash) break;
+        state.requestedAvatar = undefined;
+        cacheAvatar(data);
+        const updated = { ...peer, avatarImageData: data };
+        this.peers.set(peer.id, updated);
+        this.emit('peerUpdated', updated);
+        break;
+      }
+
       case MessageType.MeetingRequest:
+        if (this.acknowledge(message, socket)) break;
         this.emit('meetingRequest', {
           from: message.senderName,
           senderId: message.senderId,
           message: message.requestMessage,
+          messageId: message.messageId,
+          slots: this.validateSlots(message.slots, false),
         });
         break;
 
@@ -677,14 +1124,32 @@ export class NetworkingService extends EventEmitter {
         this.emit('meetingRequestCancel', message.senderId);
         break;
 
-      case MessageType.MeetingRequestAccepted:
-        this.emit('meetingResponse', { accepted: true, from: message.senderName, message: message.requestMessage });
+      case MessageType.MeetingRequestAccepted: {
+        // An accepted slot always carries its time, whatever its kind.
+        const slot = this.validateSlots(message.slot ? [message.slot] : undefined, true)?.[0];
+        this.emit('meetingResponse', { accepted: true, from: message.senderName, senderId: message.senderId, message: message.requestMessage, slot });
         break;
+      }
 
       case MessageType.MeetingRequestDeclined:
-        this.emit('meetingResponse', { accepted: false, from: message.senderName, message: message.requestMessage });
+        this.emit('meetingResponse', { accepted: false, from: message.senderName, senderId: message.senderId, message: message.requestMessage });
         break;
 
+      case MessageType.MeetingRequestCountered: {
+        // Counter-proposals are concrete times.
+        const slots = this.validateSlots(message.slots, true);
+        if (!slots) break;
+        this.emit('meetingCounter', { from: message.senderName, senderId: message.senderId, message: message.requestMessage, slots });
+        break;
+      }
+
+      case MessageType.MeetingRequestSnoozed: {
+        const minutes = message.snoozeMinutes;
+        if (typeof minutes !== 'number' || !(minutes > 0) || minutes > 24 * 60) break;
+        this.emit('meetingSnoozed', { from: message.senderName, senderId: message.senderId, minutes: Math.round(minutes) });
+        break;
+      }
+
       case MessageType.EmergencyMeetingRequest:
         this.emit('emergencyRequest', {
           from: message.senderName,
@@ -694,41 +1159,188 @@ export class NetworkingService extends EventEmitter {
         break;
 
       case MessageType.EmergencyAccessGrant: {
+        // With secure transport on, privilege changes only count when they
+        // arrive over an authenticated connection.
+        if (this.secure && state.mode !== 'secure') {
+          console.warn(`Ignored emergency access change from unauthenticated peer ${message.senderId}`);
+          break;
+        }
         const granted = message.requestMessage === 'granted';
         this.currentUser.canSendEmergency = granted;
-        this.emit('emergencyAccess', granted);
+        this.emit('emergencyAccess', granted, { senderId: message.senderId, senderName: message.senderName });
+        break;
+      }
+
+      case MessageType.EmergencyPolicyUpdate: {
+        // Only ever sent over secure connections; anything else isn't one of ours.
+        if (state.mode !== 'secure') {
+          console.warn(`Ignored emergency policy from unauthenticated peer ${message.senderId}`);
+          break;
+        }
+        let policy: unknown;
+        try {
+          policy = JSON.parse(message.payload ?? '');
+        } catch {
+          break;
+        }
+        this.emit('emergencyPolicy', policy, message.senderId);
         break;
       }
 
       case MessageType.QuickPing:
+        if (this.acknowledge(message, socket)) break;
         this.emit('quickPing', {
           senderName: message.senderName,
           senderId: message.senderId,
           message: message.requestMessage ?? '',
           timestamp: message.timestamp,
+          messageId: message.messageId,
+          conversationId: message.conversationId,
+        });
+        break;
+
+      case MessageType.PingReply:
+        if (!message.messageId || !message.conversationId) break;
+        if (this.acknowledge(message, socket)) break;
+        this.emit('pingReply', {
+          id: message.messageId,
+          conversationId: message.conversationId,
+          fromId: message.senderId,
+          fromName: message.senderName,
+          toId: this.currentUser.id,
+          message: message.requestMessage ?? '',
+          timestamp: message.timestamp,
+        });
+        break;
+
+      case MessageType.MessageDelivered:
+      case MessageType.MessageRead:
+        if (!message.messageId) break;
+        this.emit('receipt', {
+          messageId: message.messageId,
+          userId: message.senderId,
+          state: message.type === MessageType.MessageRead ? 'read' : 'delivered',
         });
         break;
     }
   }
 
-  // ── Broadcast Status ─────────────────────────────────────────
+  // Send a delivery receipt for a ping or meeting request. Senders resend
+  // anything unacknowledged when we reconnect, so returns true for a
+  // messageId we've already handled — the caller drops it.
+  private acknowledge(message: PeerMessage, socket: net.Socket): boolean {
+    if (!message.messageId) return false;
+    this.sendWireMessage(socket, {
+      type: MessageType.MessageDelivered,
+      senderId: this.currentUser.id,
+      senderName: this.currentUser.name,
+      timestamp: new Date().toISOString(),
+      messageId: message.messageId,
+    });
+    const key = `${message.senderId}:${message.messageId}`;
+    if (this.seenMessageIds.has(key)) return true;
+    this.seenMessageIds.add(key);
+    if (this.seenMessageIds.size > SEEN_MESSAGE_IDS_MAX) {
+      this.seenMessageIds.delete(this.seenMessageIds.values().next().value!);
+    }
+    return false;
+  }
 
-  private broadcastStatusUpdate() {
-    const userPayload = Buffer.from(JSON.stringify(this.currentUser), 'utf-8');
+  // ── Profile Deltas ───────────────────────────────────────────
+  // Heartbeats and status updates to a peer that supports it carry only our
+  // presence and profileVersion. When the version it holds for us goes stale
+  // it asks for our UserInfo; avatars travel by hash and are fetched once.
 
-    const message: PeerMessage = {
-      type: MessageType.StatusUpdate,
+  private applyPresence(raw: unknown, socket: net.Socket, state: SocketState) {
+    const presence = this.validatePresence(raw);
+    const peer = state.peerId ? this.peers.get(state.peerId) : undefined;
+    if (!presence || !peer) return;
+
+    const updated: User = { ...peer };
+    for (const field of PRESENCE_FIELDS) {
+      (updated as unknown as Record<string, unknown>)[field] = presence[field];
+    }
+    updated.lastSeen = new Date().toISOString();
+    this.peers.set(peer.id, updated);
+    this.emit('peerUpdated', updated);
+
+    if (presence.profileVersion !== peer.profileVersion && presence.profileVersion !== state.requestedProfile) {
+      state.requestedProfile = presence.profileVersion;
+      this.sendWireMessage(socket, {
+        type: MessageType.UserInfoRequest,
+        senderId: this.currentUser.id,
+        senderName: this.currentUser.name,
+        timestamp: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Fill in a received profile's avatar. A full one is cached under its own
+  // hash (never the one claimed); a hash alone comes from the cache, or the
+  // last image we had for it, or is asked for.
+  private resolveAvatar(user: User, socket: net.Socket, state: SocketState) {
+    const known = this.peers.get(user.id);
+    if (user.avatarImageData) {
+      // Legacy heartbeats resend the same image every time; hash it once.
+      user.avatarHash = known?.avatarImageData === user.avatarImageData && known.avatarHash
+        ? known.avatarHash
+        : cacheAvatar(user.avatarImageData);
+      return;
+    }
+    if (typeof user.avatarHash !== 'string' || !user.avatarHash) {
+      user.avatarHash = undefined;
+      return;
+    }
+    const image = known?.avatarHash === user.avatarHash && known.avatarImageData
+      ? known.avatarImageData
+      : getCachedAvatar(user.avatarHash);
+    if (image) {
+      user.avatarImageData = image;
+      return;
+    }
+    if (state.requestedAvatar === user.avatarHash) return;
+    state.requestedAvatar = user.avatarHash;
+    this.sendWireMessage(socket, {
+      type: MessageType.AvatarRequest,
       senderId: this.currentUser.id,
       senderName: this.currentUser.name,
-      payload: userPayload.toString('base64'),
       timestamp: new Date().toISOString(),
-    };
+      requestMessage: user.avatarHash,
+    });
+  }
+
+  private presence(): PeerPresence {
+    const presence = { profileVersion: this.currentUser.profileVersion! } as PeerPresence;
+    for (const field of PRESENCE_FIELDS) {
+      (presence as unknown as Record<string, unknown>)[field] = this.currentUser[field];
+    }
+    return presence;
+  }
+
+  // One status message to every connection — `presence` where the peer takes
+  // it, the whole User (serialized once) where it doesn't.
+  private broadcastProfile(type: MessageType.StatusUpdate | MessageType.Heartbeat) {
+    const timestamp = new Date().toISOString();
+    let payload: string | undefined;
+    let presence: PeerPresence | undefined;
 
     for (const socket of this.connections.values()) {
+      const message: PeerMessage = { type, senderId: this.currentUser.id, senderName: this.currentUser.name, timestamp };
+      if (this.sockets.get(socket)?.profileDeltas) {
+        message.presence = presence ??= this.presence();
+      } else {
+        message.payload = payload ??= Buffer.from(JSON.stringify(this.currentUser), 'utf-8').toString('base64');
+      }
       this.sendWireMessage(socket, message);
     }
   }
 
+  // ── Broadcast Status ─────────────────────────────────────────
+
+  private broadcastStatusUpdate() {
+    this.broadcastProfile(MessageType.StatusUpdate);
+  }
+
   // ── Heartbeat ────────────────────────────────────────────────
 
   private startHeartbeat() {
@@ -750,18 +1362,9 @@ export class NetworkingService extends EventEmitter {
         }
       }
 
-      const userPayload = Buffer.from(JSON.stringify(this.currentUser), 'utf-8');
-      const message: PeerMessage = {
-        type: MessageType.Heartbeat,
-        senderId: this.currentUser.id,
-        senderName: this.currentUser.name,
-        payload: userPayload.toString('base64'),
-        timestamp: new Date().toISOString(),
-      };
+      this.broadcastProfile(MessageType.Heartbeat);
 
-      for (const socket of this.connections.values()) {
-        this.sendWireMessage(socket, message);
-      }
+      this.reconnectRelayPeers();
     }, HEARTBEAT_INTERVAL);
   }
 
@@ -889,9 +1492,10 @@ export class NetworkingService extends EventEmitter {
     if (typeof u.username !== 'string' || !u.username) return null;
     if (typeof u.status !== 'string') return null;
     // Reject oversized avatar data (> 500KB base64 ≈ ~375KB image)
-    if (typeof u.avatarImageData === 'string' && u.avatarImageData.length > 500000) {
+    if (typeof u.avatarImageData === 'string' && u.avatarImageData.length > MAX_AVATAR_LENGTH) {
       u.avatarImageData = undefined;
     }
+    if (typeof u.avatarImageData !== 'string') u.avatarImageData = undefined;
     // Never trust privilege flags from the wire — `isAdmin` and
     // `canSendEmergency` are local entitlements derived from the local
     // license + admin grant table, not something a peer broadcasts about
@@ -901,4 +1505,31 @@ export class NetworkingService extends EventEmitter {
     u.canSendEmergency = false;
     return data as User;
   }
+
+  // A heartbeat's presence needs the same basics as a profile: a status and
+  // a version to compare.
+  private validatePresence(data: unknown): PeerPresence | null {
+    if (!data || typeof data !== 'object') return null;
+    const p = data as Record<string, unknown>;
+    if (typeof p.status !== 'string') return null;
+    if (typeof p.profileVersion !== 'string' || !p.profileVersion) return null;
+    return data as PeerPresence;
+  }
+
+  // Proposed meeting times from the wire: well-formed ones only, at most
+  // MAX_MEETING_SLOTS. `requireAt` for slots that must name a time. Undefined
+  // when none survive.
+  private validateSlots(data: unknown, requireAt: boolean): MeetingSlot[] | undefined {
+    if (!Array.isArray(data)) return undefined;
+    const slots: MeetingSlot[] = [];
+    for (const raw of data.slice(0, MAX_MEETING_SLOTS)) {
+      if (!raw || typeof raw !== 'object') continue;
+      const s = raw as Record<string, unknown>;
+      if (typeof s.id !== 'string' || !s.id || (s.kind !== 'at' && s.kind !== 'afterFocus')) continue;
+      const at = typeof s.at === 'string' && !isNaN(Date.parse(s.at)) ? new Date(s.at).toISOString() : undefined;
+      if (!at && (requireAt || s.kind === 'at')) continue;
+      slots.push({ id: s.id, kind: s.kind, at });
+    }
+    return slots.length > 0 ? slots : undefined;
+  }
 }
@@ -0,0 +1,300 @@
+import { EventEmitter } from 'events';
+import net from 'net';
+import { Duplex } from 'stream';
+
+export const DEFAULT_RELAY_PORT = 47390;
+const PING_INTERVAL = 20000; // relay drops clients silent for 60s
+const RECONNECT_MIN_DELAY = 5000;
+const RECONNECT_MAX_DELAY = 60000;
+const MAX_RELAY_FRAME_BYTES = 1_500_000;
+
+export interface RelayConfig {
+  host: string;
+  port: number;
+  token: string;
+}
+
+// Parse "relay.example.com" or "relay.example.com:47390" (also "[::1]:47390").
+export function parseRelayAddress(address: string): { host: string; port: number } | null {
+  const trimmed = address.trim();
+  if (!trimmed) return null;
+  const m = trimmed.match(/^\[([^\]]+)\](?::(\d+))?$/) ?? trimmed.match(/^([^:]+)(?::(\d+))?$/);
+  if (!m) return null;
+  const port = m[2] ? parseInt(m[2], 10) : DEFAULT_RELAY_PORT;
+  if (!port || port > 65535) return null;
+  return { host: m[1], port };
+}
+
+/**
+ * One virtual connection to a teammate through the relay. Quacks like the
+ * net.Socket bits NetworkingService uses (write/destroy/setTimeout/
+ * remoteAddress, data/close/timeout events) so relay peers go through exactly
+ * the same handshake, framing and heartbeat code as LAN peers.
+ */
+export class RelayStream extends Duplex {
+  readonly remoteAddress: string;
+  readonly remotePort = 0;
+  private idleMs = 0;
+  private idleTimer: NodeJS.Timeout | null = null;
+  closedByPeer = false;
+
+  constructor(
+    readonly peerId: string,
+    private readonly sendFn: (data: Buffer) => void,
+    private readonly closeFn: (stream: RelayStream) => void,
+  ) {
+    super();
+    this.remoteAddress = `relay:${peerId}`;
+  }
+
+  _read() {
+    // Data is pushed as the relay delivers it.
+  }
+
+  _write(chunk: Buffer, _encoding: BufferEncoding, callback: (err?: Error | null) => void) {
+    this.sendFn(chunk);
+    callback();
+  }
+
+  _destroy(err: Error | null, callback: (err?: Error | null) => void) {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = null;
+    this.closeFn(this);
+    callback(err);
+  }
+
+  deliver(data: Buffer) {
+    this.touch();
+    this.push(data);
+  }
+
+  setTimeout(ms: number): this {
+    this.idleMs = ms;
+    this.touch();
+    return this;
+  }
+
+  private touch() {
+    if (this.idleTimer) clearTimeout(this.idleTimer);
+    this.idleTimer = this.idleMs > 0 ? setTimeout(() => this.emit('timeout'), this.idleMs) : null;
+  }
+}
+
+/**
+ * RelayClient — keeps a registration open with a self-hosted relay
+ * (scripts/relay-server.js) and multiplexes one RelayStream per teammate
+ * over it.
+ *
+ * Events:
+ * - `peerAvailable` (userId): a teammate is on the relay and we should open
+ *   the link (only the side with the lower userId does, so each pair gets
+ *   exactly one link)
+ * - `incoming` (RelayStream): the other side opened a link to us
+ * - `statusChanged` ()
+ */
+export class RelayClient extends EventEmitter {
+  private socket: net.Socket | null = null;
+  private links = new Map<string, RelayStream>(); // peer userId → link
+  private relayPeers = new Set<string>();
+  private pingTimer: NodeJS.Timeout | null = null;
+  private reconnectTimer: NodeJS.Timeout | null = null;
+  private reconnectDelay = RECONNECT_MIN_DELAY;
+  private stopped = true;
+  private registered = false;
+  private lastError: string | null = null;
+
+  constructor(private readonly selfId: string, private readonly config: RelayConfig) {
+    super();
+  }
+
+  start() {
+    this.stopped = false;
+    this.connect();
+  }
+
+  stop() {
+    this.stopped = true;
+    this.reconnectTimer && clearTimeout(this.reconnectTimer);
+    this.reconnectTimer = null;
+    this.teardown();
+  }
+
+  isConnected(): boolean {
+    return this.registered;
+  }
+
+  getLastError(): string | null {
+    return this.lastError;
+  }
+
+  // Teammates currently registered with the relay (whether or not we have a
+  // link open to them right now).
+  getRelayPeers(): string[] {
+    return Array.from(this.relayPeers);
+  }
+
+  shouldInitiate(peerId: string): boolean {
+    return this.selfId < peerId;
+  }
+
+  openLink(peerId: string): RelayStream {
+    this.links.get(peerId)?.destroy();
+    return this.createLink(peerId);
+  }
+
+  hasLink(peerId: string): boolean {
+    const link = this.links.get(peerId);
+    return !!link && !link.destroyed;
+  }
+
+  // ── Relay connection ─────────────────────────────────────────
+
+  private connect() {
+    const socket = new net.Socket();
+    this.socket = socket;
+    let buffer = Buffer.alloc(0);
+
+    socket.connect(this.config.port, this.config.host, () => {
+      console.log(`Relay: connected to ${this.config.host}:${this.config.port}`);
+      this.send({ op: 'register', userId: this.selfId, token: this.config.token });
+      this.pingTimer = setInterval(() => this.send({ op: 'ping' }), PING_INTERVAL);
+    });
+
+    socket.on('data', (data) => {
+      buffer = Buffer.concat([buffer, data]);
+      while (buffer.length >= 4) {
+        const length = buffer.readUInt32BE(0);
+        if (length > MAX_RELAY_FRAME_BYTES) {
+          console.warn(`Relay: oversized frame (${length} bytes) — reconnecting`);
+          socket.destroy();
+          return;
+        }
+        if (buffer.length < 4 + length) break;
+        const frame = buffer.subarray(4, 4 + length);
+        buffer = buffer.subarray(4 + length);
+        try {
+          this.handleRelayMessage(JSON.parse(frame.toString('utf-8')));
+        } catch (err) {
+          console.error('Relay: failed to decode frame:', err);
+        }
+      }
+    });
+
+    socket.on('error', (err) => {
+      console.log(`Relay: socket error: ${err.message}`);
+      this.lastError = err.message;
+    });
+
+    socket.on('close', () => {
+      if (this.socket !== socket) return;
+      this.teardown();
+      this.emit('statusChanged');
+      if (this.stopped) return;
+      this.reconnectTimer = setTimeout(() => {
+        this.reconnectTimer = null;
+        if (!this.stopped) this.connect();
+      }, this.reconnectDelay);
+      this.reconnectDelay = Math.min(this.reconnectDelay * 2, RECONNECT_MAX_DELAY);
+    });
+  }
+
+  private teardown() {
+    this.pingTimer && clearInterval(this.pingTimer);
+    this.pingTimer = null;
+    this.registered = false;
+    this.relayPeers.clear();
+    for (const link of Array.from(this.links.values())) {
+      link.closedByPeer = true; // nothing to notify — the relay is gone
+      link.destroy();
+    }
+    this.links.clear();
+    const socket = this.socket;
+    this.socket = null;
+    if (socket && !socket.destroyed) socket.destroy();
+  }
+
+  private send(message: Record<string, unknown>) {
+    const socket = this.socket;
+    if (!socket || socket.destroyed || !socket.writable) return;
+    const json = Buffer.from(JSON.stringify(message), 'utf-8');
+    const length = Buffer.alloc(4);
+    length.writeUInt32BE(json.length, 0);
+    socket.write(Buffer.concat([length, json]));
+  }
+
+  private handleRelayMessage(message: Record<string, unknown>) {
+    switch (message.op) {
+      case 'registered': {
+        this.registered = true;
+        this.lastError = null;
+        this.reconnectDelay = RECONNECT_MIN_DELAY;
+        const peers = Array.isArray(message.peers) ? message.peers.filter((p): p is string => typeof p === 'string') : [];
+        for (const peerId of peers) this.addRelayPeer(peerId);
+        this.emit('statusChanged');
+        break;
+      }
+
+      case 'joined':
+        if (typeof message.userId === 'string') this.addRelayPeer(message.userId);
+        this.emit('statusChanged');
+        break;
+
+      case 'left':
+        if (typeof message.userId === 'string') {
+          this.relayPeers.delete(message.userId);
+          this.closeLinkFromPeer(message.userId);
+        }
+        this.emit('statusChanged');
+        break;
+
+      case 'recv': {
+        if (typeof message.from !== 'string' || typeof message.data !== 'string') break;
+        let link = this.links.get(message.from);
+        if (!link || link.destroyed) {
+          // First bytes from a peer that opened a link to us.
+          this.relayPeers.add(message.from);
+          link = this.createLink(message.from);
+          this.emit('incoming', link);
+        }
+        link.deliver(Buffer.from(message.data, 'base64'));
+        break;
+      }
+
+      case 'closed':
+        if (typeof message.from === 'string') this.closeLinkFromPeer(message.from);
+        break;
+
+      case 'error':
+        this.lastError = typeof message.message === 'string' ? message.message : 'Relay error';
+        console.warn(`Relay: ${this.lastError}`);
+        this.emit('statusChanged');
+        break;
+    }
+  }
+
+  private addRelayPeer(peerId: string) {
+    if (peerId === this.selfId) return;
+    this.relayPeers.add(peerId);
+    if (this.shouldInitiate(peerId)) this.emit('peerAvailable', peerId);
+  }
+
+  private createLink(peerId: string): RelayStream {
+    const link = new RelayStream(
+      peerId,
+      (data) => this.send({ op: 'send', to: peerId, data: data.toString('base64') }),
+      (closed) => {
+        if (this.links.get(peerId) === closed) this.links.delete(peerId);
+        if (!closed.closedByPeer) this.send({ op: 'close', to: peerId });
+      },
+    );
+    this.links.set(peerId, link);
+    return link;
+  }
+
+  private closeLinkFromPeer(peerId: string) {
+    const link = this.links.get(peerId);
+    if (!link) return;
+    link.closedByPeer = true;
+    link.destroy();
+  }
+}
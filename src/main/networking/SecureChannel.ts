@@ -0,0 +1,267 @@
+import crypto from 'crypto';
+
+/**
+ * SecureChannel — opt-in authenticated encryption for the peer TCP link.
+ *
+ * A three-message handshake rides inside ordinary legacy frames (so a Swift
+ * client that doesn't know the message types just ignores them), then every
+ * later frame on the socket is AES-256-GCM ciphertext:
+ *
+ *   initiator → SecureHello       { eph, id, userId, nonce }
+ *   responder → SecureHelloReply  { eph, id, userId, nonce, mac, sig }
+ *   initiator → SecureFinish      { mac, sig }
+ *
+ * - `eph` is a fresh X25519 key per connection; the ECDH output keys the
+ *   session (forward secrecy).
+ * - `mac` is an HMAC over the transcript with the team key — proves both sides
+ *   hold the same license-derived team secret. The team key is also the HKDF
+ *   salt, so a peer without it couldn't decrypt anything even if the MAC check
+ *   were skipped.
+ * - `sig` is an Ed25519 signature with the device's long-term identity key
+ *   over the same transcript. The identity key's fingerprint is what gets
+ *   pinned per userId, so a teammate's id can't be claimed from another device.
+ */
+
+export const SECURE_PROTOCOL_VERSION = 1;
+const TRANSCRIPT_LABEL = 'zenstate-secure-v1';
+const NONCE_BYTES = 12;
+const TAG_BYTES = 16;
+
+export interface DeviceIdentity {
+  publicKey: crypto.KeyObject;  // Ed25519
+  privateKey: crypto.KeyObject; // Ed25519
+}
+
+export interface SecureHelloPayload {
+  v: number;
+  eph: string;    // base64 SPKI DER, X25519
+  id: string;     // base64 SPKI DER, Ed25519 identity key
+  userId: string; // claimed ZenState user id — must match the UserInfo sent afterwards
+  nonce: string;  // base64, 16 random bytes
+}
+
+export interface SecureHelloReplyPayload extends SecureHelloPayload {
+  mac: string; // base64 HMAC-SHA256(teamKey, 'R' || transcript)
+  sig: string; // base64 Ed25519(identity, 'R' || transcript)
+}
+
+export interface SecureFinishPayload {
+  mac: string; // base64 HMAC-SHA256(teamKey, 'I' || transcript)
+  sig: string; // base64 Ed25519(identity, 'I' || transcript)
+}
+
+// Everything the initiator needs to remember between Hello and the Reply.
+export interface InitiatorHandshake {
+  hello: SecureHelloPayload;
+  ephPrivate: crypto.KeyObject;
+}
+
+// Everything the responder needs to remember between Reply and Finish. The
+// channel is derived up front but only used once Finish verifies.
+export interface ResponderHandshake {
+  transcript: Buffer;
+  peerIdentity: crypto.KeyObject;
+  channel: SecureChannel;
+}
+
+export class SecureHandshakeError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SecureHandshakeError';
+  }
+}
+
+// SHA-256 of the identity key's DER encoding, hex. Shown in Settings and
+// stored as the pin for a peer.
+export function identityFingerprint(publicKey: crypto.KeyObject | string): string {
+  const der = typeof publicKey === 'string'
+    ? Buffer.from(publicKey, 'base64')
+    : publicKey.export({ type: 'spki', format: 'der' });
+  return crypto.createHash('sha256').update(der).digest('hex');
+}
+
+function exportKey(key: crypto.KeyObject): string {
+  return key.export({ type: 'spki', format: 'der' }).toString('base64');
+}
+
+function importKey(b64: string, expected: 'x25519' | 'ed25519'): crypto.KeyObject {
+  let key: crypto.KeyObject;
+  try {
+    key = crypto.createPublicKey({ key: Buffer.from(b64, 'base64'), format: 'der', type: 'spki' });
+  } catch {
+    throw new SecureHandshakeError(`Malformed ${expected} key`);
+  }
+  if (key.asymmetricKeyType !== expected) throw new SecureHandshakeError(`Expected ${expected} key`);
+  return key;
+}
+
+function isHelloShape(p: unknown): p is SecureHelloPayload {
+  if (!p || typeof p !== 'object') return false;
+  const h = p as Record<string, unknown>;
+  return h.v === SECURE_PROTOCOL_VERSION
+    && typeof h.eph === 'string' && typeof h.id === 'string'
+    && typeof h.userId === 'string' && !!h.userId
+    && typeof h.nonce === 'string';
+}
+
+function transcriptOf(i: SecureHelloPayload, r: SecureHelloPayload): Buffer {
+  const fields = [TRANSCRIPT_LABEL, i.eph, i.id, i.userId, i.nonce, r.eph, r.id, r.userId, r.nonce];
+  return crypto.createHash('sha256').update(fields.join('|')).digest();
+}
+
+function macOf(teamKey: Buffer, role: 'I' | 'R', transcript: Buffer): Buffer {
+  return crypto.createHmac('sha256', teamKey).update(role).update(transcript).digest();
+}
+
+function verifyProof(
+  teamKey: Buffer,
+  role: 'I' | 'R',
+  transcript: Buffer,
+  proof: { mac: unknown; sig: unknown },
+  peerIdentity: crypto.KeyObject,
+) {
+  if (typeof proof.mac !== 'string' || typeof proof.sig !== 'string') {
+    throw new SecureHandshakeError('Missing handshake proof');
+  }
+  const expected = macOf(teamKey, role, transcript);
+  const got = Buffer.from(proof.mac, 'base64');
+  if (got.length !== expected.length || !crypto.timingSafeEqual(got, expected)) {
+    throw new SecureHandshakeError('Team key mismatch');
+  }
+  const signed = Buffer.concat([Buffer.from(role), transcript]);
+  if (!crypto.verify(null, signed, peerIdentity, Buffer.from(proof.sig, 'base64'))) {
+    throw new SecureHandshakeError('Bad identity signature');
+  }
+}
+
+function proofOf(teamKey: Buffer, role: 'I' | 'R', transcript: Buffer, identity: DeviceIdentity): { mac: string; sig: string } {
+  return {
+    mac: macOf(teamKey, role, transcript).toString('base64'),
+    sig: crypto.sign(null, Buffer.concat([Buffer.from(role), transcript]), identity.privateKey).toString('base64'),
+  };
+}
+
+function deriveChannel(
+  ephPrivate: crypto.KeyObject,
+  peerEph: crypto.KeyObject,
+  teamKey: Buffer,
+  transcript: Buffer,
+  role: 'I' | 'R',
+  peerUserId: string,
+  peerIdentity: crypto.KeyObject,
+): SecureChannel {
+  const shared = crypto.diffieHellman({ privateKey: ephPrivate, publicKey: peerEph });
+  const okm = Buffer.from(crypto.hkdfSync('sha256', shared, teamKey, transcript, 64));
+  const i2r = okm.subarray(0, 32);
+  const r2i = okm.subarray(32, 64);
+  return role === 'I'
+    ? new SecureChannel(i2r, r2i, peerUserId, identityFingerprint(peerIdentity))
+    : new SecureChannel(r2i, i2r, peerUserId, identityFingerprint(peerIdentity));
+}
+
+function newHello(identity: DeviceIdentity, userId: string): { hello: SecureHelloPayload; ephPrivate: crypto.KeyObject } {
+  const eph = crypto.generateKeyPairSync('x25519');
+  return {
+    hello: {
+      v: SECURE_PROTOCOL_VERSION,
+      eph: exportKey(eph.publicKey),
+      id: exportKey(identity.publicKey),
+      userId,
+      nonce: crypto.randomBytes(16).toString('base64'),
+    },
+    ephPrivate: eph.privateKey,
+  };
+}
+
+// ── Handshake steps ──────────────────────────────────────────
+
+export function beginHandshake(identity: DeviceIdentity, userId: string): InitiatorHandshake {
+  return newHello(identity, userId);
+}
+
+export function respondToHello(
+  raw: unknown,
+  identity: DeviceIdentity,
+  teamKey: Buffer,
+  userId: string,
+): { reply: SecureHelloReplyPayload; state: ResponderHandshake; peerHello: SecureHelloPayload } {
+  if (!isHelloShape(raw)) throw new SecureHandshakeError('Malformed hello');
+  const peerEph = importKey(raw.eph, 'x25519');
+  const peerIdentity = importKey(raw.id, 'ed25519');
+
+  const { hello, ephPrivate } = newHello(identity, userId);
+  const transcript = transcriptOf(raw, hello);
+  const channel = deriveChannel(ephPrivate, peerEph, teamKey, transcript, 'R', raw.userId, peerIdentity);
+  return {
+    reply: { ...hello, ...proofOf(teamKey, 'R', transcript, identity) },
+    state: { transcript, peerIdentity, channel },
+    peerHello: raw,
+  };
+}
+
+export function completeHandshake(
+  state: InitiatorHandshake,
+  raw: unknown,
+  identity: DeviceIdentity,
+  teamKey: Buffer,
+): { finish: SecureFinishPayload; channel: SecureChannel; peerHello: SecureHelloPayload } {
+  if (!isHelloShape(raw)) throw new SecureHandshakeError('Malformed hello reply');
+  const reply = raw as SecureHelloReplyPayload;
+  const peerEph = importKey(reply.eph, 'x25519');
+  const peerIdentity = importKey(reply.id, 'ed25519');
+  const transcript = transcriptOf(state.hello, reply);
+  verifyProof(teamKey, 'R', transcript, reply, peerIdentity);
+
+  const channel = deriveChannel(state.ephPrivate, peerEph, teamKey, transcript, 'I', reply.userId, peerIdentity);
+  return {
+    finish: proofOf(teamKey, 'I', transcript, identity),
+    channel,
+    peerHello: reply,
+  };
+}
+
+export function verifyFinish(state: ResponderHandshake, raw: unknown, teamKey: Buffer): SecureChannel {
+  if (!raw || typeof raw !== 'object') throw new SecureHandshakeError('Malformed finish');
+  verifyProof(teamKey, 'I', state.transcript, raw as SecureFinishPayload, state.peerIdentity);
+  return state.channel;
+}
+
+// ── Established channel ──────────────────────────────────────
+
+/**
+ * Per-socket AEAD state after a successful handshake. Nonces are a 64-bit
+ * per-direction counter; TCP keeps frames in order, so the receiver insists
+ * on the exact next counter and a replayed or reordered frame fails closed.
+ */
+export class SecureChannel {
+  private sendCounter = 0n;
+  private recvCounter = 0n;
+
+  constructor(
+    private readonly sendKey: Buffer,
+    private readonly recvKey: Buffer,
+    readonly peerUserId: string,
+    readonly peerFingerprint: string,
+  ) {}
+
+  encrypt(plaintext: Buffer): Buffer {
+    const nonce = Buffer.alloc(NONCE_BYTES);
+    nonce.writeBigUInt64BE(this.sendCounter, 4);
+    this.sendCounter++;
+    const cipher = crypto.createCipheriv('aes-256-gcm', this.sendKey, nonce);
+    const ct = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+    return Buffer.concat([nonce, ct, cipher.getAuthTag()]);
+  }
+
+  decrypt(frame: Buffer): Buffer {
+    if (frame.length < NONCE_BYTES + TAG_BYTES) throw new Error('Short encrypted frame');
+    const nonce = frame.subarray(0, NONCE_BYTES);
+    if (nonce.readBigUInt64BE(4) !== this.recvCounter) throw new Error('Out-of-sequence encrypted frame');
+    const tag = frame.subarray(frame.length - TAG_BYTES);
+    const decipher = crypto.createDecipheriv('aes-256-gcm', this.recvKey, nonce);
+    decipher.setAuthTag(tag);
+    const pt = Buffer.concat([decipher.update(frame.subarray(NONCE_BYTES, frame.length - TAG_BYTES)), decipher.final()]);
+    this.recvCounter++;
+    return pt;
+  }
+}
@@ -0,0 +1,59 @@
+import crypto from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { app } from 'electron';
+import { User } from '../../shared/types';
+
+// Teammates' avatars on disk, named by the hash of their contents. A peer
+// that supports profile deltas sends only the hash; we fetch the image once
+// and keep it across restarts and reconnects.
+
+const HASH_PATTERN = /^[0-9a-f]{64}$/;
+
+function cacheDir(): string {
+  return path.join(app.getPath('userData'), 'avatars');
+}
+
+export function avatarHash(data: string): string {
+  return crypto.createHash('sha256').update(data, 'utf-8').digest('hex');
+}
+
+export function getCachedAvatar(hash: string): string | null {
+  if (!HASH_PATTERN.test(hash)) return null;
+  try {
+    return fs.readFileSync(path.join(cacheDir(), hash), 'utf-8');
+  } catch {
+    return null;
+  }
+}
+
+// Store an avatar and return its hash.
+export function cacheAvatar(data: string): string {
+  const hash = avatarHash(data);
+  const file = path.join(cacheDir(), hash);
+  try {
+    if (!fs.existsSync(file)) {
+      fs.mkdirSync(cacheDir(), { recursive: true });
+      fs.writeFileSync(file, data, 'utf-8');
+    }
+  } catch (err) {
+    console.warn('[Avatars] could not cache avatar:', err);
+  }
+  return hash;
+}
+
+// Used at reset.
+export function clearAvatarCache(): void {
+  fs.rmSync(cacheDir(), { recursive: true, force: true });
+}
+
+// The fields a heartbeat doesn't carry, hashed. Peers compare it to the one
+// they have and fetch the profile again only when it moved.
+export function profileVersion(user: User): string {
+  const { name, username, avatarEmoji, avatarColor, avatarHash: avatar } = user;
+  return crypto
+    .createHash('sha256')
+    .update(JSON.stringify([name, username, avatarEmoji ?? null, avatarColor ?? null, avatar ?? null]))
+    .digest('hex')
+    .slice(0, 16);
+}
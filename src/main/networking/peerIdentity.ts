@@ -0,0 +1,103 @@
+import crypto from 'crypto';
+import Store from 'electron-store';
+import { safeStorage } from 'electron';
+import { PinnedPeerIdentity } from '../../shared/types';
+import { DeviceIdentity } from './SecureChannel';
+
+// This device's long-term Ed25519 key plus the identity keys we've pinned for
+// teammates (trust on first use). Kept out of zenstate-data so a settings
+// export or reset of app data never hands out the private key by accident.
+const identityStore = new Store({
+  name: 'zenstate-identity',
+  defaults: {
+    identityPrivateKey: null as string | null, // PKCS#8 PEM, safeStorage-wrapped when available
+    pinnedPeers: {} as Record<string, PinnedPeerIdentity>, // userId → pin
+  },
+});
+
+function wrap(pem: string): string {
+  if (safeStorage.isEncryptionAvailable()) {
+    return 'enc:' + safeStorage.encryptString(pem).toString('base64');
+  }
+  console.warn('[Identity] safeStorage unavailable — device key stored as plaintext on disk');
+  return pem;
+}
+
+function unwrap(stored: string): string {
+  if (stored.startsWith('enc:')) {
+    try {
+      return safeStorage.decryptString(Buffer.from(stored.slice(4), 'base64'));
+    } catch {
+      return '';
+    }
+  }
+  return stored;
+}
+
+let cachedIdentity: DeviceIdentity | null = null;
+
+/**
+ * Load this device's identity key, generating one on first use. If the stored
+ * key can't be unwrapped (Keychain reset, copied profile) a fresh one is
+ * generated — peers that pinned the old key will then refuse us until they
+ * forget the pin, which is the point.
+ */
+export function getDeviceIdentity(): DeviceIdentity {
+  if (cachedIdentity) return cachedIdentity;
+
+  const stored = identityStore.get('identityPrivateKey') as string | null;
+  const pem = stored ? unwrap(stored) : '';
+  if (pem) {
+    try {
+      const privateKey = crypto.createPrivateKey(pem);
+      cachedIdentity = { privateKey, publicKey: crypto.createPublicKey(privateKey) };
+      return cachedIdentity;
+    } catch (err) {
+      console.warn('[Identity] stored device key unreadable, generating a new one:', err);
+    }
+  }
+
+  const { publicKey, privateKey } = crypto.generateKeyPairSync('ed25519');
+  identityStore.set('identityPrivateKey', wrap(privateKey.export({ type: 'pkcs8', format: 'pem' }) as string));
+  cachedIdentity = { publicKey, privateKey };
+  return cachedIdentity;
+}
+
+export function getPinnedPeers(): PinnedPeerIdentity[] {
+  const pins = identityStore.get('pinnedPeers') as Record<string, PinnedPeerIdentity>;
+  return Object.values(pins ?? {});
+}
+
+export function getPinnedPeer(userId: string): PinnedPeerIdentity | null {
+  const pins = identityStore.get('pinnedPeers') as Record<string, PinnedPeerIdentity>;
+  return pins?.[userId] ?? null;
+}
+
+// Record (or refresh) a pin. Callers must have already checked that an
+// existing pin matches — this overwrites unconditionally.
+export function pinPeer(userId: string, name: string, fingerprint: string): void {
+  const pins = { ...(identityStore.get('pinnedPeers') as Record<string, PinnedPeerIdentity>) };
+  const now = new Date().toISOString();
+  const existing = pins[userId];
+  pins[userId] = {
+    userId,
+    name,
+    fingerprint,
+    firstSeen: existing?.fingerprint === fingerprint ? existing.firstSeen : now,
+    lastSeen: now,
+  };
+  identityStore.set('pinnedPeers', pins);
+}
+
+export function forgetPinnedPeer(userId: string): PinnedPeerIdentity[] {
+  const pins = { ...(identityStore.get('pinnedPeers') as Record<string, PinnedPeerIdentity>) };
+  delete pins[userId];
+  identityStore.set('pinnedPeers', pins);
+  return Object.values(pins);
+}
+
+// Used at reset. The device key itself survives — it identifies the machine,
+// not the signed-in user.
+export function clearPinnedPeers(): void {
+  identityStore.set('pinnedPeers', {});
+}
@@ -17,8 +17,17 @@ const IPC = {
   SEND_MEETING_REQUEST: 'user:send-meeting-request',
   CANCEL_MEETING_REQUEST: 'user:cancel-meeting-request',
   RESPOND_MEETING_REQUEST: 'user:respond-meeting-request',
+  COUNTER_MEETING_REQUEST: 'user:counter-meeting-request',
+  SNOOZE_MEETING_REQUEST: 'user:snooze-meeting-request',
   SEND_EMERGENCY_REQUEST: 'user:send-emergency-request',
   GRANT_EMERGENCY_ACCESS: 'user:grant-emergency-access',
+  EMERGENCY_POLICY_GET: 'emergency:policy-get',
+  EMERGENCY_POLICY_SAVE: 'emergency:policy-save',
+  EMERGENCY_ATTESTATION_GET: 'emergency:attestation-get',
+  EMERGENCY_ATTESTATION_SAVE: 'emergency:attestation-save',
+  EMERGENCY_POLICY_CHANGED: 'emergency:policy-changed',
+  EMERGENCY_AUDIT_GET: 'emergency:audit-get',
+  EMERGENCY_AUDIT_CHANGED: 'emergency:audit-changed',
   OPEN_DASHBOARD: 'window:open-dashboard',
   OPEN_DASHBOARD_AND_PIN: 'window:open-dashboard-and-pin',
   CLOSE_POPOVER: 'window:close-popover',
@@ -27,6 +36,15 @@ const IPC = {
   STOP_TIMER: 'timer:stop',
   PAUSE_TIMER: 'timer:pause',
   RESUME_TIMER: 'timer:resume',
+  SWITCH_TIMER: 'timer:switch',
+  BACKGROUND_TIMER_START: 'timer:background-start',
+  BACKGROUND_TIMER_STOP: 'timer:background-stop',
+  BACKGROUND_TIMER_PAUSE: 'timer:background-pause',
+  BACKGROUND_TIMER_RESUME: 'timer:background-resume',
+  BACKGROUND_TIMER_PROMOTE: 'timer:background-promote',
+  TIMER_SEND_TO_BACKGROUND: 'timer:send-to-background',
+  BACKGROUND_TIMERS_GET: 'timer:background-get',
+  BACKGROUND_TIMERS_CHANGED: 'timer:background-changed',
   TIMER_UPDATE: 'timer:update',
   TIMER_COMPLETE: 'timer:complete',
   GET_USER: 'data:get-user',
@@ -36,6 +54,7 @@ const IPC = {
   DELETE_SESSION: 'data:delete-session',
   UPDATE_SESSION: 'data:update-session',
   ADD_SESSION: 'data:add-session',
+  ACTIVITY_GET_DAY: 'data:activity-get-day',
   GET_SETTINGS: 'data:get-settings',
   SAVE_SETTINGS: 'data:save-settings',
   BREAK_REMINDER: 'timer:break-reminder',
@@ -45,9 +64,20 @@ const IPC = {
   CANCEL_STATUS_REVERT: 'status:cancel-revert',
   TIMER_LONG_RUN_RESPONSE: 'timer:long-run-response',
   TIMER_IDLE_RESPONSE: 'timer:idle-response',
+  TIMER_RECOVERY_RESPONSE: 'timer:recovery-response',
+  APP_SUGGESTION_RESPONSE: 'app-tracker:suggestion-response',
+  APP_TRACKER_GET_STATUS: 'app-tracker:get-status',
+  APP_SUGGESTIONS_GET: 'app-tracker:suggestions-get',
+  APP_SUGGESTIONS_DISMISS: 'app-tracker:suggestions-dismiss',
+  APP_SUGGESTIONS_CHANGED: 'app-tracker:suggestions-changed',
   TIMER_SET_MEETING_MODE: 'timer:set-meeting-mode',
   TIMER_MEETING_MODE_CHANGED: 'timer:meeting-mode-changed',
   TIMER_TIMESHEET_CONFIRM: 'timer:timesheet-confirm',
+  TIMER_TIMESHEET_BATCH_CONFIRM: 'timer:timesheet-batch-confirm',
+  TIMESHEET_REVIEW_OPEN: 'timesheet-review:open',
+  TIMESHEET_REVIEW_GET_COUNT: 'timesheet-review:get-count',
+  TIMESHEET_REVIEW_SUBMIT: 'timesheet-review:submit',
+  TIMESHEET_REVIEW_CHANGED: 'timesheet-review:changed',
   MINI_TIMER_RESIZE: 'mini-timer:resize',
   MINI_TIMER_MOVE_BY: 'mini-timer:move-by',
   MINI_TIMER_GET_NOTES: 'mini-timer:get-notes',
@@ -56,9 +86,33 @@ const IPC = {
   TEAM_PING_RECEIVED: 'team:ping-received',
   TEAM_GET_RECENT_PINGS: 'team:get-recent-pings',
   TEAM_DISMISS_PING: 'team:dismiss-ping',
+  TEAM_MARK_PINGS_READ: 'team:mark-pings-read',
+  TEAM_REPLY_PING: 'team:reply-ping',
+  TEAM_GET_PING_REPLIES: 'team:get-ping-replies',
+  TEAM_PING_REPLIES_CHANGED: 'team:ping-replies-changed',
+  OUTBOX_GET: 'outbox:get',
+  OUTBOX_CHANGED: 'outbox:changed',
+  TEAM_DIRECTORY_GET: 'team:directory-get',
+  TEAM_DIRECTORY_FORGET: 'team:directory-forget',
+  TEAM_DIRECTORY_FORGET_STALE: 'team:directory-forget-stale',
+  TEAM_DIRECTORY_CHANGED: 'team:directory-changed',
+  TEAM_HISTORY_GET: 'team:history-get',
+  MEETING_REMINDERS_GET: 'meeting-reminders:get',
+  MEETING_REMINDERS_REMOVE: 'meeting-reminders:remove',
+  MEETING_REMINDERS_CHANGED: 'meeting-reminders:changed',
   GROUPS_GET: 'groups:get',
   GROUPS_SAVE: 'groups:save',
   GROUPS_DELETE: 'groups:delete',
+  SCHEDULES_GET: 'schedules:get',
+  SCHEDULES_SAVE: 'schedules:save',
+  SCHEDULES_DELETE: 'schedules:delete',
+  SCHEDULES_GET_ACTIVE: 'schedules:get-active',
+  SCHEDULES_ACTIVE_CHANGED: 'schedules:active-changed',
+  SECURITY_GET_STATUS: 'security:get-status',
+  SECURITY_FORGET_PEER: 'security:forget-peer',
+  SECURITY_PEER_REJECTED: 'security:peer-rejected',
+  RELAY_GET_STATUS: 'relay:get-status',
+  RELAY_STATUS_CHANGED: 'relay:status-changed',
   ACTIVATE_LICENSE: 'license:activate',
   GET_LICENSE_STATE: 'license:get-state',
   DEACTIVATE_LICENSE: 'license:deactivate',
@@ -67,6 +121,7 @@ const IPC = {
   BC_CONNECT: 'basecamp:connect',
   BC_CANCEL_CONNECT: 'basecamp:cancel-connect',
   BC_DISCONNECT: 'basecamp:disconnect',
+  BC_SET_ACTIVE_ACCOUNT: 'basecamp:set-active-account',
   BC_GET_AUTH_STATE: 'basecamp:get-auth-state',
   BC_LIST_PROJECTS: 'basecamp:list-projects',
   BC_LIST_TODO_LISTS: 'basecamp:list-todo-lists',
@@ -78,6 +133,13 @@ const IPC = {
   BC_DELETE_TIME_ENTRY: 'basecamp:delete-time-entry',
   BC_GET_PROJECT_TIMESHEET: 'basecamp:get-project-timesheet',
   BC_BACKFILL_TIMESHEET: 'basecamp:backfill-timesheet',
+  BC_SYNC_GET_STATUS: 'basecamp:sync-get-status',
+  BC_SYNC_RETRY: 'basecamp:sync-retry',
+  BC_SYNC_RESOLVE: 'basecamp:sync-resolve',
+  BC_SYNC_DISCARD: 'basecamp:sync-discard',
+  BC_SYNC_CHANGED: 'basecamp:sync-changed',
+  BC_RECONCILE_GET: 'basecamp:reconcile-get',
+  BC_RECONCILE_APPLY: 'basecamp:reconcile-apply',
   BC_GET_MY_ASSIGNMENTS: 'basecamp:get-my-assignments',
   BC_GET_MY_ASSIGNMENTS_DUE: 'basecamp:get-my-assignments-due',
   BC_SEARCH_TODOS: 'basecamp:search-todos',
@@ -108,12 +170,13 @@ const IPC = {
 const LISTEN_CHANNELS: string[] = [
   IPC.PEER_DISCOVERED, IPC.PEER_UPDATED, IPC.PEER_LOST,
   IPC.MEETING_REQUEST, IPC.MEETING_REQUEST_CANCEL, IPC.MEETING_RESPONSE,
-  IPC.EMERGENCY_REQUEST, IPC.EMERGENCY_ACCESS,
+  IPC.EMERGENCY_REQUEST, IPC.EMERGENCY_ACCESS, IPC.EMERGENCY_POLICY_CHANGED, IPC.EMERGENCY_AUDIT_CHANGED,
   IPC.TIMER_UPDATE,
   IPC.TIMER_COMPLETE,
   IPC.BREAK_REMINDER,
   IPC.TIMER_AUTO_PAUSED,
   IPC.TIMER_MEETING_MODE_CHANGED,
+  IPC.BACKGROUND_TIMERS_CHANGED,
   IPC.STATUS_REVERT_TICK,
   'alert-data',
   'user:logged-in',
@@ -129,12 +192,22 @@ const LISTEN_CHANNELS: string[] = [
   'settings:updated',
   'license:changed',
   IPC.BC_AUTH_CHANGED,
+  IPC.BC_SYNC_CHANGED,
+  IPC.APP_SUGGESTIONS_CHANGED,
+  IPC.TIMESHEET_REVIEW_CHANGED,
   'basecamp:reauth-required',
   'basecamp:timesheet-updated',
   'basecamp:timesheet-error',
   IPC.TODAY_CHANGED,
   IPC.TOMORROW_CHANGED,
   IPC.TEAM_PING_RECEIVED,
+  IPC.TEAM_DIRECTORY_CHANGED,
+  IPC.OUTBOX_CHANGED,
+  IPC.TEAM_PING_REPLIES_CHANGED,
+  IPC.MEETING_REMINDERS_CHANGED,
+  IPC.SCHEDULES_ACTIVE_CHANGED,
+  IPC.SECURITY_PEER_REJECTED,
+  IPC.RELAY_STATUS_CHANGED,
 ];
 
 // Expose safe IPC bridge to renderer
@@ -146,7 +219,8 @@ contextBridge.exposeInMainWorld('zenstate', {
   getRecords: (month?: string) => ipcRenderer.invoke(IPC.GET_RECORDS, month),
   deleteSession: (sessionId: string, date: string) => ipcRenderer.invoke(IPC.DELETE_SESSION, { sessionId, date }),
   updateSession: (sessionId: string, date: string, updates: unknown) => ipcRenderer.invoke(IPC.UPDATE_SESSION, { sessionId, date, updates }),
-  addSession: (data: { taskLabel: string; duration: number; startTime: string; notes?: string; basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number } | null }) => ipcRenderer.invoke(IPC.ADD_SESSION, data),
+  addSession: (data: { taskLabel: string; duration: number; startTime: string; notes?: string; category?: string; task?: { provider: string; ref: unknown } | null }) => ipcRenderer.invoke(IPC.ADD_SESSION, data),
+  activityGetDay: (date: string) => ipcRenderer.invoke(IPC.ACTIVITY_GET_DAY, date),
   getAppVersion: () => ipcRenderer.invoke('app:get-version'),
   resetAllData: () => ipcRenderer.invoke('data:reset-all'),
   getCategories: () => ipcRenderer.invoke('data:get-categories'),
@@ -167,22 +241,29 @@ contextBridge.exposeInMainWorld('zenstate', {
   bcSaveCredentials: (creds: { clientId: string; clientSecret: string }) => ipcRenderer.invoke(IPC.BC_SAVE_CREDENTIALS, creds),
   bcConnect: () => ipcRenderer.invoke(IPC.BC_CONNECT),
   bcCancelConnect: () => ipcRenderer.invoke(IPC.BC_CANCEL_CONNECT),
-  bcDisconnect: () => ipcRenderer.invoke(IPC.BC_DISCONNECT),
+  bcDisconnect: (accountId?: number) => ipcRenderer.invoke(IPC.BC_DISCONNECT, accountId),
+  bcSetActiveAccount: (accountId: number) => ipcRenderer.invoke(IPC.BC_SET_ACTIVE_ACCOUNT, accountId),
   bcGetAuthState: () => ipcRenderer.invoke(IPC.BC_GET_AUTH_STATE),
-  bcListProjects: () => ipcRenderer.invoke(IPC.BC_LIST_PROJECTS),
-  bcListTodoLists: (projectId: number, todoSetId: number) => ipcRenderer.invoke(IPC.BC_LIST_TODO_LISTS, { projectId, todoSetId }),
-  bcListTodos: (projectId: number, todoListId: number) => ipcRenderer.invoke(IPC.BC_LIST_TODOS, { projectId, todoListId }),
-  bcCreateTodo: (data: { projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => ipcRenderer.invoke(IPC.BC_CREATE_TODO, data),
-  bcPostComment: (data: { projectId: number; todoId: number; content: string }) => ipcRenderer.invoke(IPC.BC_POST_COMMENT, data),
-  bcCreateTimeEntry: (data: { todoId: number; date: string; hours: string; description?: string }) => ipcRenderer.invoke(IPC.BC_CREATE_TIME_ENTRY, data),
-  bcUpdateTimeEntry: (data: { entryId: number; date?: string; hours?: string; description?: string; personId?: number }) => ipcRenderer.invoke(IPC.BC_UPDATE_TIME_ENTRY, data),
-  bcDeleteTimeEntry: (entryId: number) => ipcRenderer.invoke(IPC.BC_DELETE_TIME_ENTRY, { entryId }),
-  bcGetProjectTimesheet: (projectId: number) => ipcRenderer.invoke(IPC.BC_GET_PROJECT_TIMESHEET, { projectId }),
+  bcListProjects: (accountId?: number) => ipcRenderer.invoke(IPC.BC_LIST_PROJECTS, { accountId }),
+  bcListTodoLists: (projectId: number, todoSetId: number, accountId?: number) => ipcRenderer.invoke(IPC.BC_LIST_TODO_LISTS, { projectId, todoSetId, accountId }),
+  bcListTodos: (projectId: number, todoListId: number, accountId?: number) => ipcRenderer.invoke(IPC.BC_LIST_TODOS, { projectId, todoListId, accountId }),
+  bcCreateTodo: (data: { accountId?: number; projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => ipcRenderer.invoke(IPC.BC_CREATE_TODO, data),
+  bcPostComment: (data: { accountId?: number; projectId: number; todoId: number; content: string }) => ipcRenderer.invoke(IPC.BC_POST_COMMENT, data),
+  bcCreateTimeEntry: (data: { accountId?: number; todoId: number; date: string; hours: string; description?: string }) => ipcRenderer.invoke(IPC.BC_CREATE_TIME_ENTRY, data),
+  bcUpdateTimeEntry: (data: { accountId?: number; entryId: number; date?: string; hours?: string; description?: string; personId?: number }) => ipcRenderer.invoke(IPC.BC_UPDATE_TIME_ENTRY, data),
+  bcDeleteTimeEntry: (entryId: number, accountId?: number) => ipcRenderer.invoke(IPC.BC_DELETE_TIME_ENTRY, { entryId, accountId }),
+  bcGetProjectTimesheet: (projectId: number, accountId?: number) => ipcRenderer.invoke(IPC.BC_GET_PROJECT_TIMESHEET, { projectId, accountId }),
   bcBackfillTimesheet: () => ipcRenderer.invoke(IPC.BC_BACKFILL_TIMESHEET),
+  bcSyncGetStatus: () => ipcRenderer.invoke(IPC.BC_SYNC_GET_STATUS),
+  bcSyncRetry: () => ipcRenderer.invoke(IPC.BC_SYNC_RETRY),
+  bcSyncResolve: (opId: string, keep: 'local' | 'remote') => ipcRenderer.invoke(IPC.BC_SYNC_RESOLVE, { opId, keep }),
+  bcSyncDiscard: (opId: string) => ipcRenderer.invoke(IPC.BC_SYNC_DISCARD, opId),
+  bcReconcileGet: (startDate: string, endDate: string) => ipcRenderer.invoke(IPC.BC_RECONCILE_GET, { startDate, endDate }),
+  bcReconcileApply: (key: string, action: 'pull' | 'push' | 'ignore') => ipcRenderer.invoke(IPC.BC_RECONCILE_APPLY, { key, action }),
   // v5.1.0 — new pin-UX endpoints
-  bcGetMyAssignments: () => ipcRenderer.invoke(IPC.BC_GET_MY_ASSIGNMENTS),
-  bcGetMyAssignmentsDue: (scope: string) => ipcRenderer.invoke(IPC.BC_GET_MY_ASSIGNMENTS_DUE, { scope }),
-  bcSearchTodos: (query: string) => ipcRenderer.invoke(IPC.BC_SEARCH_TODOS, { query }),
+  bcGetMyAssignments: (accountId?: number) => ipcRenderer.invoke(IPC.BC_GET_MY_ASSIGNMENTS, { accountId }),
+  bcGetMyAssignmentsDue: (scope: string, accountId?: number) => ipcRenderer.invoke(IPC.BC_GET_MY_ASSIGNMENTS_DUE, { scope, accountId }),
+  bcSearchTodos: (query: string, accountId?: number) => ipcRenderer.invoke(IPC.BC_SEARCH_TODOS, { query, accountId }),
 
   // Today + Recents
   todayGet: () => ipcRenderer.invoke(IPC.TODAY_GET),
@@ -208,16 +289,31 @@ contextBridge.exposeInMainWorld('zenstate', {
   // Send (fire-and-forget)
   updateStatus: (status: string) => ipcRenderer.send(IPC.UPDATE_STATUS, status),
   updateUser: (updates: unknown) => ipcRenderer.send(IPC.UPDATE_USER, updates),
-  sendMeetingRequest: (userId: string, message?: string) => ipcRenderer.send(IPC.SEND_MEETING_REQUEST, { userId, message }),
+  sendMeetingRequest: (userId: string, message?: string, slots?: unknown[]) => ipcRenderer.send(IPC.SEND_MEETING_REQUEST, { userId, message, slots }),
   cancelMeetingRequest: (userId: string) => ipcRenderer.send(IPC.CANCEL_MEETING_REQUEST, userId),
-  respondMeetingRequest: (userId: string, accepted: boolean, message?: string) => ipcRenderer.send(IPC.RESPOND_MEETING_REQUEST, { userId, accepted, message }),
-  sendEmergencyRequest: (userId: string, message?: string) => ipcRenderer.send(IPC.SEND_EMERGENCY_REQUEST, { userId, message }),
+  respondMeetingRequest: (userId: string, accepted: boolean, message?: string, slot?: unknown) => ipcRenderer.send(IPC.RESPOND_MEETING_REQUEST, { userId, accepted, message, slot }),
+  counterMeetingRequest: (userId: string, slots: unknown[], message?: string) => ipcRenderer.send(IPC.COUNTER_MEETING_REQUEST, { userId, slots, message }),
+  snoozeMeetingRequest: (userId: string, minutes: number) => ipcRenderer.send(IPC.SNOOZE_MEETING_REQUEST, { userId, minutes }),
+  sendEmergencyRequest: (userId: string, message?: string) => ipcRenderer.invoke(IPC.SEND_EMERGENCY_REQUEST, { userId, message }),
   grantEmergencyAccess: (userId: string, granted: boolean) => ipcRenderer.send(IPC.GRANT_EMERGENCY_ACCESS, { userId, granted }),
+  emergencyPolicyGet: () => ipcRenderer.invoke(IPC.EMERGENCY_POLICY_GET),
+  emergencyPolicySave: (policy: unknown) => ipcRenderer.invoke(IPC.EMERGENCY_POLICY_SAVE, policy),
+  emergencyAttestationGet: () => ipcRenderer.invoke(IPC.EMERGENCY_ATTESTATION_GET),
+  emergencyAttestationSave: (attestation: string) => ipcRenderer.invoke(IPC.EMERGENCY_ATTESTATION_SAVE, attestation),
+  emergencyAuditGet: () => ipcRenderer.invoke(IPC.EMERGENCY_AUDIT_GET),
 
-  startTimer: (taskLabel: string, category?: string, targetDuration?: number, basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number; projectName?: string }) => ipcRenderer.send(IPC.START_TIMER, { taskLabel, category, targetDuration, basecamp }),
+  startTimer: (taskLabel: string, category?: string, targetDuration?: number, task?: { provider: string; ref: unknown }, projectName?: string, cycle?: boolean) => ipcRenderer.send(IPC.START_TIMER, { taskLabel, category, targetDuration, task, projectName, cycle }),
   stopTimer: () => ipcRenderer.send(IPC.STOP_TIMER),
   pauseTimer: () => ipcRenderer.send(IPC.PAUSE_TIMER),
   resumeTimer: () => ipcRenderer.send(IPC.RESUME_TIMER),
+  switchTimer: (taskLabel: string, category?: string, task?: { provider: string; ref: unknown }, projectName?: string) => ipcRenderer.send(IPC.SWITCH_TIMER, { taskLabel, category, task, projectName }),
+  sendTimerToBackground: () => ipcRenderer.send(IPC.TIMER_SEND_TO_BACKGROUND),
+  backgroundTimersGet: () => ipcRenderer.invoke(IPC.BACKGROUND_TIMERS_GET),
+  backgroundTimerStart: (taskLabel: string, category?: string, task?: { provider: string; ref: unknown }, projectName?: string) => ipcRenderer.send(IPC.BACKGROUND_TIMER_START, { taskLabel, category, task, projectName }),
+  backgroundTimerStop: (id: string) => ipcRenderer.send(IPC.BACKGROUND_TIMER_STOP, id),
+  backgroundTimerPause: (id: string) => ipcRenderer.send(IPC.BACKGROUND_TIMER_PAUSE, id),
+  backgroundTimerResume: (id: string) => ipcRenderer.send(IPC.BACKGROUND_TIMER_RESUME, id),
+  backgroundTimerPromote: (id: string) => ipcRenderer.send(IPC.BACKGROUND_TIMER_PROMOTE, id),
 
   openDashboard: (tab?: string) => ipcRenderer.send(IPC.OPEN_DASHBOARD, tab),
   openDashboardAndPin: () => ipcRenderer.send(IPC.OPEN_DASHBOARD_AND_PIN),
@@ -230,8 +326,17 @@ contextBridge.exposeInMainWorld('zenstate', {
   cancelStatusRevert: () => ipcRenderer.send(IPC.CANCEL_STATUS_REVERT),
   timerLongRunRespond: (payload: { action: 'continue' | 'stop' | 'backdate'; stopAtIso?: string }) => ipcRenderer.send(IPC.TIMER_LONG_RUN_RESPONSE, payload),
   timerIdleRespond: (payload: { action: 'continue' | 'pause' | 'backdate'; stopAtIso?: string; enableMeetingMode?: boolean }) => ipcRenderer.send(IPC.TIMER_IDLE_RESPONSE, payload),
+  timerRecoveryRespond: (action: 'resume' | 'stop' | 'discard') => ipcRenderer.send(IPC.TIMER_RECOVERY_RESPONSE, { action }),
+  appSuggestionRespond: (action: 'start' | 'dismiss') => ipcRenderer.send(IPC.APP_SUGGESTION_RESPONSE, { action }),
+  appTrackerGetStatus: () => ipcRenderer.invoke(IPC.APP_TRACKER_GET_STATUS),
+  appSuggestionsGet: () => ipcRenderer.invoke(IPC.APP_SUGGESTIONS_GET),
+  appSuggestionsDismiss: (id: string) => ipcRenderer.invoke(IPC.APP_SUGGESTIONS_DISMISS, id),
   timerSetMeetingMode: (on: boolean) => ipcRenderer.send(IPC.TIMER_SET_MEETING_MODE, on),
   timerTimesheetConfirm: (payload: { action: 'post' | 'discard'; hours?: string; notes?: string; durationSec?: number }) => ipcRenderer.send(IPC.TIMER_TIMESHEET_CONFIRM, payload),
+  timerTimesheetBatchConfirm: (choices: { sessionId: string; post: boolean; hours?: string; notes?: string; durationSec?: number }[]) => ipcRenderer.send(IPC.TIMER_TIMESHEET_BATCH_CONFIRM, choices),
+  timesheetReviewOpen: () => ipcRenderer.send(IPC.TIMESHEET_REVIEW_OPEN),
+  timesheetReviewGetCount: () => ipcRenderer.invoke(IPC.TIMESHEET_REVIEW_GET_COUNT),
+  timesheetReviewSubmit: (choices: { sessionId: string; post: boolean; hours?: string; notes?: string; durationSec?: number }[]) => ipcRenderer.send(IPC.TIMESHEET_REVIEW_SUBMIT, choices),
   miniTimerResize: (size: { width: number; height: number }) => ipcRenderer.send(IPC.MINI_TIMER_RESIZE, size),
   miniTimerMoveBy: (delta: { dx: number; dy: number }) => ipcRenderer.send(IPC.MINI_TIMER_MOVE_BY, delta),
   miniTimerGetNotes: () => ipcRenderer.invoke(IPC.MINI_TIMER_GET_NOTES),
@@ -241,10 +346,33 @@ contextBridge.exposeInMainWorld('zenstate', {
   teamSendPing: (data: { recipientIds: string[]; message: string }) => ipcRenderer.invoke(IPC.TEAM_SEND_PING, data),
   teamGetRecentPings: () => ipcRenderer.invoke(IPC.TEAM_GET_RECENT_PINGS),
   teamDismissPing: (pingId: string) => ipcRenderer.invoke(IPC.TEAM_DISMISS_PING, pingId),
+  teamMarkPingsRead: () => ipcRenderer.invoke(IPC.TEAM_MARK_PINGS_READ),
+  teamReplyPing: (data: { conversationId: string; toId: string; message: string }) => ipcRenderer.invoke(IPC.TEAM_REPLY_PING, data),
+  teamGetPingReplies: () => ipcRenderer.invoke(IPC.TEAM_GET_PING_REPLIES),
+  outboxGet: () => ipcRenderer.invoke(IPC.OUTBOX_GET),
+  teamDirectoryGet: () => ipcRenderer.invoke(IPC.TEAM_DIRECTORY_GET),
+  teamDirectoryForget: (userId: string) => ipcRenderer.invoke(IPC.TEAM_DIRECTORY_FORGET, userId),
+  teamDirectoryForgetStale: () => ipcRenderer.invoke(IPC.TEAM_DIRECTORY_FORGET_STALE),
+  teamHistoryGet: (from: string, to: string) => ipcRenderer.invoke(IPC.TEAM_HISTORY_GET, from, to),
+  meetingRemindersGet: () => ipcRenderer.invoke(IPC.MEETING_REMINDERS_GET),
+  meetingRemindersRemove: (id: string) => ipcRenderer.invoke(IPC.MEETING_REMINDERS_REMOVE, id),
   groupsGet: () => ipcRenderer.invoke(IPC.GROUPS_GET),
   groupsSave: (group: unknown) => ipcRenderer.invoke(IPC.GROUPS_SAVE, group),
   groupsDelete: (groupId: string) => ipcRenderer.invoke(IPC.GROUPS_DELETE, groupId),
 
+  // Focus schedules
+  schedulesGet: () => ipcRenderer.invoke(IPC.SCHEDULES_GET),
+  schedulesSave: (schedule: unknown) => ipcRenderer.invoke(IPC.SCHEDULES_SAVE, schedule),
+  schedulesDelete: (scheduleId: string) => ipcRenderer.invoke(IPC.SCHEDULES_DELETE, scheduleId),
+  schedulesGetActive: () => ipcRenderer.invoke(IPC.SCHEDULES_GET_ACTIVE),
+
+  // Secure peer transport
+  securityGetStatus: () => ipcRenderer.invoke(IPC.SECURITY_GET_STATUS),
+  securityForgetPeer: (userId: string) => ipcRenderer.invoke(IPC.SECURITY_FORGET_PEER, userId),
+
+  // Relay
+  relayGetStatus: () => ipcRenderer.invoke(IPC.RELAY_GET_STATUS),
+
   // Settings
   getLoginItemSettings: () => ipcRenderer.invoke('settings:get-login-item'),
   setLoginItemSettings: (enabled: boolean) => ipcRenderer.send('settings:set-login-item', enabled),
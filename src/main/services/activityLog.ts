@@ -0,0 +1,132 @@
+import { powerMonitor } from 'electron';
+import { ActivitySpan, ActivityState, ActivityTransition } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// How often keyboard/mouse idle time is sampled. Transitions are back-dated to
+// when input actually stopped or resumed, so this only bounds how late the
+// log learns about them, not how precise it is.
+const POLL_INTERVAL_MS = 30 * 1000;
+
+// No input for this long counts as idle. Independent of the timer's idle
+// detection setting — this runs whether or not that's on.
+const IDLE_AFTER_SECONDS = 5 * 60;
+
+// Transitions older than this are dropped as new ones are recorded.
+const RETENTION_DAYS = 60;
+
+// How often the running app writes down that the log's current state still
+// holds. After a crash or power loss the next launch ends that state here,
+// so this bounds how much unseen time can show up as active.
+const CHECKPOINT_INTERVAL_MS = 60 * 1000;
+
+// Records what the machine is doing — active, idle, locked, suspended — as a
+// list of state transitions, all day, whether or not a timer is running. The
+// Timesheet tab reads it back per day to offer untracked active time as new
+// sessions.
+//
+// Idle/active comes from polling the OS idle time here; lock, unlock, suspend
+// and resume are reported by the main process's powerMonitor handlers, which
+// own those listeners.
+export class ActivityLog {
+  private persistence: PersistenceService;
+  private interval: NodeJS.Timeout | null = null;
+  private state: ActivityState | null = null;
+  private lastCheckpointAt = 0;
+
+  constructor(persistence: PersistenceService) {
+    this.persistence = persistence;
+  }
+
+  start() {
+    this.stop();
+    const log = this.persistence.getActivityLog();
+    this.state = log.length > 0 ? log[log.length - 1].state : null;
+    // Not stopped cleanly last time (crash, force-quit, power loss): whatever
+    // it was doing ended when the log was last known to be watching.
+    const observedUntil = this.persistence.getActivityLogObservedUntil();
+    if (observedUntil && this.state && this.state !== 'off') this.record('off', new Date(observedUntil));
+    this.lastCheckpointAt = 0;
+    this.poll(true);
+    this.interval = setInterval(() => this.poll(), POLL_INTERVAL_MS);
+  }
+
+  // Marks the log `off` from now — nothing is known until the next start().
+  stop() {
+    if (!this.interval) return;
+    clearInterval(this.interval);
+    this.interval = null;
+    this.record('off');
+    this.persistence.saveActivityLogObservedUntil(null);
+  }
+
+  locked() {
+    this.record('locked');
+  }
+
+  suspended() {
+    this.record('suspended');
+  }
+
+  // Unlocked or resumed: idle until input says otherwise (usually straight away).
+  woke() {
+    this.record('idle');
+    this.poll();
+  }
+
+  // The day's spans, oldest first, clipped to local midnight–midnight. For
+  // today the last one ends now. Time before the first transition has no span.
+  spansFor(dateStr: string): ActivitySpan[] {
+    const [y, m, d] = dateStr.split('-').map(Number);
+    const dayStart = new Date(y, m - 1, d).getTime();
+    const dayEnd = Math.min(new Date(y, m - 1, d + 1).getTime(), Date.now());
+    const log = this.persistence.getActivityLog();
+    const spans: ActivitySpan[] = [];
+    for (let i = 0; i < log.length; i++) {
+      const start = Math.max(new Date(log[i].at).getTime(), dayStart);
+      const end = Math.min(i + 1 < log.length ? new Date(log[i + 1].at).getTime() : Date.now(), dayEnd);
+      if (end <= start) continue;
+      spans.push({ start: new Date(start).toISOString(), end: new Date(end).toISOString(), state: log[i].state });
+    }
+    return spans;
+  }
+
+  // Samples idle time and records a transition if it crossed the threshold.
+  // Locked/suspended/off only end through woke() or start(); `fromStart` lets
+  // the first sample after launch leave `off`.
+  private poll(fromStart = false) {
+    this.checkpoint();
+    if (!fromStart && this.state !== 'active' && this.state !== 'idle') return;
+    const idleSeconds = powerMonitor.getSystemIdleTime();
+    const changedAt = new Date(Date.now() - idleSeconds * 1000);
+    if (idleSeconds >= IDLE_AFTER_SECONDS) {
+      // Back-date to the last input, but not before the previous transition.
+      this.record('idle', this.state === 'active' ? changedAt : new Date());
+    } else {
+      this.record('active', this.state === 'idle' ? changedAt : new Date());
+    }
+  }
+
+  private record(state: ActivityState, at = new Date()) {
+    if (state === this.state) return;
+    this.state = state;
+    const log = this.persistence.getActivityLog();
+    const last = log[log.length - 1];
+    const when = last && new Date(last.at).getTime() > at.getTime() ? last.at : at.toISOString();
+    log.push({ at: when, state });
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    this.persistence.saveActivityLog(log.filter((t) => new Date(t.at).getTime() >= cutoff));
+  }
+
+  private checkpoint() {
+    if (Date.now() - this.lastCheckpointAt < CHECKPOINT_INTERVAL_MS) return;
+    this.lastCheckpointAt = Date.now();
+    this.persistence.saveActivityLogObservedUntil(new Date().toISOString());
+  }
+
+  // Used at reset.
+  clear() {
+    this.persistence.saveActivityLog([]);
+    this.persistence.saveActivityLogObservedUntil(null);
+    this.state = null;
+  }
+}
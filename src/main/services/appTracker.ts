@@ -0,0 +1,246 @@
+import { EventEmitter } from 'events';
+import { execFile } from 'child_process';
+import crypto from 'crypto';
+import { powerMonitor } from 'electron';
+import { AppRule, AppTrackerStatus, SuggestedSession } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// How often the frontmost window is sampled. Each sample shells out, so this
+// is deliberately slow; runs are timed from first to last matching sample.
+const SAMPLE_INTERVAL_MS = 20 * 1000;
+
+// A rule has to keep matching this long before it's worth a prompt — flicking
+// through an app on the way to another doesn't count.
+const PROMPT_AFTER_MS = 2 * 60 * 1000;
+
+// Matched stretches shorter than this aren't kept as suggestions; consecutive
+// ones for the same rule closer than MERGE_GAP_MS become one.
+const MIN_SUGGESTION_MS = 5 * 60 * 1000;
+const MERGE_GAP_MS = 5 * 60 * 1000;
+
+// "Not now" on a prompt keeps that rule quiet for this long.
+const SNOOZE_MS = 30 * 60 * 1000;
+
+// No input for this long and the samples stop counting, whatever is in front.
+const IDLE_AFTER_SECONDS = 5 * 60;
+
+// Suggestions nobody acted on are dropped after this.
+const SUGGESTION_RETENTION_DAYS = 14;
+
+export interface ForegroundWindow {
+  appName: string;
+  title: string;
+}
+
+const MAC_SCRIPT = `
+tell application "System Events"
+  set frontApp to first application process whose frontmost is true
+  set appName to name of frontApp
+  set winTitle to ""
+  try
+    set winTitle to name of front window of frontApp
+  end try
+end tell
+return appName & linefeed & winTitle`;
+
+const WIN_SCRIPT = `
+Add-Type @"
+using System; using System.Runtime.InteropServices; using System.Text;
+public class ZenFg {
+  [DllImport("user32.dll")] public static extern IntPtr GetForegroundWindow();
+  [DllImport("user32.dll")] public static extern int GetWindowText(IntPtr h, StringBuilder s, int n);
+  [DllImport("user32.dll")] public static extern uint GetWindowThreadProcessId(IntPtr h, out uint p);
+}
+"@
+$h = [ZenFg]::GetForegroundWindow()
+$sb = New-Object System.Text.StringBuilder 512
+[void][ZenFg]::GetWindowText($h, $sb, 512)
+$p = 0
+[void][ZenFg]::GetWindowThreadProcessId($h, [ref]$p)
+(Get-Process -Id $p).ProcessName
+$sb.ToString()`;
+
+// The frontmost app and its window title. macOS asks once for permission to
+// control System Events (and Screen Recording for some apps' titles);
+// Windows needs nothing extra.
+function sampleForeground(): Promise<ForegroundWindow> {
+  return new Promise((resolve, reject) => {
+    const done = (err: Error | null, stdout: string) => {
+      if (err) { reject(err); return; }
+      const [appName = '', ...rest] = stdout.replace(/\r/g, '').split('\n');
+      resolve({ appName: appName.trim(), title: rest.join(' ').trim() });
+    };
+    if (process.platform === 'darwin') {
+      execFile('osascript', ['-e', MAC_SCRIPT], { timeout: 5000 }, done);
+    } else if (process.platform === 'win32') {
+      execFile('powershell', ['-NoProfile', '-NonInteractive', '-Command', WIN_SCRIPT], { timeout: 10000, windowsHide: true }, done);
+    } else {
+      reject(new Error('Not supported on this platform'));
+    }
+  });
+}
+
+function patternMatches(pattern: string, value: string): boolean {
+  if (!pattern.trim()) return true;
+  try {
+    return new RegExp(pattern, 'i').test(value);
+  } catch {
+    return false; // an invalid regex never matches
+  }
+}
+
+// First rule (in list order) matching the window, if any.
+export function matchRule(rules: AppRule[], fg: ForegroundWindow): AppRule | null {
+  return rules.find((r) =>
+    (r.appPattern.trim() || r.titlePattern.trim())
+    && patternMatches(r.appPattern, fg.appName)
+    && patternMatches(r.titlePattern, fg.title)
+  ) ?? null;
+}
+
+interface Run {
+  rule: AppRule;
+  window: ForegroundWindow;
+  since: number;
+  lastSeen: number;
+  prompted: boolean;
+}
+
+// Samples the foreground window while enabled and no timer is running, and
+// tracks how long the same rule has kept matching. Depending on the mode it
+// emits `prompt` (rule, window) once a run is long enough, or records the run
+// as a SuggestedSession when it ends and emits `suggestionsChanged`.
+//
+// Like the FocusScheduler, this only decides *when*; the main process shows
+// the prompt and starts the timer.
+export class AppTracker extends EventEmitter {
+  private persistence: PersistenceService;
+  private isTimerActive: () => boolean;
+  private interval: NodeJS.Timeout | null = null;
+  private run: Run | null = null;
+  private snoozedUntil = new Map<string, number>();
+  private sampling = false;
+  private status: AppTrackerStatus = { running: false, appName: null, windowTitle: null, error: null };
+
+  constructor(persistence: PersistenceService, isTimerActive: () => boolean) {
+    super();
+    this.persistence = persistence;
+    this.isTimerActive = isTimerActive;
+  }
+
+  // Starts or stops sampling to match the current settings. Safe to call on
+  // every settings save.
+  reconfigure() {
+    const enabled = this.persistence.getSettings().appTrackerEnabled;
+    if (enabled && !this.interval) {
+      this.interval = setInterval(() => { void this.tick(); }, SAMPLE_INTERVAL_MS);
+      this.status = { running: true, appName: null, windowTitle: null, error: null };
+      void this.tick();
+    } else if (!enabled && this.interval) {
+      this.stop();
+    }
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+    this.endRun();
+    this.status = { running: false, appName: null, windowTitle: null, error: null };
+  }
+
+  getStatus(): AppTrackerStatus {
+    return this.status;
+  }
+
+  snooze(ruleId: string) {
+    this.snoozedUntil.set(ruleId, Date.now() + SNOOZE_MS);
+  }
+
+  getSuggestions(): SuggestedSession[] {
+    const cutoff = Date.now() - SUGGESTION_RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    return this.persistence.getAppSuggestions().filter((s) => new Date(s.endTime).getTime() >= cutoff);
+  }
+
+  dismissSuggestion(id: string): SuggestedSession[] {
+    const next = this.getSuggestions().filter((s) => s.id !== id);
+    this.persistence.saveAppSuggestions(next);
+    return next;
+  }
+
+  // Used at reset.
+  clearSuggestions() {
+    this.persistence.saveAppSuggestions([]);
+  }
+
+  private async tick() {
+    if (this.sampling) return;
+    // A running timer already covers the time, and idle samples aren't work.
+    if (this.isTimerActive() || powerMonitor.getSystemIdleTime() >= IDLE_AFTER_SECONDS) {
+      this.endRun();
+      return;
+    }
+    this.sampling = true;
+    let fg: ForegroundWindow;
+    try {
+      fg = await sampleForeground();
+    } catch (err) {
+      this.status = { running: true, appName: null, windowTitle: null, error: (err as Error).message };
+      this.endRun();
+      return;
+    } finally {
+      this.sampling = false;
+    }
+    if (!this.interval) return; // stopped while sampling
+    this.status = { running: true, appName: fg.appName, windowTitle: fg.title, error: null };
+
+    const settings = this.persistence.getSettings();
+    const rule = matchRule(settings.appRules, fg);
+    const now = Date.now();
+    if (!rule) {
+      this.endRun();
+      return;
+    }
+    if (this.run?.rule.id !== rule.id) {
+      this.endRun();
+      this.run = { rule, window: fg, since: now, lastSeen: now, prompted: false };
+      return;
+    }
+    this.run.lastSeen = now;
+    this.run.window = fg;
+    if (settings.appTrackerMode === 'prompt'
+      && !this.run.prompted
+      && now - this.run.since >= PROMPT_AFTER_MS
+      && (this.snoozedUntil.get(rule.id) ?? 0) <= now) {
+      this.run.prompted = true;
+      this.emit('prompt', rule, fg);
+    }
+  }
+
+  // The current run is over; in suggest mode, keep it if it was long enough.
+  private endRun() {
+    const run = this.run;
+    this.run = null;
+    if (!run || this.persistence.getSettings().appTrackerMode !== 'suggest') return;
+    if (run.lastSeen - run.since < MIN_SUGGESTION_MS) return;
+
+    const suggestions = this.getSuggestions();
+    const last = suggestions[suggestions.length - 1];
+    if (last && last.ruleId === run.rule.id && run.since - new Date(last.endTime).getTime() <= MERGE_GAP_MS) {
+      last.endTime = new Date(run.lastSeen).toISOString();
+    } else {
+      suggestions.push({
+        id: crypto.randomUUID(),
+        ruleId: run.rule.id,
+        taskLabel: run.rule.taskLabel,
+        task: run.rule.task,
+        category: run.rule.category,
+        startTime: new Date(run.since).toISOString(),
+        endTime: new Date(run.lastSeen).toISOString(),
+        appName: run.window.appName,
+        windowTitle: run.window.title,
+      });
+    }
+    this.persistence.saveAppSuggestions(suggestions);
+    this.emit('suggestionsChanged', suggestions);
+  }
+}
@@ -0,0 +1,127 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { BackgroundTimer } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Same cadence as the primary timer's checkpoint — at most this much running
+// time is lost to a crash.
+const SAVE_INTERVAL_MS = 30_000;
+
+export type NewBackgroundTimer = Omit<BackgroundTimer, 'id' | 'savedAt'>;
+
+// Elapsed seconds of a background timer as of `at`.
+export function backgroundElapsed(timer: BackgroundTimer, at = Date.now()): number {
+  if (!timer.runningSince) return timer.accumulatedSeconds;
+  return timer.accumulatedSeconds + Math.max(0, at - Date.parse(timer.runningSince)) / 1000;
+}
+
+// The timers running next to the primary one. Keeps the list, pauses and
+// resumes them, and writes them to disk; emits `changed` (timers) whenever
+// the list does.
+//
+// Like the TimesheetReview, this only holds state — the main process saves
+// the session when one stops, and swaps one with the primary timer.
+export class BackgroundTimers extends EventEmitter {
+  private persistence: PersistenceService;
+  private timers: BackgroundTimer[] = [];
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(persistence: PersistenceService) {
+    super();
+    this.persistence = persistence;
+  }
+
+  // Load what the last run left. A timer that was running then is paused
+  // where it was last written — the time the app was down isn't counted,
+  // same as a resumed primary timer.
+  start() {
+    this.stop();
+    this.timers = this.persistence.getBackgroundTimers().map((t) => {
+      if (!t.runningSince) return t;
+      const since = Date.parse(t.runningSince);
+      const end = Math.max(since, Date.parse(t.savedAt));
+      return {
+        ...t,
+        segments: [...t.segments, { start: t.runningSince, end: new Date(end).toISOString(), pauseReason: 'restart' as const }],
+        accumulatedSeconds: t.accumulatedSeconds + (end - since) / 1000,
+        runningSince: null,
+      };
+    });
+    this.save();
+    this.interval = setInterval(() => {
+      if (this.timers.some((t) => t.runningSince)) this.persist();
+    }, SAVE_INTERVAL_MS);
+  }
+
+  // Quit or sign-out. The list stays on disk as it is.
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.persist();
+    }
+    this.interval = null;
+  }
+
+  list(): BackgroundTimer[] {
+    return this.timers;
+  }
+
+  get(id: string): BackgroundTimer | undefined {
+    return this.timers.find((t) => t.id === id);
+  }
+
+  add(timer: NewBackgroundTimer): BackgroundTimer {
+    const added = { ...timer, id: crypto.randomUUID(), savedAt: new Date().toISOString() };
+    this.timers = [...this.timers, added];
+    this.save();
+    return added;
+  }
+
+  pause(id: string) {
+    const timer = this.get(id);
+    if (!timer?.runningSince) return;
+    const now = new Date();
+    this.update(id, {
+      segments: [...timer.segments, { start: timer.runningSince, end: now.toISOString(), pauseReason: 'manual' }],
+      accumulatedSeconds: backgroundElapsed(timer, now.getTime()),
+      runningSince: null,
+    });
+  }
+
+  resume(id: string) {
+    const timer = this.get(id);
+    if (!timer || timer.runningSince) return;
+    this.update(id, { runningSince: new Date().toISOString() });
+  }
+
+  // Take a timer off the list — it was stopped, or became the primary timer.
+  remove(id: string): BackgroundTimer | null {
+    const timer = this.get(id);
+    if (!timer) return null;
+    this.timers = this.timers.filter((t) => t.id !== id);
+    this.save();
+    return timer;
+  }
+
+  // Used at reset.
+  clear() {
+    this.timers = [];
+    this.save();
+  }
+
+  private update(id: string, updates: Partial<BackgroundTimer>) {
+    this.timers = this.timers.map((t) => (t.id === id ? { ...t, ...updates } : t));
+    this.save();
+  }
+
+  private persist() {
+    const savedAt = new Date().toISOString();
+    this.timers = this.timers.map((t) => ({ ...t, savedAt }));
+    this.persistence.saveBackgroundTimers(this.timers);
+  }
+
+  private save() {
+    this.persist();
+    this.emit('changed', this.timers);
+  }
+}
@@ -25,6 +25,7 @@ interface RawTimesheetEntry {
   description?: string;
   parent: { id: number; title?: string; type?: string };
   person: { id: number; name: string };
+  bucket?: { id: number; name?: string };
   app_url: string;
 }
 
@@ -92,15 +93,35 @@ const MAX_RATE_LIMIT_RETRIES = 3;
 // values; we don't want a single IPC handler to hold open for an hour.
 const MAX_RATE_LIMIT_WAIT_SEC = 60;
 
+// Non-2xx response. `status` lets callers tell a rejected request (4xx) from
+// one worth retrying (5xx, 429 after our own retries).
+export class BasecampApiError extends Error {
+  constructor(readonly status: number, message: string) {
+    super(message);
+    this.name = 'BasecampApiError';
+  }
+}
+
+// Every call goes to one Basecamp account: the one given to the constructor,
+// or the active account for the unscoped client. `forAccount()` routes
+// calls by an item's own `accountId`.
 export class BasecampApi {
-  constructor(private readonly oauth: BasecampOAuth) {}
+  constructor(private readonly oauth: BasecampOAuth, private readonly accountId?: number) {}
+
+  forAccount(accountId: number | undefined): BasecampApi {
+    return accountId === undefined || accountId === this.accountId ? this : new BasecampApi(this.oauth, accountId);
+  }
+
+  private account(): number {
+    return this.accountId ?? this.oauth.getActiveAccountId();
+  }
 
   // Authenticated fetch with auto-refresh on 401 and bounded backoff on 429.
   private async fetchAuth(url: string, init: RequestInit = {}, opts: { authRetries?: number; rateRetries?: number } = {}): Promise<Response> {
     const authRetries = opts.authRetries ?? MAX_AUTH_RETRIES;
     const rateRetries = opts.rateRetries ?? MAX_RATE_LIMIT_RETRIES;
 
-    const token = await this.oauth.getAccessToken();
+    const token = await this.oauth.getAccessToken(this.account());
     const headers: Record<string, string> = {
       'Authorization': `Bearer ${token}`,
       'User-Agent': BC_USER_AGENT,
@@ -113,7 +134,7 @@ export class BasecampApi {
 
     if (res.status === 401 && authRetries > 0) {
       // Force the next getAccessToken() call to refresh, then retry once.
-      this.oauth.forceExpire();
+      this.oauth.forceExpire(this.account());
       return this.fetchAuth(url, init, { authRetries: authRetries - 1, rateRetries });
     }
 
@@ -131,7 +152,7 @@ export class BasecampApi {
     const res = await this.fetchAuth(url, init);
     if (!res.ok) {
       const body = await res.text();
-      throw new Error(`Basecamp API ${res.status}: ${body || res.statusText}`);
+      throw new BasecampApiError(res.status, `Basecamp API ${res.status}: ${body || res.statusText}`);
     }
     if (res.status === 204) return undefined as T;
     return res.json() as Promise<T>;
@@ -155,9 +176,10 @@ export class BasecampApi {
     // Prefer the account `href` returned by the auth info call, since Basecamp
     // is the source of truth for the API base URL. Fall back to the canonical
     // host (3.basecampapi.com — note "api", not "app") if href isn't stored.
-    const href = this.oauth.getAccountHref();
+    const accountId = this.account();
+    const href = this.oauth.getAccountHref(accountId);
     if (href) return href.replace(/\/$/, '');
-    return `https://3.basecampapi.com/${this.oauth.getAccountId()}`;
+    return `https://3.basecampapi.com/${accountId}`;
   }
 
   async listProjects(): Promise<BasecampProject[]> {
@@ -241,6 +263,28 @@ export class BasecampApi {
     return raw.map((r) => this.mapTimesheetEntry(r));
   }
 
+  // The signed-in user's own timesheet entries across every project in a
+  // date range (inclusive, YYYY-MM-DD). Used by reconciliation.
+  async getPersonTimesheet(personId: number, startDate: string, endDate: string): Promise<BasecampTimesheetEntry[]> {
+    const qs = `start_date=${encodeURIComponent(startDate)}&end_date=${encodeURIComponent(endDate)}&person_id=${personId}`;
+    const raw = await this.paginate<RawTimesheetEntry>(`${this.accountBase()}/reports/timesheet.json?${qs}`);
+    return raw.map((r) => this.mapTimesheetEntry(r));
+  }
+
+  // Person id of the signed-in user in this account. Differs from the
+  // Launchpad identity id stored at connect time.
+  async getMyPersonId(): Promise<number> {
+    const raw = await this.requestJson<{ id: number }>(`${this.accountBase()}/my/profile.json`);
+    return raw.id;
+  }
+
+  // Read one timesheet entry — the sync queue checks it hasn't been edited in
+  // Basecamp before overwriting or deleting it.
+  async getTimesheetEntry(entryId: number): Promise<BasecampTimesheetEntry> {
+    const raw = await this.requestJson<RawTimesheetEntry>(`${this.accountBase()}/timesheet_entries/${entryId}.json`);
+    return this.mapTimesheetEntry(raw);
+  }
+
   // Update an existing Basecamp timesheet entry. Uses the flat route — note
   // that `recording_id` (parent) is immutable here; re-parenting requires
   // delete + create. Only the fields supplied are touched.
@@ -336,6 +380,7 @@ export class BasecampApi {
       date: r.date,
       hours: r.hours,
       description: r.description,
+      projectId: r.bucket?.id,
       parentId: r.parent.id,
       parentTitle: r.parent.title,
       parentType: r.parent.type,
@@ -1,11 +1,21 @@
 import { EventEmitter } from 'events';
 import { BasecampOAuth } from './oauth';
-import { BasecampApi } from './api';
-import { BasecampAuthState, BasecampCredentials } from '../../../shared/types';
+import { BasecampApi, BasecampApiError } from './api';
+import {
+  BasecampAuthState, BasecampCredentials, BasecampTaskRef, BasecampTimesheetEntry,
+  TaskRef, TimeEntryId, TimesheetEntryFields,
+} from '../../../shared/types';
+import { ProviderErrorKind, ProviderProject, ProviderTask, ProviderTimeEntry, TimeTrackingProvider } from '../providers/types';
 
 export type BasecampServiceEvent = 'authChanged' | 'reauthRequired';
 
-export class BasecampService extends EventEmitter {
+function toProviderEntry(e: BasecampTimesheetEntry): ProviderTimeEntry {
+  return { id: e.id, fields: { date: e.date, hours: e.hours, description: e.description ?? '' } };
+}
+
+export class BasecampService extends EventEmitter implements TimeTrackingProvider {
+  readonly id = 'basecamp' as const;
+  readonly name = 'Basecamp';
   readonly oauth = new BasecampOAuth();
   readonly api = new BasecampApi(this.oauth);
 
@@ -18,16 +28,33 @@ export class BasecampService extends EventEmitter {
   }
 
   getAuthState(): BasecampAuthState {
-    const stored = this.oauth.getStoredAuth();
-    if (!stored) return { isConnected: false };
+    const auths = this.oauth.getStoredAuths();
+    if (auths.length === 0) return { isConnected: false };
+    const activeId = this.oauth.getActiveAccountId();
+    const active = this.oauth.getStoredAuth(activeId)!;
+    const account = active.accounts.find((a) => a.id === activeId)!;
     return {
       isConnected: true,
-      account: stored.account,
-      identity: stored.identity,
-      expiresAt: stored.expiresAt,
+      account: { id: account.id, name: account.name },
+      identity: active.identity,
+      expiresAt: active.expiresAt,
+      accounts: auths.flatMap((auth) => auth.accounts.map((a) => ({ id: a.id, name: a.name, emailAddress: auth.identity.emailAddress }))),
     };
   }
 
+  // Client for an item's own account; the active account when it has none.
+  apiFor(accountId?: number): BasecampApi {
+    return this.api.forAccount(accountId);
+  }
+
+  setActiveAccount(accountId: number): void {
+    this.oauth.setActiveAccount(accountId);
+  }
+
+  isConnected(task?: TaskRef): boolean {
+    return this.oauth.isConnected(task?.ref.accountId);
+  }
+
   getCredentials(): BasecampCredentials | null {
     return this.oauth.getCredentials();
   }
@@ -40,7 +67,77 @@ export class BasecampService extends EventEmitter {
     await this.oauth.connect();
   }
 
-  disconnect(): void {
-    this.oauth.disconnect();
+  disconnect(accountId?: number): void {
+    this.oauth.disconnect(accountId);
+  }
+
+  // ── TimeTrackingProvider ──────────────────────────────────────
+  // Project ids are "<accountId>:<projectId>" so browsing works across every
+  // connected account.
+
+  async listProjects(): Promise<ProviderProject[]> {
+    const accountIds = this.oauth.getStoredAuths().flatMap((a) => a.accounts.map((acc) => acc.id));
+    const perAccount = await Promise.all(accountIds.map(async (accountId) => {
+      const projects = await this.apiFor(accountId).listProjects();
+      return projects.map((p) => ({ id: `${accountId}:${p.id}`, name: p.name, description: p.description }));
+    }));
+    return perAccount.flat();
+  }
+
+  async listTasks(projectId: string): Promise<ProviderTask[]> {
+    const [accountId, bucketId] = projectId.split(':').map(Number);
+    const api = this.apiFor(accountId);
+    const project = (await api.listProjects()).find((p) => p.id === bucketId);
+    if (!project) throw new Error('Basecamp project not found');
+    if (!project.todoSetId) return [];
+    const lists = await api.listTodoLists(project.id, project.todoSetId);
+    const todos = await Promise.all(lists.map(async (list) => (await api.listTodos(project.id, list.id)).map((t) => ({
+      task: { provider: this.id, ref: { accountId, projectId: project.id, todoId: t.id, todoListId: list.id } },
+      title: t.content,
+      projectName: project.name,
+    }))));
+    return todos.flat();
+  }
+
+  // Searches the active account.
+  async searchTasks(query: string): Promise<ProviderTask[]> {
+    const accountId = this.oauth.getActiveAccountId();
+    const results = await this.apiFor(accountId).searchTodos(query);
+    return results.filter((r) => r.parent?.id).map((r) => ({
+      task: { provider: this.id, ref: { accountId, projectId: r.bucket.id, todoId: r.id, todoListId: r.parent!.id } },
+      title: r.title.replace(/<\/?em>/g, ''),
+      projectName: r.bucket.name,
+    }));
+  }
+
+  async createEntry(task: TaskRef, fields: TimesheetEntryFields): Promise<ProviderTimeEntry> {
+    const ref = this.refOf(task);
+    return toProviderEntry(await this.apiFor(ref.accountId).createTimesheetEntry({ todoId: ref.todoId, ...fields }));
+  }
+
+  async getEntry(task: TaskRef, entryId: TimeEntryId): Promise<ProviderTimeEntry> {
+    return toProviderEntry(await this.apiFor(this.refOf(task).accountId).getTimesheetEntry(entryId));
+  }
+
+  async updateEntry(task: TaskRef, entryId: TimeEntryId, fields: TimesheetEntryFields): Promise<ProviderTimeEntry> {
+    return toProviderEntry(await this.apiFor(this.refOf(task).accountId).updateTimesheetEntry(entryId, fields));
+  }
+
+  async deleteEntry(task: TaskRef, entryId: TimeEntryId): Promise<void> {
+    await this.apiFor(this.refOf(task).accountId).deleteTimesheetEntry(entryId);
+  }
+
+  // 4xx means Basecamp looked at the request and said no. Everything else —
+  // no network, DNS, 5xx, rate limit, a token refresh that failed — is worth
+  // another try later.
+  classifyError(err: unknown): ProviderErrorKind {
+    if (!(err instanceof BasecampApiError)) return 'retryable';
+    if (err.status === 404) return 'notFound';
+    return err.status >= 500 || err.status === 401 || err.status === 408 || err.status === 429 ? 'retryable' : 'rejected';
+  }
+
+  private refOf(task: TaskRef): BasecampTaskRef {
+    if (task.provider !== this.id) throw new Error('Not a Basecamp task');
+    return task.ref;
   }
 }
@@ -25,17 +25,34 @@ interface StoredCredentials {
   clientSecretEnc: EncField;
 }
 
-interface StoredAuth {
+export interface StoredAccount {
+  id: number;
+  name: string;
+  href?: string;
+}
+
+// One Launchpad login. A single login usually reaches several Basecamp
+// accounts (one token covers all of them); contractors with a separate email
+// per client connect once per login.
+export interface StoredAuth {
   accessToken: EncField;
   refreshToken: EncField;
   expiresAt: string;       // ISO date
-  account: { id: number; name: string; href?: string };
+  accounts: StoredAccount[];
   identity: { id: number; firstName: string; lastName: string; emailAddress: string };
 }
 
+// Pre-multi-account shape: one login, one account. Migrated on startup.
+interface LegacyStoredAuth extends Omit<StoredAuth, 'accounts'> {
+  account: StoredAccount;
+}
+
 interface BasecampStoreSchema {
   basecampCredentials: StoredCredentials | null;
-  basecampAuth: StoredAuth | null;
+  basecampAuth: LegacyStoredAuth | null;
+  basecampAuths: StoredAuth[];
+  // Account used by calls that don't name one (project browser, pin picker).
+  basecampActiveAccountId: number | null;
 }
 
 const store = new Store<BasecampStoreSchema>({
@@ -43,9 +60,19 @@ const store = new Store<BasecampStoreSchema>({
   defaults: {
     basecampCredentials: null,
     basecampAuth: null,
+    basecampAuths: [],
+    basecampActiveAccountId: null,
   },
 });
 
+const legacy = store.get('basecampAuth');
+if (legacy) {
+  const { account, ...rest } = legacy;
+  store.set('basecampAuths', [{ ...rest, accounts: [account] }]);
+  store.set('basecampActiveAccountId', account.id);
+  store.set('basecampAuth', null);
+}
+
 let warnedNoEncryption = false;
 function encrypt(value: string): EncField {
   if (safeStorage.isEncryptionAvailable()) {
@@ -75,7 +102,8 @@ export class BasecampOAuth extends EventEmitter {
   // expired token don't both POST to /authorization/token — Basecamp
   // invalidates the refresh_token on first use, so the second call would 401
   // and trigger an unwanted disconnect/sign-out.
-  private refreshInFlight: Promise<string> | null = null;
+  // Keyed by identity id — each login has its own refresh token.
+  private refreshInFlight = new Map<number, Promise<string>>();
   // Same idea for the OAuth connect flow — the local callback server binds
   // to a fixed port (53682), so two concurrent connects collide on EADDRINUSE.
   private connectInFlight: Promise<void> | null = null;
@@ -101,54 +129,79 @@ export class BasecampOAuth extends EventEmitter {
 
   // ── Auth state ──────────────────────────────────────────────────
 
-  isConnected(): boolean {
-    return store.get('basecampAuth') !== null;
+  isConnected(accountId?: number): boolean {
+    const auths = this.getStoredAuths();
+    if (accountId === undefined) return auths.length > 0;
+    return auths.some((a) => a.accounts.some((acc) => acc.id === accountId));
   }
 
-  getStoredAuth(): StoredAuth | null {
-    return store.get('basecampAuth');
+  getStoredAuths(): StoredAuth[] {
+    return store.get('basecampAuths') ?? [];
   }
 
-  async getAccessToken(): Promise<string> {
-    const auth = this.getStoredAuth();
+  // The login that can reach `accountId`.
+  getStoredAuth(accountId: number): StoredAuth | null {
+    return this.getStoredAuths().find((a) => a.accounts.some((acc) => acc.id === accountId)) ?? null;
+  }
+
+  async getAccessToken(accountId: number): Promise<string> {
+    const auth = this.getStoredAuth(accountId);
     if (!auth) throw new Error('Basecamp is not connected');
 
     const expiresAt = new Date(auth.expiresAt).getTime();
     if (Date.now() > expiresAt - 5 * 60 * 1000) {
-      return this.refreshAccessToken();
+      return this.refreshAccessToken(auth.identity.id);
     }
     return decrypt(auth.accessToken);
   }
 
   // Force a refresh on next call by clamping expiry into the past.
   // Used by the API client when a 401 indicates the token is invalid even though it appears unexpired.
-  forceExpire(): void {
-    const auth = this.getStoredAuth();
+  forceExpire(accountId: number): void {
+    const auth = this.getStoredAuth(accountId);
     if (!auth) return;
-    store.set('basecampAuth', { ...auth, expiresAt: new Date(0).toISOString() });
+    this.saveAuth({ ...auth, expiresAt: new Date(0).toISOString() });
   }
 
-  getAccountId(): number {
-    const auth = this.getStoredAuth();
-    if (!auth) throw new Error('Basecamp is not connected');
-    return auth.account.id;
+  // Falls back to the first connected account if the saved choice was
+  // disconnected since.
+  getActiveAccountId(): number {
+    const accounts = this.getStoredAuths().flatMap((a) => a.accounts);
+    if (accounts.length === 0) throw new Error('Basecamp is not connected');
+    const saved = store.get('basecampActiveAccountId');
+    return accounts.some((a) => a.id === saved) ? saved! : accounts[0].id;
   }
 
-  getAccountHref(): string | undefined {
-    return this.getStoredAuth()?.account.href;
+  setActiveAccount(accountId: number): void {
+    if (!this.isConnected(accountId)) throw new Error('That Basecamp account is not connected');
+    store.set('basecampActiveAccountId', accountId);
+    this.emit('authChanged');
   }
 
-  getIdentityName(): string {
-    const auth = this.getStoredAuth();
-    if (!auth) return '';
-    return [auth.identity.firstName, auth.identity.lastName].filter(Boolean).join(' ').trim();
+  getAccountHref(accountId: number): string | undefined {
+    return this.getStoredAuth(accountId)?.accounts.find((a) => a.id === accountId)?.href;
   }
 
-  disconnect(): void {
-    store.set('basecampAuth', null);
+  // No id: disconnect everything (sign-out, reset). Otherwise drop one
+  // account, and its login once nothing else uses it.
+  disconnect(accountId?: number): void {
+    if (accountId === undefined) {
+      store.set('basecampAuths', []);
+      store.set('basecampActiveAccountId', null);
+    } else {
+      const auths = this.getStoredAuths()
+        .map((a) => ({ ...a, accounts: a.accounts.filter((acc) => acc.id !== accountId) }))
+        .filter((a) => a.accounts.length > 0);
+      store.set('basecampAuths', auths);
+    }
     this.emit('authChanged');
   }
 
+  private saveAuth(auth: StoredAuth): void {
+    const others = this.getStoredAuths().filter((a) => a.identity.id !== auth.identity.id);
+    store.set('basecampAuths', [...others, auth]);
+  }
+
   // ── OAuth flow ──────────────────────────────────────────────────
 
   async connect(): Promise<void> {
@@ -173,19 +226,27 @@ export class BasecampOAuth extends EventEmitter {
     const tokens = await this.exchangeCodeForToken(creds, code);
     const info = await this.fetchAuthInfo(tokens.accessToken);
 
-    const account = info.accounts.find((a) => a.product === 'bc3');
-    if (!account) {
+    const accounts = info.accounts.filter((a) => a.product === 'bc3');
+    if (accounts.length === 0) {
       throw new Error('No Basecamp 3 account found for this user');
     }
 
+    // Connecting the same login again refreshes its tokens and account list.
+    // An account reachable from two logins stays with the newest one.
+    const ids = new Set(accounts.map((a) => a.id));
+    const others = this.getStoredAuths()
+      .filter((a) => a.identity.id !== info.identity.id)
+      .map((a) => ({ ...a, accounts: a.accounts.filter((acc) => !ids.has(acc.id)) }))
+      .filter((a) => a.accounts.length > 0);
     const stored: StoredAuth = {
       accessToken: encrypt(tokens.accessToken),
       refreshToken: encrypt(tokens.refreshToken),
       expiresAt: new Date(Date.now() + tokens.expiresIn * 1000).toISOString(),
-      account: { id: account.id, name: account.name, href: account.href },
+      accounts: accounts.map((a) => ({ id: a.id, name: a.name, href: a.href })),
       identity: info.identity,
     };
-    store.set('basecampAuth', stored);
+    store.set('basecampAuths', [...others, stored]);
+    if (others.length === 0) store.set('basecampActiveAccountId', accounts[0].id);
     this.emit('authChanged');
   }
 
@@ -304,14 +365,15 @@ export class BasecampOAuth extends EventEmitter {
     return { accessToken: data.access_token, refreshToken: data.refresh_token, expiresIn: data.expires_in };
   }
 
-  private async refreshAccessToken(): Promise<string> {
+  private async refreshAccessToken(identityId: number): Promise<string> {
     // If a refresh is already in flight, share its promise — Basecamp burns
     // the refresh_token on first use, so two parallel POSTs would race and
     // the loser would 401 → disconnect.
-    if (this.refreshInFlight) return this.refreshInFlight;
+    const inFlight = this.refreshInFlight.get(identityId);
+    if (inFlight) return inFlight;
 
-    this.refreshInFlight = (async () => {
-      const auth = this.getStoredAuth();
+    const refresh = (async () => {
+      const auth = this.getStoredAuths().find((a) => a.identity.id === identityId);
       const creds = this.getCredentials();
       if (!auth || !creds) throw new Error('Basecamp is not connected');
 
@@ -332,8 +394,10 @@ export class BasecampOAuth extends EventEmitter {
         // Forced disconnect — fire a distinct event so the renderer can
         // surface a persistent "session expired, reconnect" banner instead
         // of silently entering the disconnected state. authChanged still
-        // fires too, for state-update consumers.
-        this.disconnect();
+        // fires too, for state-update consumers. Only this login's accounts
+        // are dropped.
+        store.set('basecampAuths', this.getStoredAuths().filter((a) => a.identity.id !== identityId));
+        this.emit('authChanged');
         this.emit('reauthRequired');
         throw new Error(`Token refresh failed (${res.status}): ${body}`);
       }
@@ -345,14 +409,15 @@ export class BasecampOAuth extends EventEmitter {
         refreshToken: data.refresh_token ? encrypt(data.refresh_token) : auth.refreshToken,
         expiresAt: new Date(Date.now() + data.expires_in * 1000).toISOString(),
       };
-      store.set('basecampAuth', updated);
+      this.saveAuth(updated);
       this.emit('authChanged');
       return data.access_token;
     })().finally(() => {
-      this.refreshInFlight = null;
+      this.refreshInFlight.delete(identityId);
     });
 
-    return this.refreshInFlight;
+    this.refreshInFlight.set(identityId, refresh);
+    return refresh;
   }
 
   private async fetchAuthInfo(accessToken: string): Promise<{
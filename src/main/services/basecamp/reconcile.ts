@@ -0,0 +1,348 @@
+import crypto from 'crypto';
+import {
+  BasecampTimesheetEntry,
+  DailySession,
+  ReconcileAction,
+  ReconcileResult,
+  ReconcileRow,
+  RoundingRule,
+  TimesheetEntryFields,
+} from '../../../shared/types';
+import { isPostable, postedHours, roundingRuleFor } from '../../../shared/rounding';
+import { PersistenceService } from '../persistence';
+import { TimeTracker } from '../timeTracker';
+import { BasecampApi, BasecampApiError } from './api';
+import { TimesheetSyncQueue, diffTimesheetFields, taskOf } from '../providers/syncQueue';
+
+const MAX_IGNORED = 1000;
+
+interface LocalGroup {
+  sessions: Array<{ session: DailySession; dateStr: string }>;
+  fields: TimesheetEntryFields;
+  projectId: number;
+  todoId: number;
+  entryId?: number;
+}
+
+// What's behind each row handed to the renderer, so an action can be applied
+// without trusting the renderer's copy.
+interface RowSource {
+  row: ReconcileRow;
+  accountId: number;
+  group?: LocalGroup;
+  entry?: BasecampTimesheetEntry;
+}
+
+function sessionFields(s: DailySession, dateStr: string, rule: RoundingRule): TimesheetEntryFields {
+  return {
+    date: dateStr,
+    hours: postedHours(s.duration, rule),
+    description: (s.notes && s.notes.trim()) || s.taskLabel,
+  };
+}
+
+function entryFields(e: BasecampTimesheetEntry): TimesheetEntryFields {
+  return { date: e.date, hours: e.hours, description: e.description ?? '' };
+}
+
+// Changes whenever either side does, so an ignored row comes back if someone
+// edits it afterwards.
+function rowKey(parts: unknown[]): string {
+  return crypto.createHash('sha1').update(JSON.stringify(parts)).digest('hex').slice(0, 16);
+}
+
+function isNotFound(err: unknown): boolean {
+  return err instanceof BasecampApiError && err.status === 404;
+}
+
+// 9am local on a YYYY-MM-DD — same anchor AddSessionModal uses for entries
+// that have no real start moment.
+function anchorStart(dateStr: string): Date {
+  const [y, m, d] = dateStr.split('-').map(Number);
+  return new Date(y, m - 1, d, 9, 0, 0);
+}
+
+/**
+ * TimesheetReconciler — compares local sessions with the signed-in user's own
+ * Basecamp timesheet entries over a date range and applies the user's pick per
+ * row: pull (Basecamp wins), push (local wins, via the sync queue) or ignore.
+ * Works on the active account; sessions linked to other accounts are left out.
+ *
+ * Sessions with a sync already queued are left out; the queue owns them until
+ * it settles.
+ */
+export class TimesheetReconciler {
+  private sources = new Map<string, RowSource>();
+  private me: { accountId: number; personId: number } | null = null;
+
+  constructor(
+    private readonly persistence: PersistenceService,
+    private readonly api: BasecampApi,
+    private readonly timeTracker: TimeTracker,
+    private readonly syncQueue: TimesheetSyncQueue,
+    private readonly accountId: () => number,
+  ) {}
+
+  async diff(startDate: string, endDate: string): Promise<ReconcileResult> {
+    const accountId = this.accountId();
+    const api = this.api.forAccount(accountId);
+    const personId = await this.myPersonId(accountId);
+    const entries = await api.getPersonTimesheet(personId, startDate, endDate);
+    const remoteById = new Map(entries.map((e) => [e.id, e]));
+
+    // Local side, grouped by entry — Backfill posts a to-do's day as one entry.
+    // Hours are compared as they'd be posted, after the project's rounding.
+    const settings = this.persistence.getSettings();
+    const groups = new Map<string, LocalGroup>();
+    let pending = 0;
+    for (const rec of this.timeTracker.getAllRecords()) {
+      const dateStr = rec.date.split('T')[0];
+      if (dateStr < startDate || dateStr > endDate) continue;
+      for (const session of rec.sessions) {
+        const link = session.link;
+        if (link?.provider !== 'basecamp' || link.ref.accountId !== accountId) continue;
+        if (this.syncQueue.hasPending(session.id)) { pending++; continue; }
+        if (!link.entryId && !link.synced && !isPostable(session.duration, roundingRuleFor(settings, link))) continue; // never posted: sub-minute noise
+        const groupKey = link.entryId ? `entry:${link.entryId}` : `session:${session.id}`;
+        const group = groups.get(groupKey);
+        if (group) {
+          group.sessions.push({ session, dateStr });
+        } else {
+          groups.set(groupKey, { sessions: [{ session, dateStr }], fields: sessionFields(session, dateStr, roundingRuleFor(settings, link)), projectId: link.ref.projectId, todoId: link.ref.todoId, entryId: link.entryId });
+        }
+      }
+    }
+    for (const group of groups.values()) {
+      if (group.sessions.length > 1) {
+        const total = group.sessions.reduce((sum, s) => sum + s.session.duration, 0);
+        const rule = roundingRuleFor(settings, group.sessions[0].session.link);
+        group.fields = { ...group.fields, hours: postedHours(total, rule) };
+      }
+    }
+
+    const ignored = new Set(this.persistence.getReconcileIgnored());
+    const sources: RowSource[] = [];
+    const claimed = new Set<number>();
+    let matched = 0;
+
+    // Groups that know their entry first, so a pre-v5.1 session can't claim an
+    // entry that belongs to someone else.
+    const ordered = [...groups.values()].sort((a, b) => Number(!a.entryId) - Number(!b.entryId));
+    for (const group of ordered) {
+      const first = group.sessions[0];
+      let entry: BasecampTimesheetEntry | undefined;
+      if (group.entryId) {
+        entry = remoteById.get(group.entryId);
+        if (!entry) {
+          // Moved out of the range in Basecamp, or deleted there.
+          try {
+            entry = await api.getTimesheetEntry(group.entryId);
+          } catch (err) {
+            if (!isNotFound(err)) throw err;
+          }
+        }
+      } else if (first.session.link?.synced) {
+        // Pre-v5.1: posted, but the entry id wasn't kept. Match on to-do + day.
+        entry = entries.find((e) => !claimed.has(e.id) && e.parentId === group.todoId && e.date === group.fields.date);
+      }
+
+      const local = {
+        sessionIds: group.sessions.map((s) => s.session.id),
+        sessionDate: first.dateStr,
+        fields: group.fields,
+        projectId: group.projectId,
+        todoId: group.todoId,
+      };
+
+      if (!entry) {
+        sources.push({
+          accountId,
+          group,
+          row: { key: rowKey(['missingRemote', local]), kind: 'missingRemote', taskLabel: first.session.taskLabel, local, differences: [], canPull: true },
+        });
+        continue;
+      }
+
+      claimed.add(entry.id);
+      const remote = { entryId: entry.id, fields: entryFields(entry), projectId: entry.projectId, todoId: entry.parentId, appUrl: entry.appUrl };
+      const differences = diffTimesheetFields(local.fields, remote.fields);
+      if (differences.length === 0) {
+        matched++;
+        continue;
+      }
+      sources.push({
+        accountId,
+        group,
+        entry,
+        row: {
+          key: rowKey(['mismatch', local, remote]),
+          kind: 'mismatch',
+          taskLabel: first.session.taskLabel,
+          local,
+          remote,
+          differences,
+          canPull: group.sessions.length === 1,
+        },
+      });
+    }
+
+    for (const entry of entries) {
+      if (claimed.has(entry.id)) continue;
+      const remote = { entryId: entry.id, fields: entryFields(entry), projectId: entry.projectId, todoId: entry.parentId, appUrl: entry.appUrl };
+      sources.push({
+        accountId,
+        entry,
+        row: { key: rowKey(['missingLocal', remote]), kind: 'missingLocal', taskLabel: entry.parentTitle ?? 'Basecamp entry', remote, differences: [], canPull: true },
+      });
+    }
+
+    this.sources.clear();
+    const rows: ReconcileRow[] = [];
+    let ignoredCount = 0;
+    for (const source of sources) {
+      if (ignored.has(source.row.key)) {
+        ignoredCount++;
+        continue;
+      }
+      this.sources.set(source.row.key, source);
+      rows.push(source.row);
+    }
+    rows.sort((a, b) => (a.local?.fields.date ?? a.remote!.fields.date).localeCompare(b.local?.fields.date ?? b.remote!.fields.date));
+
+    return { startDate, endDate, rows, matched, ignored: ignoredCount, pending };
+  }
+
+  // Returns whether a push is still queued (offline, or waiting on a conflict).
+  async apply(key: string, action: ReconcileAction): Promise<{ queued: boolean }> {
+    const source = this.sources.get(key);
+    if (!source) throw new Error('This row is out of date — refresh and try again');
+
+    let queued = false;
+    if (action === 'ignore') {
+      const ignored = this.persistence.getReconcileIgnored().filter((k) => k !== key);
+      ignored.push(key);
+      this.persistence.saveReconcileIgnored(ignored.slice(-MAX_IGNORED));
+    } else if (action === 'pull') {
+      this.pull(source);
+    } else {
+      queued = await this.push(source);
+    }
+    this.sources.delete(key);
+    return { queued };
+  }
+
+  clear() {
+    this.sources.clear();
+    this.me = null;
+    this.persistence.saveReconcileIgnored([]);
+  }
+
+  // ── Actions ──────────────────────────────────────────────────
+
+  // Basecamp wins.
+  private pull({ row, accountId, group, entry }: RowSource) {
+    if (!row.canPull) throw new Error('This entry covers several sessions — edit them individually');
+
+    if (row.kind === 'missingRemote') {
+      // Gone from Basecamp: keep the time locally, drop the link.
+      for (const { session, dateStr } of group!.sessions) {
+        this.timeTracker.updateSession(session.id, dateStr, { link: null });
+      }
+      return;
+    }
+
+    const remote = entryFields(entry!);
+    const hours = parseFloat(remote.hours);
+    const duration = Number.isFinite(hours) && hours > 0 ? Math.round(hours * 3600) : undefined;
+
+    if (row.kind === 'missingLocal') {
+      const start = anchorStart(remote.date);
+      this.timeTracker.addSession({
+        taskLabel: entry!.parentTitle ?? 'Basecamp entry',
+        duration: duration ?? 0,
+        startTime: start.toISOString(),
+        endTime: new Date(start.getTime() + (duration ?? 0) * 1000).toISOString(),
+        notes: remote.description || undefined,
+        link: {
+          provider: 'basecamp',
+          ref: { accountId, projectId: entry!.projectId ?? 0, todoId: entry!.parentId },
+          synced: true,
+          entryId: entry!.id,
+          lastPushed: remote,
+        },
+      });
+      return;
+    }
+
+    // Mismatch on a single session.
+    const { session, dateStr } = group!.sessions[0];
+    let sessionDate = dateStr;
+    if (remote.date !== dateStr) {
+      this.timeTracker.moveSession(session.id, dateStr, remote.date);
+      sessionDate = remote.date;
+    }
+    this.timeTracker.updateSession(session.id, sessionDate, {
+      ...(duration ? { duration } : {}),
+      notes: remote.description === session.taskLabel ? '' : remote.description,
+      link: { ...session.link!, synced: true, entryId: entry!.id, lastPushed: remote },
+    });
+  }
+
+  // Local wins. Goes through the sync queue like any other write, without a
+  // baseline — the user has just seen Basecamp's version and chosen theirs.
+  private async push({ row, accountId, group, entry }: RowSource): Promise<boolean> {
+    const outcomes: string[] = [];
+
+    if (row.kind === 'missingLocal') {
+      outcomes.push(await this.syncQueue.enqueue({
+        kind: 'delete',
+        // Nothing local to hang it on; the entry id keeps it unique.
+        sessionId: `entry:${entry!.id}`,
+        sessionDate: entry!.date,
+        taskLabel: row.taskLabel,
+        task: { provider: 'basecamp', ref: { accountId, projectId: entry!.projectId ?? 0, todoId: entry!.parentId } },
+        entryId: entry!.id,
+        baseline: entryFields(entry!),
+      }));
+    } else if (row.kind === 'missingRemote') {
+      // One fresh entry per session — merged entries were a Backfill shortcut.
+      for (const { session, dateStr } of group!.sessions) {
+        this.timeTracker.updateSession(session.id, dateStr, {
+          link: { ...session.link!, synced: false, entryId: undefined, lastPushed: undefined },
+        });
+        outcomes.push(await this.syncQueue.enqueue({
+          kind: 'create',
+          sessionId: session.id,
+          sessionDate: dateStr,
+          taskLabel: session.taskLabel,
+          task: taskOf(session.link!),
+          fields: sessionFields(session, dateStr, roundingRuleFor(this.persistence.getSettings(), session.link)),
+        }));
+      }
+    } else {
+      const { session, dateStr } = group!.sessions[0];
+      outcomes.push(await this.syncQueue.enqueue({
+        kind: 'update',
+        sessionId: session.id,
+        sessionDate: dateStr,
+        taskLabel: session.taskLabel,
+        task: taskOf(session.link!),
+        entryId: entry!.id,
+        fields: group!.fields,
+      }));
+    }
+
+    if (outcomes.includes('failed')) {
+      const failed = this.syncQueue.getStatus().ops.find((o) => o.status === 'failed' && (o.entryId === entry?.id || group?.sessions.some((s) => s.session.id === o.sessionId)));
+      throw new Error(failed?.lastError ?? 'Basecamp rejected the change');
+    }
+    return outcomes.some((o) => o !== 'synced');
+  }
+
+  private async myPersonId(accountId: number): Promise<number> {
+    if (this.me?.accountId !== accountId) {
+      this.me = { accountId, personId: await this.api.forAccount(accountId).getMyPersonId() };
+    }
+    return this.me.personId;
+  }
+}
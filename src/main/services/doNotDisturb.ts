@@ -0,0 +1,111 @@
+import { EventEmitter } from 'events';
+import { DndHoldReason, DndPolicy, HeldAlert, HeldAlertKind } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Quiet hours are minute-granular and meeting mode / Focused can end at any
+// time; a held digest goes out at most this late.
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export type IncomingAlert = Omit<HeldAlert, 'at' | 'reason'>;
+
+// What the policy needs to know about the user right now.
+export interface DndContext {
+  focused: boolean;
+  meetingMode: boolean;
+}
+
+function minutesOf(t: { hour: number; minute: number }): number {
+  return t.hour * 60 + t.minute;
+}
+
+// Whether `now` falls in the quiet hours. An end at/before the start means
+// they run past midnight (e.g. 22:00–07:00).
+export function inQuietHours(policy: DndPolicy, now = new Date()): boolean {
+  if (!policy.quietHours) return false;
+  const start = minutesOf(policy.quietHours.start);
+  const end = minutesOf(policy.quietHours.end);
+  const at = now.getHours() * 60 + now.getMinutes();
+  if (start === end) return false;
+  return start < end ? at >= start && at < end : at >= start || at < end;
+}
+
+// Decides, in main, whether an incoming alert may interrupt — called before
+// any alert window or notification for one. Held alerts are kept in memory
+// and emitted as `digest` (alerts) once what held them has lifted.
+//
+// Alerts held only because of their sender don't lift on their own; they go
+// out with the next digest, or when the policy is turned off.
+export class DoNotDisturb extends EventEmitter {
+  private persistence: PersistenceService;
+  private context: () => DndContext;
+  private interval: NodeJS.Timeout | null = null;
+  private held: HeldAlert[] = [];
+
+  constructor(persistence: PersistenceService, context: () => DndContext) {
+    super();
+    this.persistence = persistence;
+    this.context = context;
+  }
+
+  start() {
+    this.stop();
+    this.interval = setInterval(() => this.evaluate(), CHECK_INTERVAL_MS);
+  }
+
+  // Sign-out. Held alerts belong to the user leaving and are dropped.
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.held = [];
+  }
+
+  // True when the alert may be shown now. Otherwise it's held for the digest.
+  admit(alert: IncomingAlert): boolean {
+    const reason = this.holdReason(alert);
+    if (!reason) return true;
+    this.held = [...this.held, { ...alert, at: new Date().toISOString(), reason }];
+    return false;
+  }
+
+  getHeld(): HeldAlert[] {
+    return this.held;
+  }
+
+  // Re-check the held alerts against the policy as it is now. Runs on the
+  // tick and whenever main knows the context just changed.
+  evaluate() {
+    if (this.held.length === 0) return;
+    const policy = this.persistence.getSettings().dndPolicy;
+    let released: HeldAlert[];
+    if (!policy.enabled) {
+      released = this.held;
+    } else {
+      const lifted = this.held.filter((h) => h.reason !== 'sender' && !this.contextReason(policy, h.kind));
+      if (lifted.length === 0) return;
+      released = this.held.filter((h) => h.reason === 'sender' || lifted.includes(h));
+    }
+    this.held = this.held.filter((h) => !released.includes(h));
+    this.emit('digest', released);
+  }
+
+  private holdReason(alert: IncomingAlert): DndHoldReason | null {
+    const policy = this.persistence.getSettings().dndPolicy;
+    if (!policy.enabled) return null;
+    if (alert.senderId && policy.allowSenderIds.includes(alert.senderId)) return null;
+    if (alert.senderId && policy.denySenderIds.includes(alert.senderId)) return 'sender';
+    return this.contextReason(policy, alert.kind);
+  }
+
+  // The hold that comes from the user's situation rather than the sender.
+  // Meeting mode holds everything; emergencies get through anything else.
+  private contextReason(policy: DndPolicy, kind: HeldAlertKind): DndHoldReason | null {
+    const { focused, meetingMode } = this.context();
+    if (meetingMode && policy.holdInMeetingMode) return 'meetingMode';
+    if (kind === 'emergency') return null;
+    if (focused && policy.focusedOnlyEmergencies) return 'focused';
+    if (inQuietHours(policy)) return 'quietHours';
+    return null;
+  }
+}
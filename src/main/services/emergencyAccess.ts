@@ -0,0 +1,231 @@
+import crypto from 'crypto';
+import { DEFAULT_EMERGENCY_POLICY, EmergencyAuditAction, EmergencyAuditEntry, EmergencyPolicy, SignedEmergencyPolicy, User } from '../../shared/types';
+import { getDeviceIdentity, getPinnedPeer } from '../networking/peerIdentity';
+import { identityFingerprint } from '../networking/SecureChannel';
+import { LicenseManager } from './licenseManager';
+import { PersistenceService } from './persistence';
+
+// Emergencies are rare; this is years of them for a small team, and keeps a
+// runaway sender from growing the store without bound.
+const AUDIT_MAX_ENTRIES = 2000;
+
+// More than this many a day isn't an emergency policy.
+const MAX_DAILY_LIMIT = 100;
+
+// A policy stamped later than this from now is refused — otherwise one dated
+// years ahead could never be replaced.
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000;
+
+export type AuditInput = Omit<EmergencyAuditEntry, 'id' | 'at'>;
+
+type PolicyDraft = Pick<EmergencyPolicy, 'allowedSenderIds' | 'dailyLimit' | 'requireReason'>;
+
+// "2 senders · 3 a day each · reason required" — for the audit log.
+export function describePolicy(policy: EmergencyPolicy): string {
+  const senders = policy.allowedSenderIds.length;
+  return [
+    `${senders} sender${senders === 1 ? '' : 's'} besides admins`,
+    policy.dailyLimit === null ? 'no daily limit' : `${policy.dailyLimit} a day each`,
+    policy.requireReason ? 'reason required' : 'no reason required',
+  ].join(' · ');
+}
+
+function isFuture(iso: string): boolean {
+  return Date.parse(iso) > Date.now() + MAX_CLOCK_SKEW_MS;
+}
+
+function isSameDay(iso: string, now: Date): boolean {
+  const d = new Date(iso);
+  return d.getFullYear() === now.getFullYear() && d.getMonth() === now.getMonth() && d.getDate() === now.getDate();
+}
+
+// The team's emergency policy and this machine's audit log of every
+// emergency sent, received, blocked, granted or revoked. Main asks it before
+// an emergency goes out or pops up, and passes the policy around the team.
+//
+// A policy from a peer is only taken with proof it came from an admin: a
+// signature over the policy by the device identity key we pinned for the
+// admin who vouches for it, and the license issuer's attestation that this
+// key is one of our team's admins. Secure transport is needed — without pins
+// there's nothing to check the signature against.
+export class EmergencyAccess {
+  private persistence: PersistenceService;
+  private license: LicenseManager;
+  private policy: EmergencyPolicy;
+  private log: EmergencyAuditEntry[];
+  // The policy as last received, to pass on unchanged. Not persisted —
+  // after a restart an admin re-signs it.
+  private signed: SignedEmergencyPolicy | null = null;
+
+  constructor(persistence: PersistenceService, license: LicenseManager) {
+    this.persistence = persistence;
+    this.license = license;
+    this.policy = persistence.getEmergencyPolicy();
+    this.log = persistence.getEmergencyAuditLog();
+    if (this.policy.updatedAt && isFuture(this.policy.updatedAt)) {
+      this.policy = DEFAULT_EMERGENCY_POLICY;
+      persistence.saveEmergencyPolicy(this.policy);
+    }
+  }
+
+  getPolicy(): EmergencyPolicy {
+    return this.policy;
+  }
+
+  // Until an admin saves a policy, the old rules apply: per-peer grants on
+  // the sending side, nothing checked on the receiving side.
+  isEnforced(): boolean {
+    return this.policy.updatedAt !== null;
+  }
+
+  // An admin's edit, stamped as theirs and the newest.
+  save(draft: PolicyDraft, admin: User): EmergencyPolicy {
+    this.policy = {
+      allowedSenderIds: [...new Set(draft.allowedSenderIds)],
+      adminIds: [...new Set([...this.policy.adminIds, admin.id])],
+      dailyLimit: draft.dailyLimit === null ? null : Math.min(MAX_DAILY_LIMIT, Math.max(1, Math.round(draft.dailyLimit))),
+      requireReason: draft.requireReason,
+      updatedAt: new Date().toISOString(),
+      updatedById: admin.id,
+      updatedBy: admin.name,
+    };
+    this.signed = null;
+    this.persistence.saveEmergencyPolicy(this.policy);
+    return this.policy;
+  }
+
+  // The policy to send to peers, or null when there's none or we can't vouch
+  // for it. An admin signs it afresh; anyone else passes on what they got.
+  signedPolicy(selfId: string): SignedEmergencyPolicy | null {
+    if (!this.isEnforced()) return null;
+    const identity = getDeviceIdentity();
+    const attestation = this.license.getLicenseState().isAdmin
+      ? this.license.getAdminAttestation(identityFingerprint(identity.publicKey))
+      : null;
+    if (!attestation) return this.signed;
+    const policy = JSON.stringify(this.policy);
+    return {
+      policy,
+      signerId: selfId,
+      attestation,
+      identityKey: identity.publicKey.export({ type: 'spki', format: 'der' }).toString('base64'),
+      signature: crypto.sign(null, Buffer.from(policy, 'utf-8'), identity.privateKey).toString('base64'),
+    };
+  }
+
+  // A policy from a peer. Kept only when an admin vouches for it and it's
+  // well-formed and newer than ours; returns it if it was.
+  applyRemote(data: unknown): EmergencyPolicy | null {
+    const signed = this.verify(data);
+    if (!signed) return null;
+    let p: Record<string, unknown>;
+    try {
+      p = JSON.parse(signed.policy);
+    } catch {
+      return null;
+    }
+    if (!p || typeof p !== 'object') return null;
+    const ids = (v: unknown) => Array.isArray(v) && v.every((id) => typeof id === 'string');
+    if (!ids(p.allowedSenderIds) || !ids(p.adminIds) || typeof p.requireReason !== 'boolean') return null;
+    if (p.dailyLimit !== null && (typeof p.dailyLimit !== 'number' || !Number.isInteger(p.dailyLimit) || p.dailyLimit < 1 || p.dailyLimit > MAX_DAILY_LIMIT)) return null;
+    if (typeof p.updatedAt !== 'string' || isNaN(Date.parse(p.updatedAt)) || isFuture(p.updatedAt)) return null;
+    if (this.policy.updatedAt && Date.parse(p.updatedAt) <= Date.parse(this.policy.updatedAt)) return null;
+    this.policy = {
+      allowedSenderIds: p.allowedSenderIds as string[],
+      adminIds: p.adminIds as string[],
+      dailyLimit: p.dailyLimit as number | null,
+      requireReason: p.requireReason,
+      updatedAt: p.updatedAt,
+      updatedById: typeof p.updatedById === 'string' ? p.updatedById : undefined,
+      updatedBy: typeof p.updatedBy === 'string' ? p.updatedBy : undefined,
+    };
+    this.signed = signed;
+    this.persistence.saveEmergencyPolicy(this.policy);
+    return this.policy;
+  }
+
+  // Whether the policy lets `userId` send emergencies at all.
+  mayAllow(userId: string): boolean {
+    return this.policy.allowedSenderIds.includes(userId) || this.policy.adminIds.includes(userId);
+  }
+
+  // Why `sender` (this user) can't send an emergency with `reason` right
+  // now, or null when they can.
+  checkSend(sender: User, reason?: string): string | null {
+    if (!this.isEnforced()) {
+      return sender.canSendEmergency || sender.isAdmin ? null : "You don't have emergency access";
+    }
+    const admin = sender.isAdmin || this.policy.adminIds.includes(sender.id);
+    if (!admin && !this.policy.allowedSenderIds.includes(sender.id)) {
+      return "Your team's policy doesn't let you send emergency requests";
+    }
+    if (this.policy.requireReason && !reason?.trim()) {
+      return 'Your team asks for a reason with every emergency request';
+    }
+    const limit = this.policy.dailyLimit;
+    if (!admin && limit !== null && this.countToday('sent', sender.id) >= limit) {
+      return `You've sent today's ${limit} emergency request${limit === 1 ? '' : 's'}`;
+    }
+    return null;
+  }
+
+  // Why an emergency from `senderId` shouldn't be treated as one, or null.
+  // Counted against what this machine received from them today.
+  checkReceive(senderId: string, reason?: string): string | null {
+    if (!this.isEnforced()) return null;
+    if (!this.mayAllow(senderId)) return 'sender not allowed by the team policy';
+    if (this.policy.requireReason && !reason?.trim()) return 'no reason given';
+    const limit = this.policy.dailyLimit;
+    if (limit !== null && !this.policy.adminIds.includes(senderId) && this.countToday('received', senderId) >= limit) {
+      return `over the limit of ${limit} a day`;
+    }
+    return null;
+  }
+
+  record(input: AuditInput): EmergencyAuditEntry {
+    const entry: EmergencyAuditEntry = { id: crypto.randomUUID(), at: new Date().toISOString(), ...input };
+    this.log = [...this.log, entry].slice(-AUDIT_MAX_ENTRIES);
+    this.persistence.saveEmergencyAuditLog(this.log);
+    return entry;
+  }
+
+  // Newest first.
+  auditLog(): EmergencyAuditEntry[] {
+    return [...this.log].reverse();
+  }
+
+  // Used at reset — the log and the policy both go.
+  clear() {
+    this.policy = DEFAULT_EMERGENCY_POLICY;
+    this.signed = null;
+    this.log = [];
+    this.persistence.saveEmergencyPolicy(this.policy);
+    this.persistence.saveEmergencyAuditLog(this.log);
+  }
+
+  // The envelope, if an admin of our team signed it with their pinned,
+  // attested key.
+  private verify(data: unknown): SignedEmergencyPolicy | null {
+    if (!data || typeof data !== 'object') return null;
+    const d = data as Record<string, unknown>;
+    if (typeof d.policy !== 'string' || typeof d.signerId !== 'string' || typeof d.attestation !== 'string'
+      || typeof d.identityKey !== 'string' || typeof d.signature !== 'string') return null;
+    const signed = d as unknown as SignedEmergencyPolicy;
+
+    const pin = getPinnedPeer(signed.signerId);
+    if (!pin || pin.fingerprint !== identityFingerprint(signed.identityKey)) return null;
+    if (!this.license.checkAdminAttestation(signed.attestation, pin.fingerprint).isValid) return null;
+    try {
+      const key = crypto.createPublicKey({ key: Buffer.from(signed.identityKey, 'base64'), format: 'der', type: 'spki' });
+      if (!crypto.verify(null, Buffer.from(signed.policy, 'utf-8'), key, Buffer.from(signed.signature, 'base64'))) return null;
+    } catch {
+      return null;
+    }
+    return signed;
+  }
+
+  private countToday(action: EmergencyAuditAction, actorId: string): number {
+    const now = new Date();
+    return this.log.filter((e) => e.action === action && e.actorId === actorId && isSameDay(e.at, now)).length;
+  }
+}
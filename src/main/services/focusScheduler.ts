@@ -0,0 +1,114 @@
+import { EventEmitter } from 'events';
+import { FocusSchedule } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// How often the scheduler re-checks the clock. Blocks are minute-granular, so
+// a 30s tick means a block opens/closes at most half a minute late — and the
+// resume hook below covers the "lid was closed across the boundary" case.
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+export type FocusSchedulerEvent = 'blockStarted' | 'blockEnded';
+
+export interface ActiveFocusBlock {
+  schedule: FocusSchedule;
+  startsAt: string; // ISO
+  endsAt: string;   // ISO
+}
+
+// Compute the [start, end) window a schedule occupies when it opens on `day`.
+// Returns null if the schedule doesn't run on that weekday. An end time at or
+// before the start time means the block runs past midnight into the next day
+// (e.g. 22:00–01:00); `daysOfWeek` always refers to the day the block opens.
+function windowOn(schedule: FocusSchedule, day: Date): { start: number; end: number } | null {
+  if (!schedule.daysOfWeek.includes(day.getDay())) return null;
+  const start = new Date(day);
+  start.setHours(schedule.startTime.hour, schedule.startTime.minute, 0, 0);
+  const end = new Date(day);
+  end.setHours(schedule.endTime.hour, schedule.endTime.minute, 0, 0);
+  if (end.getTime() === start.getTime()) return null; // zero-length — nothing to do
+  if (end.getTime() < start.getTime()) end.setDate(end.getDate() + 1);
+  return { start: start.getTime(), end: end.getTime() };
+}
+
+// The window of `schedule` that contains `now`, if any. Checks both today's
+// and yesterday's opening so an overnight block is still found after midnight.
+function currentWindow(schedule: FocusSchedule, now: Date): { start: number; end: number } | null {
+  const yesterday = new Date(now);
+  yesterday.setDate(yesterday.getDate() - 1);
+  for (const day of [now, yesterday]) {
+    const w = windowOn(schedule, day);
+    if (w && now.getTime() >= w.start && now.getTime() < w.end) return w;
+  }
+  return null;
+}
+
+// Watches the persisted FocusSchedules and emits `blockStarted` / `blockEnded`
+// as their windows open and close. The scheduler only decides *when* — what
+// happens (status flip, timer start) lives in the main process so it can reuse
+// the same code paths as a manual status change or timer start.
+//
+// Only one block is active at a time. If windows overlap, the first matching
+// schedule (in list order) wins and the next one picks up when it ends.
+export class FocusScheduler extends EventEmitter {
+  private persistence: PersistenceService;
+  private interval: NodeJS.Timeout | null = null;
+  private active: ActiveFocusBlock | null = null;
+
+  constructor(persistence: PersistenceService) {
+    super();
+    this.persistence = persistence;
+  }
+
+  start() {
+    this.stop();
+    this.evaluate();
+    this.interval = setInterval(() => this.evaluate(), CHECK_INTERVAL_MS);
+  }
+
+  // Stops ticking and forgets the active block WITHOUT emitting `blockEnded`.
+  // Used at sign-out, where there's no user left to revert.
+  stop() {
+    if (this.interval) {
+      clearInterval(this.interval);
+      this.interval = null;
+    }
+    this.active = null;
+  }
+
+  getActive(): ActiveFocusBlock | null {
+    return this.active;
+  }
+
+  // Re-check the clock now. Called on every tick, after system resume (the
+  // interval doesn't fire while asleep), and whenever schedules are edited so
+  // a disabled/deleted block closes immediately.
+  evaluate(now: Date = new Date()) {
+    const schedules = this.persistence.getSchedules().filter((s) => s.enabled && s.daysOfWeek.length > 0);
+
+    if (this.active) {
+      const current = schedules.find((s) => s.id === this.active!.schedule.id);
+      const w = current ? currentWindow(current, now) : null;
+      if (current && w && new Date(this.active.startsAt).getTime() === w.start) {
+        // Still inside the same block. Pick up edits (e.g. a new end time or
+        // task label) without re-firing the start side effects.
+        this.active = { schedule: current, startsAt: this.active.startsAt, endsAt: new Date(w.end).toISOString() };
+        return;
+      }
+      const ended = this.active;
+      this.active = null;
+      this.emit('blockEnded', ended);
+    }
+
+    for (const schedule of schedules) {
+      const w = currentWindow(schedule, now);
+      if (!w) continue;
+      this.active = {
+        schedule,
+        startsAt: new Date(w.start).toISOString(),
+        endsAt: new Date(w.end).toISOString(),
+      };
+      this.emit('blockStarted', this.active);
+      return;
+    }
+  }
+}
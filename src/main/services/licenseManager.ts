@@ -2,7 +2,7 @@ import crypto from 'crypto';
 import os from 'os';
 import Store from 'electron-store';
 import { safeStorage } from 'electron';
-import { LicensePayload, LicenseState } from '../../shared/types';
+import { AdminAttestationPayload, AdminAttestationState, LicensePayload, LicenseState } from '../../shared/types';
 
 // Wrap the license key on disk with safeStorage (Keychain on mac / DPAPI on
 // Windows). Falls back to plaintext only when the OS keystore is unavailable;
@@ -40,6 +40,7 @@ const licenseStore = new Store({
   defaults: {
     licenseKey: null as string | null,
     deviceFingerprint: null as string | null,
+    adminAttestation: null as string | null,
   },
 });
 
@@ -111,6 +112,7 @@ export class LicenseManager {
   deactivateLicense(): void {
     licenseStore.set('licenseKey', null);
     licenseStore.set('deviceFingerprint', null);
+    licenseStore.set('adminAttestation', null);
     this.cachedState = { isValid: false, isPro: false, isAdmin: false, payload: null };
   }
 
@@ -130,6 +132,87 @@ export class LicenseManager {
     return this.getLicenseState().isPro;
   }
 
+  /**
+   * Shared key for secure peer connections. Every teammate's license carries
+   * the same `teamSecret`, so machines on one team derive the same 32 bytes
+   * and nobody else can. Older keys without the field fall back to the key
+   * itself, which only matches teammates who activated the identical key.
+   * Null on the free tier.
+   */
+  getTeamSecret(): Buffer | null {
+    const state = this.getLicenseState();
+    if (!state.isValid || !state.payload) return null;
+    const stored = licenseStore.get('licenseKey') as string | null;
+    const key = stored ? decryptLicenseKey(stored) : '';
+    if (!key) return null;
+
+    let ikm = key;
+    try {
+      const raw = JSON.parse(Buffer.from(key.substring(key.indexOf('.') + 1), 'base64').toString('utf-8'));
+      if (typeof raw.teamSecret === 'string' && raw.teamSecret) ikm = raw.teamSecret;
+    } catch {
+      // Already validated above — keep the key-derived fallback.
+    }
+    return Buffer.from(crypto.hkdfSync('sha256', ikm, 'zenstate-team-secret-v1', state.payload.teamName, 32));
+  }
+
+  /**
+   * Store the issuer's attestation that this device's identity key (by its
+   * `fingerprint`) belongs to an admin of our team. It's what lets teammates
+   * accept an emergency policy this admin signs; kept only if it checks out.
+   */
+  activateAdminAttestation(attestation: string, fingerprint: string): AdminAttestationState {
+    const state = this.checkAdminAttestation(attestation.trim(), fingerprint);
+    if (state.isValid) licenseStore.set('adminAttestation', attestation.trim());
+    return state;
+  }
+
+  /**
+   * This device's stored attestation, checked again — it may have expired or
+   * the license changed since it was entered.
+   */
+  getAdminAttestationState(fingerprint: string): AdminAttestationState {
+    const stored = licenseStore.get('adminAttestation') as string | null;
+    if (!stored) return { fingerprint, isValid: false };
+    return this.checkAdminAttestation(stored, fingerprint);
+  }
+
+  /**
+   * The stored attestation while it's still good, to send with a policy.
+   */
+  getAdminAttestation(fingerprint: string): string | null {
+    const stored = licenseStore.get('adminAttestation') as string | null;
+    return stored && this.checkAdminAttestation(stored, fingerprint).isValid ? stored : null;
+  }
+
+  /**
+   * Check an attestation — ours or a teammate's — for the device key with
+   * `fingerprint`: signed by the issuer, unexpired, and for our team.
+   */
+  checkAdminAttestation(attestation: string, fingerprint: string): AdminAttestationState {
+    const invalid = (error: string): AdminAttestationState => ({ fingerprint, isValid: false, error });
+    const ours = this.getLicenseState();
+    if (!ours.isValid || !ours.payload) return invalid('Activate a team license first');
+    try {
+      const dotIndex = attestation.indexOf('.');
+      if (dotIndex === -1) return invalid('Invalid attestation format');
+      const signature = Buffer.from(attestation.substring(0, dotIndex), 'base64');
+      const payloadBytes = Buffer.from(attestation.substring(dotIndex + 1), 'base64');
+      if (!crypto.verify(null, payloadBytes, PUBLIC_KEY, signature)) return invalid('Invalid attestation signature');
+
+      const payload: AdminAttestationPayload = JSON.parse(payloadBytes.toString('utf-8'));
+      if (payload.kind !== 'adminAttestation') return invalid('Not an admin attestation');
+      if (payload.teamName !== ours.payload.teamName) return invalid(`Attestation is for ${payload.teamName}, not this team`);
+      if (payload.fingerprint !== fingerprint) return invalid("Attestation is for another device's key");
+      const expiresAt = new Date(payload.expiresAt);
+      if (isNaN(expiresAt.getTime())) return invalid('Invalid expiry date in attestation');
+      if (expiresAt < new Date()) return invalid(`Attestation expired on ${expiresAt.toLocaleDateString()}`);
+      return { fingerprint, isValid: true, expiresAt: payload.expiresAt };
+    } catch (err) {
+      return invalid(err instanceof Error ? err.message : 'Unknown error validating attestation');
+    }
+  }
+
   /**
    * Invalidate cached state so next getLicenseState() re-validates.
    */
@@ -165,8 +248,9 @@ export class LicenseManager {
         return { isValid: false, isPro: false, isAdmin: false, payload: null, error: 'Invalid license key signature' };
       }
 
-      // Parse payload
-      const payload: LicensePayload = JSON.parse(payloadBytes.toString('utf-8'));
+      // Parse payload. The team secret stays in main — license state is
+      // handed to the renderer as-is.
+      const { teamSecret: _teamSecret, ...payload }: LicensePayload = JSON.parse(payloadBytes.toString('utf-8'));
 
       // Check expiry
       const expiresAt = new Date(payload.expiresAt);
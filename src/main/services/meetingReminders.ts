@@ -0,0 +1,81 @@
+import { EventEmitter } from 'events';
+import { MeetingReminder } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Slots are minute-granular; a reminder goes off at most this late.
+const CHECK_INTERVAL_MS = 15 * 1000;
+
+// A reminder that came due while ZenState wasn't running still fires at
+// launch if it's this recent — any older and the meeting has happened or
+// been missed either way.
+const MISSED_GRACE_MS = 15 * 60 * 1000;
+
+// Meetings agreed for later through a meeting request's proposed slots. Each
+// side keeps its own copy; this only decides when one is due and emits `due`
+// (reminder) — main shows the alert.
+export class MeetingReminders extends EventEmitter {
+  private persistence: PersistenceService;
+  private reminders: MeetingReminder[];
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(persistence: PersistenceService) {
+    super();
+    this.persistence = persistence;
+    this.reminders = persistence.getMeetingReminders();
+  }
+
+  start() {
+    this.stop();
+    const cutoff = Date.now() - MISSED_GRACE_MS;
+    const kept = this.persistence.getMeetingReminders().filter((r) => new Date(r.at).getTime() >= cutoff);
+    this.reminders = kept;
+    this.save();
+    this.interval = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+    this.check();
+  }
+
+  stop() {
+    if (!this.interval) return;
+    clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  list(): MeetingReminder[] {
+    return [...this.reminders].sort((a, b) => a.at.localeCompare(b.at));
+  }
+
+  // Adding a slot that's already scheduled (a resent acceptance) replaces it.
+  add(reminder: MeetingReminder) {
+    this.reminders = [...this.reminders.filter((r) => r.id !== reminder.id), reminder];
+    this.save();
+    this.check();
+  }
+
+  remove(id: string): boolean {
+    const before = this.reminders.length;
+    this.reminders = this.reminders.filter((r) => r.id !== id);
+    if (this.reminders.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  // Used at reset.
+  clear() {
+    this.reminders = [];
+    this.save();
+  }
+
+  private check() {
+    if (!this.interval) return;
+    const now = Date.now();
+    const due = this.reminders.filter((r) => new Date(r.at).getTime() <= now);
+    if (due.length === 0) return;
+    this.reminders = this.reminders.filter((r) => !due.includes(r));
+    this.save();
+    for (const reminder of due) this.emit('due', reminder);
+  }
+
+  private save() {
+    this.persistence.saveMeetingReminders(this.reminders);
+  }
+}
@@ -0,0 +1,105 @@
+import { DeliveryState, OutboundMessage } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// A heads-up is still worth delivering after lunch; a meeting request from
+// an hour ago is not.
+const PING_TTL_MS = 12 * 60 * 60 * 1000;
+const MEETING_REQUEST_TTL_MS = 30 * 60 * 1000;
+// Delivered/read/expired entries stay visible this long, then drop off.
+const RETAIN_MS = 24 * 60 * 60 * 1000;
+
+const STATE_RANK: Record<DeliveryState, number> = { queued: 0, sent: 1, delivered: 2, read: 3, expired: 4 };
+
+function ttlFor(entry: OutboundMessage): number {
+  return entry.kind === 'meetingRequest' ? MEETING_REQUEST_TTL_MS : PING_TTL_MS;
+}
+
+// Outgoing pings and meeting requests, one entry per recipient. Anything that
+// couldn't be written to a live connection stays `queued` and goes out the
+// next time that teammate connects. Volume is a handful of messages a day, so
+// every change is written straight through.
+export class Outbox {
+  private persistence: PersistenceService;
+  private entries: OutboundMessage[];
+
+  constructor(persistence: PersistenceService) {
+    this.persistence = persistence;
+    this.entries = persistence.getOutboundQueue();
+  }
+
+  list(): OutboundMessage[] {
+    if (this.expire()) this.save();
+    return [...this.entries].sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  enqueue(entries: OutboundMessage[]) {
+    this.entries.push(...entries);
+    this.save();
+  }
+
+  // What to (re)send now that `recipientId` is connected. Queued entries
+  // always; `sent` ones only to clients that send receipts — the connection
+  // may have dropped before they arrived, and those clients deduplicate by id.
+  pendingFor(recipientId: string, resendUnacknowledged: boolean): OutboundMessage[] {
+    if (this.expire()) this.save();
+    const now = Date.now();
+    return this.entries.filter((e) =>
+      e.recipientId === recipientId
+      && (e.state === 'queued' || (resendUnacknowledged && e.state === 'sent'))
+      && now - new Date(e.createdAt).getTime() <= ttlFor(e)
+    );
+  }
+
+  // Moves an entry forward. Receipts can arrive out of order (a read receipt
+  // racing a resend), so a state never goes backwards. Returns whether
+  // anything changed.
+  update(id: string, recipientId: string, state: DeliveryState): boolean {
+    const entry = this.entries.find((e) => e.id === id && e.recipientId === recipientId);
+    if (!entry || STATE_RANK[state] <= STATE_RANK[entry.state] || entry.state === 'expired') return false;
+    entry.state = state;
+    entry.updatedAt = new Date().toISOString();
+    this.save();
+    return true;
+  }
+
+  // The sender withdrew their meeting request — don't deliver or resend it
+  // later. Requests that already arrived are withdrawn by the cancel message.
+  cancelMeetingRequests(recipientId: string): boolean {
+    const before = this.entries.length;
+    this.entries = this.entries.filter((e) =>
+      !(e.kind === 'meetingRequest' && e.recipientId === recipientId && (e.state === 'queued' || e.state === 'sent'))
+    );
+    if (this.entries.length === before) return false;
+    this.save();
+    return true;
+  }
+
+  clear() {
+    this.entries = [];
+    this.save();
+  }
+
+  // Queued entries past their TTL become `expired`; settled entries past
+  // RETAIN_MS are dropped. Returns whether anything changed.
+  private expire(): boolean {
+    const now = Date.now();
+    let changed = false;
+    for (const entry of this.entries) {
+      if (entry.state === 'queued' && now - new Date(entry.createdAt).getTime() > ttlFor(entry)) {
+        entry.state = 'expired';
+        entry.updatedAt = new Date(now).toISOString();
+        changed = true;
+      }
+    }
+    const kept = this.entries.filter((e) => now - new Date(e.updatedAt).getTime() <= RETAIN_MS || e.state === 'queued');
+    if (kept.length !== this.entries.length) {
+      this.entries = kept;
+      changed = true;
+    }
+    return changed;
+  }
+
+  private save() {
+    this.persistence.saveOutboundQueue(this.entries);
+  }
+}
@@ -0,0 +1,117 @@
+import { AvailabilityStatus, PeerStatusLog, PeerStatusTimeline, PeerStatusTransition } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Heartbeats come every 5s per peer but statuses change a few times a day.
+// Changes are held in memory and written at most this often, along with the
+// checkpoint that tells the next launch how far the log can be trusted.
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+// Two weeks covers this week and last in the calendar.
+const RETENTION_DAYS = 14;
+
+// Remembers every status change we see from teammates — including going
+// offline — so the Team tab can draw who was Focused when. Only what this
+// client observed: time it wasn't running is a gap, not Offline.
+export class PeerStatusHistory {
+  private persistence: PersistenceService;
+  private log: PeerStatusLog;
+  private current = new Map<string, AvailabilityStatus>(); // userId → last recorded
+  private dirty = false;
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(persistence: PersistenceService) {
+    this.persistence = persistence;
+    this.log = persistence.getPeerStatusLog();
+  }
+
+  // A run that ended without stop() (crash, power loss) left statuses open.
+  // They're closed at the last checkpoint rather than stretched until now.
+  start() {
+    this.stop();
+    this.log = this.persistence.getPeerStatusLog();
+    const open = new Map<string, AvailabilityStatus | null>();
+    for (const t of this.log.transitions) open.set(t.userId, t.status);
+    const closedAt = this.log.observedUntil ?? new Date().toISOString();
+    for (const [userId, status] of open) {
+      if (status !== null) this.log.transitions.push({ userId, at: closedAt, status: null });
+    }
+    this.current.clear();
+    this.interval = setInterval(() => this.flush(), FLUSH_INTERVAL_MS);
+    this.flush(true);
+  }
+
+  // Quit or sign-out: everyone we were watching goes unknown from now.
+  stop() {
+    if (!this.interval) return;
+    clearInterval(this.interval);
+    this.interval = null;
+    const now = new Date().toISOString();
+    for (const userId of this.current.keys()) this.append({ userId, at: now, status: null });
+    this.current.clear();
+    this.flush(true);
+  }
+
+  record(userId: string, status: AvailabilityStatus) {
+    if (!this.interval || this.current.get(userId) === status) return;
+    this.current.set(userId, status);
+    this.append({ userId, at: new Date().toISOString(), status });
+  }
+
+  // The peer's connection dropped.
+  markOffline(userId: string) {
+    this.record(userId, AvailabilityStatus.Offline);
+  }
+
+  // Each teammate's statuses between `from` and `to` (ISO), clipped to them.
+  // A status still held ends now.
+  timeline(from: string, to: string): PeerStatusTimeline[] {
+    const start = new Date(from).getTime();
+    const end = Math.min(new Date(to).getTime(), Date.now());
+    const byUser = new Map<string, PeerStatusTransition[]>();
+    for (const t of this.log.transitions) {
+      const list = byUser.get(t.userId) ?? [];
+      list.push(t);
+      byUser.set(t.userId, list);
+    }
+
+    const result: PeerStatusTimeline[] = [];
+    for (const [userId, transitions] of byUser) {
+      const spans: PeerStatusTimeline['spans'] = [];
+      transitions.forEach((t, i) => {
+        if (t.status === null) return;
+        const spanStart = Math.max(new Date(t.at).getTime(), start);
+        const spanEnd = Math.min(i + 1 < transitions.length ? new Date(transitions[i + 1].at).getTime() : Date.now(), end);
+        if (spanEnd <= spanStart) return;
+        spans.push({ start: new Date(spanStart).toISOString(), end: new Date(spanEnd).toISOString(), status: t.status });
+      });
+      if (spans.length > 0) result.push({ userId, spans });
+    }
+    return result;
+  }
+
+  // Used at reset.
+  clear() {
+    this.current.clear();
+    this.log = { transitions: [], observedUntil: null };
+    this.dirty = true;
+    this.flush(true);
+  }
+
+  private append(transition: PeerStatusTransition) {
+    this.log.transitions.push(transition);
+    this.dirty = true;
+  }
+
+  // Writes pending changes and moves the checkpoint. The checkpoint alone
+  // isn't worth a write every minute unless something is being watched.
+  private flush(force = false) {
+    if (!force && !this.dirty && this.current.size === 0) return;
+    const cutoff = Date.now() - RETENTION_DAYS * 24 * 60 * 60 * 1000;
+    this.log = {
+      transitions: this.log.transitions.filter((t) => new Date(t.at).getTime() >= cutoff),
+      observedUntil: this.interval ? new Date().toISOString() : null,
+    };
+    this.persistence.savePeerStatusLog(this.log);
+    this.dirty = false;
+  }
+}
@@ -1,5 +1,5 @@
 import Store from 'electron-store';
-import { User, DailyRecord, FocusSchedule, AppSettings, TodayPlan, RecentTodo, PinnedTodo, PeerGroup } from '../../shared/types';
+import { User, DailyRecord, DailySession, FocusSchedule, AppSettings, TodayPlan, RecentTodo, PinnedTodo, PeerGroup, KnownPeer, OutboundMessage, MeetingReminder, EmergencyPolicy, EmergencyAuditEntry, DEFAULT_EMERGENCY_POLICY, TimesheetSyncOp, BasecampTaskRef, SessionLink, TimerCheckpoint, ActivityTransition, PeerStatusLog, SuggestedSession, QueuedTimesheetReview, BackgroundTimer } from '../../shared/types';
 
 const RECENTS_MAX = 8; // cap so the list stays useful, not cluttered
 
@@ -9,8 +9,28 @@ const DEFAULT_APP_SETTINGS: AppSettings = {
   idleDetectionEnabled: false,
   idleThresholdSeconds: 5 * 60, // 5 minutes
   requireTimesheetConfirmation: true, // safer default — user reviews before anything hits Basecamp
+  timesheetReviewMode: 'eachStop',
+  timesheetReviewTime: { hour: 17, minute: 30 },
   miniTimerEnabled: true, // visible by default — solves the "can't see timer in full-screen" problem
   miniTimerAutoDim: false, // off by default — opt-in for users who find the pill too prominent
+  secureTransportEnabled: false, // opt-in until every teammate is on a build that speaks it
+  allowLegacyPeers: true,
+  relayEnabled: false,
+  relayAddress: '',
+  relayToken: '',
+  cycleWorkMinutes: 25,
+  cycleShortBreakMinutes: 5,
+  cycleLongBreakMinutes: 15,
+  cycleRoundsPerLongBreak: 4,
+  appTrackerEnabled: false, // opt-in — samples window titles
+  appTrackerMode: 'prompt',
+  appRules: [],
+  defaultRounding: { mode: 'none', incrementMinutes: 15, minimumMinutes: 0 }, // post exact time unless set
+  projectRounding: [],
+  billingCurrency: 'USD',
+  projectBilling: [],
+  categoryBilling: [],
+  dndPolicy: { enabled: false, quietHours: null, focusedOnlyEmergencies: false, holdInMeetingMode: true, allowSenderIds: [], denySenderIds: [] }, // opt-in; meeting mode holds alerts once it's on
 };
 
 const store = new Store({
@@ -27,9 +47,62 @@ const store = new Store({
     tomorrowPlan: null as TodayPlan | null,
     recentTodos: [] as RecentTodo[],
     peerGroups: [] as PeerGroup[],
+    knownPeers: [] as KnownPeer[],
+    outboundQueue: [] as OutboundMessage[],
+    meetingReminders: [] as MeetingReminder[],
+    emergencyPolicy: DEFAULT_EMERGENCY_POLICY,
+    emergencyAuditLog: [] as EmergencyAuditEntry[],
+    timesheetSyncOps: [] as TimesheetSyncOp[],
+    reconcileIgnored: [] as string[],
+    timerCheckpoint: null as TimerCheckpoint | null,
+    backgroundTimers: [] as BackgroundTimer[],
+    activityLog: [] as ActivityTransition[],
+    activityLogObservedUntil: null as string | null,
+    peerStatusLog: { transitions: [], observedUntil: null } as PeerStatusLog,
+    appSuggestions: [] as SuggestedSession[],
+    timesheetReviewQueue: [] as QueuedTimesheetReview[],
+    timesheetReviewShownOn: null as string | null,
   },
 });
 
+// Sessions and queued syncs from before providers were pluggable carried a
+// bare Basecamp link (`basecamp: { accountId, projectId, todoId, … }`). Move
+// them onto `link: { provider, ref }` once.
+type LegacyBasecampLink = BasecampTaskRef & Omit<SessionLink, 'provider' | 'ref'>;
+type LegacySyncOp = Omit<TimesheetSyncOp, 'task'> & { accountId?: number; projectId: number; todoId: number };
+function migrateBasecampLinks() {
+  const records = store.get('dailyRecords') as DailyRecord[];
+  let recordsChanged = false;
+  for (const rec of records) {
+    for (const session of rec.sessions as Array<DailySession & { basecamp?: LegacyBasecampLink }>) {
+      if (!session.basecamp) continue;
+      const { accountId, projectId, todoId, todoListId, ...state } = session.basecamp;
+      session.link = { provider: 'basecamp', ref: { accountId, projectId, todoId, todoListId }, ...state };
+      delete session.basecamp;
+      recordsChanged = true;
+    }
+  }
+  if (recordsChanged) store.set('dailyRecords', records);
+
+  const ops = store.get('timesheetSyncOps') as Array<TimesheetSyncOp | LegacySyncOp>;
+  if (!ops.some((op) => !('task' in op))) return;
+  const migrated: TimesheetSyncOp[] = [];
+  for (const op of ops) {
+    if ('task' in op) { migrated.push(op); continue; }
+    const { accountId, projectId, todoId, ...rest } = op;
+    // Ops queued before multi-account had no account: use their session's.
+    const session = records.flatMap((r) => r.sessions).find((s) => s.id === op.sessionId);
+    const account = accountId ?? (session?.link?.provider === 'basecamp' ? session.link.ref.accountId : undefined);
+    if (account === undefined) {
+      console.warn(`Dropping queued Basecamp ${op.kind} for "${op.taskLabel}": its account is unknown`);
+      continue;
+    }
+    migrated.push({ ...rest, task: { provider: 'basecamp', ref: { accountId: account, projectId, todoId } } });
+  }
+  store.set('timesheetSyncOps', migrated);
+}
+migrateBasecampLinks();
+
 function todayDateStr(): string {
   const d = new Date();
   return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
@@ -72,6 +145,22 @@ export class PersistenceService {
     store.set('focusSchedules', schedules);
   }
 
+  // Idempotent upsert keyed on schedule.id — same contract as savePeerGroup.
+  saveSchedule(schedule: FocusSchedule): FocusSchedule[] {
+    const existing = this.getSchedules();
+    const idx = existing.findIndex((s) => s.id === schedule.id);
+    if (idx >= 0) existing[idx] = schedule;
+    else existing.push(schedule);
+    store.set('focusSchedules', existing);
+    return existing;
+  }
+
+  deleteSchedule(scheduleId: string): FocusSchedule[] {
+    const next = this.getSchedules().filter((s) => s.id !== scheduleId);
+    store.set('focusSchedules', next);
+    return next;
+  }
+
   getSettings(): AppSettings {
     // Merge with defaults so users upgrading from older builds don't get
     // `undefined` for newly-added fields (e.g. miniTimerEnabled).
@@ -205,6 +294,168 @@ export class PersistenceService {
     store.set('peerGroups', next);
     return next;
   }
+
+  // ── Team directory ──────────────────────────────────────────
+  // Written in batches by TeamDirectory; see services/teamDirectory.ts.
+
+  getKnownPeers(): KnownPeer[] {
+    return (store.get('knownPeers') as KnownPeer[]) ?? [];
+  }
+
+  saveKnownPeers(peers: KnownPeer[]): void {
+    store.set('knownPeers', peers);
+  }
+
+  // ── Outbound queue ────────────────────────────────────────────
+  // Pings and meeting requests waiting for (or recently reaching) their
+  // recipients; see services/outbox.ts.
+
+  getOutboundQueue(): OutboundMessage[] {
+    return (store.get('outboundQueue') as OutboundMessage[]) ?? [];
+  }
+
+  saveOutboundQueue(entries: OutboundMessage[]): void {
+    store.set('outboundQueue', entries);
+  }
+
+  // ── Meeting reminders ─────────────────────────────────────────
+  // Meetings agreed for later; see services/meetingReminders.ts.
+
+  getMeetingReminders(): MeetingReminder[] {
+    return (store.get('meetingReminders') as MeetingReminder[]) ?? [];
+  }
+
+  saveMeetingReminders(reminders: MeetingReminder[]): void {
+    store.set('meetingReminders', reminders);
+  }
+
+  // ── Emergency access ──────────────────────────────────────────
+  // The team's emergency policy and the local audit log; see
+  // services/emergencyAccess.ts.
+
+  getEmergencyPolicy(): EmergencyPolicy {
+    return { ...DEFAULT_EMERGENCY_POLICY, ...(store.get('emergencyPolicy') as Partial<EmergencyPolicy> | undefined) };
+  }
+
+  saveEmergencyPolicy(policy: EmergencyPolicy): void {
+    store.set('emergencyPolicy', policy);
+  }
+
+  getEmergencyAuditLog(): EmergencyAuditEntry[] {
+    return (store.get('emergencyAuditLog') as EmergencyAuditEntry[]) ?? [];
+  }
+
+  saveEmergencyAuditLog(entries: EmergencyAuditEntry[]): void {
+    store.set('emergencyAuditLog', entries);
+  }
+
+  // ── Timesheet sync queue ─────────────────────────────────────
+  // Timesheet writes not yet confirmed by their provider; see
+  // services/providers/syncQueue.ts.
+
+  getTimesheetSyncOps(): TimesheetSyncOp[] {
+    return (store.get('timesheetSyncOps') as TimesheetSyncOp[]) ?? [];
+  }
+
+  saveTimesheetSyncOps(ops: TimesheetSyncOp[]): void {
+    store.set('timesheetSyncOps', ops);
+  }
+
+  // Reconciliation rows the user chose to leave alone, by ReconcileRow.key.
+
+  getReconcileIgnored(): string[] {
+    return (store.get('reconcileIgnored') as string[]) ?? [];
+  }
+
+  saveReconcileIgnored(keys: string[]): void {
+    store.set('reconcileIgnored', keys);
+  }
+
+  // ── Timer checkpoint ──────────────────────────────────────────
+  // The running timer, rewritten on every state change and periodically;
+  // null when no timer is running.
+
+  getTimerCheckpoint(): TimerCheckpoint | null {
+    return (store.get('timerCheckpoint') as TimerCheckpoint | null) ?? null;
+  }
+
+  saveTimerCheckpoint(checkpoint: TimerCheckpoint | null): void {
+    store.set('timerCheckpoint', checkpoint);
+  }
+
+  // ── Background timers ─────────────────────────────────────────
+  // Timers running next to the primary one; see services/backgroundTimers.ts.
+
+  getBackgroundTimers(): BackgroundTimer[] {
+    return (store.get('backgroundTimers') as BackgroundTimer[]) ?? [];
+  }
+
+  saveBackgroundTimers(timers: BackgroundTimer[]): void {
+    store.set('backgroundTimers', timers);
+  }
+
+  // ── Activity log ──────────────────────────────────────────────
+  // State transitions, oldest first; see services/activityLog.ts.
+
+  getActivityLog(): ActivityTransition[] {
+    return (store.get('activityLog') as ActivityTransition[]) ?? [];
+  }
+
+  saveActivityLog(log: ActivityTransition[]): void {
+    store.set('activityLog', log);
+  }
+
+  // When the running app last confirmed the log's current state; null once
+  // it stopped cleanly.
+  getActivityLogObservedUntil(): string | null {
+    return (store.get('activityLogObservedUntil') as string | null) ?? null;
+  }
+
+  saveActivityLogObservedUntil(at: string | null): void {
+    store.set('activityLogObservedUntil', at);
+  }
+
+  // ── Peer status history ───────────────────────────────────────
+  // Teammates' status changes; see services/peerStatusHistory.ts.
+
+  getPeerStatusLog(): PeerStatusLog {
+    return (store.get('peerStatusLog') as PeerStatusLog) ?? { transitions: [], observedUntil: null };
+  }
+
+  savePeerStatusLog(log: PeerStatusLog): void {
+    store.set('peerStatusLog', log);
+  }
+
+  // ── App tracker suggestions ───────────────────────────────────
+  // Suggested sessions from services/appTracker.ts, oldest first.
+
+  getAppSuggestions(): SuggestedSession[] {
+    return (store.get('appSuggestions') as SuggestedSession[]) ?? [];
+  }
+
+  saveAppSuggestions(suggestions: SuggestedSession[]): void {
+    store.set('appSuggestions', suggestions);
+  }
+
+  // ── End-of-day timesheet review ───────────────────────────────
+  // Sessions waiting for the daily review (services/timesheetReview.ts), and
+  // the day it last opened on its own (YYYY-MM-DD).
+
+  getTimesheetReviewQueue(): QueuedTimesheetReview[] {
+    return (store.get('timesheetReviewQueue') as QueuedTimesheetReview[]) ?? [];
+  }
+
+  saveTimesheetReviewQueue(queue: QueuedTimesheetReview[]): void {
+    store.set('timesheetReviewQueue', queue);
+  }
+
+  getTimesheetReviewShownOn(): string | null {
+    return (store.get('timesheetReviewShownOn') as string | null) ?? null;
+  }
+
+  saveTimesheetReviewShownOn(date: string | null): void {
+    store.set('timesheetReviewShownOn', date);
+  }
 }
 
 // Re-exported helper so main process can write the same shape without re-deriving it.
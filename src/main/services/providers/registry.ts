@@ -0,0 +1,38 @@
+import { TaskRef, TimeProviderId } from '../../../shared/types';
+import { TimeTrackingProvider } from './types';
+
+/**
+ * ProviderRegistry — the time-tracking providers this build knows about,
+ * looked up by the `provider` on a session link or sync op.
+ */
+export class ProviderRegistry {
+  private providers = new Map<TimeProviderId, TimeTrackingProvider>();
+
+  register(provider: TimeTrackingProvider) {
+    this.providers.set(provider.id, provider);
+  }
+
+  get(id: TimeProviderId): TimeTrackingProvider {
+    const provider = this.providers.get(id);
+    if (!provider) throw new Error(`No time-tracking provider "${id}"`);
+    return provider;
+  }
+
+  forTask(task: TaskRef): TimeTrackingProvider {
+    return this.get(task.provider);
+  }
+
+  all(): TimeTrackingProvider[] {
+    return [...this.providers.values()];
+  }
+
+  // Something is connected — there's a point trying to sync.
+  anyConnected(): boolean {
+    return this.all().some((p) => p.isConnected());
+  }
+
+  // The task's provider is registered and can reach the task's account.
+  isConnected(task: TaskRef): boolean {
+    return !!this.providers.get(task.provider)?.isConnected(task);
+  }
+}
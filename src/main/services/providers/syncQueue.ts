@@ -0,0 +1,404 @@
+import { EventEmitter } from 'events';
+import crypto from 'crypto';
+import { TaskRef, TimeEntryId, TimesheetEntryFields, TimesheetSyncOp, TimesheetSyncStatus } from '../../../shared/types';
+import { PersistenceService } from '../persistence';
+import { TimeTracker } from '../timeTracker';
+import { ProviderRegistry } from './registry';
+
+// Backoff after a network/5xx failure: 30s, 1m, 2m … capped at 30m. Reset by
+// any success, by the user retrying, and by reconnect / wake from sleep.
+const RETRY_MIN_DELAY = 30 * 1000;
+const RETRY_MAX_DELAY = 30 * 60 * 1000;
+
+export type SyncOutcome = 'synced' | 'queued' | 'conflict' | 'failed';
+
+export type NewSyncOp = Pick<TimesheetSyncOp,
+  'kind' | 'sessionId' | 'sessionDate' | 'taskLabel' | 'task' | 'entryId' | 'fields' | 'baseline'>;
+
+// The provider's copy no longer matches what we last wrote (null = deleted there).
+class SyncConflict extends Error {
+  constructor(readonly remote: TimesheetEntryFields | null, providerName: string) {
+    super(remote ? `Edited in ${providerName} since it was last synced` : `Deleted in ${providerName}`);
+  }
+}
+
+// Nothing to retry — e.g. an update for a session whose entry id was never recorded.
+class PermanentSyncError extends Error {}
+
+// Same task in the same provider. Refs are compared field by field — they're
+// small, flat objects.
+export function sameTask(a: TaskRef, b: TaskRef): boolean {
+  if (a.provider !== b.provider) return false;
+  const ra = a.ref as unknown as Record<string, unknown>;
+  const rb = b.ref as unknown as Record<string, unknown>;
+  const keys = new Set([...Object.keys(ra), ...Object.keys(rb)]);
+  return [...keys].every((k) => ra[k] === rb[k]);
+}
+
+// The task part of a session link, without its sync state.
+export function taskOf(link: TaskRef): TaskRef {
+  return { provider: link.provider, ref: link.ref } as TaskRef;
+}
+
+// Which fields differ. Hours are compared as numbers ("1.5" vs "1.50") to
+// within rounding of the two-decimal values we post.
+export function diffTimesheetFields(a: TimesheetEntryFields, b: TimesheetEntryFields): Array<keyof TimesheetEntryFields> {
+  const diff: Array<keyof TimesheetEntryFields> = [];
+  if (a.date !== b.date) diff.push('date');
+  if (!(Math.abs(parseFloat(a.hours) - parseFloat(b.hours)) < 0.005)) diff.push('hours');
+  if (a.description.trim() !== b.description.trim()) diff.push('description');
+  return diff;
+}
+
+/**
+ * TimesheetSyncQueue — durable log of timesheet writes to every provider.
+ *
+ * Every create/update/delete is recorded before it's attempted and removed
+ * only once the provider accepts it, so a write made offline (or lost to a
+ * 5xx or a crash mid-request) is replayed later instead of being left for
+ * Backfill. Ops for one session replay strictly in order; a queued create
+ * followed by an edit or delete is folded together before it ever leaves.
+ *
+ * Events:
+ * - `changed` (TimesheetSyncStatus)
+ * - `applied` (TaskRef): an op landed; timesheet views refresh
+ */
+export class TimesheetSyncQueue extends EventEmitter {
+  private ops: TimesheetSyncOp[];
+  private running: Promise<void> | null = null;
+  private inFlight: string | null = null;
+  private retryTimer: NodeJS.Timeout | null = null;
+  private retryAt: number | null = null;
+  private failureStreak = 0;
+
+  constructor(
+    private readonly persistence: PersistenceService,
+    private readonly providers: ProviderRegistry,
+    private readonly timeTracker: TimeTracker,
+  ) {
+    super();
+    this.ops = persistence.getTimesheetSyncOps();
+  }
+
+  getStatus(): TimesheetSyncStatus {
+    return {
+      ops: this.ops.map((op) => ({ ...op })),
+      retryAt: this.retryAt ? new Date(this.retryAt).toISOString() : null,
+      connected: this.providers.anyConnected(),
+    };
+  }
+
+  hasPending(sessionId: string): boolean {
+    return this.ops.some((op) => op.sessionId === sessionId);
+  }
+
+  // A create for this session hasn't landed yet — the session is headed for
+  // its provider even though it has no entryId.
+  hasPendingCreate(sessionId: string): boolean {
+    return this.ops.some((op) => op.sessionId === sessionId && op.kind === 'create');
+  }
+
+  // Record a write and try it straight away. Resolves once this attempt is
+  // over with where the session stands.
+  async enqueue(input: NewSyncOp): Promise<SyncOutcome> {
+    if (!this.coalesce(input)) {
+      this.ops.push({
+        ...input,
+        id: crypto.randomUUID(),
+        createdAt: new Date().toISOString(),
+        attempts: 0,
+        status: 'pending',
+      });
+    }
+    this.save();
+    this.emitChanged();
+    // A fresh user action is as good a connectivity probe as the timer.
+    this.resetBackoff();
+    await this.runNow();
+    return this.outcomeFor(input.sessionId);
+  }
+
+  // Reconnect, wake from sleep, app start, or "Retry now".
+  async retry(): Promise<void> {
+    for (const op of this.ops) if (op.status === 'failed') op.status = 'pending';
+    this.save();
+    this.resetBackoff();
+    await this.runNow();
+    this.emitChanged();
+  }
+
+  // Settle a conflict. `local` pushes our version anyway (re-creating the
+  // entry if it was deleted there); `remote` keeps the provider's and brings
+  // the local session in line with it.
+  async resolve(opId: string, keep: 'local' | 'remote'): Promise<void> {
+    const op = this.ops.find((o) => o.id === opId);
+    if (!op || op.status !== 'conflict') return;
+
+    if (keep === 'local') {
+      if (op.remote === null && op.kind === 'update') {
+        op.kind = 'create';
+        op.entryId = undefined;
+      }
+      op.baseline = undefined; // skip the check this time
+      op.status = 'pending';
+      op.remote = undefined;
+      op.lastError = undefined;
+    } else {
+      this.ops = this.ops.filter((o) => o !== op);
+      this.adoptRemote(op);
+    }
+    this.save();
+    this.emitChanged();
+    this.resetBackoff();
+    await this.runNow();
+  }
+
+  // Drop an op without sending it. The session stays unsynced.
+  discard(opId: string) {
+    if (opId === this.inFlight) return;
+    this.ops = this.ops.filter((o) => o.id !== opId);
+    this.save();
+    this.emitChanged();
+    this.schedule();
+  }
+
+  stop() {
+    if (this.retryTimer) clearTimeout(this.retryTimer);
+    this.retryTimer = null;
+  }
+
+  clear() {
+    this.stop();
+    this.ops = [];
+    this.resetBackoff();
+    this.save();
+    this.emitChanged();
+  }
+
+  // ── Replay ───────────────────────────────────────────────────
+
+  // Fold a new write into the last one queued for the same session when
+  // that one hasn't started yet. Returns true when nothing needs appending.
+  private coalesce(input: NewSyncOp): boolean {
+    const prev = [...this.ops].reverse().find((o) => o.sessionId === input.sessionId);
+    if (!prev || prev.id === this.inFlight) return false;
+
+    if (prev.kind === 'create' && input.kind === 'update') {
+      prev.fields = input.fields;
+      prev.taskLabel = input.taskLabel;
+    } else if (prev.kind === 'create' && input.kind === 'delete') {
+      // Never left — nothing to delete on the provider's side.
+      this.ops = this.ops.filter((o) => o !== prev);
+      return true;
+    } else if (prev.kind === 'update' && input.kind === 'update') {
+      prev.fields = input.fields; // baseline stays: it's what the provider should still have
+      prev.taskLabel = input.taskLabel;
+    } else if (prev.kind === 'update' && input.kind === 'delete') {
+      prev.kind = 'delete';
+      prev.fields = undefined;
+      prev.entryId = prev.entryId ?? input.entryId;
+    } else {
+      return false;
+    }
+    if (prev.status === 'failed') prev.status = 'pending';
+    return true;
+  }
+
+  private outcomeFor(sessionId: string): SyncOutcome {
+    const ops = this.ops.filter((o) => o.sessionId === sessionId);
+    if (ops.length === 0) return 'synced';
+    if (ops.some((o) => o.status === 'conflict')) return 'conflict';
+    if (ops.some((o) => o.status === 'failed')) return 'failed';
+    return 'queued';
+  }
+
+  private async runNow(): Promise<void> {
+    while (this.running) await this.running;
+    await this.run();
+  }
+
+  private run(): Promise<void> {
+    if (!this.running) {
+      this.running = this.drain().finally(() => {
+        this.running = null;
+        this.schedule();
+      });
+    }
+    return this.running;
+  }
+
+  private async drain() {
+    while (!(this.retryAt && Date.now() < this.retryAt)) {
+      const op = this.nextRunnable();
+      if (!op) return;
+      this.inFlight = op.id;
+      try {
+        await this.apply(op);
+        this.ops = this.ops.filter((o) => o !== op);
+        this.failureStreak = 0;
+        this.emit('applied', op.task);
+      } catch (err) {
+        op.attempts++;
+        op.lastError = (err as Error)?.message ?? 'Timesheet sync failed';
+        if (err instanceof SyncConflict) {
+          op.status = 'conflict';
+          op.remote = err.remote;
+        } else if (!this.isRetryable(op, err)) {
+          op.status = 'failed';
+        } else {
+          this.failureStreak++;
+          const delay = Math.min(RETRY_MIN_DELAY * 2 ** (this.failureStreak - 1), RETRY_MAX_DELAY);
+          this.retryAt = Date.now() + delay;
+          console.warn(`Timesheet sync (${op.task.provider}): ${op.kind} for "${op.taskLabel}" failed, retrying in ${Math.round(delay / 1000)}s:`, op.lastError);
+        }
+      } finally {
+        this.inFlight = null;
+        this.save();
+        this.emitChanged();
+      }
+    }
+  }
+
+  // Earliest pending op whose session has nothing unresolved ahead of it.
+  // Ops for a provider or account that isn't connected wait for it.
+  private nextRunnable(): TimesheetSyncOp | null {
+    const blocked = new Set<string>();
+    for (const op of this.ops) {
+      if (op.status !== 'pending' || !this.providers.isConnected(op.task)) {
+        blocked.add(op.sessionId);
+        continue;
+      }
+      if (!blocked.has(op.sessionId)) return op;
+    }
+    return null;
+  }
+
+  private schedule() {
+    this.stop();
+    if (!this.nextRunnable()) return;
+    const delay = this.retryAt ? Math.max(0, this.retryAt - Date.now()) : 0;
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = null;
+      void this.run();
+    }, delay);
+  }
+
+  private resetBackoff() {
+    this.retryAt = null;
+    this.failureStreak = 0;
+  }
+
+  // `rejected` from the provider, or nothing the provider could fix, goes to
+  // the user; everything else is retried with backoff.
+  private isRetryable(op: TimesheetSyncOp, err: unknown): boolean {
+    if (err instanceof PermanentSyncError) return false;
+    return this.providers.forTask(op.task).classifyError(err) === 'retryable';
+  }
+
+  private isNotFound(op: TimesheetSyncOp, err: unknown): boolean {
+    return !(err instanceof SyncConflict) && this.providers.forTask(op.task).classifyError(err) === 'notFound';
+  }
+
+  private async apply(op: TimesheetSyncOp) {
+    const provider = this.providers.forTask(op.task);
+    switch (op.kind) {
+      case 'create': {
+        const entry = await provider.createEntry(op.task, op.fields!);
+        // Edits/deletes queued behind this create were recorded before the
+        // entry had an id.
+        for (const later of this.ops) {
+          if (later !== op && later.sessionId === op.sessionId && !later.entryId) later.entryId = entry.id;
+        }
+        this.recordPushed(op, entry.id, op.fields!);
+        break;
+      }
+
+      case 'update': {
+        const entryId = this.entryIdFor(op);
+        await this.checkRemote(op, entryId);
+        try {
+          const updated = await provider.updateEntry(op.task, entryId, op.fields!);
+          this.recordPushed(op, updated.id, op.fields!);
+        } catch (err) {
+          if (this.isNotFound(op, err)) throw new SyncConflict(null, provider.name);
+          throw err;
+        }
+        break;
+      }
+
+      case 'delete': {
+        const entryId = this.entryIdFor(op);
+        try {
+          await this.checkRemote(op, entryId);
+          await provider.deleteEntry(op.task, entryId);
+        } catch (err) {
+          // Already gone from the provider — that's what we wanted.
+          if ((err instanceof SyncConflict && err.remote === null) || this.isNotFound(op, err)) break;
+          throw err;
+        }
+        break;
+      }
+    }
+  }
+
+  private entryIdFor(op: TimesheetSyncOp): TimeEntryId {
+    const entryId = op.entryId ?? this.timeTracker.findSession(op.sessionId, op.sessionDate)?.link?.entryId;
+    if (!entryId) throw new PermanentSyncError(`No ${this.providers.forTask(op.task).name} entry on file for this session`);
+    return entryId;
+  }
+
+  // Throws SyncConflict when the provider's entry differs from what we last
+  // wrote. Ops without a baseline (sessions synced before it was recorded, or
+  // a conflict resolved as "keep mine") skip the check.
+  private async checkRemote(op: TimesheetSyncOp, entryId: TimeEntryId) {
+    if (!op.baseline) return;
+    const provider = this.providers.forTask(op.task);
+    let remote: TimesheetEntryFields;
+    try {
+      remote = (await provider.getEntry(op.task, entryId)).fields;
+    } catch (err) {
+      if (this.isNotFound(op, err)) throw new SyncConflict(null, provider.name);
+      throw err;
+    }
+    if (diffTimesheetFields(remote, op.baseline).length > 0) throw new SyncConflict(remote, provider.name);
+  }
+
+  // Stamp the session with the entry it now maps to. It only counts as synced
+  // once nothing else is queued for it.
+  private recordPushed(op: TimesheetSyncOp, entryId: TimeEntryId, fields: TimesheetEntryFields) {
+    const session = this.timeTracker.findSession(op.sessionId, op.sessionDate);
+    if (!session?.link || !sameTask(session.link, op.task)) return;
+    const more = this.ops.some((o) => o !== op && o.sessionId === op.sessionId);
+    this.timeTracker.updateSession(op.sessionId, op.sessionDate, {
+      link: { ...session.link, synced: !more, entryId, lastPushed: fields },
+    });
+  }
+
+  // "Keep theirs": copy the provider's hours/description onto the session, or
+  // unlink the session if the entry was deleted there. The date isn't copied —
+  // sessions can't move between days.
+  private adoptRemote(op: TimesheetSyncOp) {
+    const session = this.timeTracker.findSession(op.sessionId, op.sessionDate);
+    if (!session?.link) return; // deleted locally — the provider keeps its entry
+    const more = this.ops.some((o) => o.sessionId === op.sessionId);
+    if (op.remote === null) {
+      this.timeTracker.updateSession(op.sessionId, op.sessionDate, { link: null });
+    } else if (op.remote) {
+      const hours = parseFloat(op.remote.hours);
+      this.timeTracker.updateSession(op.sessionId, op.sessionDate, {
+        ...(Number.isFinite(hours) && hours > 0 ? { duration: Math.round(hours * 3600) } : {}),
+        notes: op.remote.description,
+        link: { ...session.link, synced: !more, lastPushed: op.remote },
+      });
+    }
+    this.emit('applied', op.task);
+  }
+
+  private save() {
+    this.persistence.saveTimesheetSyncOps(this.ops);
+  }
+
+  private emitChanged() {
+    this.emit('changed', this.getStatus());
+  }
+}
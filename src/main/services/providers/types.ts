@@ -0,0 +1,55 @@
+import { TaskRef, TimeEntryId, TimeProviderId, TimesheetEntryFields } from '../../../shared/types';
+
+export interface ProviderProject {
+  id: string; // opaque to callers; handed back to listTasks
+  name: string;
+  description?: string;
+}
+
+export interface ProviderTask {
+  task: TaskRef;
+  title: string;
+  projectName?: string;
+}
+
+export interface ProviderTimeEntry {
+  id: TimeEntryId;
+  fields: TimesheetEntryFields;
+}
+
+// How the sync queue should treat a failed call: `notFound` — the entry is
+// gone; `rejected` — the provider refused it and replaying won't help;
+// `retryable` — network, 5xx, rate limit, auth refresh.
+export type ProviderErrorKind = 'notFound' | 'rejected' | 'retryable';
+
+/**
+ * TimeTrackingProvider — a backend that sessions can be posted to as time
+ * entries. Basecamp is one; others (Tempo, Harvest, Toggl, a webhook) add a
+ * `ProviderLinkTypes` entry in shared/types and register an implementation in
+ * the ProviderRegistry. Timer, session and sync code only ever talk to this.
+ *
+ * Methods that take a TaskRef are only called with refs of the provider's own
+ * id; implementations can narrow on `task.provider`.
+ */
+export interface TimeTrackingProvider {
+  readonly id: TimeProviderId;
+  readonly name: string; // shown in sync messages, e.g. "Basecamp"
+
+  // Auth. With a task: can that task's account be reached right now.
+  isConnected(task?: TaskRef): boolean;
+  connect(): Promise<void>;
+  disconnect(): void;
+
+  // Browsing and search
+  listProjects(): Promise<ProviderProject[]>;
+  listTasks(projectId: string): Promise<ProviderTask[]>;
+  searchTasks(query: string): Promise<ProviderTask[]>;
+
+  // Time entries
+  createEntry(task: TaskRef, fields: TimesheetEntryFields): Promise<ProviderTimeEntry>;
+  getEntry(task: TaskRef, entryId: TimeEntryId): Promise<ProviderTimeEntry>;
+  updateEntry(task: TaskRef, entryId: TimeEntryId, fields: TimesheetEntryFields): Promise<ProviderTimeEntry>;
+  deleteEntry(task: TaskRef, entryId: TimeEntryId): Promise<void>;
+
+  classifyError(err: unknown): ProviderErrorKind;
+}
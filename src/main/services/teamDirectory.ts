@@ -0,0 +1,90 @@
+import { KnownPeer, User } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Heartbeats arrive every 5s per peer; persisting each one would rewrite the
+// whole store (avatars included) constantly. Updates are held in memory and
+// written at most this often, plus immediately when someone joins or leaves.
+const FLUSH_INTERVAL_MS = 60 * 1000;
+
+// Anything older than this is offered up by "Forget stale" in the Team tab.
+export const STALE_PEER_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Remembers every teammate we've seen so the Team tab can keep showing them
+// (greyed out, "last seen …") after they go offline.
+export class TeamDirectory {
+  private persistence: PersistenceService;
+  private entries = new Map<string, KnownPeer>();
+  private dirty = false;
+  private flushTimer: NodeJS.Timeout | null = null;
+
+  constructor(persistence: PersistenceService) {
+    this.persistence = persistence;
+    for (const entry of persistence.getKnownPeers()) this.entries.set(entry.user.id, entry);
+  }
+
+  list(): KnownPeer[] {
+    return Array.from(this.entries.values()).sort((a, b) => b.lastSeen.localeCompare(a.lastSeen));
+  }
+
+  has(userId: string): boolean {
+    return this.entries.has(userId);
+  }
+
+  // Latest profile from the wire. `flush` for discover/lost so the roster on
+  // disk is right even if the app is killed before the next interval.
+  record(user: User, flush = false) {
+    const now = new Date().toISOString();
+    const existing = this.entries.get(user.id);
+    this.entries.set(user.id, { user: { ...user }, firstSeen: existing?.firstSeen ?? now, lastSeen: now });
+    this.markDirty(flush);
+  }
+
+  // The peer just dropped. Keeps the profile as it was at disconnect — status,
+  // focus session and all — and stamps lastSeen.
+  markOffline(userId: string) {
+    const entry = this.entries.get(userId);
+    if (!entry) return;
+    entry.lastSeen = new Date().toISOString();
+    this.markDirty(true);
+  }
+
+  forget(userId: string): KnownPeer[] {
+    this.entries.delete(userId);
+    this.markDirty(true);
+    return this.list();
+  }
+
+  // Drops entries not seen within `maxAgeMs`, except anyone connected now.
+  forgetStale(connectedIds: string[], maxAgeMs = STALE_PEER_AGE_MS): KnownPeer[] {
+    const cutoff = Date.now() - maxAgeMs;
+    for (const [id, entry] of this.entries) {
+      if (!connectedIds.includes(id) && new Date(entry.lastSeen).getTime() < cutoff) this.entries.delete(id);
+    }
+    this.markDirty(true);
+    return this.list();
+  }
+
+  clear() {
+    this.entries.clear();
+    this.markDirty(true);
+  }
+
+  flush() {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+    if (!this.dirty) return;
+    this.persistence.saveKnownPeers(Array.from(this.entries.values()));
+    this.dirty = false;
+  }
+
+  private markDirty(immediate: boolean) {
+    this.dirty = true;
+    if (immediate) {
+      this.flush();
+    } else if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => this.flush(), FLUSH_INTERVAL_MS);
+    }
+  }
+}
@@ -1,5 +1,5 @@
 import crypto from 'crypto';
-import { DailyRecord, DailySession } from '../../shared/types';
+import { BillingInfo, DailyRecord, DailySession, SessionLink, WorkSegment } from '../../shared/types';
 
 function uuidv4(): string {
   return crypto.randomUUID();
@@ -48,7 +48,7 @@ export class TimeTracker {
   // manual entries logged for past days land in the correct `DailyRecord`
   // (creating one if it doesn't exist yet). Optional `notes` mirrors the
   // shape of `DailySession`.
-  addSession(data: { taskLabel: string; category?: string; duration: number; startTime: string; endTime: string; notes?: string; basecamp?: DailySession['basecamp'] }): { sessionId: string; dateStr: string } {
+  addSession(data: { taskLabel: string; category?: string; duration: number; startTime: string; endTime: string; notes?: string; link?: SessionLink; segments?: WorkSegment[] }): { sessionId: string; dateStr: string } {
     const records = this.persistence.getRecords();
     // Derive the date from startTime's local components, not from a separate
     // `new Date()` — this is what makes back-dated manual entries land in
@@ -75,7 +75,8 @@ export class TimeTracker {
       duration: data.duration,
       category: data.category,
       notes: data.notes,
-      basecamp: data.basecamp,
+      link: data.link,
+      segments: data.segments,
     };
 
     record.sessions.push(session);
@@ -90,13 +91,13 @@ export class TimeTracker {
     const record = records.find((r) => r.date.startsWith(dateStr.split('T')[0]));
     if (!record) return;
     const session = record.sessions.find((s) => s.id === sessionId);
-    if (!session?.basecamp) return;
-    session.basecamp = { ...session.basecamp, synced: true };
+    if (!session?.link) return;
+    session.link = { ...session.link, synced: true };
     this.persistence.saveRecords(records);
   }
 
-  // Read a session by id. Used by the Basecamp sync handlers to capture the
-  // pre-update state (in particular, the existing `basecamp.entryId`) before
+  // Read a session by id. Used by the timesheet sync handlers to capture the
+  // pre-update state (in particular, the existing `link.entryId`) before
   // applying local mutations.
   findSession(sessionId: string, dateStr: string): DailySession | null {
     const records = this.persistence.getRecords();
@@ -116,7 +117,7 @@ export class TimeTracker {
     this.persistence.saveRecords(records);
   }
 
-  updateSession(sessionId: string, dateStr: string, updates: Partial<{ taskLabel: string; category: string; duration: number; notes: string; basecamp: DailySession['basecamp'] | null }>) {
+  updateSession(sessionId: string, dateStr: string, updates: Partial<{ taskLabel: string; category: string; duration: number; notes: string; link: SessionLink | null; billing: BillingInfo | null }>) {
     const records = this.persistence.getRecords();
     const record = records.find((r) => r.date.startsWith(dateStr.split('T')[0]));
     if (!record) return;
@@ -128,20 +129,60 @@ export class TimeTracker {
     if (updates.category !== undefined) session.category = updates.category;
     if (updates.notes !== undefined) session.notes = updates.notes;
     if (updates.duration !== undefined) {
+      // A hand-edited duration no longer matches what the timer recorded.
+      if (updates.duration !== session.duration) session.segments = undefined;
       session.duration = updates.duration;
       // Recalculate end time based on new duration
       const startMs = new Date(session.startTime).getTime();
       session.endTime = new Date(startMs + updates.duration * 1000).toISOString();
     }
     // `null` = explicit unlink; `undefined` = no change; an object replaces the link.
-    if (updates.basecamp === null) {
-      session.basecamp = undefined;
-    } else if (updates.basecamp !== undefined) {
-      session.basecamp = updates.basecamp;
+    if (updates.link === null) {
+      session.link = undefined;
+    } else if (updates.link !== undefined) {
+      session.link = updates.link;
+    }
+    // Same for billing: `null` goes back to inheriting from project/category.
+    if (updates.billing === null) {
+      session.billing = undefined;
+    } else if (updates.billing !== undefined) {
+      session.billing = updates.billing;
     }
 
     record.totalFocusTime = record.sessions.reduce((sum, s) => sum + s.duration, 0);
     this.persistence.saveRecords(records);
   }
 
+  // Move a session to another day, keeping its time of day and id. Used when
+  // reconciliation pulls a date change from Basecamp.
+  moveSession(sessionId: string, fromDateStr: string, toDateStr: string) {
+    const records = this.persistence.getRecords();
+    const from = records.find((r) => r.date.startsWith(fromDateStr.split('T')[0]));
+    const session = from?.sessions.find((s) => s.id === sessionId);
+    if (!from || !session) return;
+
+    const [y, m, d] = toDateStr.split('-').map(Number);
+    const start = new Date(session.startTime);
+    const shift = new Date(y, m - 1, d, start.getHours(), start.getMinutes(), start.getSeconds()).getTime() - start.getTime();
+    session.startTime = new Date(start.getTime() + shift).toISOString();
+    if (session.endTime) session.endTime = new Date(new Date(session.endTime).getTime() + shift).toISOString();
+    session.segments = session.segments?.map((seg) => ({
+      ...seg,
+      start: new Date(new Date(seg.start).getTime() + shift).toISOString(),
+      end: new Date(new Date(seg.end).getTime() + shift).toISOString(),
+    }));
+
+    let to = records.find((r) => r.date.startsWith(toDateStr));
+    if (!to) {
+      to = { id: uuidv4(), date: toDateStr, totalFocusTime: 0, sessions: [] };
+      records.push(to);
+    }
+    from.sessions = from.sessions.filter((s) => s.id !== sessionId);
+    to.sessions.push(session);
+    to.sessions.sort((a, b) => a.startTime.localeCompare(b.startTime));
+    from.totalFocusTime = from.sessions.reduce((sum, s) => sum + s.duration, 0);
+    to.totalFocusTime = to.sessions.reduce((sum, s) => sum + s.duration, 0);
+    this.persistence.saveRecords(records);
+  }
+
 }
@@ -0,0 +1,83 @@
+import { EventEmitter } from 'events';
+import { QueuedTimesheetReview } from '../../shared/types';
+import { PersistenceService } from './persistence';
+
+// Same cadence as the FocusScheduler — the review is minute-granular, and a
+// check after the lid opens picks up a review time that passed while asleep.
+const CHECK_INTERVAL_MS = 30 * 1000;
+
+function dayKey(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Holds stopped sessions for the end-of-day review and emits `due` once a day
+// — at the configured time, or the first check after it if ZenState wasn't
+// running — when anything is waiting. Emits `changed` (queue) as sessions are
+// added or reviewed.
+//
+// Like the FocusScheduler, this only decides *when*; the main process builds
+// the review window and posts the entries.
+export class TimesheetReview extends EventEmitter {
+  private persistence: PersistenceService;
+  private interval: NodeJS.Timeout | null = null;
+
+  constructor(persistence: PersistenceService) {
+    super();
+    this.persistence = persistence;
+  }
+
+  start() {
+    this.stop();
+    this.check();
+    this.interval = setInterval(() => this.check(), CHECK_INTERVAL_MS);
+  }
+
+  stop() {
+    if (this.interval) clearInterval(this.interval);
+    this.interval = null;
+  }
+
+  getQueue(): QueuedTimesheetReview[] {
+    return this.persistence.getTimesheetReviewQueue();
+  }
+
+  enqueue(entry: QueuedTimesheetReview) {
+    const queue = this.getQueue().filter((q) => q.sessionId !== entry.sessionId);
+    queue.push(entry);
+    this.save(queue);
+  }
+
+  // Sessions that were reviewed (posted or not), or no longer need it.
+  remove(sessionIds: string[]) {
+    const queue = this.getQueue();
+    const next = queue.filter((q) => !sessionIds.includes(q.sessionId));
+    if (next.length !== queue.length) this.save(next);
+  }
+
+  // Used at reset.
+  clear() {
+    this.persistence.saveTimesheetReviewQueue([]);
+    this.persistence.saveTimesheetReviewShownOn(null);
+  }
+
+  private save(queue: QueuedTimesheetReview[]) {
+    this.persistence.saveTimesheetReviewQueue(queue);
+    this.emit('changed', queue);
+  }
+
+  private check() {
+    const settings = this.persistence.getSettings();
+    if (!settings.requireTimesheetConfirmation || settings.timesheetReviewMode !== 'endOfDay') return;
+    if (this.getQueue().length === 0) return;
+
+    const now = new Date();
+    const due = new Date(now);
+    due.setHours(settings.timesheetReviewTime.hour, settings.timesheetReviewTime.minute, 0, 0);
+    if (now.getTime() < due.getTime()) return;
+    const today = dayKey(now);
+    if (this.persistence.getTimesheetReviewShownOn() === today) return;
+
+    this.persistence.saveTimesheetReviewShownOn(today);
+    this.emit('due');
+  }
+}
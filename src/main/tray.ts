@@ -99,7 +99,8 @@ export function createTray(callbacks: TrayCallbacks) {
 
 // ── Update tray icon + title ──────────────────────────────────
 
-export function updateTrayIcon(user: User, timerElapsed: number = 0, timerRunning: boolean = false) {
+// `cycleLabel` is the focus-cycle round ("2/4") or "Break", shown ahead of the time.
+export function updateTrayIcon(user: User, timerElapsed: number = 0, timerRunning: boolean = false, cycleLabel?: string) {
   if (!tray) return;
 
   const icon = createTrayIcon(user.status);
@@ -108,13 +109,13 @@ export function updateTrayIcon(user: User, timerElapsed: number = 0, timerRunnin
   // tray.setTitle() is macOS-only
   if (process.platform === 'darwin') {
     if (timerRunning && timerElapsed > 0) {
-      tray.setTitle(` ${formatTime(timerElapsed)}`, { fontType: 'monospacedDigit' });
+      tray.setTitle(` ${cycleLabel ? `${cycleLabel} · ` : ''}${formatTime(timerElapsed)}`, { fontType: 'monospacedDigit' });
     } else {
       tray.setTitle('');
     }
   }
 
-  tray.setToolTip(`ZenState — ${user.name} (${user.status})`);
+  tray.setToolTip(`ZenState — ${user.name} (${user.status})${cycleLabel ? ` · ${cycleLabel}` : ''}`);
 }
 
 // ── Position popover below tray ───────────────────────────────
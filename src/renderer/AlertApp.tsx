@@ -1,8 +1,9 @@
 import React, { useState, useEffect } from 'react';
 import AlertView from './views/AlertView';
+import { TimesheetReviewItem, DailyReviewItem, RoundingRule, MeetingSlot } from '../shared/types';
 
 interface AlertData {
-  type: 'meetingRequest' | 'emergencyRequest' | 'meetingResponse' | 'timerComplete' | 'breakReminder' | 'longRunGuard' | 'timesheetConfirm' | 'idlePrompt';
+  type: 'meetingRequest' | 'emergencyRequest' | 'meetingResponse' | 'meetingCounter' | 'meetingReminder' | 'timerComplete' | 'breakReminder' | 'longRunGuard' | 'timesheetConfirm' | 'timesheetBatchConfirm' | 'timesheetReview' | 'idlePrompt' | 'timerRecovery' | 'appSuggestion';
   from: string;
   senderId: string;
   message?: string;
@@ -10,6 +11,12 @@ interface AlertData {
   targetDuration?: number;
   elapsedSeconds?: number;
   lastActivityAt?: string;
+  stopElapsedSeconds?: number;
+  reviewItems?: TimesheetReviewItem[];
+  dailyReviewItems?: DailyReviewItem[];
+  rounding?: RoundingRule;
+  slots?: MeetingSlot[];
+  slot?: MeetingSlot;
 }
 
 export default function AlertApp() {
@@ -41,8 +48,22 @@ export default function AlertApp() {
       targetDuration={alertData.targetDuration}
       elapsedSeconds={alertData.elapsedSeconds}
       lastActivityAt={alertData.lastActivityAt}
-      onRespond={(accepted, message) => {
-        window.zenstate.respondMeetingRequest(alertData.senderId, accepted, message);
+      stopElapsedSeconds={alertData.stopElapsedSeconds}
+      reviewItems={alertData.reviewItems}
+      dailyReviewItems={alertData.dailyReviewItems}
+      rounding={alertData.rounding}
+      slots={alertData.slots}
+      slot={alertData.slot}
+      onRespond={(accepted, message, slot) => {
+        window.zenstate.respondMeetingRequest(alertData.senderId, accepted, message, slot);
+        window.close();
+      }}
+      onCounter={(slots, message) => {
+        window.zenstate.counterMeetingRequest(alertData.senderId, slots, message);
+        window.close();
+      }}
+      onSnooze={(minutes) => {
+        window.zenstate.snoozeMeetingRequest(alertData.senderId, minutes);
         window.close();
       }}
       onDismiss={() => {
@@ -57,6 +78,18 @@ export default function AlertApp() {
       onTimesheetConfirm={(action, hours, notes, durationSec) => {
         window.zenstate.timerTimesheetConfirm({ action, hours, notes, durationSec });
       }}
+      onTimesheetBatchConfirm={(choices) => {
+        window.zenstate.timerTimesheetBatchConfirm(choices);
+      }}
+      onTimesheetReviewSubmit={(choices) => {
+        window.zenstate.timesheetReviewSubmit(choices);
+      }}
+      onTimerRecovery={(action) => {
+        window.zenstate.timerRecoveryRespond(action);
+      }}
+      onAppSuggestion={(action) => {
+        window.zenstate.appSuggestionRespond(action);
+      }}
     />
   );
 }
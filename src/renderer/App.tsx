@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback } from 'react';
-import { User, AvailabilityStatus, IPC, LicenseState } from '../shared/types';
+import { User, AvailabilityStatus, IPC, LicenseState, TimerCycleInfo } from '../shared/types';
 import LoginView from './views/LoginView';
 import MenuBarView from './views/MenuBarView';
 import SettingsView from './views/SettingsView';
@@ -23,6 +23,7 @@ export default function App() {
     category: undefined as string | undefined,
     targetDuration: undefined as number | undefined,
     remaining: undefined as number | undefined,
+    cycle: undefined as TimerCycleInfo | undefined,
   });
   const [updateAvailable, setUpdateAvailable] = useState<string | null>(null);
   const [statusRevertRemaining, setStatusRevertRemaining] = useState(0);
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { User, AvailabilityStatus, DailyRecord, IPC, AppSettings, LicenseState, BasecampAuthState, BasecampCredentials, BasecampProject, BasecampTodoList, BasecampTodo, BasecampTimesheetEntry, TodayPlan, PinnedTodo, RecentTodo, PeerGroup, ReceivedPing } from '../shared/types';
+import { User, AvailabilityStatus, DailyRecord, IPC, AppSettings, LicenseState, BasecampAuthState, BasecampCredentials, BasecampProject, BasecampTodoList, BasecampTodo, BasecampTimesheetEntry, TodayPlan, PinnedTodo, RecentTodo, PeerGroup, ReceivedPing, FocusSchedule, ActiveFocusBlockInfo, SecureTransportStatus, PinnedPeerIdentity, RelayStatus, KnownPeer, OutboundMessage, PingReply, TimesheetSyncStatus, ReconcileResult, ReconcileAction, TaskRef, TimerCycleInfo, ActivitySpan, AppTrackerStatus, SuggestedSession, TimesheetReviewChoice, BackgroundTimer, PeerStatusTimeline, MeetingSlot, MeetingReminder, EmergencyPolicy, EmergencyAuditEntry, AdminAttestationState } from '../shared/types';
 import DashboardView from './views/DashboardView';
 import LoginView from './views/LoginView';
 
@@ -12,15 +12,30 @@ declare global {
       getPeers: () => Promise<User[]>;
       updateStatus: (status: AvailabilityStatus) => void;
       updateUser: (updates: Partial<User>) => void;
-      sendMeetingRequest: (userId: string, message?: string) => void;
+      sendMeetingRequest: (userId: string, message?: string, slots?: MeetingSlot[]) => void;
       cancelMeetingRequest: (userId: string) => void;
-      respondMeetingRequest: (userId: string, accepted: boolean, message?: string) => void;
-      sendEmergencyRequest: (userId: string, message?: string) => void;
+      respondMeetingRequest: (userId: string, accepted: boolean, message?: string, slot?: MeetingSlot) => void;
+      counterMeetingRequest: (userId: string, slots: MeetingSlot[], message?: string) => void;
+      snoozeMeetingRequest: (userId: string, minutes: number) => void;
+      sendEmergencyRequest: (userId: string, message?: string) => Promise<{ ok: boolean; error?: string }>;
       grantEmergencyAccess: (userId: string, granted: boolean) => void;
-      startTimer: (taskLabel: string, category?: string, targetDuration?: number, basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number; projectName?: string }) => void;
+      emergencyPolicyGet: () => Promise<EmergencyPolicy>;
+      emergencyPolicySave: (policy: Pick<EmergencyPolicy, 'allowedSenderIds' | 'dailyLimit' | 'requireReason'>) => Promise<EmergencyPolicy>;
+      emergencyAttestationGet: () => Promise<AdminAttestationState>;
+      emergencyAttestationSave: (attestation: string) => Promise<AdminAttestationState>;
+      emergencyAuditGet: () => Promise<EmergencyAuditEntry[]>;
+      startTimer: (taskLabel: string, category?: string, targetDuration?: number, task?: TaskRef, projectName?: string, cycle?: boolean) => void;
       stopTimer: () => void;
       pauseTimer: () => void;
       resumeTimer: () => void;
+      switchTimer: (taskLabel: string, category?: string, task?: TaskRef, projectName?: string) => void;
+      sendTimerToBackground: () => void;
+      backgroundTimersGet: () => Promise<BackgroundTimer[]>;
+      backgroundTimerStart: (taskLabel: string, category?: string, task?: TaskRef, projectName?: string) => void;
+      backgroundTimerStop: (id: string) => void;
+      backgroundTimerPause: (id: string) => void;
+      backgroundTimerResume: (id: string) => void;
+      backgroundTimerPromote: (id: string) => void;
       openDashboard: (tab?: string) => void;
       openDashboardAndPin: () => void;
       closePopover: () => void;
@@ -28,9 +43,10 @@ declare global {
       login: (user: User) => void;
       signOut: () => void;
       getRecords: (month?: string) => Promise<DailyRecord[]>;
-      deleteSession: (sessionId: string, date: string) => Promise<{ ok: boolean; basecampDeleted: boolean; hadBasecampLink: boolean; error?: string }>;
-      updateSession: (sessionId: string, date: string, updates: unknown) => Promise<{ ok: boolean; basecampSynced: boolean; needsManualFix: boolean; error?: string }>;
-      addSession: (data: { taskLabel: string; duration: number; startTime: string; notes?: string; basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number } | null }) => Promise<{ ok: boolean; sessionId?: string; dateStr?: string; error?: string }>;
+      deleteSession: (sessionId: string, date: string) => Promise<{ ok: boolean; basecampDeleted: boolean; basecampQueued?: boolean; hadBasecampLink: boolean; error?: string }>;
+      updateSession: (sessionId: string, date: string, updates: unknown) => Promise<{ ok: boolean; basecampSynced: boolean; basecampQueued?: boolean; basecampConflict?: boolean; needsManualFix: boolean; error?: string }>;
+      addSession: (data: { taskLabel: string; duration: number; startTime: string; notes?: string; category?: string; task?: TaskRef | null }) => Promise<{ ok: boolean; sessionId?: string; dateStr?: string; error?: string }>;
+      activityGetDay: (date: string) => Promise<ActivitySpan[]>;
       getAppVersion: () => Promise<string>;
       resetAllData: () => Promise<boolean>;
       installUpdate: () => void;
@@ -45,18 +61,44 @@ declare global {
       cancelStatusRevert: () => void;
       timerLongRunRespond: (payload: { action: 'continue' | 'stop' | 'backdate'; stopAtIso?: string }) => void;
       timerIdleRespond: (payload: { action: 'continue' | 'pause' | 'backdate'; stopAtIso?: string; enableMeetingMode?: boolean }) => void;
+      timerRecoveryRespond: (action: 'resume' | 'stop' | 'discard') => void;
+      appSuggestionRespond: (action: 'start' | 'dismiss') => void;
+      appTrackerGetStatus: () => Promise<AppTrackerStatus>;
+      appSuggestionsGet: () => Promise<SuggestedSession[]>;
+      appSuggestionsDismiss: (id: string) => Promise<SuggestedSession[]>;
       timerSetMeetingMode: (on: boolean) => void;
       timerTimesheetConfirm: (payload: { action: 'post' | 'discard'; hours?: string; notes?: string; durationSec?: number }) => void;
+      timerTimesheetBatchConfirm: (choices: TimesheetReviewChoice[]) => void;
+      timesheetReviewOpen: () => void;
+      timesheetReviewGetCount: () => Promise<number>;
+      timesheetReviewSubmit: (choices: TimesheetReviewChoice[]) => void;
       miniTimerResize: (size: { width: number; height: number }) => void;
       miniTimerMoveBy: (delta: { dx: number; dy: number }) => void;
       miniTimerGetNotes: () => Promise<string>;
       miniTimerSetNotes: (notes: string) => void;
-      teamSendPing: (data: { recipientIds: string[]; message: string }) => Promise<{ ok: boolean; delivered: number; total?: number; error?: string }>;
+      teamSendPing: (data: { recipientIds: string[]; message: string }) => Promise<{ ok: boolean; delivered: number; queued?: number; total?: number; messageId?: string; error?: string }>;
       teamGetRecentPings: () => Promise<ReceivedPing[]>;
       teamDismissPing: (pingId: string) => Promise<ReceivedPing[]>;
+      teamMarkPingsRead: () => Promise<ReceivedPing[]>;
+      teamReplyPing: (data: { conversationId: string; toId: string; message: string }) => Promise<PingReply[]>;
+      teamGetPingReplies: () => Promise<PingReply[]>;
+      outboxGet: () => Promise<OutboundMessage[]>;
+      teamDirectoryGet: () => Promise<KnownPeer[]>;
+      teamDirectoryForget: (userId: string) => Promise<KnownPeer[]>;
+      teamDirectoryForgetStale: () => Promise<KnownPeer[]>;
+      teamHistoryGet: (from: string, to: string) => Promise<PeerStatusTimeline[]>;
+      meetingRemindersGet: () => Promise<MeetingReminder[]>;
+      meetingRemindersRemove: (id: string) => Promise<MeetingReminder[]>;
       groupsGet: () => Promise<PeerGroup[]>;
       groupsSave: (group: PeerGroup) => Promise<PeerGroup[]>;
       groupsDelete: (groupId: string) => Promise<PeerGroup[]>;
+      schedulesGet: () => Promise<FocusSchedule[]>;
+      schedulesSave: (schedule: FocusSchedule) => Promise<{ ok: boolean; schedules?: FocusSchedule[]; error?: string }>;
+      schedulesDelete: (scheduleId: string) => Promise<FocusSchedule[]>;
+      schedulesGetActive: () => Promise<ActiveFocusBlockInfo | null>;
+      securityGetStatus: () => Promise<SecureTransportStatus>;
+      securityForgetPeer: (userId: string) => Promise<PinnedPeerIdentity[]>;
+      relayGetStatus: () => Promise<RelayStatus>;
       activateLicense: (key: string) => Promise<LicenseState>;
       getLicenseState: () => Promise<LicenseState>;
       deactivateLicense: () => Promise<LicenseState>;
@@ -64,16 +106,23 @@ declare global {
       bcSaveCredentials: (creds: BasecampCredentials) => Promise<boolean>;
       bcConnect: () => Promise<{ ok: boolean; error?: string; state?: BasecampAuthState }>;
       bcCancelConnect: () => Promise<boolean>;
-      bcDisconnect: () => Promise<BasecampAuthState>;
+      bcDisconnect: (accountId?: number) => Promise<BasecampAuthState>;
+      bcSetActiveAccount: (accountId: number) => Promise<BasecampAuthState>;
       bcGetAuthState: () => Promise<BasecampAuthState>;
-      bcListProjects: () => Promise<{ ok: boolean; data?: BasecampProject[]; error?: string }>;
-      bcListTodoLists: (projectId: number, todoSetId: number) => Promise<{ ok: boolean; data?: BasecampTodoList[]; error?: string }>;
-      bcListTodos: (projectId: number, todoListId: number) => Promise<{ ok: boolean; data?: BasecampTodo[]; error?: string }>;
-      bcCreateTodo: (data: { projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => Promise<{ ok: boolean; data?: BasecampTodo; error?: string }>;
-      bcPostComment: (data: { projectId: number; todoId: number; content: string }) => Promise<{ ok: boolean; error?: string }>;
-      bcCreateTimeEntry: (data: { todoId: number; date: string; hours: string; description?: string }) => Promise<{ ok: boolean; data?: BasecampTimesheetEntry; error?: string }>;
-      bcGetProjectTimesheet: (projectId: number) => Promise<{ ok: boolean; data?: BasecampTimesheetEntry[]; error?: string }>;
+      bcListProjects: (accountId?: number) => Promise<{ ok: boolean; data?: BasecampProject[]; error?: string }>;
+      bcListTodoLists: (projectId: number, todoSetId: number, accountId?: number) => Promise<{ ok: boolean; data?: BasecampTodoList[]; error?: string }>;
+      bcListTodos: (projectId: number, todoListId: number, accountId?: number) => Promise<{ ok: boolean; data?: BasecampTodo[]; error?: string }>;
+      bcCreateTodo: (data: { accountId?: number; projectId: number; todoListId: number; content: string; description?: string; parentId?: number }) => Promise<{ ok: boolean; data?: BasecampTodo; error?: string }>;
+      bcPostComment: (data: { accountId?: number; projectId: number; todoId: number; content: string }) => Promise<{ ok: boolean; error?: string }>;
+      bcCreateTimeEntry: (data: { accountId?: number; todoId: number; date: string; hours: string; description?: string }) => Promise<{ ok: boolean; data?: BasecampTimesheetEntry; error?: string }>;
+      bcGetProjectTimesheet: (projectId: number, accountId?: number) => Promise<{ ok: boolean; data?: BasecampTimesheetEntry[]; error?: string }>;
       bcBackfillTimesheet: () => Promise<{ ok: boolean; data?: { migrated: number; failed: number; totalUnsynced: number; groups: number; failures?: string[] }; error?: string }>;
+      bcSyncGetStatus: () => Promise<TimesheetSyncStatus>;
+      bcSyncRetry: () => Promise<TimesheetSyncStatus>;
+      bcSyncResolve: (opId: string, keep: 'local' | 'remote') => Promise<TimesheetSyncStatus>;
+      bcSyncDiscard: (opId: string) => Promise<TimesheetSyncStatus>;
+      bcReconcileGet: (startDate: string, endDate: string) => Promise<{ ok: boolean; data?: ReconcileResult; error?: string }>;
+      bcReconcileApply: (key: string, action: ReconcileAction) => Promise<{ ok: boolean; queued?: boolean; error?: string }>;
       todayGet: () => Promise<{ plan: TodayPlan; recents: RecentTodo[] }>;
       todayPin: (item: PinnedTodo) => Promise<TodayPlan>;
       todayUnpin: (todoId: number) => Promise<TodayPlan>;
@@ -105,6 +154,7 @@ interface TimerState {
   category?: string;
   targetDuration?: number;
   remaining?: number;
+  cycle?: TimerCycleInfo;
 }
 
 export default function DashboardApp() {
@@ -233,6 +283,13 @@ export default function DashboardApp() {
           setRecords(rs as DailyRecord[]);
         }).catch(() => {});
       }),
+      // A background timer stopping saves a session without touching the
+      // primary timer state the effect below watches.
+      window.zenstate.on(IPC.BACKGROUND_TIMERS_CHANGED, () => {
+        window.zenstate.getRecords().then((rs) => {
+          setRecords(rs as DailyRecord[]);
+        }).catch(() => {});
+      }),
     ];
     return () => { offs.forEach((off) => off()); };
   }, []);
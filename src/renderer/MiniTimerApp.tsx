@@ -1,12 +1,14 @@
 import React, { useEffect, useState, useRef, useCallback } from 'react';
 import { Pause, Play, Square, ChevronDown, Briefcase, StickyNote, Video } from 'lucide-react';
-import { IPC, TodayPlan, PinnedTodo, AppSettings } from '../shared/types';
+import { IPC, TodayPlan, PinnedTodo, AppSettings, TimerCycleInfo } from '../shared/types';
 
 interface TimerState {
   elapsed: number;
   isRunning: boolean;
   isPaused: boolean;
   taskLabel: string;
+  remaining?: number;
+  cycle?: TimerCycleInfo;
 }
 
 const COMPACT_W = 240;
@@ -239,27 +241,30 @@ export default function MiniTimerApp() {
 
   // ── Handlers ──────────────────────────────────────────────────
   const switchToPinned = useCallback((p: PinnedTodo) => {
-    // Stop the current timer first; the new one starts cleanly so the
-    // pre-flight Basecamp confirmation can run on the outgoing session.
-    // ipcRenderer.send preserves order from a single renderer, and main's
-    // stopTimer flips its running flag synchronously, so back-to-back
-    // calls are safe (no setTimeout dance needed).
-    if (timer.isRunning) {
-      flushNotes();
-      window.zenstate.stopTimer();
-    }
-    window.zenstate.startTimer(p.content, undefined, undefined, {
-      accountId: p.accountId, projectId: p.projectId, todoId: p.todoId,
-      todoListId: p.todoListId, projectName: p.projectName,
-    });
+    // Main saves the time so far as its own session and keeps timing under
+    // the new to-do; the Basecamp confirmations wait until the timer stops.
+    // Flush notes first so they land on the outgoing session — ipcRenderer.send
+    // preserves order from a single renderer.
+    flushNotes();
+    window.zenstate.switchTimer(p.content, undefined, {
+      provider: 'basecamp',
+      ref: { accountId: p.accountId, projectId: p.projectId, todoId: p.todoId, todoListId: p.todoListId },
+    }, p.projectName);
     setExpanded(false);
     window.zenstate.miniTimerResize({ width: COMPACT_W, height: COMPACT_H });
-  }, [timer.isRunning, flushNotes]);
+  }, [flushNotes]);
 
   // ── Render ────────────────────────────────────────────────────
   const accent = timer.isPaused ? 'var(--status-occupied, #ff9500)' : 'var(--status-available, #34c759)';
   const label = timer.taskLabel || 'No task';
   const truncated = label.length > 18 ? label.slice(0, 18) + '…' : label;
+  // In a focus cycle the pill counts down the interval and says which round
+  // (or break) it is.
+  const cycle = timer.cycle;
+  const onBreak = !!cycle && cycle.phase !== 'work';
+  const cycleBadge = cycle
+    ? (onBreak ? 'Break' : `${((cycle.round - 1) % cycle.roundsPerLongBreak) + 1}/${cycle.roundsPerLongBreak}`)
+    : null;
 
   // Filter out the currently-running task and any completed items — the pill
   // is for the in-the-moment switch, so completed work is just noise here.
@@ -315,9 +320,18 @@ export default function MiniTimerApp() {
         }} />
 
         <span style={{ fontFamily: 'var(--font-mono, ui-monospace, SFMono-Regular, Menlo, monospace)', fontWeight: 600, fontVariantNumeric: 'tabular-nums', fontSize: 13 }}>
-          {formatHMS(timer.elapsed)}
+          {formatHMS(cycle && timer.remaining !== undefined ? timer.remaining : timer.elapsed)}
         </span>
 
+        {cycleBadge && (
+          <span style={{
+            fontSize: 10, fontWeight: 600, padding: '1px 6px', borderRadius: 8, flexShrink: 0,
+            background: onBreak ? 'rgba(52,199,89,0.18)' : 'rgba(255,255,255,0.1)',
+          }}>
+            {cycleBadge}
+          </span>
+        )}
+
         <span style={{ flex: 1, opacity: 0.78, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
           {truncated}
         </span>
@@ -336,13 +350,15 @@ export default function MiniTimerApp() {
           />
         </span>
 
-        {/* Pause/Resume */}
-        <IconBtn
-          title={timer.isPaused ? 'Resume' : 'Pause'}
-          onClick={() => (timer.isPaused ? window.zenstate.resumeTimer() : window.zenstate.pauseTimer())}
-        >
-          {timer.isPaused ? <Play size={12} /> : <Pause size={12} />}
-        </IconBtn>
+        {/* Pause/Resume — breaks just run out */}
+        {!onBreak && (
+          <IconBtn
+            title={timer.isPaused ? 'Resume' : 'Pause'}
+            onClick={() => (timer.isPaused ? window.zenstate.resumeTimer() : window.zenstate.pauseTimer())}
+          >
+            {timer.isPaused ? <Play size={12} /> : <Pause size={12} />}
+          </IconBtn>
+        )}
 
         {/* Stop */}
         <IconBtn title="Stop" onClick={handleStop}>
@@ -1,15 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { DailySession, PinnedTodo, BasecampAuthState, RecentTodo } from '../../shared/types';
+import { PinnedTodo, BasecampAuthState, BasecampTaskRef, RecentTodo, TaskRef } from '../../shared/types';
 import { PinPicker } from '../views/dashboard/TodayTab';
 
-type BasecampLink = NonNullable<DailySession['basecamp']>;
-
 interface Props {
   // Optional pre-fill — used when launching from a pinned todo's "Log time"
   // button. Locks the Basecamp link with an "unlink" affordance.
   prefill?: {
     taskLabel: string;
-    basecamp?: { accountId: number; projectId: number; todoId: number; todoListId?: number };
+    basecamp?: BasecampTaskRef;
   };
   onClose: () => void;
   onSaved: (sessionId: string, dateStr: string) => void;
@@ -35,9 +33,9 @@ export default function AddSessionModal({ prefill, onClose, onSaved }: Props) {
   const [hours, setHours] = useState(0);
   const [minutes, setMinutes] = useState(30);
   const [notes, setNotes] = useState('');
-  const [linkState, setLinkState] = useState<BasecampLink | null>(
+  const [linkState, setLinkState] = useState<TaskRef | null>(
     prefill?.basecamp
-      ? { ...prefill.basecamp, synced: false }
+      ? { provider: 'basecamp', ref: prefill.basecamp }
       : null
   );
   // Display name for the linked todo (populated when user picks via PinPicker)
@@ -63,11 +61,13 @@ export default function AddSessionModal({ prefill, onClose, onSaved }: Props) {
 
   const handlePicked = (item: PinnedTodo) => {
     setLinkState({
-      accountId: item.accountId,
-      projectId: item.projectId,
-      todoId: item.todoId,
-      todoListId: item.todoListId,
-      synced: false,
+      provider: 'basecamp',
+      ref: {
+        accountId: item.accountId,
+        projectId: item.projectId,
+        todoId: item.todoId,
+        todoListId: item.todoListId,
+      },
     });
     setLinkDisplayName(`${item.projectName} / ${item.content}`);
     setTaskLabel((prev) => prev || item.content);
@@ -85,7 +85,7 @@ export default function AddSessionModal({ prefill, onClose, onSaved }: Props) {
       duration: totalSec,
       startTime: makeStartTime(date),
       notes: notes.trim() || undefined,
-      basecamp: linkState ?? null,
+      task: linkState ?? null,
     }).catch((e) => ({ ok: false as const, error: (e as Error).message }));
     setSaving(false);
     if (!res.ok) {
@@ -130,7 +130,7 @@ export default function AddSessionModal({ prefill, onClose, onSaved }: Props) {
           ) : linkState ? (
             <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 8px', background: 'var(--zen-tertiary-bg)', borderRadius: 6 }}>
               <span style={{ fontSize: 12, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'var(--zen-text)' }}>
-                {linkDisplayName ?? `Linked to-do #${linkState.todoId}`}
+                {linkDisplayName ?? `Linked to-do #${linkState.ref.todoId}`}
               </span>
               <button className="footer-btn" onClick={() => setShowPicker(true)} style={{ fontSize: 10 }}>Change</button>
               <button className="footer-btn" onClick={() => { setLinkState(null); setLinkDisplayName(null); }} style={{ fontSize: 10, color: 'var(--status-focused)' }}>Unlink</button>
@@ -236,6 +236,7 @@ export default function AddSessionModal({ prefill, onClose, onSaved }: Props) {
         recents={[] as RecentTodo[]}
         alreadyPinned={new Set<number>()}
         accountId={authState.account.id}
+        accounts={authState.accounts}
         onPickedItem={handlePicked}
         onClose={() => setShowPicker(false)}
         title="Link to a Basecamp to-do"
@@ -0,0 +1,41 @@
+import React from 'react';
+import { Check, CheckCheck, Clock, AlertCircle } from 'lucide-react';
+import { DeliveryState } from '../../shared/types';
+
+const LABELS: Record<DeliveryState, string> = {
+  queued: 'Queued',
+  sent: 'Sent',
+  delivered: 'Delivered',
+  read: 'Read',
+  expired: 'Not delivered',
+};
+
+const TITLES: Record<DeliveryState, string> = {
+  queued: 'Waiting for them to come online',
+  sent: 'Sent — their app doesn\'t report delivery',
+  delivered: 'Arrived on their machine',
+  read: 'They\'ve seen it',
+  expired: 'They didn\'t come online in time',
+};
+
+// Per-recipient delivery state for pings and meeting requests — shared by
+// the send sheet and the Team tab.
+export default function DeliveryBadge({ state }: { state: DeliveryState }) {
+  const color = state === 'read'
+    ? 'var(--zen-primary)'
+    : state === 'expired'
+      ? 'var(--status-focused)'
+      : 'var(--zen-tertiary-text)';
+  const Icon = state === 'queued' ? Clock
+    : state === 'sent' ? Check
+    : state === 'expired' ? AlertCircle
+    : CheckCheck;
+  return (
+    <span
+      title={TITLES[state]}
+      style={{ display: 'inline-flex', alignItems: 'center', gap: 3, fontSize: 'var(--text-xs)', color, whiteSpace: 'nowrap' }}
+    >
+      <Icon size={11} /> {LABELS[state]}
+    </span>
+  );
+}
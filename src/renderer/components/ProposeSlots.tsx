@@ -0,0 +1,66 @@
+import React, { useState } from 'react';
+import { X } from 'lucide-react';
+import { MeetingSlot } from '../../shared/types';
+import { MAX_MEETING_SLOTS, describeSlot, nextOccurrence } from '../../shared/meetingSlots';
+
+function newSlotId(): string {
+  return (typeof crypto !== 'undefined' && crypto.randomUUID) ? crypto.randomUUID() : Math.random().toString(36).slice(2);
+}
+
+// The times a meeting request (or a counter-proposal) offers — shared by the
+// Team tab's request popup and the meeting request alert. No slots means
+// "now". `allowAfterFocus` offers "after their focus block", which only the
+// recipient can turn into a time.
+export default function ProposeSlots({ slots, onChange, allowAfterFocus }: {
+  slots: MeetingSlot[];
+  onChange: (slots: MeetingSlot[]) => void;
+  allowAfterFocus?: boolean;
+}) {
+  const [time, setTime] = useState('');
+  const full = slots.length >= MAX_MEETING_SLOTS;
+  const hasAfterFocus = slots.some((s) => s.kind === 'afterFocus');
+
+  function addTime() {
+    const at = nextOccurrence(time);
+    if (!at || full || slots.some((s) => s.at === at)) return;
+    onChange([...slots, { id: newSlotId(), kind: 'at', at }]);
+    setTime('');
+  }
+
+  return (
+    <div style={{ marginBottom: 8 }}>
+      {slots.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 6 }}>
+          {slots.map((slot) => (
+            <span key={slot.id} className="category-chip selected" style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+              {describeSlot(slot, 'their')}
+              <X size={11} style={{ cursor: 'pointer' }} onClick={() => onChange(slots.filter((s) => s.id !== slot.id))} />
+            </span>
+          ))}
+        </div>
+      )}
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+        {allowAfterFocus && !hasAfterFocus && (
+          <button
+            className="category-chip"
+            disabled={full}
+            onClick={() => onChange([...slots, { id: newSlotId(), kind: 'afterFocus' }])}
+          >
+            After their focus block
+          </button>
+        )}
+        <input
+          type="time"
+          className="text-input"
+          value={time}
+          onChange={(e) => setTime(e.target.value)}
+          onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); e.stopPropagation(); addTime(); } }}
+          style={{ width: 100, fontSize: 12 }}
+        />
+        <button className="btn btn-secondary" style={{ fontSize: 10 }} onClick={addTime} disabled={!time || full}>
+          Add time
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,181 @@
+import React, { useState, useEffect } from 'react';
+import { ExternalLink } from 'lucide-react';
+import { ReconcileAction, ReconcileResult, ReconcileRow, TimesheetEntryFields } from '../../shared/types';
+
+interface Props {
+  onClose: () => void;
+  // Something changed locally (pull) or was queued (push) — refresh records.
+  onChanged: () => void;
+}
+
+function dateStr(d: Date): string {
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+// Default range: Monday of this week through today.
+function weekStartStr(): string {
+  const d = new Date();
+  const day = d.getDay();
+  d.setDate(d.getDate() - (day === 0 ? 6 : day - 1));
+  return dateStr(d);
+}
+
+const KIND_LABELS: Record<ReconcileRow['kind'], string> = {
+  missingRemote: 'Not in Basecamp',
+  missingLocal: 'Only in Basecamp',
+  mismatch: 'Different',
+};
+
+// What pull / push mean for each kind of row.
+const ACTION_TITLES: Record<ReconcileRow['kind'], { pull: string; push: string }> = {
+  missingRemote: { pull: 'Keep the time here but unlink it from Basecamp', push: 'Post this session to Basecamp' },
+  missingLocal: { pull: 'Add this entry to your local timesheet', push: 'Delete this entry from Basecamp' },
+  mismatch: { pull: 'Take Basecamp\'s version', push: 'Overwrite Basecamp with yours' },
+};
+
+function FieldsLine({ label, fields, differences }: { label: string; fields?: TimesheetEntryFields; differences: ReconcileRow['differences'] }) {
+  const mark = (key: keyof TimesheetEntryFields): React.CSSProperties =>
+    differences.includes(key) ? { color: 'var(--zen-text)', fontWeight: 600 } : {};
+  return (
+    <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', display: 'flex', gap: 6, minWidth: 0 }}>
+      <span style={{ width: 62, flexShrink: 0, color: 'var(--zen-tertiary-text)' }}>{label}</span>
+      {fields ? (
+        <span style={{ minWidth: 0, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          <span style={mark('date')}>{fields.date}</span>
+          {' · '}
+          <span style={{ fontFamily: 'var(--font-mono)', ...mark('hours') }}>{parseFloat(fields.hours).toFixed(2)}h</span>
+          {fields.description && <>{' · '}<span style={mark('description')} title={fields.description}>{fields.description}</span></>}
+        </span>
+      ) : (
+        <span style={{ fontStyle: 'italic', color: 'var(--zen-tertiary-text)' }}>—</span>
+      )}
+    </div>
+  );
+}
+
+// Compare the local timesheet with the user's Basecamp entries for a date
+// range and settle each difference one row at a time.
+export default function ReconcileModal({ onClose, onChanged }: Props) {
+  const [startDate, setStartDate] = useState(weekStartStr());
+  const [endDate, setEndDate] = useState(dateStr(new Date()));
+  const [result, setResult] = useState<ReconcileResult | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [busyKey, setBusyKey] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [queuedCount, setQueuedCount] = useState(0);
+
+  async function compare() {
+    setError(null);
+    setLoading(true);
+    const res = await window.zenstate.bcReconcileGet(startDate, endDate)
+      .catch((e) => ({ ok: false as const, error: (e as Error).message, data: undefined }));
+    setLoading(false);
+    if (!res.ok || !res.data) {
+      setError(res.error || 'Could not load your Basecamp timesheet.');
+      return;
+    }
+    setResult(res.data);
+    setQueuedCount(0);
+  }
+
+  // Initial load only — later loads are explicit.
+  useEffect(() => {
+    compare();
+  }, []);
+
+  async function act(row: ReconcileRow, action: ReconcileAction) {
+    setError(null);
+    setBusyKey(row.key);
+    const res = await window.zenstate.bcReconcileApply(row.key, action)
+      .catch((e) => ({ ok: false as const, error: (e as Error).message, queued: false }));
+    setBusyKey(null);
+    if (!res.ok) {
+      setError(res.error || 'Could not apply that change.');
+      return;
+    }
+    if (res.queued) setQueuedCount((n) => n + 1);
+    setResult((prev) => prev && {
+      ...prev,
+      rows: prev.rows.filter((r) => r.key !== row.key),
+      ignored: prev.ignored + (action === 'ignore' ? 1 : 0),
+    });
+    if (action !== 'ignore') onChanged();
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="modal-content" onClick={(e) => e.stopPropagation()} style={{ width: 620, maxHeight: '85vh', display: 'flex', flexDirection: 'column' }}>
+        <div style={{ fontSize: 15, fontWeight: 600, marginBottom: 4 }}>Reconcile with Basecamp</div>
+        <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 14, lineHeight: 1.5 }}>
+          Compares your sessions with your own Basecamp timesheet entries. <strong>Pull</strong> takes Basecamp's side, <strong>Push</strong> makes Basecamp match yours.
+        </div>
+
+        <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12 }}>
+          <input type="date" className="text-input" value={startDate} max={endDate} onChange={(e) => setStartDate(e.target.value)} style={{ width: 150 }} />
+          <span style={{ fontSize: 11, color: 'var(--zen-tertiary-text)' }}>to</span>
+          <input type="date" className="text-input" value={endDate} min={startDate} onChange={(e) => setEndDate(e.target.value)} style={{ width: 150 }} />
+          <div className="spacer" />
+          <button className="btn btn-secondary" onClick={compare} disabled={loading || !startDate || !endDate}>
+            {loading ? 'Comparing…' : 'Compare'}
+          </button>
+        </div>
+
+        {result && (
+          <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 10 }}>
+            {result.rows.length === 0 ? 'Everything matches.' : `${result.rows.length} ${result.rows.length === 1 ? 'difference' : 'differences'}`}
+            {` · ${result.matched} in sync`}
+            {result.ignored > 0 && ` · ${result.ignored} ignored`}
+            {result.pending > 0 && ` · ${result.pending} waiting to sync (skipped)`}
+            {queuedCount > 0 && ` · ${queuedCount} queued for Basecamp`}
+          </div>
+        )}
+
+        {error && (
+          <div style={{ fontSize: 11, color: 'var(--status-focused)', marginBottom: 10 }}>{error}</div>
+        )}
+
+        <div style={{ overflowY: 'auto', flex: 1, minHeight: 0 }}>
+          {result?.rows.map((row) => (
+            <div key={row.key} className="session-row" style={{ alignItems: 'flex-start', gap: 10 }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 12, fontWeight: 500, display: 'flex', alignItems: 'center', gap: 6, marginBottom: 3 }}>
+                  <span style={{ overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{row.taskLabel}</span>
+                  <span style={{ fontSize: 9, fontWeight: 600, padding: '1px 5px', borderRadius: 4, background: 'var(--zen-tertiary-bg)', border: '1px solid var(--zen-divider)', color: 'var(--zen-secondary-text)', whiteSpace: 'nowrap' }}>
+                    {KIND_LABELS[row.kind]}
+                  </span>
+                  {row.remote && (
+                    <a href={row.remote.appUrl} target="_blank" rel="noopener noreferrer" title="Open in Basecamp" style={{ color: 'var(--zen-tertiary-text)', display: 'flex' }}>
+                      <ExternalLink size={11} />
+                    </a>
+                  )}
+                </div>
+                <FieldsLine label="Here" fields={row.local?.fields} differences={row.differences} />
+                <FieldsLine label="Basecamp" fields={row.remote?.fields} differences={row.differences} />
+              </div>
+              <div style={{ display: 'flex', gap: 6, flexShrink: 0 }}>
+                <button
+                  className="category-chip"
+                  disabled={busyKey !== null || !row.canPull}
+                  title={row.canPull ? ACTION_TITLES[row.kind].pull : 'This Basecamp entry covers several sessions — edit them individually'}
+                  onClick={() => act(row, 'pull')}
+                >
+                  Pull
+                </button>
+                <button className="category-chip" disabled={busyKey !== null} title={ACTION_TITLES[row.kind].push} onClick={() => act(row, 'push')}>
+                  Push
+                </button>
+                <button className="category-chip" disabled={busyKey !== null} title="Leave both as they are and hide this row" onClick={() => act(row, 'ignore')}>
+                  Ignore
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div style={{ display: 'flex', justifyContent: 'flex-end', marginTop: 14 }}>
+          <button className="btn btn-secondary" onClick={onClose}>Done</button>
+        </div>
+      </div>
+    </div>
+  );
+}
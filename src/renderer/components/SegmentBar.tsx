@@ -0,0 +1,78 @@
+import React from 'react';
+import { PauseReason, WorkSegment } from '../../shared/types';
+
+const PAUSE_LABELS: Record<PauseReason, string> = {
+  manual: 'Paused',
+  suspend: 'Computer slept',
+  lock: 'Screen locked',
+  idle: 'Idle',
+  'focus-loss': 'Switched away',
+  restart: 'ZenState closed',
+};
+
+function clock(iso: string): string {
+  return new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function minutes(fromIso: string, toIso: string): string {
+  const m = Math.round((new Date(toIso).getTime() - new Date(fromIso).getTime()) / 60000);
+  return m >= 60 ? `${Math.floor(m / 60)}h ${m % 60}m` : `${m}m`;
+}
+
+// A timed session laid out from its first start to its last stop: filled
+// where the timer ran, hatched where it was paused. `detailed` adds a line per
+// segment and pause underneath.
+export default function SegmentBar({ segments, detailed }: { segments: WorkSegment[]; detailed?: boolean }) {
+  if (segments.length === 0) return null;
+  const from = new Date(segments[0].start).getTime();
+  const to = new Date(segments[segments.length - 1].end).getTime();
+  const span = Math.max(1, to - from);
+  const pct = (iso: string) => ((new Date(iso).getTime() - from) / span) * 100;
+
+  return (
+    <div>
+      <div style={{
+        position: 'relative',
+        height: detailed ? 10 : 4,
+        borderRadius: 3,
+        overflow: 'hidden',
+        background: 'repeating-linear-gradient(135deg, var(--zen-tertiary-bg), var(--zen-tertiary-bg) 3px, var(--zen-divider) 3px, var(--zen-divider) 6px)',
+      }}>
+        {segments.map((seg, i) => (
+          <div
+            key={i}
+            title={`${clock(seg.start)} – ${clock(seg.end)}`}
+            style={{
+              position: 'absolute',
+              top: 0,
+              bottom: 0,
+              left: `${pct(seg.start)}%`,
+              width: `${Math.max(0.5, pct(seg.end) - pct(seg.start))}%`,
+              background: 'var(--zen-primary)',
+            }}
+          />
+        ))}
+      </div>
+      {detailed && (
+        <div style={{ marginTop: 6, display: 'flex', flexDirection: 'column', gap: 2 }}>
+          {segments.map((seg, i) => {
+            const next = segments[i + 1];
+            return (
+              <React.Fragment key={i}>
+                <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', display: 'flex', gap: 8 }}>
+                  <span style={{ fontFamily: 'var(--font-mono)' }}>{clock(seg.start)} – {clock(seg.end)}</span>
+                  <span style={{ color: 'var(--zen-tertiary-text)' }}>{minutes(seg.start, seg.end)}</span>
+                </div>
+                {next && (
+                  <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', fontStyle: 'italic', paddingLeft: 12 }}>
+                    {PAUSE_LABELS[seg.pauseReason ?? 'manual']} · {minutes(seg.end, next.start)}
+                  </div>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import React, { useEffect, useMemo, useState, useCallback } from 'react';
 import { X, Plus, Check, Users, Trash2, Edit2 } from 'lucide-react';
-import { User, AvailabilityStatus, PeerGroup } from '../../shared/types';
+import { User, AvailabilityStatus, PeerGroup, KnownPeer, OutboundMessage, IPC } from '../../shared/types';
+import DeliveryBadge from './DeliveryBadge';
 
 interface Props {
   peers: User[];
@@ -23,17 +24,35 @@ export default function SendPingSheet({ peers, onClose }: Props) {
   const [editingGroup, setEditingGroup] = useState<PeerGroup | null>(null);
   const [sending, setSending] = useState(false);
   const [statusMsg, setStatusMsg] = useState<string | null>(null);
+  const [directory, setDirectory] = useState<KnownPeer[]>([]);
+  const [sentId, setSentId] = useState<string | null>(null);
+  const [outbox, setOutbox] = useState<OutboundMessage[]>([]);
 
-  // Online peers — we only ping discovered peers.
   const onlinePeers = useMemo(
     () => peers.filter((p) => p.status !== AvailabilityStatus.Offline),
     [peers]
   );
 
+  // Teammates we've seen before but who aren't connected — pings to them wait
+  // in the outbox until they're back.
+  const offlinePeers = useMemo(() => {
+    const onlineIds = new Set(onlinePeers.map((p) => p.id));
+    return directory.map((e) => e.user).filter((u) => !onlineIds.has(u.id));
+  }, [directory, onlinePeers]);
+
   useEffect(() => {
     window.zenstate.groupsGet().then(setGroups).catch(() => {});
+    window.zenstate.teamDirectoryGet().then(setDirectory).catch(() => {});
+    return window.zenstate.on(IPC.OUTBOX_CHANGED, (entries: unknown) => {
+      setOutbox(entries as OutboundMessage[]);
+    });
   }, []);
 
+  const sentEntries = useMemo(
+    () => (sentId ? outbox.filter((e) => e.id === sentId) : []),
+    [outbox, sentId]
+  );
+
   const togglePeer = useCallback((id: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
@@ -51,34 +70,71 @@ export default function SendPingSheet({ peers, onClose }: Props) {
 
   const applyGroup = useCallback((group: PeerGroup) => {
     // Add the group's members to the current selection (don't replace) so users
-    // can stack multiple groups, and only members who are currently online apply.
+    // can stack multiple groups. Offline members we know of are included —
+    // their copy is queued.
     setSelectedIds((prev) => {
       const next = new Set(prev);
-      const onlineSet = new Set(onlinePeers.map((p) => p.id));
-      for (const id of group.memberIds) if (onlineSet.has(id)) next.add(id);
+      const known = new Set([...onlinePeers, ...offlinePeers].map((p) => p.id));
+      for (const id of group.memberIds) if (known.has(id)) next.add(id);
       return next;
     });
-  }, [onlinePeers]);
+  }, [onlinePeers, offlinePeers]);
 
   const handleSend = useCallback(async () => {
     if (sending) return;
     const trimmed = message.trim();
     if (!trimmed || selectedIds.size === 0) return;
     setSending(true);
-    const res = await window.zenstate.teamSendPing({
+    const res: { ok: boolean; delivered: number; queued?: number; messageId?: string; error?: string } = await window.zenstate.teamSendPing({
       recipientIds: Array.from(selectedIds),
       message: trimmed,
     }).catch((e) => ({ ok: false, delivered: 0, error: (e as Error).message }));
     setSending(false);
     if (res.ok) {
       const count = res.delivered;
-      setStatusMsg(count === 1 ? 'Sent to 1 person' : `Sent to ${count} people`);
-      setTimeout(onClose, 800); // brief confirmation, then close
+      const queued = res.queued ?? 0;
+      const sentText = count === 1 ? 'Sent to 1 person' : `Sent to ${count} people`;
+      setStatusMsg(queued > 0 ? `${sentText} · ${queued} queued` : sentText);
+      if (res.messageId) {
+        // Stay open on the per-recipient list so receipts can be watched
+        // coming in; the outbox event has already fired by now.
+        setSentId(res.messageId);
+        window.zenstate.outboxGet().then(setOutbox).catch(() => {});
+      } else {
+        setTimeout(onClose, 800);
+      }
     } else {
       setStatusMsg(res.error ?? 'Failed to send');
     }
   }, [sending, message, selectedIds, onClose]);
 
+  const renderRecipient = (p: User, offline = false) => {
+    const checked = selectedIds.has(p.id);
+    return (
+      <button
+        key={p.id}
+        onClick={() => togglePeer(p.id)}
+        style={{
+          display: 'flex', alignItems: 'center', gap: 8,
+          padding: '6px 10px',
+          borderRadius: 'var(--radius-sm)',
+          background: checked ? 'rgba(10, 132, 255, 0.14)' : 'transparent',
+          border: `1px solid ${checked ? 'rgba(10, 132, 255, 0.45)' : 'var(--zen-divider)'}`,
+          color: 'var(--zen-text)',
+          cursor: 'pointer', fontFamily: 'inherit',
+          fontSize: 'var(--text-sm)',
+          textAlign: 'left',
+          opacity: offline && !checked ? 0.6 : 1,
+          transition: 'background var(--duration-quick) var(--ease-standard), border-color var(--duration-quick) var(--ease-standard)',
+        }}
+      >
+        <PeerAvatar peer={p} size={20} />
+        <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{p.name}</span>
+        {checked && <Check size={12} style={{ color: 'var(--zen-primary)' }} />}
+      </button>
+    );
+  };
+
   // ── Manage groups ──
   const handleNewGroup = () => {
     setEditingGroup({ id: uuid(), name: '', memberIds: [] });
@@ -130,7 +186,37 @@ export default function SendPingSheet({ peers, onClose }: Props) {
 
         {/* Body */}
         <div style={{ padding: 18 }}>
-          {mode === 'send' && (
+          {mode === 'send' && sentId && (
+            <>
+              <div style={{ fontSize: 'var(--text-sm)', color: 'var(--zen-text)', marginBottom: 4, lineHeight: 'var(--leading-relaxed)' }}>
+                {message.trim()}
+              </div>
+              {statusMsg && (
+                <div style={{ fontSize: 'var(--text-xs)', color: 'var(--zen-tertiary-text)', marginBottom: 12 }}>
+                  {statusMsg}
+                </div>
+              )}
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 4, maxHeight: 260, overflowY: 'auto', marginBottom: 14 }}>
+                {sentEntries.map((e) => (
+                  <div key={e.recipientId} style={{
+                    display: 'flex', alignItems: 'center', gap: 8,
+                    padding: '6px 10px',
+                    borderRadius: 'var(--radius-sm)',
+                    border: '1px solid var(--zen-divider)',
+                    fontSize: 'var(--text-sm)',
+                  }}>
+                    <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{e.recipientName}</span>
+                    <DeliveryBadge state={e.state} />
+                  </div>
+                ))}
+              </div>
+              <button className="btn btn-primary" style={{ width: '100%' }} onClick={onClose}>
+                Done
+              </button>
+            </>
+          )}
+
+          {mode === 'send' && !sentId && (
             <>
               {/* Message */}
               <input
@@ -199,33 +285,24 @@ export default function SendPingSheet({ peers, onClose }: Props) {
                     maxHeight: 220, overflowY: 'auto',
                     padding: 2,
                   }}>
-                    {onlinePeers.map((p) => {
-                      const checked = selectedIds.has(p.id);
-                      return (
-                        <button
-                          key={p.id}
-                          onClick={() => togglePeer(p.id)}
-                          style={{
-                            display: 'flex', alignItems: 'center', gap: 8,
-                            padding: '6px 10px',
-                            borderRadius: 'var(--radius-sm)',
-                            background: checked ? 'rgba(10, 132, 255, 0.14)' : 'transparent',
-                            border: `1px solid ${checked ? 'rgba(10, 132, 255, 0.45)' : 'var(--zen-divider)'}`,
-                            color: 'var(--zen-text)',
-                            cursor: 'pointer', fontFamily: 'inherit',
-                            fontSize: 'var(--text-sm)',
-                            textAlign: 'left',
-                            transition: 'background var(--duration-quick) var(--ease-standard), border-color var(--duration-quick) var(--ease-standard)',
-                          }}
-                        >
-                          <PeerAvatar peer={p} size={20} />
-                          <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{p.name}</span>
-                          {checked && <Check size={12} style={{ color: 'var(--zen-primary)' }} />}
-                        </button>
-                      );
-                    })}
+                    {onlinePeers.map((p) => renderRecipient(p))}
                   </div>
                 )}
+
+                {offlinePeers.length > 0 && (
+                  <>
+                    <div style={{ fontSize: 'var(--text-xs)', color: 'var(--zen-tertiary-text)', margin: '10px 0 6px' }}>
+                      Offline — delivered when they're back
+                    </div>
+                    <div style={{
+                      display: 'grid', gridTemplateColumns: 'repeat(2, 1fr)', gap: 4,
+                      maxHeight: 140, overflowY: 'auto',
+                      padding: 2,
+                    }}>
+                      {offlinePeers.map((p) => renderRecipient(p, true))}
+                    </div>
+                  </>
+                )}
               </div>
 
               {statusMsg && (
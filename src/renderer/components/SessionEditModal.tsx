@@ -1,13 +1,13 @@
 import React, { useState, useEffect } from 'react';
-import { DailySession, PinnedTodo, BasecampAuthState, RecentTodo } from '../../shared/types';
+import { DailySession, PinnedTodo, BasecampAuthState, RecentTodo, SessionLink, AppSettings, BillingInfo } from '../../shared/types';
+import { billingSource, NOT_BILLABLE } from '../../shared/billing';
 import { PinPicker } from '../views/dashboard/TodayTab';
-
-type BasecampLink = NonNullable<DailySession['basecamp']>;
+import SegmentBar from './SegmentBar';
 
 interface Props {
   session: DailySession;
   date: string;
-  onSave: (sessionId: string, date: string, updates: { taskLabel: string; duration: number; notes: string; basecamp?: BasecampLink | null }) => void;
+  onSave: (sessionId: string, date: string, updates: { taskLabel: string; duration: number; notes: string; link?: SessionLink | null; billing?: BillingInfo | null }) => void;
   onClose: () => void;
 }
 
@@ -17,28 +17,39 @@ export default function SessionEditModal({ session, date, onSave, onClose }: Pro
   const [hours, setHours] = useState(Math.floor(session.duration / 3600));
   const [minutes, setMinutes] = useState(Math.floor((session.duration % 3600) / 60));
 
-  // Basecamp linking state. We model it as either:
+  // Task linking state. We model it as either:
   //  - the original link from the saved session (read-only display until user edits)
   //  - `null` meaning the user explicitly unlinked
-  //  - a new BasecampLink the user just picked
-  const [linkState, setLinkState] = useState<BasecampLink | null | undefined>(session.basecamp);
+  //  - a new link the user just picked
+  const [linkState, setLinkState] = useState<SessionLink | null | undefined>(session.link);
   // Human-readable summary for the current link (project / todo title).
   const [linkDisplayName, setLinkDisplayName] = useState<string | null>(
-    session.basecamp ? `Linked Basecamp to-do (#${session.basecamp.todoId})` : null
+    session.link?.provider === 'basecamp' ? `Linked Basecamp to-do (#${session.link.ref.todoId})` : null
   );
   const [showPicker, setShowPicker] = useState(false);
   const [authState, setAuthState] = useState<BasecampAuthState | null>(null);
+  // Billing set on this session by hand; null = inherit from project/category.
+  const [billing, setBilling] = useState<BillingInfo | null>(session.billing ?? null);
+  const [settings, setSettings] = useState<AppSettings | null>(null);
 
   useEffect(() => {
     window.zenstate.bcGetAuthState().then(setAuthState).catch(() => {});
+    window.zenstate.getSettings().then(setSettings).catch(() => {});
   }, []);
 
+  // Follows the link being edited, so re-linking shows the new project's terms.
+  const source = settings ? billingSource(settings, linkState ?? undefined, session.category) : null;
+  const inherited = source?.billing ?? NOT_BILLABLE;
+
   const handlePicked = (item: PinnedTodo) => {
     setLinkState({
-      accountId: item.accountId,
-      projectId: item.projectId,
-      todoId: item.todoId,
-      todoListId: item.todoListId,
+      provider: 'basecamp',
+      ref: {
+        accountId: item.accountId,
+        projectId: item.projectId,
+        todoId: item.todoId,
+        todoListId: item.todoListId,
+      },
       synced: false,
     });
     setLinkDisplayName(`${item.projectName} / ${item.content}`);
@@ -47,15 +58,26 @@ export default function SessionEditModal({ session, date, onSave, onClose }: Pro
 
   function handleSave() {
     if (!taskLabel.trim()) return;
-    const duration = hours * 3600 + minutes * 60;
-    // Pass `basecamp` only if the user changed it — null on explicit unlink, the
+    // Untouched h/m keep the exact recorded seconds (and the session's
+    // segments, which a changed duration drops).
+    const durationEdited = hours !== Math.floor(session.duration / 3600) || minutes !== Math.floor((session.duration % 3600) / 60);
+    const duration = durationEdited ? hours * 3600 + minutes * 60 : session.duration;
+    // Pass `link` only if the user changed it — null on explicit unlink, the
     // new object on link, undefined to leave alone.
-    const basecampChanged = linkState !== session.basecamp;
+    const linkChanged = linkState !== session.link;
+    // Same for billing — null drops the override.
+    const cleaned = billing && {
+      billable: billing.billable,
+      client: billing.client?.trim() || undefined,
+      hourlyRate: billing.hourlyRate || undefined,
+    };
+    const billingChanged = JSON.stringify(cleaned) !== JSON.stringify(session.billing ?? null);
     onSave(session.id, date, {
       taskLabel: taskLabel.trim(),
       duration,
       notes: notes.trim(),
-      ...(basecampChanged ? { basecamp: linkState ?? null } : {}),
+      ...(linkChanged ? { link: linkState ?? null } : {}),
+      ...(billingChanged ? { billing: cleaned } : {}),
     });
   }
 
@@ -90,7 +112,7 @@ export default function SessionEditModal({ session, date, onSave, onClose }: Pro
           ) : linkState ? (
             <div style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '6px 8px', background: 'var(--zen-tertiary-bg)', borderRadius: 6 }}>
               <span style={{ fontSize: 12, flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', color: 'var(--zen-text)' }}>
-                {linkDisplayName ?? `Linked Basecamp to-do (#${linkState.todoId})`}
+                {linkDisplayName ?? `Linked Basecamp to-do (#${linkState.ref.todoId})`}
               </span>
               <button
                 className="footer-btn"
@@ -152,6 +174,66 @@ export default function SessionEditModal({ session, date, onSave, onClose }: Pro
               <span style={{ fontSize: 12, color: 'var(--zen-secondary-text)' }}>m</span>
             </div>
           </div>
+          {session.segments && session.segments.length > 1 && (
+            <div style={{ marginTop: 10 }}>
+              <SegmentBar segments={session.segments} detailed />
+              <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginTop: 6 }}>
+                Changing the duration replaces these with a single total.
+              </div>
+            </div>
+          )}
+        </div>
+
+        {/* Billing — inherited unless overridden for this session */}
+        <div style={{ marginBottom: 12 }}>
+          <label style={{ fontSize: 11, color: 'var(--zen-secondary-text)', display: 'flex', alignItems: 'center', marginBottom: 4 }}>
+            <span style={{ flex: 1 }}>Billing</span>
+            <input
+              type="checkbox"
+              checked={billing !== null}
+              onChange={(e) => setBilling(e.target.checked ? { ...inherited } : null)}
+              style={{ marginRight: 4 }}
+            />
+            Override
+          </label>
+          {billing === null ? (
+            <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', padding: '6px 8px', background: 'var(--zen-tertiary-bg)', borderRadius: 6 }}>
+              {inherited.billable ? 'Billable' : 'Non-billable'}
+              {inherited.client && ` · ${inherited.client}`}
+              {inherited.billable && inherited.hourlyRate ? ` · ${inherited.hourlyRate}/h` : ''}
+              {' — '}
+              {source ? `from ${source.from} ${source.name}` : 'no project or category rule'}
+            </div>
+          ) : (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+              <label style={{ fontSize: 12, display: 'flex', alignItems: 'center', gap: 4 }}>
+                <input
+                  type="checkbox"
+                  checked={billing.billable}
+                  onChange={(e) => setBilling({ ...billing, billable: e.target.checked })}
+                />
+                Billable
+              </label>
+              <input
+                className="text-input"
+                value={billing.client ?? ''}
+                onChange={(e) => setBilling({ ...billing, client: e.target.value })}
+                placeholder="Client"
+                style={{ flex: 1, fontSize: 12 }}
+              />
+              <input
+                className="text-input"
+                type="number"
+                min="0"
+                step="0.01"
+                value={billing.hourlyRate ?? ''}
+                onChange={(e) => setBilling({ ...billing, hourlyRate: parseFloat(e.target.value) || undefined })}
+                placeholder="Rate/h"
+                disabled={!billing.billable}
+                style={{ width: 80, fontSize: 12 }}
+              />
+            </div>
+          )}
         </div>
 
         {/* Notes */}
@@ -197,6 +279,7 @@ export default function SessionEditModal({ session, date, onSave, onClose }: Pro
         recents={[] as RecentTodo[]}
         alreadyPinned={new Set<number>()}
         accountId={authState.account.id}
+        accounts={authState.accounts}
         onPickedItem={handlePicked}
         onClose={() => setShowPicker(false)}
         title="Link to a Basecamp to-do"
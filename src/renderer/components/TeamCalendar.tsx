@@ -0,0 +1,175 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { AvailabilityStatus, PeerStatusTimeline } from '../../shared/types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const STATUS_COLORS: Record<AvailabilityStatus, string> = {
+  [AvailabilityStatus.Available]: 'var(--status-available)',
+  [AvailabilityStatus.Occupied]: 'var(--status-occupied)',
+  [AvailabilityStatus.Focused]: 'var(--status-focused)',
+  [AvailabilityStatus.Offline]: 'var(--status-offline)',
+};
+
+const STATUS_LABELS: Record<AvailabilityStatus, string> = {
+  [AvailabilityStatus.Available]: 'Available',
+  [AvailabilityStatus.Occupied]: 'Occupied',
+  [AvailabilityStatus.Focused]: 'Focused',
+  [AvailabilityStatus.Offline]: 'Offline',
+};
+
+type Span = PeerStatusTimeline['spans'][number];
+
+function startOfDay(d: Date): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate());
+}
+
+// Sunday-first, like the Timesheet tab's week.
+function startOfWeek(d: Date): Date {
+  const day = startOfDay(d);
+  return new Date(day.getFullYear(), day.getMonth(), day.getDate() - day.getDay());
+}
+
+function addDays(d: Date, days: number): Date {
+  return new Date(d.getFullYear(), d.getMonth(), d.getDate() + days);
+}
+
+function clock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+// One day's bands for one teammate, midnight to midnight. Unobserved time is
+// left empty.
+function DayBar({ spans, dayStart, height }: { spans: Span[]; dayStart: number; height: number }) {
+  const pct = (ms: number) => Math.min(100, Math.max(0, ((ms - dayStart) / DAY_MS) * 100));
+  return (
+    <div style={{ position: 'relative', height, borderRadius: 3, background: 'var(--zen-tertiary-bg)', overflow: 'hidden' }}>
+      {spans.map((span, i) => {
+        const start = new Date(span.start).getTime();
+        const end = new Date(span.end).getTime();
+        if (end <= dayStart || start >= dayStart + DAY_MS) return null;
+        return (
+          <div
+            key={i}
+            title={`${STATUS_LABELS[span.status]} · ${clock(start)} – ${clock(end)}`}
+            style={{
+              position: 'absolute', top: 0, bottom: 0,
+              left: `${pct(start)}%`,
+              width: `${Math.max(0.2, pct(end) - pct(start))}%`,
+              background: STATUS_COLORS[span.status],
+              opacity: span.status === AvailabilityStatus.Offline ? 0.35 : 0.85,
+            }}
+          />
+        );
+      })}
+    </div>
+  );
+}
+
+// Team tab → calendar: who was Available, Occupied, Focused or Offline over a
+// day or a week, as this client saw it (main keeps two weeks). For picking a
+// time to send a meeting request.
+export default function TeamCalendar({ names }: { names: Record<string, string> }) {
+  const [view, setView] = useState<'day' | 'week'>('day');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [timelines, setTimelines] = useState<PeerStatusTimeline[]>([]);
+
+  const rangeStart = view === 'day' ? anchor : startOfWeek(anchor);
+  const days = view === 'day' ? 1 : 7;
+  const rangeEnd = addDays(rangeStart, days);
+  const rangeKey = `${rangeStart.toISOString()}|${rangeEnd.toISOString()}`;
+
+  useEffect(() => {
+    const load = () => {
+      window.zenstate.teamHistoryGet(rangeStart.toISOString(), rangeEnd.toISOString())
+        .then(setTimelines)
+        .catch(() => setTimelines([]));
+    };
+    load();
+    // The current band keeps growing; a minute is plenty.
+    const id = setInterval(load, 60 * 1000);
+    return () => clearInterval(id);
+  }, [rangeKey]);
+
+  const rows = useMemo(
+    () => timelines
+      .map((t) => ({ ...t, name: names[t.userId] ?? 'Unknown teammate' }))
+      .sort((a, b) => a.name.localeCompare(b.name)),
+    [timelines, names],
+  );
+
+  const dayStarts = Array.from({ length: days }, (_, i) => addDays(rangeStart, i).getTime());
+  const isCurrent = rangeStart.getTime() <= Date.now() && Date.now() < rangeEnd.getTime();
+  const title = view === 'day'
+    ? anchor.toLocaleDateString([], { weekday: 'long', month: 'short', day: 'numeric' })
+    : `${rangeStart.toLocaleDateString([], { month: 'short', day: 'numeric' })} – ${addDays(rangeEnd, -1).toLocaleDateString([], { month: 'short', day: 'numeric' })}`;
+
+  return (
+    <div className="card" style={{ marginTop: 20 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 10 }}>
+        <div style={{ fontSize: 12, fontWeight: 600 }}>Team calendar</div>
+        <div style={{ flex: 1 }} />
+        {(['day', 'week'] as const).map((v) => (
+          <button key={v} className={`category-chip ${view === v ? 'selected' : ''}`} onClick={() => setView(v)}>
+            {v === 'day' ? 'Day' : 'Week'}
+          </button>
+        ))}
+        <button className="footer-btn" onClick={() => setAnchor(addDays(anchor, -days))} title="Earlier">
+          <ChevronLeft size={14} />
+        </button>
+        <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)', minWidth: 120, textAlign: 'center' }}>{title}</span>
+        <button className="footer-btn" onClick={() => setAnchor(addDays(anchor, days))} disabled={isCurrent} title="Later">
+          <ChevronRight size={14} />
+        </button>
+        {!isCurrent && (
+          <button className="footer-btn" onClick={() => setAnchor(startOfDay(new Date()))} style={{ fontSize: 10 }}>
+            Today
+          </button>
+        )}
+      </div>
+
+      {rows.length === 0 ? (
+        <div style={{ textAlign: 'center', padding: 20, color: 'var(--zen-tertiary-text)', fontSize: 12 }}>
+          No status history for this {view} — it builds up while ZenState is running.
+        </div>
+      ) : (
+        <>
+          <div style={{ display: 'flex', gap: 8, marginBottom: 4 }}>
+            <div style={{ width: 110, flexShrink: 0 }} />
+            {view === 'day' ? (
+              <div style={{ flex: 1, display: 'flex', justifyContent: 'space-between', fontSize: 9, color: 'var(--zen-tertiary-text)' }}>
+                {[0, 6, 12, 18, 24].map((h) => <span key={h}>{String(h).padStart(2, '0')}:00</span>)}
+              </div>
+            ) : dayStarts.map((d) => (
+              <div key={d} style={{ flex: 1, fontSize: 9, color: 'var(--zen-tertiary-text)', textAlign: 'center' }}>
+                {DAY_NAMES[new Date(d).getDay()]} {new Date(d).getDate()}
+              </div>
+            ))}
+          </div>
+          {rows.map((row) => (
+            <div key={row.userId} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+              <div style={{ width: 110, flexShrink: 0, fontSize: 12, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                {row.name}
+              </div>
+              {dayStarts.map((d) => (
+                <div key={d} style={{ flex: 1, minWidth: 0 }}>
+                  <DayBar spans={row.spans} dayStart={d} height={view === 'day' ? 14 : 10} />
+                </div>
+              ))}
+            </div>
+          ))}
+          <div style={{ display: 'flex', gap: 12, marginTop: 8, fontSize: 10, color: 'var(--zen-secondary-text)' }}>
+            {Object.values(AvailabilityStatus).map((status) => (
+              <span key={status} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+                <span style={{ width: 8, height: 8, borderRadius: 2, background: STATUS_COLORS[status], opacity: status === AvailabilityStatus.Offline ? 0.35 : 0.85 }} />
+                {STATUS_LABELS[status]}
+              </span>
+            ))}
+            <span style={{ color: 'var(--zen-tertiary-text)' }}>Blank — ZenState wasn't running</span>
+          </div>
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,204 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { ActivitySpan, ActivityState, DailySession, IPC, PinnedTodo } from '../../shared/types';
+
+// Active stretches shorter than this aren't offered — a couple of minutes
+// between sessions is just switching tasks.
+const MIN_UNTRACKED_SECONDS = 5 * 60;
+
+const STATE_BACKGROUNDS: Record<ActivityState, string> = {
+  active: 'var(--zen-divider)',
+  idle: 'transparent',
+  locked: 'transparent',
+  suspended: 'transparent',
+  off: 'transparent',
+};
+
+interface Block {
+  start: number;
+  end: number;
+}
+
+function clock(ms: number): string {
+  return new Date(ms).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+}
+
+function minutesLabel(seconds: number): string {
+  const m = Math.round(seconds / 60);
+  return m >= 60 ? `${Math.floor(m / 60)}h ${m % 60}m` : `${m}m`;
+}
+
+// Time a session covers: its work segments when it has them (so pauses stay
+// untracked), otherwise start to end.
+function sessionBlocks(session: DailySession): Block[] {
+  if (session.segments && session.segments.length > 0) {
+    return session.segments.map((seg) => ({ start: new Date(seg.start).getTime(), end: new Date(seg.end).getTime() }));
+  }
+  const start = new Date(session.startTime).getTime();
+  const end = session.endTime ? new Date(session.endTime).getTime() : start + session.duration * 1000;
+  return [{ start, end }];
+}
+
+// Active time with no session over it.
+function untrackedBlocks(spans: ActivitySpan[], sessions: DailySession[]): Block[] {
+  const tracked = sessions.flatMap(sessionBlocks).sort((a, b) => a.start - b.start);
+  const out: Block[] = [];
+  for (const span of spans) {
+    if (span.state !== 'active') continue;
+    let cursor = new Date(span.start).getTime();
+    const end = new Date(span.end).getTime();
+    for (const t of tracked) {
+      if (t.end <= cursor || t.start >= end) continue;
+      if (t.start > cursor) out.push({ start: cursor, end: t.start });
+      cursor = Math.max(cursor, t.end);
+    }
+    if (cursor < end) out.push({ start: cursor, end });
+  }
+  return out.filter((b) => (b.end - b.start) / 1000 >= MIN_UNTRACKED_SECONDS);
+}
+
+// "Untracked time" lane for one day: the activity log laid out from the first
+// to the last thing recorded, with tracked sessions on top and active time
+// nobody logged picked out. An untracked block dropped on (or clicked, then a
+// click on) a pinned to-do becomes a session for it.
+export default function UntrackedLane({ date, sessions, onAdded }: {
+  date: string;
+  sessions: DailySession[];
+  onAdded: () => void;
+}) {
+  const [spans, setSpans] = useState<ActivitySpan[]>([]);
+  const [pinned, setPinned] = useState<PinnedTodo[]>([]);
+  const [selected, setSelected] = useState<Block | null>(null);
+  const [dropTarget, setDropTarget] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.zenstate.activityGetDay(date).then(setSpans).catch(() => setSpans([]));
+  }, [date, sessions]);
+
+  useEffect(() => {
+    window.zenstate.todayGet().then((res) => setPinned(res.plan.items)).catch(() => {});
+    return window.zenstate.on(IPC.TODAY_CHANGED, (...args: unknown[]) => {
+      const plan = args[0] as { items: PinnedTodo[] } | null;
+      setPinned(plan?.items ?? []);
+    });
+  }, []);
+
+  const blocks = useMemo(() => untrackedBlocks(spans, sessions), [spans, sessions]);
+
+  if (spans.length === 0) return null;
+  const from = new Date(spans[0].start).getTime();
+  const to = new Date(spans[spans.length - 1].end).getTime();
+  const range = Math.max(1, to - from);
+  const pct = (ms: number) => ((ms - from) / range) * 100;
+  const tracked = sessions.flatMap(sessionBlocks);
+
+  async function logTo(block: Block, item: PinnedTodo) {
+    setError(null);
+    const res = await window.zenstate.addSession({
+      taskLabel: item.content,
+      duration: Math.round((block.end - block.start) / 1000),
+      startTime: new Date(block.start).toISOString(),
+      task: {
+        provider: 'basecamp',
+        ref: { accountId: item.accountId, projectId: item.projectId, todoId: item.todoId, todoListId: item.todoListId },
+      },
+    }).catch((e) => ({ ok: false as const, error: (e as Error).message }));
+    if (!res.ok) {
+      setError(res.error || 'Failed to add session.');
+      return;
+    }
+    setSelected(null);
+    onAdded();
+  }
+
+  const isSelected = (b: Block) => selected?.start === b.start && selected?.end === b.end;
+
+  return (
+    <div style={{ marginBottom: 12 }}>
+      <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, marginBottom: 4 }}>
+        <span style={{ fontSize: 11, fontWeight: 600, color: 'var(--zen-secondary-text)' }}>Untracked time</span>
+        <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)' }}>
+          {blocks.length === 0
+            ? 'Everything active is logged'
+            : `${minutesLabel(blocks.reduce((sum, b) => sum + (b.end - b.start) / 1000, 0))} active without a session — drag a block onto a to-do to log it`}
+        </span>
+      </div>
+
+      <div style={{ position: 'relative', height: 14, borderRadius: 3, background: 'var(--zen-tertiary-bg)', overflow: 'hidden' }}>
+        {spans.map((span, i) => (
+          <div
+            key={`s${i}`}
+            title={`${span.state} · ${clock(new Date(span.start).getTime())} – ${clock(new Date(span.end).getTime())}`}
+            style={{
+              position: 'absolute', top: 0, bottom: 0,
+              left: `${pct(new Date(span.start).getTime())}%`,
+              width: `${pct(new Date(span.end).getTime()) - pct(new Date(span.start).getTime())}%`,
+              background: STATE_BACKGROUNDS[span.state],
+            }}
+          />
+        ))}
+        {tracked.map((t, i) => (
+          <div
+            key={`t${i}`}
+            style={{
+              position: 'absolute', top: 3, bottom: 3,
+              left: `${pct(t.start)}%`,
+              width: `${Math.max(0.3, pct(t.end) - pct(t.start))}%`,
+              background: 'var(--zen-primary)', opacity: 0.6,
+            }}
+          />
+        ))}
+        {blocks.map((b, i) => (
+          <div
+            key={`u${i}`}
+            draggable
+            onDragStart={(e) => { setSelected(b); e.dataTransfer.effectAllowed = 'copy'; }}
+            onClick={() => setSelected(isSelected(b) ? null : b)}
+            title={`Untracked · ${clock(b.start)} – ${clock(b.end)} (${minutesLabel((b.end - b.start) / 1000)})`}
+            style={{
+              position: 'absolute', top: 0, bottom: 0,
+              left: `${pct(b.start)}%`,
+              width: `${Math.max(0.5, pct(b.end) - pct(b.start))}%`,
+              background: 'rgba(255,149,0,0.35)',
+              border: `1px ${isSelected(b) ? 'solid' : 'dashed'} var(--status-occupied)`,
+              borderRadius: 3,
+              cursor: 'grab',
+            }}
+          />
+        ))}
+      </div>
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: 9, color: 'var(--zen-tertiary-text)', marginTop: 2 }}>
+        <span>{clock(from)}</span>
+        <span>{clock(to)}</span>
+      </div>
+
+      {blocks.length > 0 && (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginTop: 6 }}>
+          {selected && (
+            <span style={{ fontSize: 10, color: 'var(--zen-secondary-text)', alignSelf: 'center' }}>
+              {clock(selected.start)} – {clock(selected.end)} →
+            </span>
+          )}
+          {pinned.length === 0 ? (
+            <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)' }}>Pin a to-do on the Plan tab to log untracked time to it.</span>
+          ) : pinned.map((item) => (
+            <button
+              key={item.todoId}
+              className={`category-chip ${dropTarget === item.todoId ? 'selected' : ''}`}
+              onDragOver={(e) => { e.preventDefault(); setDropTarget(item.todoId); }}
+              onDragLeave={() => setDropTarget(null)}
+              onDrop={(e) => { e.preventDefault(); setDropTarget(null); if (selected) void logTo(selected, item); }}
+              onClick={() => { if (selected) void logTo(selected, item); }}
+              disabled={!selected}
+              title={selected ? `Log ${minutesLabel((selected.end - selected.start) / 1000)} to this to-do` : 'Drag an untracked block here, or click one first'}
+              style={{ cursor: selected ? 'pointer' : 'default' }}
+            >
+              {item.content}
+            </button>
+          ))}
+        </div>
+      )}
+      {error && <div style={{ fontSize: 11, color: 'var(--status-focused)', marginTop: 4 }}>{error}</div>}
+    </div>
+  );
+}
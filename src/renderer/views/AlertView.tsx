@@ -1,7 +1,11 @@
 import React, { useState } from 'react';
+import { TimesheetReviewItem, TimesheetReviewChoice, DailyReviewItem, RoundingRule, MeetingSlot } from '../../shared/types';
+import { NO_ROUNDING, describeRounding, postedHours } from '../../shared/rounding';
+import { describeSlot } from '../../shared/meetingSlots';
+import ProposeSlots from '../components/ProposeSlots';
 
 interface Props {
-  type: 'meetingRequest' | 'emergencyRequest' | 'meetingResponse' | 'timerComplete' | 'breakReminder' | 'longRunGuard' | 'timesheetConfirm' | 'idlePrompt';
+  type: 'meetingRequest' | 'emergencyRequest' | 'meetingResponse' | 'meetingCounter' | 'meetingReminder' | 'timerComplete' | 'breakReminder' | 'longRunGuard' | 'timesheetConfirm' | 'timesheetBatchConfirm' | 'timesheetReview' | 'idlePrompt' | 'timerRecovery' | 'appSuggestion';
   from: string;
   senderId: string;
   message?: string;
@@ -9,14 +13,27 @@ interface Props {
   targetDuration?: number;
   elapsedSeconds?: number;
   lastActivityAt?: string; // ISO timestamp from main process
-  onRespond: (accepted: boolean, message?: string) => void;
+  stopElapsedSeconds?: number; // timerRecovery: elapsed if stopped at lastActivityAt
+  reviewItems?: TimesheetReviewItem[]; // timesheetBatchConfirm
+  dailyReviewItems?: DailyReviewItem[]; // timesheetReview
+  rounding?: RoundingRule; // timesheetConfirm
+  slots?: MeetingSlot[]; // meetingRequest, meetingCounter — proposed times
+  slot?: MeetingSlot; // meetingResponse — the time they accepted
+  onRespond: (accepted: boolean, message?: string, slot?: MeetingSlot) => void;
+  onCounter?: (slots: MeetingSlot[], message?: string) => void;
+  onSnooze?: (minutes: number) => void;
   onDismiss: () => void;
   onLongRunResponse?: (action: 'continue' | 'stop' | 'backdate', stopAtIso?: string) => void;
   onIdleResponse?: (action: 'continue' | 'pause' | 'backdate', stopAtIso?: string, enableMeetingMode?: boolean) => void;
   onTimesheetConfirm?: (action: 'post' | 'discard', hours?: string, notes?: string, durationSec?: number) => void;
+  onTimesheetBatchConfirm?: (choices: TimesheetReviewChoice[]) => void;
+  onTimesheetReviewSubmit?: (choices: TimesheetReviewChoice[]) => void;
+  onTimerRecovery?: (action: 'resume' | 'stop' | 'discard') => void;
+  onAppSuggestion?: (action: 'start' | 'dismiss') => void;
 }
 
 const QUICK_REPLIES = ['Give me 5 mins', 'Free after lunch', "Let's do tomorrow"];
+const SNOOZE_MINUTES = [10, 30];
 
 function formatAlertDuration(seconds: number): string {
   const h = Math.floor(seconds / 3600);
@@ -26,14 +43,23 @@ function formatAlertDuration(seconds: number): string {
   return `${m}m`;
 }
 
-export default function AlertView({ type, from, senderId, message, accepted, targetDuration, elapsedSeconds, lastActivityAt, onRespond, onDismiss, onLongRunResponse, onIdleResponse, onTimesheetConfirm }: Props) {
+export default function AlertView({ type, from, senderId, message, accepted, targetDuration, elapsedSeconds, lastActivityAt, stopElapsedSeconds, reviewItems, dailyReviewItems, rounding, slots, slot, onRespond, onCounter, onSnooze, onDismiss, onLongRunResponse, onIdleResponse, onTimesheetConfirm, onTimesheetBatchConfirm, onTimesheetReviewSubmit, onTimerRecovery, onAppSuggestion }: Props) {
   const [replyText, setReplyText] = useState('');
   const [selectedQuickReply, setSelectedQuickReply] = useState<string | null>(null);
+  const [selectedSlotId, setSelectedSlotId] = useState<string | null>(slots?.[0]?.id ?? null);
+  const [countering, setCountering] = useState(false);
+  const [counterSlots, setCounterSlots] = useState<MeetingSlot[]>([]);
   const isEmergency = type === 'emergencyRequest';
+  const selectedSlot = slots?.find((s) => s.id === selectedSlotId) ?? slots?.[0];
 
   function handleAccept() {
     const msg = selectedQuickReply || replyText || undefined;
-    onRespond(true, msg);
+    onRespond(true, msg, selectedSlot);
+  }
+
+  function handleCounter() {
+    const msg = selectedQuickReply || replyText || undefined;
+    onCounter?.(counterSlots, msg);
   }
 
   function handleDecline() {
@@ -184,6 +210,90 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
     );
   }
 
+  // Timer recovery — the app quit, crashed or the machine restarted while a
+  // timer was running. Resume it, keep the time up to the last activity, or
+  // throw the session away.
+  if (type === 'timerRecovery') {
+    const stopAtLabel = lastActivityAt ? new Date(lastActivityAt).toLocaleString([], { weekday: 'short', hour: 'numeric', minute: '2-digit' }) : null;
+    return (
+      <div className="alert-panel fade-in" style={{ width: 360 }}>
+        <div style={{ textAlign: 'center', fontSize: 32, marginBottom: 8 }}>⏱</div>
+        <div className="alert-title" style={{ textAlign: 'center', color: 'var(--zen-primary)' }}>
+          Timer was still running
+        </div>
+        <div style={{ textAlign: 'center', fontSize: 13, color: 'var(--zen-secondary-text)', marginBottom: 4 }}>
+          <strong>{from}</strong>
+        </div>
+        <div style={{ textAlign: 'center', fontSize: 12, color: 'var(--zen-tertiary-text)', marginBottom: 16 }}>
+          ZenState closed with {formatAlertDuration(elapsedSeconds || 0)} tracked.
+        </div>
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <button
+            className="btn btn-primary"
+            style={{ width: '100%' }}
+            onClick={() => { onTimerRecovery?.('resume'); onDismiss(); }}
+            title="Keep timing from where it left off. The time ZenState was closed isn't counted."
+          >
+            Resume
+          </button>
+          <button
+            className="btn btn-secondary"
+            style={{ width: '100%' }}
+            onClick={() => { onTimerRecovery?.('stop'); onDismiss(); }}
+            title="Save the session, ending at your last keyboard or mouse activity before ZenState closed."
+          >
+            {stopAtLabel ? `Stop at ${stopAtLabel}` : 'Stop at last activity'} ({formatAlertDuration(stopElapsedSeconds || 0)})
+          </button>
+          <button
+            className="btn btn-secondary"
+            style={{ width: '100%' }}
+            onClick={() => { onTimerRecovery?.('discard'); onDismiss(); }}
+          >
+            Discard
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // App tracker prompt — one of the user's rules has matched the frontmost
+  // window for a while with no timer running. `message` is what matched.
+  if (type === 'appSuggestion') {
+    return (
+      <div className="alert-panel fade-in" style={{ width: 340 }}>
+        <div style={{ textAlign: 'center', fontSize: 32, marginBottom: 8 }}>👀</div>
+        <div className="alert-title" style={{ textAlign: 'center', color: 'var(--zen-primary)' }}>
+          Looks like you're working on
+        </div>
+        <div style={{ textAlign: 'center', fontSize: 13, color: 'var(--zen-secondary-text)', marginBottom: 4 }}>
+          <strong>{from}</strong>
+        </div>
+        {message && (
+          <div style={{ textAlign: 'center', fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 16, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+            {message}
+          </div>
+        )}
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            className="btn btn-secondary"
+            style={{ flex: 1 }}
+            onClick={() => { onAppSuggestion?.('dismiss'); onDismiss(); }}
+            title="Don't ask about this again for half an hour"
+          >
+            Not now
+          </button>
+          <button
+            className="btn btn-primary"
+            style={{ flex: 1 }}
+            onClick={() => { onAppSuggestion?.('start'); onDismiss(); }}
+          >
+            Start timer
+          </button>
+        </div>
+      </div>
+    );
+  }
+
   // Timesheet pre-flight confirmation. Shown when a Basecamp-linked timer stops
   // and the user has the "review before posting" setting on (default).
   if (type === 'timesheetConfirm') {
@@ -199,11 +309,31 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
       seconds={seconds}
       defaultHours={exactHours}
       defaultNotes={message ?? ''}
+      rounding={rounding ?? NO_ROUNDING}
       onConfirm={(hours, notes, durationSec) => { onTimesheetConfirm?.('post', hours, notes, durationSec); onDismiss(); }}
       onDiscard={() => { onTimesheetConfirm?.('discard'); onDismiss(); }}
     />;
   }
 
+  // Batch version of the above, for a timer that was switched between tasks:
+  // every session it produced, each with its own Post tick, time and notes.
+  if (type === 'timesheetBatchConfirm') {
+    return <TimesheetBatchPanel
+      items={reviewItems ?? []}
+      onConfirm={(choices) => { onTimesheetBatchConfirm?.(choices); onDismiss(); }}
+    />;
+  }
+
+  // End-of-day review — everything queued in "review later" mode, grouped
+  // per to-do. Closing it (Later) leaves the queue for another time.
+  if (type === 'timesheetReview') {
+    return <DailyReviewPanel
+      items={dailyReviewItems ?? []}
+      onSubmit={(choices) => { onTimesheetReviewSubmit?.(choices); onDismiss(); }}
+      onLater={onDismiss}
+    />;
+  }
+
   // Timer complete view
   if (type === 'timerComplete') {
     return (
@@ -274,6 +404,7 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
           marginBottom: message ? 16 : 20,
         }}>
           <strong>{from}</strong> {accepted ? 'accepted' : 'declined'} your meeting request
+          {accepted && slot && <> — {describeSlot(slot, 'their')}. You'll both get a reminder then.</>}
         </div>
         {message && (
           <div style={{
@@ -302,6 +433,58 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
     );
   }
 
+  // Other times, suggested by the teammate we asked. Picking one accepts it
+  // for both of us.
+  if (type === 'meetingCounter') {
+    return (
+      <div className="alert-panel fade-in" style={{ width: 320 }}>
+        <div style={{ textAlign: 'center', fontSize: 36, marginBottom: 12 }}>🗓</div>
+        <div className="alert-title" style={{ textAlign: 'center' }}>
+          Another Time?
+        </div>
+        <div style={{ textAlign: 'center', fontSize: 13, color: 'var(--zen-secondary-text)', marginBottom: 16 }}>
+          <strong>{from}</strong> can't meet then — how about:
+        </div>
+        <SlotChoice slots={slots ?? []} selectedId={selectedSlot?.id ?? null} whose="their" onSelect={setSelectedSlotId} />
+        {message && <QuotedMessage message={message} />}
+        <input
+          className="text-input"
+          placeholder="Add a reply (optional)..."
+          value={replyText}
+          onChange={(e) => setReplyText(e.target.value)}
+          style={{ marginBottom: 16 }}
+        />
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button className="btn btn-secondary" style={{ flex: 1 }} onClick={() => onRespond(false, replyText || undefined)}>
+            Decline
+          </button>
+          <button className="btn btn-primary" style={{ flex: 1 }} onClick={handleAccept} disabled={!selectedSlot}>
+            Accept
+          </button>
+        </div>
+      </div>
+    );
+  }
+
+  // A meeting agreed for later is due — the same alert on both sides.
+  if (type === 'meetingReminder') {
+    return (
+      <div className="alert-panel fade-in" style={{ width: 320 }}>
+        <div style={{ textAlign: 'center', fontSize: 36, marginBottom: 12 }}>⏰</div>
+        <div className="alert-title" style={{ textAlign: 'center', color: 'var(--zen-primary)' }}>
+          Meeting Time
+        </div>
+        <div style={{ textAlign: 'center', fontSize: 13, color: 'var(--zen-secondary-text)', marginBottom: message ? 16 : 20 }}>
+          Your meeting with <strong>{from}</strong> is now
+        </div>
+        {message && <QuotedMessage message={message} />}
+        <button className="btn btn-primary" style={{ width: '100%' }} onClick={onDismiss}>
+          OK
+        </button>
+      </div>
+    );
+  }
+
   return (
     <div className="alert-panel fade-in" style={{ width: 320 }}>
       {/* Icon */}
@@ -328,9 +511,14 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
         color: 'var(--zen-secondary-text)',
         marginBottom: 16,
       }}>
-        <strong>{from}</strong> wants to talk with you
+        <strong>{from}</strong> wants to talk with you{slots && ' — when suits you?'}
       </div>
 
+      {/* Proposed times */}
+      {slots && !countering && (
+        <SlotChoice slots={slots} selectedId={selectedSlot?.id ?? null} whose="your" onSelect={setSelectedSlotId} />
+      )}
+
       {/* Message */}
       {message && (
         <div style={{
@@ -374,23 +562,95 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
         style={{ marginBottom: 16 }}
       />
 
+      {/* Counter-proposal — requests that propose times understand one */}
+      {countering && (
+        <>
+          <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 6 }}>Suggest other times</div>
+          <ProposeSlots slots={counterSlots} onChange={setCounterSlots} />
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button className="btn btn-secondary" style={{ flex: 1 }} onClick={() => { setCountering(false); setCounterSlots([]); }}>
+              Back
+            </button>
+            <button className="btn btn-primary" style={{ flex: 1 }} onClick={handleCounter} disabled={counterSlots.length === 0}>
+              Suggest
+            </button>
+          </div>
+        </>
+      )}
+
       {/* Action Buttons */}
-      <div style={{ display: 'flex', gap: 8 }}>
-        <button
-          className="btn btn-secondary"
-          style={{ flex: 1 }}
-          onClick={handleDecline}
-        >
-          Decline
-        </button>
+      {!countering && (
+        <div style={{ display: 'flex', gap: 8 }}>
+          <button
+            className="btn btn-secondary"
+            style={{ flex: 1 }}
+            onClick={handleDecline}
+          >
+            Decline
+          </button>
+          <button
+            className={isEmergency ? 'btn btn-danger' : 'btn btn-primary'}
+            style={{ flex: 1 }}
+            onClick={handleAccept}
+          >
+            Accept
+          </button>
+        </div>
+      )}
+
+      {slots && !countering && (
+        <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginTop: 10, fontSize: 11, color: 'var(--zen-secondary-text)' }}>
+          <button className="category-chip" onClick={() => setCountering(true)}>Other time…</button>
+          <div style={{ flex: 1 }} />
+          Ask again in
+          {SNOOZE_MINUTES.map((minutes) => (
+            <button key={minutes} className="category-chip" onClick={() => onSnooze?.(minutes)}>
+              {minutes}m
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
+
+// The proposed times of a request or counter-proposal, one to pick.
+function SlotChoice({ slots, selectedId, whose, onSelect }: {
+  slots: MeetingSlot[];
+  selectedId: string | null;
+  whose: 'your' | 'their';
+  onSelect: (id: string) => void;
+}) {
+  return (
+    <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, marginBottom: 12 }}>
+      {slots.map((s) => (
         <button
-          className={isEmergency ? 'btn btn-danger' : 'btn btn-primary'}
-          style={{ flex: 1 }}
-          onClick={handleAccept}
+          key={s.id}
+          className={`category-chip ${selectedId === s.id ? 'selected' : ''}`}
+          onClick={() => onSelect(s.id)}
         >
-          Accept
+          {describeSlot(s, whose)}
         </button>
-      </div>
+      ))}
+    </div>
+  );
+}
+
+function QuotedMessage({ message }: { message: string }) {
+  return (
+    <div style={{
+      padding: '10px 12px',
+      background: 'var(--zen-tertiary-bg)',
+      borderRadius: 8,
+      fontSize: 12,
+      color: 'var(--zen-secondary-text)',
+      fontStyle: 'italic',
+      marginBottom: 16,
+      maxHeight: 60,
+      overflow: 'hidden',
+      textOverflow: 'ellipsis',
+    }}>
+      "{message}"
     </div>
   );
 }
@@ -398,11 +658,12 @@ export default function AlertView({ type, from, senderId, message, accepted, tar
 // Pre-flight timesheet confirmation. The user reviews the duration (rounded to
 // the nearest 15 min by default), can edit it as a decimal-hours value, and
 // chooses Post or Discard. Nothing reaches Basecamp until they click Post.
-function TimesheetConfirmPanel({ taskLabel, seconds, defaultHours, defaultNotes, onConfirm, onDiscard }: {
+function TimesheetConfirmPanel({ taskLabel, seconds, defaultHours, defaultNotes, rounding, onConfirm, onDiscard }: {
   taskLabel: string;
   seconds: number;
   defaultHours: string;
   defaultNotes: string;
+  rounding: RoundingRule;
   onConfirm: (hours: string, notes: string, durationSec: number) => void;
   onDiscard: () => void;
 }) {
@@ -417,11 +678,12 @@ function TimesheetConfirmPanel({ taskLabel, seconds, defaultHours, defaultNotes,
   const [editM, setEditM] = useState(initialM);
   const [notes, setNotes] = useState(defaultNotes);
 
-  // Convert the user's h+m back to the decimal hours Basecamp expects.
-  // Two decimal places matches the precision of the original `defaultHours`
-  // input and Basecamp's UI display.
+  // Convert the user's h+m back to the decimal hours Basecamp expects, after
+  // the project's rounding rule — main applies the same rule on post, and the
+  // session itself keeps the h/m as entered.
   const totalSeconds = editH * 3600 + editM * 60;
-  const decimalHours = (totalSeconds / 3600).toFixed(2);
+  const decimalHours = postedHours(totalSeconds, rounding);
+  const roundingNote = describeRounding(rounding);
   const isValid = totalSeconds > 0;
   // Keep defaultHours in scope so a TS warning about an unused prop doesn't
   // fire — the value lives in initialH/initialM via the seconds path now.
@@ -491,6 +753,7 @@ function TimesheetConfirmPanel({ taskLabel, seconds, defaultHours, defaultNotes,
           store. Updates as you edit the h/m fields above. */}
       <div style={{ textAlign: 'center', fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 14 }}>
         Posts to Basecamp as <strong style={{ fontFamily: 'var(--font-mono)', color: 'var(--zen-secondary-text)' }}>{decimalHours} hr</strong>
+        {roundingNote !== 'Exact' && <div style={{ marginTop: 2 }}>{roundingNote}</div>}
       </div>
 
       {/* Notes — becomes the timesheet entry's description on Basecamp.
@@ -543,3 +806,311 @@ function TimesheetConfirmPanel({ taskLabel, seconds, defaultHours, defaultNotes,
     </div>
   );
 }
+
+// h/m inputs on the batch and end-of-day review rows.
+const REVIEW_NUMBER_STYLE: React.CSSProperties = {
+  width: 44,
+  padding: '4px 6px',
+  border: '1px solid var(--zen-divider)',
+  borderRadius: 6,
+  background: 'var(--zen-tertiary-bg)',
+  color: 'var(--zen-text)',
+  fontSize: 13,
+  fontFamily: 'var(--font-mono)',
+  textAlign: 'center',
+};
+
+interface BatchRow {
+  post: boolean;
+  h: number;
+  m: number;
+  notes: string;
+}
+
+// One review for several sessions. Same h/m editing as the single panel; a
+// row left unticked stays local, like Discard.
+function TimesheetBatchPanel({ items, onConfirm }: {
+  items: TimesheetReviewItem[];
+  onConfirm: (choices: TimesheetReviewChoice[]) => void;
+}) {
+  const [rows, setRows] = useState<BatchRow[]>(() => items.map((item) => {
+    const totalMinutes = Math.round(item.durationSec / 60);
+    return { post: true, h: Math.floor(totalMinutes / 60), m: totalMinutes % 60, notes: item.notes };
+  }));
+
+  function updateRow(index: number, updates: Partial<BatchRow>) {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  }
+
+  const rowSeconds = (r: BatchRow) => r.h * 3600 + r.m * 60;
+  const posting = rows.filter((r) => r.post);
+  const isValid = posting.every((r) => rowSeconds(r) > 0);
+  // Each row rounds under its own project's rule, so sum what each posts.
+  const rowHours = (i: number) => postedHours(rowSeconds(rows[i]), items[i].rounding);
+  const totalHours = rows.reduce((sum, r, i) => sum + (r.post ? parseFloat(rowHours(i)) : 0), 0).toFixed(2);
+
+  function submit(post: boolean) {
+    onConfirm(items.map((item, i) => {
+      const r = rows[i];
+      if (!post || !r.post) return { sessionId: item.sessionId, post: false };
+      const seconds = rowSeconds(r);
+      return { sessionId: item.sessionId, post: true, hours: (seconds / 3600).toFixed(2), notes: r.notes.trim(), durationSec: seconds };
+    }));
+  }
+
+  return (
+    <div className="alert-panel fade-in" style={{ width: 420 }}>
+      <div style={{ textAlign: 'center', fontSize: 32, marginBottom: 8 }}>📋</div>
+      <div className="alert-title" style={{ textAlign: 'center', color: 'var(--zen-primary)' }}>
+        Post {items.length} sessions to Basecamp?
+      </div>
+      <div style={{ textAlign: 'center', fontSize: 12, color: 'var(--zen-secondary-text)', marginBottom: 14 }}>
+        You switched tasks while the timer ran. Untick anything you don't want posted.
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 10, maxHeight: 380, overflowY: 'auto', marginBottom: 14 }}>
+        {items.map((item, i) => {
+          const r = rows[i];
+          return (
+            <div key={item.sessionId} style={{ padding: 10, background: 'var(--zen-secondary-bg)', borderRadius: 8, opacity: r.post ? 1 : 0.5 }}>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+                <input type="checkbox" checked={r.post} onChange={(e) => updateRow(i, { post: e.target.checked })} />
+                <strong style={{ flex: 1, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{item.taskLabel}</strong>
+                <input
+                  type="number"
+                  min="0"
+                  max="16"
+                  value={r.h}
+                  disabled={!r.post}
+                  onChange={(e) => updateRow(i, { h: Math.min(16, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                  style={REVIEW_NUMBER_STYLE}
+                />
+                <span style={{ fontSize: 12, color: 'var(--zen-secondary-text)' }}>h</span>
+                <input
+                  type="number"
+                  min="0"
+                  max="59"
+                  value={r.m}
+                  disabled={!r.post}
+                  onChange={(e) => updateRow(i, { m: Math.min(59, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                  style={REVIEW_NUMBER_STYLE}
+                />
+                <span style={{ fontSize: 12, color: 'var(--zen-secondary-text)' }}>m</span>
+                <span
+                  style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', fontFamily: 'var(--font-mono)', minWidth: 48, textAlign: 'right' }}
+                  title={`Posts as — ${describeRounding(item.rounding)}`}
+                >
+                  {rowHours(i)} hr
+                </span>
+              </div>
+              <textarea
+                rows={2}
+                placeholder="What did you work on? (optional)"
+                value={r.notes}
+                disabled={!r.post}
+                onChange={(e) => updateRow(i, { notes: e.target.value })}
+                style={{
+                  width: '100%',
+                  padding: '6px 8px',
+                  border: '1px solid var(--zen-divider)',
+                  borderRadius: 6,
+                  background: 'var(--zen-tertiary-bg)',
+                  color: 'var(--zen-text)',
+                  fontSize: 12,
+                  fontFamily: 'inherit',
+                  lineHeight: 1.4,
+                  resize: 'vertical',
+                }}
+              />
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button
+          className="btn btn-secondary"
+          style={{ flex: 1 }}
+          onClick={() => submit(false)}
+        >
+          Discard all
+        </button>
+        <button
+          className="btn btn-primary"
+          style={{ flex: 2 }}
+          onClick={() => submit(true)}
+          disabled={!isValid || posting.length === 0}
+        >
+          Post {posting.length} · {totalHours} hr
+        </button>
+      </div>
+    </div>
+  );
+}
+
+// Rounding choices in the end-of-day review, in minutes (0 = exact).
+const REVIEW_ROUNDING = [0, 6, 15, 30];
+
+function roundedRow(seconds: number, increment: number): { h: number; m: number } {
+  let minutes = Math.round(seconds / 60);
+  if (increment > 0) minutes = Math.max(increment, Math.round(minutes / increment) * increment);
+  return { h: Math.floor(minutes / 60), m: minutes % 60 };
+}
+
+function reviewDayLabel(date: string): string {
+  const [y, mo, d] = date.split('-').map((n) => parseInt(n, 10));
+  return new Date(y, mo - 1, d).toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' });
+}
+
+// The end-of-day review: sessions grouped per to-do, each with its own Post
+// tick, time and notes, and a rounding choice applied to every row's time.
+function DailyReviewPanel({ items, onSubmit, onLater }: {
+  items: DailyReviewItem[];
+  onSubmit: (choices: TimesheetReviewChoice[]) => void;
+  onLater: () => void;
+}) {
+  const [rounding, setRounding] = useState(0);
+  const [rows, setRows] = useState<BatchRow[]>(() => items.map((item) => (
+    { post: true, ...roundedRow(item.durationSec, 0), notes: item.notes }
+  )));
+
+  function applyRounding(increment: number) {
+    setRounding(increment);
+    setRows((prev) => prev.map((r, i) => ({ ...r, ...roundedRow(items[i].durationSec, increment) })));
+  }
+
+  function updateRow(index: number, updates: Partial<BatchRow>) {
+    setRows((prev) => prev.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  }
+
+  // Groups in the order their first session stopped.
+  const groups: { key: string; label: string; indexes: number[] }[] = [];
+  items.forEach((item, i) => {
+    const group = groups.find((g) => g.key === item.groupKey);
+    if (group) group.indexes.push(i);
+    else groups.push({ key: item.groupKey, label: item.taskLabel, indexes: [i] });
+  });
+
+  const rowSeconds = (r: BatchRow) => r.h * 3600 + r.m * 60;
+  const posting = rows.filter((r) => r.post);
+  const isValid = posting.every((r) => rowSeconds(r) > 0);
+  // The project's rounding rule applies on top of the "Round to" choice.
+  const rowHours = (i: number) => (rows[i].post ? parseFloat(postedHours(rowSeconds(rows[i]), items[i].rounding)) : 0);
+  const totalHours = rows.reduce((sum, _r, i) => sum + rowHours(i), 0).toFixed(2);
+
+  function submit() {
+    onSubmit(items.map((item, i) => {
+      const r = rows[i];
+      if (!r.post) return { sessionId: item.sessionId, post: false };
+      const seconds = rowSeconds(r);
+      return { sessionId: item.sessionId, post: true, hours: (seconds / 3600).toFixed(2), notes: r.notes.trim(), durationSec: seconds };
+    }));
+  }
+
+  return (
+    <div className="alert-panel fade-in" style={{ width: 460 }}>
+      <div style={{ textAlign: 'center', fontSize: 32, marginBottom: 8 }}>🗂</div>
+      <div className="alert-title" style={{ textAlign: 'center', color: 'var(--zen-primary)' }}>
+        Review your timesheet
+      </div>
+      <div style={{ textAlign: 'center', fontSize: 12, color: 'var(--zen-secondary-text)', marginBottom: 12 }}>
+        {items.length} {items.length === 1 ? 'session' : 'sessions'} waiting to go to Basecamp. Untick anything you don't want posted.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 12, justifyContent: 'center' }}>
+        <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>Round to</span>
+        {REVIEW_ROUNDING.map((increment) => (
+          <button
+            key={increment}
+            className={`category-chip ${rounding === increment ? 'selected' : ''}`}
+            onClick={() => applyRounding(increment)}
+          >
+            {increment === 0 ? 'Exact' : `${increment} min`}
+          </button>
+        ))}
+      </div>
+
+      <div style={{ display: 'flex', flexDirection: 'column', gap: 12, maxHeight: 460, overflowY: 'auto', marginBottom: 14 }}>
+        {groups.map((group) => {
+          const groupHours = group.indexes.reduce((sum, i) => sum + rowHours(i), 0);
+          const groupRounding = describeRounding(items[group.indexes[0]].rounding);
+          return (
+            <div key={group.key}>
+              <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, marginBottom: 6 }}>
+                <strong style={{ flex: 1, fontSize: 13, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>{group.label}</strong>
+                <span
+                  style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', fontFamily: 'var(--font-mono)' }}
+                  title={groupRounding === 'Exact' ? undefined : `Posts as — ${groupRounding}`}
+                >
+                  {groupHours.toFixed(2)} hr
+                </span>
+              </div>
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6 }}>
+                {group.indexes.map((i) => {
+                  const item = items[i];
+                  const r = rows[i];
+                  return (
+                    <div key={item.sessionId} style={{ padding: 8, background: 'var(--zen-secondary-bg)', borderRadius: 8, opacity: r.post ? 1 : 0.5 }}>
+                      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6 }}>
+                        <input type="checkbox" checked={r.post} onChange={(e) => updateRow(i, { post: e.target.checked })} />
+                        <span style={{ flex: 1, fontSize: 12, color: 'var(--zen-secondary-text)' }}>{reviewDayLabel(item.date)}</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="16"
+                          value={r.h}
+                          disabled={!r.post}
+                          onChange={(e) => updateRow(i, { h: Math.min(16, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                          style={REVIEW_NUMBER_STYLE}
+                        />
+                        <span style={{ fontSize: 12, color: 'var(--zen-secondary-text)' }}>h</span>
+                        <input
+                          type="number"
+                          min="0"
+                          max="59"
+                          value={r.m}
+                          disabled={!r.post}
+                          onChange={(e) => updateRow(i, { m: Math.min(59, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+                          style={REVIEW_NUMBER_STYLE}
+                        />
+                        <span style={{ fontSize: 12, color: 'var(--zen-secondary-text)' }}>m</span>
+                      </div>
+                      <input
+                        className="text-input"
+                        placeholder="What did you work on? (optional)"
+                        value={r.notes}
+                        disabled={!r.post}
+                        onChange={(e) => updateRow(i, { notes: e.target.value })}
+                        style={{ width: '100%', fontSize: 12 }}
+                      />
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          );
+        })}
+      </div>
+
+      <div style={{ display: 'flex', gap: 8 }}>
+        <button
+          className="btn btn-secondary"
+          style={{ flex: 1 }}
+          onClick={onLater}
+          title="Close and keep these sessions for the next review"
+        >
+          Later
+        </button>
+        <button
+          className="btn btn-primary"
+          style={{ flex: 2 }}
+          onClick={submit}
+          disabled={!isValid}
+          title="Unticked sessions stay on this machine and leave the review"
+        >
+          {posting.length > 0 ? `Post all · ${totalHours} hr` : 'Done — post nothing'}
+        </button>
+      </div>
+    </div>
+  );
+}
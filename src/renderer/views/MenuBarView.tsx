@@ -1,6 +1,6 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Settings, Timer, LayoutDashboard, MessageCircle, Hourglass, Pin, Play, Megaphone, X } from 'lucide-react';
-import { User, AvailabilityStatus, IPC, LicenseState, TodayPlan, PinnedTodo, ReceivedPing } from '../../shared/types';
+import { Settings, Timer, LayoutDashboard, MessageCircle, Hourglass, Pin, Play, Megaphone, X, Layers, ArrowUp, Plus } from 'lucide-react';
+import { User, AvailabilityStatus, IPC, LicenseState, TodayPlan, PinnedTodo, ReceivedPing, TimerCycleInfo, BackgroundTimer } from '../../shared/types';
 import SendPingSheet from '../components/SendPingSheet';
 
 const STATUS_SUGGESTIONS = ['In a meeting', 'Lunch break', 'Be right back', 'Deep work'];
@@ -20,6 +20,7 @@ interface TimerState {
   category?: string;
   targetDuration?: number;
   remaining?: number;
+  cycle?: TimerCycleInfo;
 }
 
 const REVERT_OPTIONS = [
@@ -49,6 +50,11 @@ function formatTime(seconds: number): string {
   return `${m}:${String(s).padStart(2, '0')}`;
 }
 
+function backgroundElapsed(timer: BackgroundTimer, now: number): number {
+  if (!timer.runningSince) return timer.accumulatedSeconds;
+  return timer.accumulatedSeconds + Math.max(0, now - new Date(timer.runningSince).getTime()) / 1000;
+}
+
 function formatDuration(seconds: number): string {
   const h = Math.floor(seconds / 3600);
   const m = Math.floor((seconds % 3600) / 60);
@@ -96,6 +102,7 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
   const [statusMessageInput, setStatusMessageInput] = useState('');
   const [statusDuration, setStatusDuration] = useState(DURATION_OPTIONS[0]);
   const [pendingRequests, setPendingRequests] = useState<Record<string, boolean>>({});
+  const [emergencyError, setEmergencyError] = useState<{ userId: string; message: string } | null>(null);
   const [messagePopup, setMessagePopup] = useState<string | null>(null);
   const [messageText, setMessageText] = useState('');
   const [showRevertPicker, setShowRevertPicker] = useState(false);
@@ -108,6 +115,10 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
   const [tabAutoChosen, setTabAutoChosen] = useState(false);
   const [showPingSheet, setShowPingSheet] = useState(false);
   const [recentPings, setRecentPings] = useState<ReceivedPing[]>([]);
+  const [backgroundTimers, setBackgroundTimers] = useState<BackgroundTimer[]>([]);
+  const [now, setNow] = useState(Date.now());
+  const [showBackgroundInput, setShowBackgroundInput] = useState(false);
+  const [backgroundLabel, setBackgroundLabel] = useState('');
 
   // Load Today's plan and stay subscribed to changes so the popover shows
   // pinned to-dos as soon as the user pins/unpins from the Dashboard.
@@ -159,19 +170,52 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
     return off;
   }, []);
 
+  // Background timers — same subscribe-first-then-fetch pattern. Main only
+  // sends the list when it changes, so the times tick here.
+  useEffect(() => {
+    let eventArrived = false;
+    const off = window.zenstate.on(IPC.BACKGROUND_TIMERS_CHANGED, (...args: unknown[]) => {
+      eventArrived = true;
+      setBackgroundTimers(args[0] as BackgroundTimer[]);
+    });
+    window.zenstate.backgroundTimersGet().then((timers) => {
+      if (!eventArrived) setBackgroundTimers(timers);
+    }).catch(() => {});
+    return off;
+  }, []);
+
+  const anyBackgroundRunning = backgroundTimers.some((t) => t.runningSince);
+  useEffect(() => {
+    if (!anyBackgroundRunning) return;
+    const id = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [anyBackgroundRunning]);
+
+  function handleStartBackground() {
+    const label = backgroundLabel.trim();
+    if (!label) return;
+    window.zenstate.backgroundTimerStart(label);
+    setBackgroundLabel('');
+    setShowBackgroundInput(false);
+  }
+
   async function dismissPing(id: string) {
     const next = await window.zenstate.teamDismissPing(id).catch(() => null);
     if (next) setRecentPings(next);
   }
 
-  function handleStartFromPinned(p: PinnedTodo) {
-    window.zenstate.startTimer(p.content, undefined, undefined, {
-      accountId: p.accountId,
-      projectId: p.projectId,
-      todoId: p.todoId,
-      todoListId: p.todoListId,
-      projectName: p.projectName,
-    });
+  function handleStartFromPinned(p: PinnedTodo, background = false) {
+    const task = {
+      provider: 'basecamp' as const,
+      ref: {
+        accountId: p.accountId,
+        projectId: p.projectId,
+        todoId: p.todoId,
+        todoListId: p.todoListId,
+      },
+    };
+    if (background) window.zenstate.backgroundTimerStart(p.content, undefined, task, p.projectName);
+    else window.zenstate.startTimer(p.content, undefined, undefined, task, p.projectName);
   }
 
   // Clear pending request when peer responds (accept or decline)
@@ -245,8 +289,15 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
     setMessageText('');
   }
 
-  function handleSendEmergencyRequest(userId: string) {
-    window.zenstate.sendEmergencyRequest(userId);
+  // No room for a reason here — when the team policy wants one (or refuses
+  // for another reason) the refusal shows instead, and the Team tab can send it.
+  async function handleSendEmergencyRequest(userId: string) {
+    const result = await window.zenstate.sendEmergencyRequest(userId).catch(() => ({ ok: false, error: 'Could not send' }));
+    if (!result.ok) {
+      setEmergencyError({ userId, message: result.error ?? 'Could not send' });
+      return;
+    }
+    setEmergencyError(null);
     setPendingRequests((prev) => ({ ...prev, [userId]: true }));
   }
 
@@ -455,11 +506,18 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
           <div className="hstack" style={{ gap: 8, alignItems: 'center' }}>
             <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', display: 'flex', alignItems: 'center', gap: 4 }}>
               {timerState.targetDuration ? <Hourglass size={11} /> : <Timer size={11} />} {timerState.taskLabel}
+              {timerState.cycle && (
+                <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', flexShrink: 0 }}>
+                  · {timerState.cycle.phase === 'work'
+                    ? `Round ${((timerState.cycle.round - 1) % timerState.cycle.roundsPerLongBreak) + 1}/${timerState.cycle.roundsPerLongBreak}`
+                    : 'Break'}
+                </span>
+              )}
             </span>
             <div className={`timer-time ${timerState.isPaused ? 'paused' : ''}`} style={{ fontSize: 14, flexShrink: 0 }}>
               {timerState.targetDuration ? formatTime(timerState.remaining ?? 0) : formatTime(timerState.elapsed)}
             </div>
-            {timerState.isPaused ? (
+            {timerState.cycle && timerState.cycle.phase !== 'work' ? null : timerState.isPaused ? (
               <button className="btn btn-primary" style={{ fontSize: 10, padding: '2px 6px', flexShrink: 0 }} onClick={() => window.zenstate.resumeTimer()}>
                 Resume
               </button>
@@ -468,6 +526,16 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
                 Pause
               </button>
             )}
+            {!(timerState.cycle && timerState.cycle.phase !== 'work') && (
+              <button
+                className="btn btn-secondary"
+                style={{ fontSize: 10, padding: '2px 5px', flexShrink: 0, display: 'inline-flex', alignItems: 'center' }}
+                onClick={() => window.zenstate.sendTimerToBackground()}
+                title={timerState.targetDuration ? 'Keep timing in the background (the countdown stops)' : 'Keep timing in the background'}
+              >
+                <Layers size={11} />
+              </button>
+            )}
             <button className="btn btn-danger" style={{ fontSize: 10, padding: '2px 6px', flexShrink: 0 }} onClick={() => window.zenstate.stopTimer()}>
               Stop
             </button>
@@ -486,6 +554,69 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
         </div>
       )}
 
+      {/* Background timers — running alongside the one above, each its own
+          session when stopped. Promoting one swaps it with the primary. */}
+      {backgroundTimers.map((t) => (
+        <div key={t.id} className="timer-display" style={{ margin: '0 16px 6px', padding: '4px 12px', opacity: 0.9 }}>
+          <div className="hstack" style={{ gap: 8, alignItems: 'center' }}>
+            <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)', flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap', display: 'flex', alignItems: 'center', gap: 4 }}>
+              <Layers size={11} /> {t.taskLabel}
+            </span>
+            <div className={`timer-time ${t.runningSince ? '' : 'paused'}`} style={{ fontSize: 12, flexShrink: 0 }}>
+              {formatTime(backgroundElapsed(t, now))}
+            </div>
+            {t.runningSince ? (
+              <button className="btn btn-secondary" style={{ fontSize: 10, padding: '2px 6px', flexShrink: 0 }} onClick={() => window.zenstate.backgroundTimerPause(t.id)}>
+                Pause
+              </button>
+            ) : (
+              <button className="btn btn-secondary" style={{ fontSize: 10, padding: '2px 6px', flexShrink: 0 }} onClick={() => window.zenstate.backgroundTimerResume(t.id)}>
+                Resume
+              </button>
+            )}
+            <button
+              className="btn btn-secondary"
+              style={{ fontSize: 10, padding: '2px 5px', flexShrink: 0, display: 'inline-flex', alignItems: 'center' }}
+              onClick={() => window.zenstate.backgroundTimerPromote(t.id)}
+              title={isTimerActive ? `Make primary — "${timerState.taskLabel}" moves to the background` : 'Make primary'}
+            >
+              <ArrowUp size={11} />
+            </button>
+            <button className="btn btn-danger" style={{ fontSize: 10, padding: '2px 6px', flexShrink: 0 }} onClick={() => window.zenstate.backgroundTimerStop(t.id)}>
+              Stop
+            </button>
+          </div>
+        </div>
+      ))}
+      <div style={{ padding: '0 16px' }}>
+        {showBackgroundInput ? (
+          <div className="hstack" style={{ gap: 6, marginBottom: 4 }}>
+            <input
+              className="text-input"
+              placeholder="Name, e.g. Support on-call"
+              value={backgroundLabel}
+              onChange={(e) => setBackgroundLabel(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter') handleStartBackground();
+                if (e.key === 'Escape') setShowBackgroundInput(false);
+              }}
+              style={{ flex: 1, fontSize: 11 }}
+              autoFocus
+            />
+            <button className="btn btn-primary" style={{ fontSize: 10, padding: '3px 8px' }} onClick={handleStartBackground} disabled={!backgroundLabel.trim()}>
+              Start
+            </button>
+          </div>
+        ) : (
+          <button
+            onClick={() => setShowBackgroundInput(true)}
+            style={{ background: 'none', border: 'none', cursor: 'pointer', color: 'var(--zen-tertiary-text)', fontSize: 10, fontFamily: 'inherit', padding: '2px 0', display: 'inline-flex', alignItems: 'center', gap: 3 }}
+          >
+            <Plus size={10} /> Background timer
+          </button>
+        )}
+      </div>
+
       {/* Tab bar — segmented control switching the body between Today and Team.
           Status (above) applies to both modes globally; the active timer banner (above)
           stays visible across tabs as important context. */}
@@ -561,11 +692,13 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
                 find what's still actionable. */}
             {[...todayPlan.items].sort((a, b) => Number(!!a.completedAt) - Number(!!b.completedAt)).map((p) => {
               const running = isTimerActive && timerState.taskLabel === p.content;
+              const inBackground = backgroundTimers.some((t) => t.task?.provider === 'basecamp' && t.task.ref.todoId === p.todoId);
               const isComplete = !!p.completedAt;
               // Don't allow starting a timer on a completed task — the user
               // marked it done, so the Start button is disabled until they
-              // un-check it on the dashboard.
-              const startDisabled = isTimerActive || isComplete;
+              // un-check it on the dashboard. With another timer running,
+              // Start adds this one in the background instead.
+              const startDisabled = isComplete || inBackground;
               return (
                 <div
                   key={p.todoId}
@@ -606,11 +739,15 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
                       Stop
                     </button>
                   ) : (
-                    <button onClick={() => handleStartFromPinned(p)}
-                      title={isComplete ? 'Marked complete — un-check on the Plan tab to restart' : 'Start timer'}
+                    <button onClick={() => handleStartFromPinned(p, isTimerActive)}
+                      title={isComplete
+                        ? 'Marked complete — un-check on the Plan tab to restart'
+                        : inBackground
+                          ? 'Running in the background'
+                          : isTimerActive ? 'Start a background timer — the one above keeps running' : 'Start timer'}
                       disabled={startDisabled}
                       style={{ background: 'var(--zen-primary)', border: 'none', color: 'white', cursor: startDisabled ? 'not-allowed' : 'pointer', opacity: startDisabled ? 0.4 : 1, padding: '4px 9px', borderRadius: 6, fontSize: 10, fontWeight: 600, fontFamily: 'inherit', flexShrink: 0, display: 'inline-flex', alignItems: 'center', gap: 3 }}>
-                      <Play size={9} /> Start
+                      {isTimerActive ? <><Layers size={9} /> Background</> : <><Play size={9} /> Start</>}
                     </button>
                   )}
                 </div>
@@ -778,6 +915,11 @@ export default function MenuBarView({ currentUser, peers, timerState, statusReve
                 )}
                 <span className={`status-dot ${peer.status}`} />
               </div>
+              {emergencyError?.userId === peer.id && (
+                <div style={{ padding: '0 16px 6px', fontSize: 10, color: 'var(--status-focused)' }}>
+                  {emergencyError.message}
+                </div>
+              )}
               {/* Meeting request message popup */}
               {messagePopup === peer.id && (
                 <div style={{
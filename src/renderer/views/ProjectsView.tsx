@@ -247,10 +247,13 @@ function TodosLevel({ authState, project, list, timerState, onBack }: TodosLevel
   const handleStartTimer = (todo: BasecampTodo) => {
     if (!authState.account) return;
     window.zenstate.startTimer(todo.content, undefined, undefined, {
-      accountId: authState.account.id,
-      projectId: project.id,
-      todoId: todo.id,
-      todoListId: list.id,
+      provider: 'basecamp',
+      ref: {
+        accountId: authState.account.id,
+        projectId: project.id,
+        todoId: todo.id,
+        todoListId: list.id,
+      },
     });
   };
 
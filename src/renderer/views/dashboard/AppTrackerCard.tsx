@@ -0,0 +1,227 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus } from 'lucide-react';
+import { AppSettings, AppRule, AppTrackerStatus, PinnedTodo, IPC } from '../../../shared/types';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+function Toggle({ on, onClick }: { on: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? 'var(--zen-primary)' : 'var(--zen-secondary-bg)',
+        cursor: 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+function validPattern(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// Select value for a rule's target: a pinned to-do, or free text + category.
+const OTHER_TARGET = 'other';
+function targetValue(rule: AppRule): string {
+  return rule.task?.provider === 'basecamp' ? `todo:${rule.task.ref.todoId}` : OTHER_TARGET;
+}
+
+// Settings → General → Timer suggestions. Rules are edited as a draft and
+// saved together, like the relay address, so a half-typed regex doesn't go
+// live.
+export default function AppTrackerCard({ settings, onChange }: Props) {
+  const [rules, setRules] = useState<AppRule[]>(settings.appRules);
+  const [pinned, setPinned] = useState<PinnedTodo[]>([]);
+  const [status, setStatus] = useState<AppTrackerStatus | null>(null);
+
+  useEffect(() => {
+    setRules(settings.appRules);
+  }, [settings.appRules]);
+
+  useEffect(() => {
+    window.zenstate.todayGet().then((res) => setPinned(res.plan.items)).catch(() => {});
+    return window.zenstate.on(IPC.TODAY_CHANGED, (...args: unknown[]) => {
+      const plan = args[0] as { items: PinnedTodo[] } | null;
+      setPinned(plan?.items ?? []);
+    });
+  }, []);
+
+  // What's in front right now — handy for writing a pattern.
+  useEffect(() => {
+    if (!settings.appTrackerEnabled) { setStatus(null); return; }
+    const load = () => { window.zenstate.appTrackerGetStatus().then(setStatus).catch(() => {}); };
+    load();
+    const id = setInterval(load, 5000);
+    return () => clearInterval(id);
+  }, [settings.appTrackerEnabled]);
+
+  const dirty = JSON.stringify(rules) !== JSON.stringify(settings.appRules);
+  const invalid = rules.some((r) =>
+    !validPattern(r.appPattern) || !validPattern(r.titlePattern)
+    || !(r.appPattern.trim() || r.titlePattern.trim()) || !r.taskLabel.trim()
+  );
+
+  function updateRule(id: string, updates: Partial<AppRule>) {
+    setRules((prev) => prev.map((r) => (r.id === id ? { ...r, ...updates } : r)));
+  }
+
+  function setTarget(rule: AppRule, value: string) {
+    if (value === OTHER_TARGET) {
+      updateRule(rule.id, { task: undefined, taskLabel: rule.task ? '' : rule.taskLabel });
+      return;
+    }
+    const item = pinned.find((p) => `todo:${p.todoId}` === value);
+    if (!item) return;
+    updateRule(rule.id, {
+      taskLabel: item.content,
+      task: {
+        provider: 'basecamp',
+        ref: { accountId: item.accountId, projectId: item.projectId, todoId: item.todoId, todoListId: item.todoListId },
+      },
+    });
+  }
+
+  function addRule() {
+    setRules((prev) => [...prev, { id: crypto.randomUUID(), appPattern: '', titlePattern: '', taskLabel: '' }]);
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Timer suggestions</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        Forgot to start a timer? ZenState can look at the app and window in front of you and match it against your
+        rules. App names and window titles are checked on this machine and never leave it.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+        <span style={{ fontSize: 13, flex: 1 }}>👀 Suggest timers from the app I'm using</span>
+        <Toggle on={settings.appTrackerEnabled} onClick={() => onChange({ appTrackerEnabled: !settings.appTrackerEnabled })} />
+      </div>
+
+      {settings.appTrackerEnabled && (
+        <>
+          <div style={{ display: 'flex', gap: 6, marginBottom: 12, paddingLeft: 16 }}>
+            {([
+              { mode: 'prompt', label: 'Ask to start a timer' },
+              { mode: 'suggest', label: 'Add suggestions to my timesheet' },
+            ] as const).map(({ mode, label }) => (
+              <button
+                key={mode}
+                className={`category-chip ${settings.appTrackerMode === mode ? 'selected' : ''}`}
+                onClick={() => onChange({ appTrackerMode: mode })}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
+          {rules.map((rule) => (
+            <div key={rule.id} style={{ display: 'flex', flexDirection: 'column', gap: 6, padding: 8, marginBottom: 8, background: 'var(--zen-tertiary-bg)', borderRadius: 8 }}>
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                <input
+                  className="text-input"
+                  placeholder="App (regex), e.g. Figma"
+                  value={rule.appPattern}
+                  onChange={(e) => updateRule(rule.id, { appPattern: e.target.value })}
+                  style={{ flex: 1, fontSize: 12, borderColor: validPattern(rule.appPattern) ? undefined : 'var(--status-focused)' }}
+                />
+                <input
+                  className="text-input"
+                  placeholder="Window title (regex), e.g. Homepage"
+                  value={rule.titlePattern}
+                  onChange={(e) => updateRule(rule.id, { titlePattern: e.target.value })}
+                  style={{ flex: 1, fontSize: 12, borderColor: validPattern(rule.titlePattern) ? undefined : 'var(--status-focused)' }}
+                />
+                <button
+                  className="session-action-btn delete"
+                  onClick={() => setRules((prev) => prev.filter((r) => r.id !== rule.id))}
+                  title="Remove rule"
+                >
+                  <X size={13} />
+                </button>
+              </div>
+              <div style={{ display: 'flex', gap: 6, alignItems: 'center' }}>
+                <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>→</span>
+                <select
+                  className="text-input"
+                  value={targetValue(rule)}
+                  onChange={(e) => setTarget(rule, e.target.value)}
+                  style={{ flex: 1, fontSize: 12 }}
+                >
+                  {rule.task && !pinned.some((p) => `todo:${p.todoId}` === targetValue(rule)) && (
+                    <option value={targetValue(rule)}>{rule.taskLabel}</option>
+                  )}
+                  {pinned.map((p) => (
+                    <option key={p.todoId} value={`todo:${p.todoId}`}>{p.projectName} / {p.content}</option>
+                  ))}
+                  <option value={OTHER_TARGET}>Not a to-do — label and category</option>
+                </select>
+              </div>
+              {!rule.task && (
+                <div style={{ display: 'flex', gap: 6, paddingLeft: 14 }}>
+                  <input
+                    className="text-input"
+                    placeholder="Label, e.g. Email"
+                    value={rule.taskLabel}
+                    onChange={(e) => updateRule(rule.id, { taskLabel: e.target.value })}
+                    style={{ flex: 1, fontSize: 12 }}
+                  />
+                  <input
+                    className="text-input"
+                    placeholder="Category (optional)"
+                    value={rule.category ?? ''}
+                    onChange={(e) => updateRule(rule.id, { category: e.target.value || undefined })}
+                    style={{ flex: 1, fontSize: 12 }}
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div style={{ display: 'flex', gap: 8 }}>
+            <button className="btn btn-secondary" onClick={addRule} style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+              <Plus size={12} /> Add rule
+            </button>
+            {dirty && (
+              <button
+                className="btn btn-primary"
+                disabled={invalid}
+                title={invalid ? 'Each rule needs a valid app or title pattern and a label' : undefined}
+                onClick={() => onChange({ appRules: rules.map((r) => ({ ...r, taskLabel: r.taskLabel.trim() })) })}
+              >
+                Save rules
+              </button>
+            )}
+          </div>
+
+          {status && (
+            <div style={{ fontSize: 11, marginTop: 8, color: status.error ? 'var(--status-occupied)' : 'var(--zen-tertiary-text)' }}>
+              {status.error
+                ? `Can't see the frontmost app — ${status.error}. On macOS, allow ZenState under System Settings → Privacy & Security → Automation.`
+                : status.appName
+                  ? `In front now: ${status.appName}${status.windowTitle ? ` — ${status.windowTitle}` : ''}`
+                  : 'Waiting for the first sample… (paused while a timer runs)'}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,235 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus } from 'lucide-react';
+import { AppSettings, BasecampConnectedAccount, BasecampProject, BillingInfo, CategoryBilling, ProjectBilling } from '../../../shared/types';
+
+interface Props {
+  settings: AppSettings;
+  accounts: BasecampConnectedAccount[]; // empty when Basecamp isn't connected
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+// Billable toggle, client and hourly rate — shared by project and category rules.
+function BillingEditor({ billing, onChange }: { billing: BillingInfo; onChange: (updates: Partial<BillingInfo>) => void }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+      <button
+        className={`category-chip ${billing.billable ? 'selected' : ''}`}
+        onClick={() => onChange({ billable: !billing.billable })}
+      >
+        {billing.billable ? 'Billable' : 'Non-billable'}
+      </button>
+      <input
+        className="text-input"
+        value={billing.client ?? ''}
+        onChange={(e) => onChange({ client: e.target.value || undefined })}
+        placeholder="Client"
+        style={{ flex: 1, fontSize: 12 }}
+      />
+      <input
+        className="text-input"
+        type="number"
+        min="0"
+        step="0.01"
+        value={billing.hourlyRate ?? ''}
+        onChange={(e) => onChange({ hourlyRate: parseFloat(e.target.value) || undefined })}
+        placeholder="Rate/h"
+        disabled={!billing.billable}
+        style={{ width: 72, fontSize: 12 }}
+      />
+    </div>
+  );
+}
+
+function RuleRow({ label, billing, onChange, onRemove }: {
+  label: React.ReactNode;
+  billing: BillingInfo;
+  onChange: (updates: Partial<BillingInfo>) => void;
+  onRemove: () => void;
+}) {
+  return (
+    <div style={{ padding: 8, marginBottom: 8, background: 'var(--zen-tertiary-bg)', borderRadius: 8 }}>
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+        <span style={{ flex: 1, fontSize: 12, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+          {label}
+        </span>
+        <button className="session-action-btn delete" onClick={onRemove} title="Remove rule">
+          <X size={13} />
+        </button>
+      </div>
+      <BillingEditor billing={billing} onChange={onChange} />
+    </div>
+  );
+}
+
+// Settings → General → Billing. A draft saved together, like Rounding.
+export default function BillingCard({ settings, accounts, onChange }: Props) {
+  const [currency, setCurrency] = useState(settings.billingCurrency);
+  const [projectRules, setProjectRules] = useState<ProjectBilling[]>(settings.projectBilling);
+  const [categoryRules, setCategoryRules] = useState<CategoryBilling[]>(settings.categoryBilling);
+  const [categories, setCategories] = useState<string[]>([]);
+  const [addCategory, setAddCategory] = useState('');
+  const [addAccountId, setAddAccountId] = useState<number | null>(accounts[0]?.id ?? null);
+  const [projects, setProjects] = useState<BasecampProject[]>([]);
+  const [addProjectId, setAddProjectId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setCurrency(settings.billingCurrency);
+    setProjectRules(settings.projectBilling);
+    setCategoryRules(settings.categoryBilling);
+  }, [settings.billingCurrency, settings.projectBilling, settings.categoryBilling]);
+
+  useEffect(() => {
+    window.zenstate.getCategories().then(setCategories).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    if (addAccountId === null && accounts.length > 0) setAddAccountId(accounts[0].id);
+  }, [accounts, addAccountId]);
+
+  useEffect(() => {
+    setProjects([]);
+    setAddProjectId(null);
+    if (addAccountId === null) return;
+    window.zenstate.bcListProjects(addAccountId).then((res) => {
+      if (res.ok && res.data) setProjects(res.data);
+    }).catch(() => {});
+  }, [addAccountId]);
+
+  const dirty = currency.trim().toUpperCase() !== settings.billingCurrency
+    || JSON.stringify(projectRules) !== JSON.stringify(settings.projectBilling)
+    || JSON.stringify(categoryRules) !== JSON.stringify(settings.categoryBilling);
+  const availableProjects = projects.filter((p) => !projectRules.some((r) => r.accountId === addAccountId && r.projectId === p.id));
+  const availableCategories = categories.filter((c) => !categoryRules.some((r) => r.category === c));
+
+  function addProjectRule() {
+    const project = projects.find((p) => p.id === addProjectId);
+    if (addAccountId === null || !project) return;
+    setProjectRules((prev) => [...prev, { billable: true, accountId: addAccountId, projectId: project.id, projectName: project.name }]);
+    setAddProjectId(null);
+  }
+
+  function addCategoryRule() {
+    if (!addCategory) return;
+    setCategoryRules((prev) => [...prev, { billable: true, category: addCategory }]);
+    setAddCategory('');
+  }
+
+  function save() {
+    onChange({
+      billingCurrency: currency.trim().toUpperCase() || 'USD',
+      projectBilling: projectRules,
+      categoryBilling: categoryRules,
+    });
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Billing</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        Which time is billable, for which client and at what hourly rate. Sessions take their Basecamp project's rule,
+        then their category's; time with neither is non-billable. You can override a single session when editing it.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 12 }}>
+        <span style={{ fontSize: 12, flex: 1 }}>Currency</span>
+        <input
+          className="text-input"
+          value={currency}
+          onChange={(e) => setCurrency(e.target.value)}
+          maxLength={3}
+          placeholder="USD"
+          style={{ width: 64, fontSize: 12, textTransform: 'uppercase' }}
+        />
+      </div>
+
+      {accounts.length > 0 && (
+        <>
+          <div style={{ fontSize: 12, marginBottom: 6 }}>Projects</div>
+          {projectRules.map((rule, i) => (
+            <RuleRow
+              key={`${rule.accountId}:${rule.projectId}`}
+              label={(
+                <>
+                  {rule.projectName}
+                  {accounts.length > 1 && (
+                    <span style={{ fontWeight: 400, color: 'var(--zen-tertiary-text)' }}>
+                      {' · '}{accounts.find((a) => a.id === rule.accountId)?.name ?? 'Disconnected account'}
+                    </span>
+                  )}
+                </>
+              )}
+              billing={rule}
+              onChange={(updates) => setProjectRules((prev) => prev.map((r, j) => (j === i ? { ...r, ...updates } : r)))}
+              onRemove={() => setProjectRules((prev) => prev.filter((_r, j) => j !== i))}
+            />
+          ))}
+          <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 12 }}>
+            {accounts.length > 1 && (
+              <select
+                className="text-input"
+                value={addAccountId ?? ''}
+                onChange={(e) => setAddAccountId(parseInt(e.target.value, 10))}
+                style={{ width: 'auto', fontSize: 12 }}
+              >
+                {accounts.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+              </select>
+            )}
+            <select
+              className="text-input"
+              value={addProjectId ?? ''}
+              onChange={(e) => setAddProjectId(e.target.value ? parseInt(e.target.value, 10) : null)}
+              style={{ flex: 1, fontSize: 12 }}
+            >
+              <option value="">{projects.length === 0 ? 'Loading projects…' : 'Choose a project…'}</option>
+              {availableProjects.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+            <button
+              className="btn btn-secondary"
+              onClick={addProjectRule}
+              disabled={addProjectId === null}
+              style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
+            >
+              <Plus size={12} /> Project
+            </button>
+          </div>
+        </>
+      )}
+
+      <div style={{ fontSize: 12, marginBottom: 6 }}>Categories</div>
+      {categoryRules.map((rule, i) => (
+        <RuleRow
+          key={rule.category}
+          label={rule.category}
+          billing={rule}
+          onChange={(updates) => setCategoryRules((prev) => prev.map((r, j) => (j === i ? { ...r, ...updates } : r)))}
+          onRemove={() => setCategoryRules((prev) => prev.filter((_r, j) => j !== i))}
+        />
+      ))}
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+        <select
+          className="text-input"
+          value={addCategory}
+          onChange={(e) => setAddCategory(e.target.value)}
+          style={{ flex: 1, fontSize: 12 }}
+        >
+          <option value="">{availableCategories.length === 0 ? 'No more categories' : 'Choose a category…'}</option>
+          {availableCategories.map((c) => <option key={c} value={c}>{c}</option>)}
+        </select>
+        <button
+          className="btn btn-secondary"
+          onClick={addCategoryRule}
+          disabled={!addCategory}
+          style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
+        >
+          <Plus size={12} /> Category
+        </button>
+      </div>
+
+      {dirty && (
+        <button className="btn btn-primary" onClick={save}>
+          Save billing
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,190 @@
+import React, { useState, useEffect } from 'react';
+import { X } from 'lucide-react';
+import { AppSettings, DndPolicy, KnownPeer, IPC } from '../../../shared/types';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+function Toggle({ on, onClick }: { on: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? 'var(--zen-primary)' : 'var(--zen-secondary-bg)',
+        cursor: 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function toTimeInput(t: { hour: number; minute: number }): string {
+  return `${pad(t.hour)}:${pad(t.minute)}`;
+}
+
+function fromTimeInput(value: string): { hour: number; minute: number } | null {
+  const m = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  return { hour: parseInt(m[1], 10), minute: parseInt(m[2], 10) };
+}
+
+const DEFAULT_QUIET_HOURS = { start: { hour: 18, minute: 0 }, end: { hour: 9, minute: 0 } };
+
+// Teammates on one of the sender lists, plus a select to add one.
+function SenderList({ label, ids, peers, exclude, onChange }: {
+  label: string;
+  ids: string[];
+  peers: KnownPeer[];
+  exclude: string[]; // on the other list
+  onChange: (ids: string[]) => void;
+}) {
+  const nameOf = (id: string) => peers.find((p) => p.user.id === id)?.user.name ?? 'Unknown teammate';
+  const available = peers.filter((p) => !ids.includes(p.user.id) && !exclude.includes(p.user.id));
+  return (
+    <div style={{ marginBottom: 10 }}>
+      <div style={{ fontSize: 12, marginBottom: 6 }}>{label}</div>
+      <div style={{ display: 'flex', flexWrap: 'wrap', gap: 6, alignItems: 'center' }}>
+        {ids.map((id) => (
+          <span key={id} className="category-chip selected" style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}>
+            {nameOf(id)}
+            <X size={11} style={{ cursor: 'pointer' }} onClick={() => onChange(ids.filter((i) => i !== id))} />
+          </span>
+        ))}
+        <select
+          className="text-input"
+          value=""
+          onChange={(e) => { if (e.target.value) onChange([...ids, e.target.value]); }}
+          style={{ width: 'auto', fontSize: 12 }}
+        >
+          <option value="">{available.length === 0 ? 'No teammates to add' : 'Add a teammate…'}</option>
+          {available.map((p) => <option key={p.user.id} value={p.user.id}>{p.user.name}</option>)}
+        </select>
+      </div>
+    </div>
+  );
+}
+
+// Settings → General → Do Not Disturb. The switch applies at once; the rules
+// are a draft saved together, like the timer-suggestion rules.
+export default function DndCard({ settings, onChange }: Props) {
+  const [policy, setPolicy] = useState<DndPolicy>(settings.dndPolicy);
+  const [peers, setPeers] = useState<KnownPeer[]>([]);
+
+  useEffect(() => {
+    setPolicy(settings.dndPolicy);
+  }, [settings.dndPolicy]);
+
+  useEffect(() => {
+    window.zenstate.teamDirectoryGet().then(setPeers).catch(() => {});
+    return window.zenstate.on(IPC.TEAM_DIRECTORY_CHANGED, (next: unknown) => {
+      setPeers(next as KnownPeer[]);
+    });
+  }, []);
+
+  const dirty = JSON.stringify({ ...policy, enabled: settings.dndPolicy.enabled }) !== JSON.stringify(settings.dndPolicy);
+
+  function update(updates: Partial<DndPolicy>) {
+    setPolicy((prev) => ({ ...prev, ...updates }));
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Do Not Disturb</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        Decide when meeting requests, pings and break reminders may pop up. Held ones still reach the app, and you get
+        one summary notification once nothing is holding them.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+        <span style={{ fontSize: 13, flex: 1 }}>🔕 Hold alerts by these rules</span>
+        <Toggle
+          on={settings.dndPolicy.enabled}
+          onClick={() => onChange({ dndPolicy: { ...settings.dndPolicy, enabled: !settings.dndPolicy.enabled } })}
+        />
+      </div>
+
+      {settings.dndPolicy.enabled && (
+        <>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginBottom: 8 }}>
+            <input
+              type="checkbox"
+              checked={policy.quietHours !== null}
+              onChange={(e) => update({ quietHours: e.target.checked ? DEFAULT_QUIET_HOURS : null })}
+            />
+            <span style={{ flex: 1 }}>Quiet hours — only emergencies</span>
+            {policy.quietHours && (
+              <>
+                <input
+                  type="time"
+                  className="text-input"
+                  value={toTimeInput(policy.quietHours.start)}
+                  onChange={(e) => { const t = fromTimeInput(e.target.value); if (t && policy.quietHours) update({ quietHours: { ...policy.quietHours, start: t } }); }}
+                  style={{ width: 110, fontSize: 12 }}
+                />
+                <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>to</span>
+                <input
+                  type="time"
+                  className="text-input"
+                  value={toTimeInput(policy.quietHours.end)}
+                  onChange={(e) => { const t = fromTimeInput(e.target.value); if (t && policy.quietHours) update({ quietHours: { ...policy.quietHours, end: t } }); }}
+                  style={{ width: 110, fontSize: 12 }}
+                />
+              </>
+            )}
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginBottom: 8 }}>
+            <input
+              type="checkbox"
+              checked={policy.focusedOnlyEmergencies}
+              onChange={(e) => update({ focusedOnlyEmergencies: e.target.checked })}
+            />
+            While I'm Focused, only emergencies
+          </label>
+          <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginBottom: 12 }}>
+            <input
+              type="checkbox"
+              checked={policy.holdInMeetingMode}
+              onChange={(e) => update({ holdInMeetingMode: e.target.checked })}
+            />
+            In meeting mode, hold everything — emergencies too
+          </label>
+
+          <SenderList
+            label="Always let through"
+            ids={policy.allowSenderIds}
+            peers={peers}
+            exclude={policy.denySenderIds}
+            onChange={(ids) => update({ allowSenderIds: ids })}
+          />
+          <SenderList
+            label="Never interrupt — save for the summary"
+            ids={policy.denySenderIds}
+            peers={peers}
+            exclude={policy.allowSenderIds}
+            onChange={(ids) => update({ denySenderIds: ids })}
+          />
+
+          {dirty && (
+            <button className="btn btn-primary" onClick={() => onChange({ dndPolicy: { ...policy, enabled: settings.dndPolicy.enabled } })}>
+              Save rules
+            </button>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,124 @@
+import React, { useState, useEffect } from 'react';
+import { Download } from 'lucide-react';
+import { EmergencyAuditAction, EmergencyAuditEntry, IPC } from '../../../shared/types';
+
+// Entries shown in the card; the export has all of them.
+const VISIBLE_ENTRIES = 50;
+
+const ACTION_LABELS: Record<EmergencyAuditAction, string> = {
+  sent: 'Sent',
+  received: 'Received',
+  blocked: 'Blocked',
+  granted: 'Granted',
+  revoked: 'Revoked',
+  policyChanged: 'Policy changed',
+};
+
+const ACTION_COLORS: Record<EmergencyAuditAction, string> = {
+  sent: '#FF3B30',
+  received: '#FF3B30',
+  blocked: '#FF9500',
+  granted: '#34C759',
+  revoked: '#8E8E93',
+  policyChanged: 'var(--zen-primary)',
+};
+
+function getTodayDateStr(): string {
+  const d = new Date();
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
+function escapeCsv(v: string | number | undefined | null): string {
+  if (v === undefined || v === null) return '';
+  const s = String(v);
+  if (/[",\n\r]/.test(s)) return `"${s.replace(/"/g, '""')}"`;
+  return s;
+}
+
+// Settings → General. This machine's record of every emergency request sent,
+// received or blocked, and every grant, revoke and policy change it saw.
+// Local only — each teammate keeps their own.
+export default function EmergencyAuditCard() {
+  const [entries, setEntries] = useState<EmergencyAuditEntry[]>([]);
+
+  useEffect(() => {
+    window.zenstate.emergencyAuditGet().then(setEntries).catch(() => {});
+    return window.zenstate.on(IPC.EMERGENCY_AUDIT_CHANGED, (next: unknown) => {
+      setEntries(next as EmergencyAuditEntry[]);
+    });
+  }, []);
+
+  function handleDownloadCsv() {
+    const header = ['Time', 'Action', 'By', 'By ID', 'To', 'To ID', 'Reason', 'Detail'];
+    const rows: string[][] = [header];
+    // Oldest first, like the timesheet export.
+    [...entries].reverse().forEach((e) => {
+      rows.push([
+        e.at,
+        ACTION_LABELS[e.action],
+        e.actorName,
+        e.actorId,
+        e.targetName ?? '',
+        e.targetId ?? '',
+        e.reason ?? '',
+        e.detail ?? '',
+      ]);
+    });
+    const csv = rows.map((r) => r.map(escapeCsv).join(',')).join('\n');
+    const blob = new Blob([csv], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `zenstate-emergency-audit-${getTodayDateStr()}.csv`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  }
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontSize: 12, fontWeight: 600, flex: 1 }}>Emergency Log</div>
+        <button className="btn btn-secondary" style={{ fontSize: 10 }} onClick={handleDownloadCsv} disabled={entries.length === 0}>
+          <Download size={11} /> Export CSV
+        </button>
+      </div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 12 }}>
+        Emergency requests, access changes and policy updates seen on this Mac
+      </div>
+
+      {entries.length === 0 ? (
+        <div style={{ fontSize: 12, color: 'var(--zen-tertiary-text)', textAlign: 'center', padding: 16 }}>
+          Nothing logged yet
+        </div>
+      ) : (
+        <div style={{ maxHeight: 280, overflowY: 'auto' }}>
+          {entries.slice(0, VISIBLE_ENTRIES).map((e) => (
+            <div key={e.id} style={{ padding: '6px 0', borderBottom: '1px solid var(--zen-divider)' }}>
+              <div style={{ display: 'flex', alignItems: 'baseline', gap: 8, fontSize: 12 }}>
+                <span style={{ fontWeight: 600, color: ACTION_COLORS[e.action], flexShrink: 0 }}>{ACTION_LABELS[e.action]}</span>
+                <span style={{ flex: 1, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                  {e.actorName}{e.targetName ? ` → ${e.targetName}` : ''}
+                </span>
+                <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', flexShrink: 0 }}>
+                  {new Date(e.at).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' })}
+                </span>
+              </div>
+              {(e.reason || e.detail) && (
+                <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginTop: 2 }}>
+                  {e.reason ? `“${e.reason}”` : ''}{e.reason && e.detail ? ' · ' : ''}{e.detail ?? ''}
+                </div>
+              )}
+            </div>
+          ))}
+          {entries.length > VISIBLE_ENTRIES && (
+            <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', textAlign: 'center', paddingTop: 8 }}>
+              {entries.length - VISIBLE_ENTRIES} older entries in the export
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
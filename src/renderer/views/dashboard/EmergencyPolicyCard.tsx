@@ -0,0 +1,237 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { AdminAttestationState, EmergencyPolicy, KnownPeer, User, IPC } from '../../../shared/types';
+
+type Draft = Pick<EmergencyPolicy, 'allowedSenderIds' | 'dailyLimit' | 'requireReason'>;
+
+// Red, as the emergency toggle always was.
+function Toggle({ on, onClick }: { on: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? '#FF3B30' : 'var(--zen-secondary-bg)',
+        cursor: 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+function draftOf(policy: EmergencyPolicy): Draft {
+  return { allowedSenderIds: policy.allowedSenderIds, dailyLimit: policy.dailyLimit, requireReason: policy.requireReason };
+}
+
+// Settings → Admin → Emergency access. The team-wide policy: who may send,
+// how many a day, and whether they must say why. Saved as a draft, then
+// passed to every teammate's client.
+export default function EmergencyPolicyCard({ peers }: { peers: User[] }) {
+  const [policy, setPolicy] = useState<EmergencyPolicy | null>(null);
+  // Null until the admin changes something.
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [directory, setDirectory] = useState<KnownPeer[]>([]);
+  const [attestation, setAttestation] = useState<AdminAttestationState | null>(null);
+  const [attestationInput, setAttestationInput] = useState('');
+  const [attestationError, setAttestationError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.zenstate.emergencyPolicyGet().then(setPolicy).catch(() => {});
+    window.zenstate.emergencyAttestationGet().then(setAttestation).catch(() => {});
+    window.zenstate.teamDirectoryGet().then(setDirectory).catch(() => {});
+    const offPolicy = window.zenstate.on(IPC.EMERGENCY_POLICY_CHANGED, (next: unknown) => {
+      setPolicy(next as EmergencyPolicy);
+      setDraft(null);
+    });
+    const offDirectory = window.zenstate.on(IPC.TEAM_DIRECTORY_CHANGED, (next: unknown) => {
+      setDirectory(next as KnownPeer[]);
+    });
+    return () => { offPolicy(); offDirectory(); };
+  }, []);
+
+  // Everyone online, then everyone remembered — granting someone who's away
+  // reaches them when they're next online.
+  const teammates = useMemo(() => {
+    const online = new Set(peers.map((p) => p.id));
+    return [
+      ...peers.map((p) => ({ user: p, online: true })),
+      ...directory.filter((e) => !online.has(e.user.id)).map((e) => ({ user: e.user, online: false })),
+    ];
+  }, [peers, directory]);
+
+  if (!policy) return null;
+
+  // Before the first policy, start from the one-off grants peers report so
+  // saving keeps them.
+  const saved = policy.updatedAt
+    ? draftOf(policy)
+    : { ...draftOf(policy), allowedSenderIds: peers.filter((p) => p.canSendEmergency).map((p) => p.id) };
+  const current = draft ?? saved;
+  const dirty = JSON.stringify(current) !== JSON.stringify(saved);
+
+  function update(updates: Partial<Draft>) {
+    setDraft({ ...current, ...updates });
+  }
+
+  function toggleSender(userId: string) {
+    update({
+      allowedSenderIds: current.allowedSenderIds.includes(userId)
+        ? current.allowedSenderIds.filter((id) => id !== userId)
+        : [...current.allowedSenderIds, userId],
+    });
+  }
+
+  async function save() {
+    const next = await window.zenstate.emergencyPolicySave(current).catch(() => null);
+    if (next) { setPolicy(next); setDraft(null); }
+  }
+
+  async function saveAttestation() {
+    const next = await window.zenstate.emergencyAttestationSave(attestationInput).catch(() => null);
+    if (!next) return;
+    if (next.isValid) {
+      setAttestation(next);
+      setAttestationInput('');
+      setAttestationError(null);
+    } else {
+      setAttestationError(next.error ?? 'Invalid attestation');
+    }
+  }
+
+  return (
+    <div className="card">
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Emergency Access</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 12, lineHeight: 1.5 }}>
+        Who may send urgent requests to teammates in Focus mode. This policy goes to everyone's app over secure
+        connections, signed by this device; an emergency outside it arrives as an ordinary meeting request. Admins
+        can always send.
+      </div>
+
+      {teammates.length === 0 ? (
+        <div style={{ fontSize: 12, color: 'var(--zen-tertiary-text)', textAlign: 'center', padding: 16 }}>
+          No team members yet
+        </div>
+      ) : (
+        teammates.map(({ user, online }) => (
+          <div key={user.id} style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 0', opacity: online ? 1 : 0.6 }}>
+            <div style={{
+              width: 28,
+              height: 28,
+              borderRadius: '50%',
+              background: user.avatarColor || '#8E8E93',
+              display: 'flex',
+              alignItems: 'center',
+              justifyContent: 'center',
+              fontSize: 14,
+              overflow: 'hidden',
+            }}>
+              {user.avatarImageData ? (
+                <img src={`data:image/png;base64,${user.avatarImageData}`} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+              ) : user.avatarEmoji ? (
+                user.avatarEmoji
+              ) : (
+                <span style={{ fontSize: 11, fontWeight: 600, color: 'white' }}>{user.name.charAt(0).toUpperCase()}</span>
+              )}
+            </div>
+            <span style={{ fontSize: 13, flex: 1 }}>
+              {user.name}
+              {!online && <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)' }}> · offline</span>}
+            </span>
+            <Toggle on={current.allowedSenderIds.includes(user.id)} onClick={() => toggleSender(user.id)} />
+          </div>
+        ))
+      )}
+
+      <div style={{ borderTop: '1px solid var(--zen-divider)', marginTop: 8, paddingTop: 12 }}>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginBottom: 8 }}>
+          <input
+            type="checkbox"
+            checked={current.dailyLimit !== null}
+            onChange={(e) => update({ dailyLimit: e.target.checked ? 3 : null })}
+          />
+          <span style={{ flex: 1 }}>Limit each sender to</span>
+          {current.dailyLimit !== null && (
+            <>
+              <input
+                type="number"
+                className="text-input"
+                min={1}
+                max={100}
+                value={current.dailyLimit}
+                onChange={(e) => { const n = parseInt(e.target.value, 10); if (n >= 1) update({ dailyLimit: Math.min(100, n) }); }}
+                style={{ width: 64, fontSize: 12 }}
+              />
+              <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>a day</span>
+            </>
+          )}
+        </label>
+        <label style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, marginBottom: 12 }}>
+          <input
+            type="checkbox"
+            checked={current.requireReason}
+            onChange={(e) => update({ requireReason: e.target.checked })}
+          />
+          Require a reason with every emergency
+        </label>
+
+        {policy.updatedAt ? (
+          <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginBottom: dirty ? 10 : 0 }}>
+            Last changed {policy.updatedBy ? `by ${policy.updatedBy} ` : ''}on {new Date(policy.updatedAt).toLocaleString()}
+          </div>
+        ) : (
+          <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginBottom: dirty ? 10 : 0 }}>
+            No team policy yet — saving one makes these settings apply on everyone's app.
+          </div>
+        )}
+        {(dirty || !policy.updatedAt) && (
+          <button className="btn btn-primary" onClick={save} style={{ marginTop: 10 }}>
+            Save policy
+          </button>
+        )}
+      </div>
+
+      {attestation && (
+        <div style={{ borderTop: '1px solid var(--zen-divider)', marginTop: 12, paddingTop: 12 }}>
+          <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 4 }}>Admin attestation</div>
+          {attestation.isValid ? (
+            <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5 }}>
+              Teammates accept policies from this device
+              {attestation.expiresAt ? ` until ${new Date(attestation.expiresAt).toLocaleDateString()}` : ''}.
+            </div>
+          ) : (
+            <>
+              <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 8, lineHeight: 1.5 }}>
+                Teammates only accept a policy signed by a device your license issuer has vouched for. Send them this
+                device's fingerprint and paste the attestation they send back.
+              </div>
+              <div style={{ fontSize: 10, fontFamily: 'monospace', wordBreak: 'break-all', userSelect: 'text', marginBottom: 8 }}>
+                {attestation.fingerprint}
+              </div>
+              <div style={{ display: 'flex', gap: 8 }}>
+                <input
+                  className="text-input"
+                  placeholder="Paste attestation"
+                  value={attestationInput}
+                  onChange={(e) => { setAttestationInput(e.target.value); setAttestationError(null); }}
+                  style={{ flex: 1, fontSize: 12 }}
+                />
+                <button className="btn btn-secondary" onClick={saveAttestation} disabled={!attestationInput.trim()}>
+                  Save
+                </button>
+              </div>
+              {(attestationError || attestation.error) && (
+                <div style={{ fontSize: 10, color: '#FF3B30', marginTop: 6 }}>{attestationError ?? attestation.error}</div>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -69,13 +69,14 @@ function ColumnPanel({ children, style }: { children: React.ReactNode; style?: R
 // ── Projects Column ────────────────────────────────────────────
 
 interface ProjectsColumnProps {
-  authState: BasecampAuthState;
+  accountId: number;
+  accountName?: string;
   selectedId: number | null;
   refreshKey: number;
   onSelect: (p: BasecampProject) => void;
 }
 
-function ProjectsColumn({ authState, selectedId, refreshKey, onSelect }: ProjectsColumnProps) {
+function ProjectsColumn({ accountId, accountName, selectedId, refreshKey, onSelect }: ProjectsColumnProps) {
   const [projects, setProjects] = useState<BasecampProject[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -84,14 +85,14 @@ function ProjectsColumn({ authState, selectedId, refreshKey, onSelect }: Project
   useEffect(() => {
     setLoading(true);
     setError(null);
-    window.zenstate.bcListProjects()
+    window.zenstate.bcListProjects(accountId)
       .then((res) => {
         if (res.ok && res.data) setProjects(res.data);
         else setError(res.error ?? 'Failed to load projects');
         setLoading(false);
       })
       .catch((e: Error) => { setError(e.message); setLoading(false); });
-  }, [refreshKey]);
+  }, [accountId, refreshKey]);
 
   const filtered = search
     ? projects.filter((p) => p.name.toLowerCase().includes(search.toLowerCase()))
@@ -103,9 +104,9 @@ function ProjectsColumn({ authState, selectedId, refreshKey, onSelect }: Project
       <div style={{ padding: '12px 12px 8px', borderBottom: '1px solid var(--zen-divider)', flexShrink: 0 }}>
         <div style={{ fontSize: 11, fontWeight: 600, color: 'var(--zen-secondary-text)', textTransform: 'uppercase', letterSpacing: '0.04em', marginBottom: 8 }}>
           Projects
-          {authState.account && (
+          {accountName && (
             <span style={{ fontWeight: 400, color: 'var(--zen-tertiary-text)', marginLeft: 6, textTransform: 'none', letterSpacing: 0 }}>
-              · {authState.account.name}
+              · {accountName}
             </span>
           )}
         </div>
@@ -161,12 +162,13 @@ function ProjectsColumn({ authState, selectedId, refreshKey, onSelect }: Project
 // ── Todo Lists Column ──────────────────────────────────────────
 
 interface ListsColumnProps {
+  accountId: number;
   project: BasecampProject;
   selectedId: number | null;
   onSelect: (list: BasecampTodoList) => void;
 }
 
-function ListsColumn({ project, selectedId, onSelect }: ListsColumnProps) {
+function ListsColumn({ accountId, project, selectedId, onSelect }: ListsColumnProps) {
   const [lists, setLists] = useState<BasecampTodoList[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -180,14 +182,14 @@ function ListsColumn({ project, selectedId, onSelect }: ListsColumnProps) {
       return;
     }
     setLoading(true);
-    window.zenstate.bcListTodoLists(project.id, project.todoSetId)
+    window.zenstate.bcListTodoLists(project.id, project.todoSetId, accountId)
       .then((res) => {
         if (res.ok && res.data) setLists(res.data);
         else setError(res.error ?? 'Failed to load lists');
         setLoading(false);
       })
       .catch((e: Error) => { setError(e.message); setLoading(false); });
-  }, [project.id, project.todoSetId]);
+  }, [accountId, project.id, project.todoSetId]);
 
   return (
     <ColumnPanel style={{ width: 200, flexShrink: 0 }}>
@@ -239,13 +241,13 @@ function ListsColumn({ project, selectedId, onSelect }: ListsColumnProps) {
 // ── Todos Column ───────────────────────────────────────────────
 
 interface TodosColumnProps {
-  authState: BasecampAuthState;
+  accountId: number;
   project: BasecampProject;
   list: BasecampTodoList;
   timerState: TimerState;
 }
 
-function TodosColumn({ authState, project, list, timerState }: TodosColumnProps) {
+function TodosColumn({ accountId, project, list, timerState }: TodosColumnProps) {
   const [todos, setTodos] = useState<BasecampTodo[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -259,17 +261,17 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
 
   const fetchTodos = useCallback(() => {
     setLoading(true);
-    window.zenstate.bcListTodos(project.id, list.id)
+    window.zenstate.bcListTodos(project.id, list.id, accountId)
       .then((res) => {
         if (res.ok && res.data) setTodos(res.data);
         else setError(res.error ?? 'Failed to load todos');
         setLoading(false);
       })
       .catch((e: Error) => { setError(e.message); setLoading(false); });
-  }, [project.id, list.id]);
+  }, [accountId, project.id, list.id]);
 
   const fetchTimesheet = useCallback(() => {
-    window.zenstate.bcGetProjectTimesheet(project.id)
+    window.zenstate.bcGetProjectTimesheet(project.id, accountId)
       .then((res) => {
         if (res.ok && res.data) {
           const totals = new Map<number, number>();
@@ -281,7 +283,7 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
         }
       })
       .catch(() => { /* timesheet may be disabled — silently skip */ });
-  }, [project.id]);
+  }, [accountId, project.id]);
 
   useEffect(() => {
     setTodos([]);
@@ -305,12 +307,14 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
     timerState.isRunning && timerState.taskLabel === todo.content;
 
   const handleStartTimer = (todo: BasecampTodo) => {
-    if (!authState.account) return;
     window.zenstate.startTimer(todo.content, undefined, undefined, {
-      accountId: authState.account.id,
-      projectId: project.id,
-      todoId: todo.id,
-      todoListId: list.id,
+      provider: 'basecamp',
+      ref: {
+        accountId,
+        projectId: project.id,
+        todoId: todo.id,
+        todoListId: list.id,
+      },
     });
   };
 
@@ -319,7 +323,7 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
     if (!text) return;
     setNoteState((prev) => ({ ...prev, [todoId]: { ...prev[todoId], loading: true, error: undefined } }));
     const res = await window.zenstate
-      .bcPostComment({ projectId: project.id, todoId, content: text })
+      .bcPostComment({ accountId, projectId: project.id, todoId, content: text })
       .catch((e: Error) => ({ ok: false as const, error: e.message }));
     if (res.ok) {
       setNoteState((prev) => ({ ...prev, [todoId]: { text: '', success: true, loading: false } }));
@@ -338,7 +342,7 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
   const handleAddSubtask = async (parentTodo: BasecampTodo) => {
     const content = subtaskState[parentTodo.id]?.trim();
     if (!content) return;
-    await window.zenstate.bcCreateTodo({ projectId: project.id, todoListId: list.id, content, parentId: parentTodo.id });
+    await window.zenstate.bcCreateTodo({ accountId, projectId: project.id, todoListId: list.id, content, parentId: parentTodo.id });
     setSubtaskState((prev) => { const n = { ...prev }; delete n[parentTodo.id]; return n; });
     setInlineEdit(null);
     fetchTodos();
@@ -348,7 +352,7 @@ function TodosColumn({ authState, project, list, timerState }: TodosColumnProps)
     const content = addTaskInput.trim();
     if (!content) return;
     setAddingTask(true);
-    await window.zenstate.bcCreateTodo({ projectId: project.id, todoListId: list.id, content });
+    await window.zenstate.bcCreateTodo({ accountId, projectId: project.id, todoListId: list.id, content });
     setAddTaskInput('');
     setAddingTask(false);
     fetchTodos();
@@ -557,6 +561,8 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
   const [selectedProject, setSelectedProject] = useState<BasecampProject | null>(null);
   const [selectedList, setSelectedList] = useState<BasecampTodoList | null>(null);
   const [refreshKey, setRefreshKey] = useState(0);
+  // Account being browsed — starts on the active one, switchable when several are connected.
+  const [accountId, setAccountId] = useState<number | null>(null);
 
   useEffect(() => {
     window.zenstate.bcGetAuthState()
@@ -568,6 +574,16 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
     });
   }, []);
 
+  // Fall back to the active account when the browsed one is disconnected.
+  const accounts = authState.accounts ?? [];
+  const browsing = accounts.find((a) => a.id === accountId) ?? authState.account;
+
+  const handleSwitchAccount = (id: number) => {
+    setAccountId(id);
+    setSelectedProject(null);
+    setSelectedList(null);
+  };
+
   const handleSelectProject = (p: BasecampProject) => {
     if (p.id !== selectedProject?.id) {
       setSelectedProject(p);
@@ -583,7 +599,7 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
     );
   }
 
-  if (!authState.isConnected) {
+  if (!authState.isConnected || !browsing) {
     return (
       <div className="fade-in" style={{ display: 'flex', flexDirection: 'column', alignItems: 'center', justifyContent: 'center', height: '100%', gap: 14 }}>
         <Briefcase size={36} style={{ color: 'var(--zen-tertiary-text)' }} />
@@ -619,12 +635,25 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
         >
           <RefreshCw size={14} />
         </button>
+        <div style={{ flex: 1 }} />
+        {accounts.length > 1 && (
+          <select
+            className="text-input"
+            value={browsing.id}
+            onChange={(e) => handleSwitchAccount(Number(e.target.value))}
+            title="Basecamp account"
+            style={{ fontSize: 12, width: 'auto', maxWidth: 220 }}
+          >
+            {accounts.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        )}
       </div>
 
       {/* Three-column panel */}
       <div className="card" style={{ display: 'flex', flex: 1, overflow: 'hidden', padding: 0, minHeight: 0 }}>
         <ProjectsColumn
-          authState={authState}
+          accountId={browsing.id}
+          accountName={browsing.name}
           selectedId={selectedProject?.id ?? null}
           refreshKey={refreshKey}
           onSelect={handleSelectProject}
@@ -632,6 +661,7 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
 
         {selectedProject ? (
           <ListsColumn
+            accountId={browsing.id}
             project={selectedProject}
             selectedId={selectedList?.id ?? null}
             onSelect={setSelectedList}
@@ -646,7 +676,7 @@ export default function ProjectsTab({ timerState, onOpenSettings }: Props) {
 
         {selectedProject && selectedList ? (
           <TodosColumn
-            authState={authState}
+            accountId={browsing.id}
             project={selectedProject}
             list={selectedList}
             timerState={timerState}
@@ -0,0 +1,112 @@
+import React, { useState, useEffect } from 'react';
+import { AppSettings, RelayStatus, IPC } from '../../../shared/types';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+function Toggle({ on, onClick }: { on: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? 'var(--zen-primary)' : 'var(--zen-secondary-bg)',
+        cursor: 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+// Settings → Network → Relay. For teammates Bonjour and the beacon can't
+// reach (other VLANs, VPN, home). Address and token are edited as a draft and
+// saved together so the relay connection isn't restarted on every keystroke.
+export default function RelayCard({ settings, onChange }: Props) {
+  const [status, setStatus] = useState<RelayStatus | null>(null);
+  const [address, setAddress] = useState(settings.relayAddress);
+  const [token, setToken] = useState(settings.relayToken);
+
+  useEffect(() => {
+    setAddress(settings.relayAddress);
+    setToken(settings.relayToken);
+  }, [settings.relayAddress, settings.relayToken]);
+
+  useEffect(() => {
+    window.zenstate.relayGetStatus().then(setStatus).catch(() => {});
+    const off = window.zenstate.on(IPC.RELAY_STATUS_CHANGED, (s: unknown) => {
+      setStatus(s as RelayStatus);
+    });
+    return () => { off(); };
+  }, []);
+
+  const dirty = address.trim() !== settings.relayAddress || token !== settings.relayToken;
+
+  let statusText = 'Off';
+  let statusColor = 'var(--zen-tertiary-text)';
+  if (settings.relayEnabled) {
+    if (!settings.relayAddress) {
+      statusText = 'Enter the relay address';
+    } else if (status?.connected) {
+      statusText = `Connected · ${status.peerCount} teammate${status.peerCount === 1 ? '' : 's'} on the relay`;
+      statusColor = 'var(--status-available)';
+    } else if (status && !status.configured) {
+      statusText = 'Invalid relay address';
+      statusColor = 'var(--status-focused)';
+    } else {
+      statusText = status?.error ? `Not connected — ${status.error}` : 'Connecting…';
+      statusColor = 'var(--status-occupied)';
+    }
+  }
+
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Relay</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        Reach teammates on another network (VPN, other office floor, home) through a relay your team runs
+        with <span style={{ fontFamily: 'monospace' }}>npm run relay</span>. Teammates on the same Wi-Fi still connect directly.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+        <span style={{ fontSize: 13, flex: 1 }}>🛰 Use a relay</span>
+        <Toggle on={settings.relayEnabled} onClick={() => onChange({ relayEnabled: !settings.relayEnabled })} />
+      </div>
+
+      {settings.relayEnabled && (
+        <div style={{ display: 'flex', flexDirection: 'column', gap: 8 }}>
+          <input
+            className="text-input"
+            placeholder="relay.example.com:47390"
+            value={address}
+            onChange={(e) => setAddress(e.target.value)}
+          />
+          <input
+            className="text-input"
+            type="password"
+            placeholder="Relay token (if the relay requires one)"
+            value={token}
+            onChange={(e) => setToken(e.target.value)}
+          />
+          {dirty && (
+            <button
+              className="btn btn-primary"
+              onClick={() => onChange({ relayAddress: address.trim(), relayToken: token })}
+            >
+              Save
+            </button>
+          )}
+        </div>
+      )}
+
+      <div style={{ fontSize: 11, color: statusColor, marginTop: 8 }}>{statusText}</div>
+    </div>
+  );
+}
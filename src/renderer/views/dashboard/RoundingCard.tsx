@@ -0,0 +1,177 @@
+import React, { useState, useEffect } from 'react';
+import { X, Plus } from 'lucide-react';
+import { AppSettings, BasecampConnectedAccount, BasecampProject, ProjectRoundingRule, RoundingMode, RoundingRule } from '../../../shared/types';
+import { describeRounding } from '../../../shared/rounding';
+
+interface Props {
+  settings: AppSettings;
+  accounts: BasecampConnectedAccount[];
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+const MODES: { mode: RoundingMode; label: string }[] = [
+  { mode: 'none', label: 'Exact' },
+  { mode: 'nearest', label: 'Nearest' },
+  { mode: 'up', label: 'Up' },
+  { mode: 'down', label: 'Down' },
+];
+
+const INCREMENTS = [6, 10, 15, 30, 60];
+
+// Mode chips, increment and minimum — shared by the default and each project.
+function RuleEditor({ rule, onChange }: { rule: RoundingRule; onChange: (updates: Partial<RoundingRule>) => void }) {
+  return (
+    <div style={{ display: 'flex', alignItems: 'center', gap: 6, flexWrap: 'wrap' }}>
+      {MODES.map(({ mode, label }) => (
+        <button
+          key={mode}
+          className={`category-chip ${rule.mode === mode ? 'selected' : ''}`}
+          onClick={() => onChange({ mode })}
+        >
+          {label}
+        </button>
+      ))}
+      {rule.mode !== 'none' && (
+        <select
+          className="text-input"
+          value={rule.incrementMinutes}
+          onChange={(e) => onChange({ incrementMinutes: parseInt(e.target.value, 10) })}
+          style={{ width: 'auto', fontSize: 12 }}
+        >
+          {INCREMENTS.map((m) => <option key={m} value={m}>to {m} min</option>)}
+        </select>
+      )}
+      <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginLeft: 4 }}>Minimum</span>
+      <input
+        className="text-input"
+        type="number"
+        min="0"
+        max="480"
+        value={rule.minimumMinutes}
+        onChange={(e) => onChange({ minimumMinutes: Math.min(480, Math.max(0, parseInt(e.target.value, 10) || 0)) })}
+        style={{ width: 56, fontSize: 12 }}
+      />
+      <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>min</span>
+    </div>
+  );
+}
+
+// Settings → Basecamp → Rounding. Edited as a draft and saved together, like
+// the timer-suggestion rules, so a half-set rule never posts anything.
+export default function RoundingCard({ settings, accounts, onChange }: Props) {
+  const [defaultRule, setDefaultRule] = useState<RoundingRule>(settings.defaultRounding);
+  const [rules, setRules] = useState<ProjectRoundingRule[]>(settings.projectRounding);
+  const [addAccountId, setAddAccountId] = useState<number | null>(accounts[0]?.id ?? null);
+  const [projects, setProjects] = useState<BasecampProject[]>([]);
+  const [addProjectId, setAddProjectId] = useState<number | null>(null);
+
+  useEffect(() => {
+    setDefaultRule(settings.defaultRounding);
+    setRules(settings.projectRounding);
+  }, [settings.defaultRounding, settings.projectRounding]);
+
+  useEffect(() => {
+    if (addAccountId === null && accounts.length > 0) setAddAccountId(accounts[0].id);
+  }, [accounts, addAccountId]);
+
+  useEffect(() => {
+    setProjects([]);
+    setAddProjectId(null);
+    if (addAccountId === null) return;
+    window.zenstate.bcListProjects(addAccountId).then((res) => {
+      if (res.ok && res.data) setProjects(res.data);
+    }).catch(() => {});
+  }, [addAccountId]);
+
+  const dirty = JSON.stringify(defaultRule) !== JSON.stringify(settings.defaultRounding)
+    || JSON.stringify(rules) !== JSON.stringify(settings.projectRounding);
+  const available = projects.filter((p) => !rules.some((r) => r.accountId === addAccountId && r.projectId === p.id));
+
+  function updateRule(index: number, updates: Partial<RoundingRule>) {
+    setRules((prev) => prev.map((r, i) => (i === index ? { ...r, ...updates } : r)));
+  }
+
+  function addRule() {
+    const project = projects.find((p) => p.id === addProjectId);
+    if (addAccountId === null || !project) return;
+    // A new project rule starts from the default, which is usually close.
+    setRules((prev) => [...prev, { ...defaultRule, accountId: addAccountId, projectId: project.id, projectName: project.name }]);
+    setAddProjectId(null);
+  }
+
+  return (
+    <div className="card" style={{ marginTop: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Rounding</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        How tracked time turns into the hours posted to Basecamp. Your sessions here keep the exact time; only the
+        timesheet entry is rounded. A project's own rule replaces the default.
+      </div>
+
+      <div style={{ fontSize: 12, marginBottom: 6 }}>Default</div>
+      <RuleEditor rule={defaultRule} onChange={(updates) => setDefaultRule((prev) => ({ ...prev, ...updates }))} />
+      <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginTop: 4, marginBottom: 12 }}>
+        {describeRounding(defaultRule)}
+      </div>
+
+      {rules.map((rule, i) => (
+        <div key={`${rule.accountId}:${rule.projectId}`} style={{ padding: 8, marginBottom: 8, background: 'var(--zen-tertiary-bg)', borderRadius: 8 }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 6 }}>
+            <span style={{ flex: 1, fontSize: 12, fontWeight: 500, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+              {rule.projectName}
+              {accounts.length > 1 && (
+                <span style={{ fontWeight: 400, color: 'var(--zen-tertiary-text)' }}>
+                  {' · '}{accounts.find((a) => a.id === rule.accountId)?.name ?? 'Disconnected account'}
+                </span>
+              )}
+            </span>
+            <button
+              className="session-action-btn delete"
+              onClick={() => setRules((prev) => prev.filter((_r, j) => j !== i))}
+              title="Remove rule — this project goes back to the default"
+            >
+              <X size={13} />
+            </button>
+          </div>
+          <RuleEditor rule={rule} onChange={(updates) => updateRule(i, updates)} />
+          <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginTop: 4 }}>{describeRounding(rule)}</div>
+        </div>
+      ))}
+
+      <div style={{ display: 'flex', gap: 6, alignItems: 'center', marginBottom: 8 }}>
+        {accounts.length > 1 && (
+          <select
+            className="text-input"
+            value={addAccountId ?? ''}
+            onChange={(e) => setAddAccountId(parseInt(e.target.value, 10))}
+            style={{ width: 'auto', fontSize: 12 }}
+          >
+            {accounts.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+          </select>
+        )}
+        <select
+          className="text-input"
+          value={addProjectId ?? ''}
+          onChange={(e) => setAddProjectId(e.target.value ? parseInt(e.target.value, 10) : null)}
+          style={{ flex: 1, fontSize: 12 }}
+        >
+          <option value="">{projects.length === 0 ? 'Loading projects…' : 'Choose a project…'}</option>
+          {available.map((p) => <option key={p.id} value={p.id}>{p.name}</option>)}
+        </select>
+        <button
+          className="btn btn-secondary"
+          onClick={addRule}
+          disabled={addProjectId === null}
+          style={{ display: 'inline-flex', alignItems: 'center', gap: 4 }}
+        >
+          <Plus size={12} /> Project rule
+        </button>
+      </div>
+
+      {dirty && (
+        <button className="btn btn-primary" onClick={() => onChange({ defaultRounding: defaultRule, projectRounding: rules })}>
+          Save rounding
+        </button>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,263 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Pencil, Trash2 } from 'lucide-react';
+import { FocusSchedule, ActiveFocusBlockInfo, IPC } from '../../../shared/types';
+
+const DAY_LABELS = ['S', 'M', 'T', 'W', 'T', 'F', 'S'];
+const DAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+function pad(n: number): string {
+  return String(n).padStart(2, '0');
+}
+
+function toTimeInput(t: { hour: number; minute: number }): string {
+  return `${pad(t.hour)}:${pad(t.minute)}`;
+}
+
+function fromTimeInput(value: string): { hour: number; minute: number } | null {
+  const m = value.match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  return { hour: parseInt(m[1], 10), minute: parseInt(m[2], 10) };
+}
+
+// "Mon–Fri", "Weekends", "Every day", or a comma list for anything irregular.
+function describeDays(days: number[]): string {
+  const sorted = [...days].sort((a, b) => a - b);
+  const key = sorted.join(',');
+  if (key === '0,1,2,3,4,5,6') return 'Every day';
+  if (key === '1,2,3,4,5') return 'Mon–Fri';
+  if (key === '0,6') return 'Weekends';
+  return sorted.map((d) => DAY_NAMES[d]).join(', ');
+}
+
+function newSchedule(): FocusSchedule {
+  return {
+    id: crypto.randomUUID(),
+    name: '',
+    enabled: true,
+    autoStartFocus: false,
+    startTime: { hour: 9, minute: 0 },
+    endTime: { hour: 11, minute: 0 },
+    daysOfWeek: [1, 2, 3, 4, 5],
+    taskLabel: '',
+  };
+}
+
+function Toggle({ on, onClick }: { on: boolean; onClick: () => void }) {
+  return (
+    <button
+      onClick={onClick}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? 'var(--zen-primary)' : 'var(--zen-secondary-bg)',
+        cursor: 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+// Settings → Schedules. Recurring focus blocks: while a block is open, main
+// sets status to Focused (and optionally runs a timer), then reverts at the end.
+export default function SchedulesTab() {
+  const [schedules, setSchedules] = useState<FocusSchedule[]>([]);
+  const [active, setActive] = useState<ActiveFocusBlockInfo | null>(null);
+  const [editing, setEditing] = useState<FocusSchedule | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    window.zenstate.schedulesGet().then(setSchedules).catch(() => {});
+    window.zenstate.schedulesGetActive().then(setActive).catch(() => {});
+    const off = window.zenstate.on(IPC.SCHEDULES_ACTIVE_CHANGED, (info: unknown) => {
+      setActive(info as ActiveFocusBlockInfo | null);
+    });
+    return () => { off(); };
+  }, []);
+
+  async function save(schedule: FocusSchedule) {
+    setError(null);
+    const res = await window.zenstate.schedulesSave(schedule);
+    if (!res.ok || !res.schedules) {
+      setError(res.error || 'Could not save schedule.');
+      return false;
+    }
+    setSchedules(res.schedules);
+    return true;
+  }
+
+  async function handleSaveEditing() {
+    if (!editing) return;
+    if (!editing.name.trim()) { setError('Give the block a name.'); return; }
+    if (editing.daysOfWeek.length === 0) { setError('Pick at least one day.'); return; }
+    if (toTimeInput(editing.startTime) === toTimeInput(editing.endTime)) { setError('Start and end time must differ.'); return; }
+    if (await save(editing)) setEditing(null);
+  }
+
+  async function handleDelete(id: string) {
+    if (!confirm('Delete this focus block?')) return;
+    const next = await window.zenstate.schedulesDelete(id);
+    setSchedules(next);
+    if (editing?.id === id) setEditing(null);
+  }
+
+  function toggleDay(day: number) {
+    if (!editing) return;
+    const days = editing.daysOfWeek.includes(day)
+      ? editing.daysOfWeek.filter((d) => d !== day)
+      : [...editing.daysOfWeek, day].sort((a, b) => a - b);
+    setEditing({ ...editing, daysOfWeek: days });
+  }
+
+  return (
+    <div className="card">
+      <div className="hstack" style={{ gap: 8, alignItems: 'center', marginBottom: 8 }}>
+        <div style={{ fontSize: 12, fontWeight: 600, flex: 1 }}>Focus Schedules</div>
+        {!editing && (
+          <button className="btn btn-secondary" style={{ fontSize: 11 }} onClick={() => { setError(null); setEditing(newSchedule()); }}>
+            <Plus size={12} /> New block
+          </button>
+        )}
+      </div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        During a scheduled block your status switches to Focused automatically and goes back to what it was when the block ends. Changing status by hand mid-block always wins.
+      </div>
+
+      {active && (
+        <div style={{
+          padding: '10px 14px',
+          borderRadius: 10,
+          background: 'rgba(255, 59, 48, 0.08)',
+          border: '1px solid rgba(255, 59, 48, 0.2)',
+          marginBottom: 12,
+          fontSize: 12,
+        }}>
+          <span style={{ fontWeight: 600, color: 'var(--status-focused)' }}>In a focus block: </span>
+          {active.name} until {new Date(active.endsAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+        </div>
+      )}
+
+      {editing && (
+        <div style={{
+          padding: '12px 16px',
+          borderRadius: 10,
+          background: 'var(--zen-tertiary-bg)',
+          border: '1px solid var(--zen-divider)',
+          marginBottom: 12,
+          display: 'flex',
+          flexDirection: 'column',
+          gap: 10,
+        }}>
+          <input
+            className="text-input"
+            placeholder="Block name (e.g. Morning deep work)"
+            value={editing.name}
+            onChange={(e) => setEditing({ ...editing, name: e.target.value })}
+            autoFocus
+          />
+
+          <div style={{ display: 'flex', gap: 6 }}>
+            {DAY_LABELS.map((label, day) => {
+              const on = editing.daysOfWeek.includes(day);
+              return (
+                <button
+                  key={day}
+                  onClick={() => toggleDay(day)}
+                  title={DAY_NAMES[day]}
+                  style={{
+                    width: 30, height: 30, borderRadius: '50%',
+                    border: on ? '2px solid var(--zen-primary)' : '1px solid var(--zen-divider)',
+                    background: on ? 'rgba(0, 122, 255, 0.15)' : 'transparent',
+                    color: on ? 'var(--zen-primary)' : 'var(--zen-secondary-text)',
+                    cursor: 'pointer', fontSize: 11, fontWeight: 600, fontFamily: 'inherit',
+                  }}
+                >
+                  {label}
+                </button>
+              );
+            })}
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>From</span>
+            <input
+              type="time"
+              className="text-input"
+              value={toTimeInput(editing.startTime)}
+              onChange={(e) => { const t = fromTimeInput(e.target.value); if (t) setEditing({ ...editing, startTime: t }); }}
+              style={{ width: 110, fontSize: 12 }}
+            />
+            <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>to</span>
+            <input
+              type="time"
+              className="text-input"
+              value={toTimeInput(editing.endTime)}
+              onChange={(e) => { const t = fromTimeInput(e.target.value); if (t) setEditing({ ...editing, endTime: t }); }}
+              style={{ width: 110, fontSize: 12 }}
+            />
+          </div>
+
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+            <span style={{ fontSize: 13, flex: 1 }}>⏱ Start a timer for the block</span>
+            <Toggle on={editing.autoStartFocus} onClick={() => setEditing({ ...editing, autoStartFocus: !editing.autoStartFocus })} />
+          </div>
+          {editing.autoStartFocus && (
+            <input
+              className="text-input"
+              placeholder="Timer label (defaults to the block name)"
+              value={editing.taskLabel ?? ''}
+              onChange={(e) => setEditing({ ...editing, taskLabel: e.target.value })}
+            />
+          )}
+
+          {error && <div style={{ fontSize: 11, color: '#FF3B30' }}>{error}</div>}
+
+          <div className="hstack" style={{ gap: 8 }}>
+            <button className="btn btn-secondary" style={{ flex: 1 }} onClick={() => { setEditing(null); setError(null); }}>Cancel</button>
+            <button className="btn btn-primary" style={{ flex: 1 }} onClick={handleSaveEditing}>Save</button>
+          </div>
+        </div>
+      )}
+
+      {schedules.length === 0 && !editing ? (
+        <div style={{ fontSize: 12, color: 'var(--zen-tertiary-text)', textAlign: 'center', padding: 16 }}>
+          No focus blocks yet
+        </div>
+      ) : (
+        schedules.map((s) => (
+          <div key={s.id} style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '8px 0', borderBottom: '1px solid var(--zen-divider)', opacity: s.enabled ? 1 : 0.5 }}>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 13, fontWeight: 500 }}>
+                {s.name}
+                {active?.scheduleId === s.id && (
+                  <span style={{ fontSize: 10, color: 'var(--status-focused)', marginLeft: 6 }}>● now</span>
+                )}
+              </div>
+              <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>
+                {describeDays(s.daysOfWeek)} · {toTimeInput(s.startTime)}–{toTimeInput(s.endTime)}
+                {s.autoStartFocus && ` · timer: ${s.taskLabel || s.name}`}
+              </div>
+            </div>
+            <button
+              className="btn btn-secondary"
+              style={{ padding: '4px 8px' }}
+              title="Edit"
+              onClick={() => { setError(null); setEditing({ ...s, taskLabel: s.taskLabel ?? '' }); }}
+            >
+              <Pencil size={12} />
+            </button>
+            <button className="btn btn-secondary" style={{ padding: '4px 8px' }} title="Delete" onClick={() => handleDelete(s.id)}>
+              <Trash2 size={12} />
+            </button>
+            <Toggle on={s.enabled} onClick={() => save({ ...s, enabled: !s.enabled })} />
+          </div>
+        ))
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,165 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Lock, LockOpen, Trash2 } from 'lucide-react';
+import { AppSettings, SecureTransportStatus, IPC } from '../../../shared/types';
+
+interface Props {
+  settings: AppSettings;
+  onChange: (updates: Partial<AppSettings>) => void;
+}
+
+interface RejectedPeer {
+  userId: string | null;
+  name?: string;
+  reason: string;
+}
+
+function Toggle({ on, onClick, disabled }: { on: boolean; onClick: () => void; disabled?: boolean }) {
+  return (
+    <button
+      onClick={onClick}
+      disabled={disabled}
+      style={{
+        width: 44, height: 24, borderRadius: 12, border: 'none',
+        background: on ? 'var(--zen-primary)' : 'var(--zen-secondary-bg)',
+        cursor: disabled ? 'default' : 'pointer', position: 'relative', transition: 'background 0.2s ease', flexShrink: 0,
+        opacity: disabled ? 0.5 : 1,
+      }}
+    >
+      <div style={{
+        width: 20, height: 20, borderRadius: '50%', background: 'white',
+        position: 'absolute', top: 2,
+        left: on ? 22 : 2,
+        transition: 'left 0.2s ease',
+        boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
+      }} />
+    </button>
+  );
+}
+
+// "ab12 cd34 ef56 …" — short enough to read out loud when comparing devices.
+function shortFingerprint(fp: string): string {
+  return (fp.slice(0, 16).match(/.{4}/g) ?? []).join(' ');
+}
+
+// Settings → Network → Secure connections. Encrypts peer traffic with the
+// team key from the license and pins each teammate's device key on first contact.
+export default function SecureTransportCard({ settings, onChange }: Props) {
+  const [status, setStatus] = useState<SecureTransportStatus | null>(null);
+  const [rejected, setRejected] = useState<RejectedPeer | null>(null);
+
+  const refresh = useCallback(() => {
+    window.zenstate.securityGetStatus().then(setStatus).catch(() => {});
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    // Connections renegotiate a moment after the setting flips; poll lightly
+    // so the per-peer lock icons catch up without a manual refresh.
+    const interval = setInterval(refresh, 5000);
+    const off = window.zenstate.on(IPC.SECURITY_PEER_REJECTED, (data: unknown) => {
+      setRejected(data as RejectedPeer);
+      refresh();
+    });
+    return () => { clearInterval(interval); off(); };
+  }, [refresh]);
+
+  async function handleForget(userId: string) {
+    if (!confirm('Forget this device key? The next device that connects with this teammate\'s id will be trusted.')) return;
+    await window.zenstate.securityForgetPeer(userId);
+    refresh();
+  }
+
+  const available = status?.available ?? false;
+
+  return (
+    <div className="card" style={{ marginBottom: 12 }}>
+      <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Secure Connections</div>
+      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', lineHeight: 1.5, marginBottom: 12 }}>
+        Encrypts status, pings and requests between teammates and checks that they hold your team's license.
+        Everyone on the team needs a license key issued for the same team.
+      </div>
+
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8 }}>
+        <span style={{ fontSize: 13, flex: 1 }}>🔒 Encrypt peer connections</span>
+        <Toggle
+          on={settings.secureTransportEnabled}
+          disabled={!available}
+          onClick={() => onChange({ secureTransportEnabled: !settings.secureTransportEnabled })}
+        />
+      </div>
+      {!available && (
+        <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 8 }}>
+          Activate a team license to use secure connections.
+        </div>
+      )}
+
+      {settings.secureTransportEnabled && available && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 4 }}>
+            <span style={{ fontSize: 13, flex: 1 }}>Allow unencrypted peers</span>
+            <Toggle on={settings.allowLegacyPeers} onClick={() => onChange({ allowLegacyPeers: !settings.allowLegacyPeers })} />
+          </div>
+          <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 12, lineHeight: 1.5 }}>
+            Keeps older versions and the Mac app visible. Teammates who have connected securely before are never accepted unencrypted.
+          </div>
+        </>
+      )}
+
+      {status && (
+        <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 12 }}>
+          This device: <span style={{ fontFamily: 'monospace' }}>{shortFingerprint(status.fingerprint)}</span>
+        </div>
+      )}
+
+      {rejected && (
+        <div style={{
+          padding: '10px 14px',
+          borderRadius: 10,
+          background: 'rgba(255, 59, 48, 0.08)',
+          border: '1px solid rgba(255, 59, 48, 0.2)',
+          marginBottom: 12,
+          fontSize: 12,
+        }}>
+          <span style={{ fontWeight: 600, color: 'var(--status-focused)' }}>Refused a connection: </span>
+          {rejected.name ?? rejected.userId ?? 'unknown peer'} — {rejected.reason}
+        </div>
+      )}
+
+      {status && status.peers.length > 0 && (
+        <>
+          <div style={{ fontSize: 11, fontWeight: 600, marginBottom: 4 }}>Connected now</div>
+          {status.peers.map((p) => (
+            <div key={p.userId} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0', fontSize: 12 }}>
+              {p.transport === 'secure'
+                ? <Lock size={12} color="var(--status-available)" />
+                : <LockOpen size={12} color="var(--status-occupied)" />}
+              <span style={{ flex: 1 }}>{p.name}</span>
+              <span style={{ fontSize: 11, color: 'var(--zen-tertiary-text)' }}>
+                {p.transport === 'secure' ? 'Encrypted' : 'Unencrypted'}
+              </span>
+            </div>
+          ))}
+        </>
+      )}
+
+      {status && status.pinned.length > 0 && (
+        <>
+          <div style={{ fontSize: 11, fontWeight: 600, marginTop: 12, marginBottom: 4 }}>Trusted devices</div>
+          {status.pinned.map((pin) => (
+            <div key={pin.userId} style={{ display: 'flex', alignItems: 'center', gap: 8, padding: '4px 0', borderBottom: '1px solid var(--zen-divider)' }}>
+              <div style={{ flex: 1, minWidth: 0 }}>
+                <div style={{ fontSize: 12 }}>{pin.name}</div>
+                <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', fontFamily: 'monospace' }}>
+                  {shortFingerprint(pin.fingerprint)} · since {new Date(pin.firstSeen).toLocaleDateString()}
+                </div>
+              </div>
+              <button className="btn btn-secondary" style={{ padding: '4px 8px' }} title="Forget device key" onClick={() => handleForget(pin.userId)}>
+                <Trash2 size={12} />
+              </button>
+            </div>
+          ))}
+        </>
+      )}
+    </div>
+  );
+}
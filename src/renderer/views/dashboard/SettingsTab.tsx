@@ -1,9 +1,18 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Settings, Info, Shield, Wifi, KeyRound, Briefcase } from 'lucide-react';
+import { Settings, Info, Shield, Wifi, KeyRound, Briefcase, CalendarClock } from 'lucide-react';
 import { User, AppSettings, LicenseState, BasecampAuthState, BasecampCredentials } from '../../../shared/types';
 import { ProBadge, ProGate } from '../../components/ProGate';
 import LicenseActivationModal from '../../components/LicenseActivationModal';
 import NetworkTab from './NetworkTab';
+import SchedulesTab from './SchedulesTab';
+import SecureTransportCard from './SecureTransportCard';
+import RelayCard from './RelayCard';
+import AppTrackerCard from './AppTrackerCard';
+import RoundingCard from './RoundingCard';
+import BillingCard from './BillingCard';
+import DndCard from './DndCard';
+import EmergencyPolicyCard from './EmergencyPolicyCard';
+import EmergencyAuditCard from './EmergencyAuditCard';
 
 // Avatar colors — no green/orange/red (reserved for status indicators)
 const COLOR_OPTIONS = ['#007AFF', '#5856D6', '#AF52DE', '#FF2D55', '#00C7BE', '#5AC8FA', '#BF5AF2', '#A2845E'];
@@ -32,7 +41,7 @@ interface Props {
   onSignOut: () => void;
 }
 
-type SettingsSection = 'general' | 'network' | 'basecamp' | 'about' | 'admin' | 'license';
+type SettingsSection = 'general' | 'schedules' | 'network' | 'basecamp' | 'about' | 'admin' | 'license';
 
 export default function SettingsTab({ currentUser, peers, isPro, licenseState, onLicenseStateChange, onUserUpdate, onSignOut }: Props) {
   const [activeSection, setActiveSection] = useState<SettingsSection>('general');
@@ -74,8 +83,28 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
     idleDetectionEnabled: false,
     idleThresholdSeconds: 5 * 60,
     requireTimesheetConfirmation: true,
+    timesheetReviewMode: 'eachStop',
+    timesheetReviewTime: { hour: 17, minute: 30 },
     miniTimerEnabled: true,
     miniTimerAutoDim: false,
+    secureTransportEnabled: false,
+    allowLegacyPeers: true,
+    relayEnabled: false,
+    relayAddress: '',
+    relayToken: '',
+    cycleWorkMinutes: 25,
+    cycleShortBreakMinutes: 5,
+    cycleLongBreakMinutes: 15,
+    cycleRoundsPerLongBreak: 4,
+    appTrackerEnabled: false,
+    appTrackerMode: 'prompt',
+    appRules: [],
+    defaultRounding: { mode: 'none', incrementMinutes: 15, minimumMinutes: 0 },
+    projectRounding: [],
+    billingCurrency: 'USD',
+    projectBilling: [],
+    categoryBilling: [],
+    dndPolicy: { enabled: false, quietHours: null, focusedOnlyEmergencies: false, holdInMeetingMode: true, allowSenderIds: [], denySenderIds: [] },
   });
 
   // Admin notifications
@@ -189,10 +218,6 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
     (window as any).zenstate.setLoginItemSettings?.(newValue);
   }
 
-  function handleToggleEmergencyAccess(peerId: string, currentValue: boolean) {
-    (window as any).zenstate.grantEmergencyAccess(peerId, !currentValue);
-  }
-
   function updateAppSettings(updates: Partial<AppSettings>) {
     const updated = { ...appSettings, ...updates };
     setAppSettings(updated);
@@ -249,6 +274,20 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
     setBcStatus(null);
   }
 
+  // Drop one account and keep the rest. Its sessions keep their link; queued
+  // writes for it wait until it's connected again.
+  async function handleBcDisconnectAccount(accountId: number, name: string) {
+    if (!confirm(`Disconnect ${name}? Your other Basecamp accounts stay connected.`)) return;
+    const state = await window.zenstate.bcDisconnect(accountId).catch(() => null);
+    if (state) setBcAuthState(state);
+    setBcStatus(null);
+  }
+
+  async function handleBcSetActiveAccount(accountId: number) {
+    const state = await window.zenstate.bcSetActiveAccount(accountId).catch(() => null);
+    if (state) setBcAuthState(state);
+  }
+
   const [bcSyncing, setBcSyncing] = useState(false);
   async function handleBcBackfill() {
     setBcSyncing(true);
@@ -345,6 +384,7 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
 
   const sections: { id: SettingsSection; label: string; icon: React.ReactNode; adminOnly?: boolean; proOnly?: boolean }[] = [
     { id: 'general', label: 'General', icon: <Settings size={16} /> },
+    { id: 'schedules', label: 'Schedules', icon: <CalendarClock size={16} /> },
     { id: 'network', label: 'Network', icon: <Wifi size={16} /> },
     { id: 'basecamp', label: 'Basecamp', icon: <Briefcase size={16} /> },
     { id: 'license', label: 'License', icon: <KeyRound size={16} /> },
@@ -690,6 +730,37 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
 
           <div className="divider" />
 
+          {/* Focus cycles — lengths used by the Cycle button on a pinned to-do */}
+          <div style={{ fontSize: 13, marginBottom: 8, marginTop: 8 }}>🍅 Focus Cycles</div>
+          {([
+            { key: 'cycleWorkMinutes', label: 'Work', unit: 'min', max: 240, fallback: 25 },
+            { key: 'cycleShortBreakMinutes', label: 'Short break', unit: 'min', max: 60, fallback: 5 },
+            { key: 'cycleLongBreakMinutes', label: 'Long break', unit: 'min', max: 120, fallback: 15 },
+            { key: 'cycleRoundsPerLongBreak', label: 'Long break every', unit: 'rounds', max: 12, fallback: 4 },
+          ] as const).map((row) => (
+            <div key={row.key} style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 6, paddingLeft: 16 }}>
+              <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)', flex: 1 }}>{row.label}</span>
+              <input
+                type="number"
+                min="1"
+                max={row.max}
+                value={appSettings[row.key]}
+                onChange={(e) => {
+                  const n = Math.min(row.max, parseInt(e.target.value) || row.fallback);
+                  updateAppSettings({ [row.key]: n });
+                }}
+                className="text-input"
+                style={{ width: 60, textAlign: 'center', fontSize: 12 }}
+              />
+              <span style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', width: 40 }}>{row.unit}</span>
+            </div>
+          ))}
+          <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginBottom: 12 }}>
+            A cycle alternates work intervals and breaks on the same to-do until you stop it. Each work interval is logged as its own session; breaks aren't tracked. If you're Focused, breaks switch you to Available and back.
+          </div>
+
+          <div className="divider" />
+
           {/* Floating mini-timer overlay */}
           <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 8, marginTop: 8 }}>
             <span style={{ fontSize: 13, flex: 1 }}>⏱ Floating timer pill</span>
@@ -765,6 +836,44 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
           <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginBottom: 12 }}>
             When on, a small dialog appears when a Basecamp-linked timer stops so you can edit the duration and choose Post or Discard. Nothing reaches Basecamp until you confirm.
           </div>
+          {appSettings.requireTimesheetConfirmation && (
+            <>
+              <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 8, paddingLeft: 16, flexWrap: 'wrap' }}>
+                <button
+                  className={`category-chip ${appSettings.timesheetReviewMode === 'eachStop' ? 'selected' : ''}`}
+                  onClick={() => updateAppSettings({ timesheetReviewMode: 'eachStop' })}
+                >
+                  As each timer stops
+                </button>
+                <button
+                  className={`category-chip ${appSettings.timesheetReviewMode === 'endOfDay' ? 'selected' : ''}`}
+                  onClick={() => updateAppSettings({ timesheetReviewMode: 'endOfDay' })}
+                >
+                  Once a day
+                </button>
+                {appSettings.timesheetReviewMode === 'endOfDay' && (
+                  <>
+                    <span style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>at</span>
+                    <input
+                      type="time"
+                      className="text-input"
+                      value={`${String(appSettings.timesheetReviewTime.hour).padStart(2, '0')}:${String(appSettings.timesheetReviewTime.minute).padStart(2, '0')}`}
+                      onChange={(e) => {
+                        const m = e.target.value.match(/^(\d{1,2}):(\d{2})$/);
+                        if (m) updateAppSettings({ timesheetReviewTime: { hour: parseInt(m[1], 10), minute: parseInt(m[2], 10) } });
+                      }}
+                      style={{ width: 110, fontSize: 12 }}
+                    />
+                  </>
+                )}
+              </div>
+              {appSettings.timesheetReviewMode === 'endOfDay' && (
+                <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginBottom: 12, paddingLeft: 16 }}>
+                  Stopped sessions wait quietly; at this time one window lists them all, grouped per to-do, to post together. Missed it? The Timesheet tab has a Review now button.
+                </div>
+              )}
+            </>
+          )}
 
           <div className="divider" />
 
@@ -786,15 +895,40 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
           )}
         </div>
       )}
+      {activeSection === 'general' && (
+        <DndCard settings={appSettings} onChange={updateAppSettings} />
+      )}
+      {activeSection === 'general' && (
+        <EmergencyAuditCard />
+      )}
+      {activeSection === 'general' && (
+        <AppTrackerCard settings={appSettings} onChange={updateAppSettings} />
+      )}
+      {activeSection === 'general' && (
+        <BillingCard
+          settings={appSettings}
+          accounts={bcAuthState?.isConnected ? bcAuthState.accounts ?? [] : []}
+          onChange={updateAppSettings}
+        />
+      )}
 
 
 
+      {/* Schedules Section — recurring focus blocks that drive status */}
+      {activeSection === 'schedules' && (
+        <SchedulesTab />
+      )}
+
       {/* Network Section — fully replaces the standalone Network tab.
           Includes peer connection diagnostics (local IP/port, manual connect)
           + WiFi info (signal, channel, nearby APs). The WiFi part is mainly
           a troubleshooting tool for the LAN peer-discovery feature. */}
       {activeSection === 'network' && (
-        <NetworkTab />
+        <>
+          <SecureTransportCard settings={appSettings} onChange={updateAppSettings} />
+          <RelayCard settings={appSettings} onChange={updateAppSettings} />
+          <NetworkTab />
+        </>
       )}
 
       {/* About Section */}
@@ -880,7 +1014,7 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
           <div style={{ marginTop: 16 }}>
             <div style={{ fontSize: 11, color: 'var(--zen-tertiary-text)', marginBottom: 8, lineHeight: 1.5 }}>
               Reset clears your account, time-tracking history, today/tomorrow plans,
-              recently-used to-dos, peer groups, Basecamp connection, and license.
+              recently-used to-dos, peer groups, focus schedules, Basecamp connection, and license.
               App preferences (mini-timer, break reminders, etc.) are kept — you can
               tweak them in Settings after signing back in.
             </div>
@@ -923,16 +1057,58 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
                 <div style={{ fontSize: 13, fontWeight: 600, color: 'var(--status-available)', marginBottom: 6 }}>
                   Connected
                 </div>
-                <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 2 }}>
-                  Account: {bcAuthState.account?.name}
-                </div>
-                {bcAuthState.identity && (
-                  <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>
-                    Identity: {bcAuthState.identity.firstName} {bcAuthState.identity.lastName}
+                {(bcAuthState.accounts?.length ?? 0) > 1 ? (
+                  <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 4 }}>
+                    {bcAuthState.accounts!.map((a) => {
+                      const active = a.id === bcAuthState.account?.id;
+                      return (
+                        <div key={a.id} className="hstack" style={{ gap: 8, alignItems: 'center' }}>
+                          <div style={{ flex: 1, minWidth: 0 }}>
+                            <div style={{ fontSize: 11, fontWeight: active ? 600 : 400, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                              {a.name}
+                            </div>
+                            <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                              {a.emailAddress}
+                            </div>
+                          </div>
+                          {active ? (
+                            <span style={{ fontSize: 10, color: 'var(--zen-tertiary-text)' }}>Default</span>
+                          ) : (
+                            <button className="category-chip" onClick={() => handleBcSetActiveAccount(a.id)} title="Use this account unless an item belongs to another">
+                              Make default
+                            </button>
+                          )}
+                          <button className="category-chip" onClick={() => handleBcDisconnectAccount(a.id, a.name)}>
+                            Disconnect
+                          </button>
+                        </div>
+                      );
+                    })}
                   </div>
+                ) : (
+                  <>
+                    <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 2 }}>
+                      Account: {bcAuthState.account?.name}
+                    </div>
+                    {bcAuthState.identity && (
+                      <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)' }}>
+                        Identity: {bcAuthState.identity.firstName} {bcAuthState.identity.lastName}
+                      </div>
+                    )}
+                  </>
                 )}
               </div>
 
+              <button
+                className="btn btn-secondary"
+                style={{ width: '100%', marginBottom: 12 }}
+                onClick={handleBcConnect}
+                disabled={bcConnecting}
+                title="Sign in with another Basecamp login to add its accounts"
+              >
+                {bcConnecting ? 'Connecting…' : 'Connect another account'}
+              </button>
+
               <div style={{
                 padding: '12px 16px',
                 borderRadius: 10,
@@ -961,7 +1137,7 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
               )}
 
               <button className="btn btn-danger" style={{ width: '100%' }} onClick={handleBcDisconnect}>
-                Disconnect
+                {(bcAuthState.accounts?.length ?? 0) > 1 ? 'Disconnect all' : 'Disconnect'}
               </button>
             </>
           ) : (
@@ -1053,6 +1229,10 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
         </div>
       )}
 
+      {activeSection === 'basecamp' && bcAuthState?.isConnected && (
+        <RoundingCard settings={appSettings} accounts={bcAuthState.accounts ?? []} onChange={updateAppSettings} />
+      )}
+
       {/* License Section */}
       {activeSection === 'license' && (
         <div className="card">
@@ -1138,70 +1318,7 @@ export default function SettingsTab({ currentUser, peers, isPro, licenseState, o
 
       {/* Admin Section */}
       {activeSection === 'admin' && isAdmin && (
-        <>
-          <div className="card">
-            <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Emergency Access</div>
-            <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 12 }}>
-              Grant urgent request access to team members in Focus mode
-            </div>
-            {peers.length === 0 ? (
-              <div style={{ fontSize: 12, color: 'var(--zen-tertiary-text)', textAlign: 'center', padding: 16 }}>
-                No team members connected
-              </div>
-            ) : (
-              peers.map((peer) => (
-                <div key={peer.id} style={{ display: 'flex', alignItems: 'center', gap: 10, padding: '6px 0' }}>
-                  <div style={{
-                    width: 28,
-                    height: 28,
-                    borderRadius: '50%',
-                    background: peer.avatarColor || '#8E8E93',
-                    display: 'flex',
-                    alignItems: 'center',
-                    justifyContent: 'center',
-                    fontSize: 14,
-                    overflow: 'hidden',
-                  }}>
-                    {peer.avatarImageData ? (
-                      <img src={`data:image/png;base64,${peer.avatarImageData}`} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
-                    ) : peer.avatarEmoji ? (
-                      peer.avatarEmoji
-                    ) : (
-                      <span style={{ fontSize: 11, fontWeight: 600, color: 'white' }}>{peer.name.charAt(0).toUpperCase()}</span>
-                    )}
-                  </div>
-                  <span style={{ fontSize: 13, flex: 1 }}>{peer.name}</span>
-                  <button
-                    onClick={() => handleToggleEmergencyAccess(peer.id, peer.canSendEmergency)}
-                    style={{
-                      width: 44,
-                      height: 24,
-                      borderRadius: 12,
-                      border: 'none',
-                      background: peer.canSendEmergency ? '#FF3B30' : 'var(--zen-secondary-bg)',
-                      cursor: 'pointer',
-                      position: 'relative',
-                      transition: 'background 0.2s ease',
-                    }}
-                  >
-                    <div style={{
-                      width: 20,
-                      height: 20,
-                      borderRadius: '50%',
-                      background: 'white',
-                      position: 'absolute',
-                      top: 2,
-                      left: peer.canSendEmergency ? 22 : 2,
-                      transition: 'left 0.2s ease',
-                      boxShadow: '0 1px 3px rgba(0,0,0,0.3)',
-                    }} />
-                  </button>
-                </div>
-              ))
-            )}
-          </div>
-
-        </>
+        <EmergencyPolicyCard peers={peers} />
       )}
     </div>
   );
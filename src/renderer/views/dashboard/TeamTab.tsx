@@ -1,7 +1,11 @@
 import React, { useState, useMemo, useEffect } from 'react';
 import { Megaphone, X } from 'lucide-react';
-import { User, AvailabilityStatus, IPC, ReceivedPing } from '../../../shared/types';
+import { User, AvailabilityStatus, IPC, ReceivedPing, KnownPeer, OutboundMessage, PingReply, PING_QUICK_REPLIES, MeetingSlot, MeetingReminder, EmergencyPolicy } from '../../../shared/types';
+import { describeSlot } from '../../../shared/meetingSlots';
 import SendPingSheet from '../../components/SendPingSheet';
+import DeliveryBadge from '../../components/DeliveryBadge';
+import TeamCalendar from '../../components/TeamCalendar';
+import ProposeSlots from '../../components/ProposeSlots';
 
 interface Props {
   currentUser: User;
@@ -33,6 +37,20 @@ function formatDuration(seconds: number): string {
   return `${m}m`;
 }
 
+// "last seen 5m ago" / "2h ago" / "3d ago", then a date past two weeks.
+function formatLastSeen(iso: string): string {
+  const ago = (Date.now() - new Date(iso).getTime()) / 1000;
+  if (ago < 60) return 'just now';
+  if (ago < 3600) return `${Math.round(ago / 60)}m ago`;
+  if (ago < 86400) return `${Math.round(ago / 3600)}h ago`;
+  if (ago < 14 * 86400) return `${Math.round(ago / 86400)}d ago`;
+  return new Date(iso).toLocaleDateString();
+}
+
+// Matches STALE_PEER_AGE_MS in main — only used to decide whether to offer
+// the "Forget stale" button.
+const STALE_AGE_MS = 30 * 24 * 60 * 60 * 1000;
+
 export default function TeamTab({ currentUser, peers }: Props) {
   const [searchText, setSearchText] = useState('');
   const [pendingRequests, setPendingRequests] = useState<Record<string, boolean>>({});
@@ -40,8 +58,96 @@ export default function TeamTab({ currentUser, peers }: Props) {
   const [sentConfirms, setSentConfirms] = useState<Record<string, boolean>>({});
   const [messagePopup, setMessagePopup] = useState<string | null>(null);
   const [messageText, setMessageText] = useState('');
+  const [requestSlots, setRequestSlots] = useState<MeetingSlot[]>([]);
+  const [upcomingMeetings, setUpcomingMeetings] = useState<MeetingReminder[]>([]);
+  const [emergencyPolicy, setEmergencyPolicy] = useState<EmergencyPolicy | null>(null);
+  const [emergencyReasonFor, setEmergencyReasonFor] = useState<string | null>(null);
+  const [emergencyReason, setEmergencyReason] = useState('');
+  const [emergencyErrors, setEmergencyErrors] = useState<Record<string, string>>({});
   const [showPingSheet, setShowPingSheet] = useState(false);
   const [recentPings, setRecentPings] = useState<ReceivedPing[]>([]);
+  const [directory, setDirectory] = useState<KnownPeer[]>([]);
+  const [outbox, setOutbox] = useState<OutboundMessage[]>([]);
+  const [replies, setReplies] = useState<PingReply[]>([]);
+
+  useEffect(() => {
+    window.zenstate.teamGetPingReplies().then(setReplies).catch(() => {});
+    return window.zenstate.on(IPC.TEAM_PING_REPLIES_CHANGED, (next: unknown) => {
+      setReplies(next as PingReply[]);
+    });
+  }, []);
+
+  async function sendReply(conversationId: string, toId: string, message: string) {
+    const next = await window.zenstate.teamReplyPing({ conversationId, toId, message }).catch(() => null);
+    if (next) setReplies(next);
+  }
+
+  // Replies between us and one teammate in one conversation, oldest first.
+  const threadWith = (conversationId: string | undefined, userId: string) =>
+    replies.filter((r) => r.conversationId === conversationId && (r.fromId === userId || r.toId === userId));
+
+  useEffect(() => {
+    window.zenstate.meetingRemindersGet().then(setUpcomingMeetings).catch(() => {});
+    return window.zenstate.on(IPC.MEETING_REMINDERS_CHANGED, (next: unknown) => {
+      setUpcomingMeetings(next as MeetingReminder[]);
+    });
+  }, []);
+
+  useEffect(() => {
+    window.zenstate.emergencyPolicyGet().then(setEmergencyPolicy).catch(() => {});
+    return window.zenstate.on(IPC.EMERGENCY_POLICY_CHANGED, (next: unknown) => {
+      setEmergencyPolicy(next as EmergencyPolicy);
+    });
+  }, []);
+
+  async function removeUpcomingMeeting(id: string) {
+    const next = await window.zenstate.meetingRemindersRemove(id).catch(() => null);
+    if (next) setUpcomingMeetings(next);
+  }
+
+  useEffect(() => {
+    window.zenstate.outboxGet().then(setOutbox).catch(() => {});
+    return window.zenstate.on(IPC.OUTBOX_CHANGED, (entries: unknown) => {
+      setOutbox(entries as OutboundMessage[]);
+    });
+  }, []);
+
+  // Sent pings, one row per message with each recipient's delivery state.
+  const sentPings = useMemo(() => {
+    const byId = new Map<string, OutboundMessage[]>();
+    for (const e of outbox) {
+      if (e.kind !== 'ping') continue;
+      byId.set(e.id, [...(byId.get(e.id) ?? []), e]);
+    }
+    return Array.from(byId.values());
+  }, [outbox]);
+
+  // Names for the calendar rows — remembered teammates, then whoever's online.
+  const teammateNames = useMemo(() => {
+    const names: Record<string, string> = {};
+    for (const entry of directory) names[entry.user.id] = entry.user.name;
+    for (const peer of peers) names[peer.id] = peer.name;
+    return names;
+  }, [directory, peers]);
+
+  const queuedFor = (userId: string) =>
+    outbox.filter((e) => e.recipientId === userId && e.state === 'queued').length;
+
+  // Latest meeting request per teammate, for the state under "Cancel Request".
+  const meetingRequestState = useMemo(() => {
+    const latest: Record<string, OutboundMessage> = {};
+    for (const e of outbox) {
+      if (e.kind === 'meetingRequest' && !latest[e.recipientId]) latest[e.recipientId] = e;
+    }
+    return latest;
+  }, [outbox]);
+
+  useEffect(() => {
+    window.zenstate.teamDirectoryGet().then(setDirectory).catch(() => {});
+    return window.zenstate.on(IPC.TEAM_DIRECTORY_CHANGED, (entries: unknown) => {
+      setDirectory(entries as KnownPeer[]);
+    });
+  }, []);
 
   useEffect(() => {
     let pingArrived = false;
@@ -60,6 +166,19 @@ export default function TeamTab({ currentUser, peers }: Props) {
     if (next) setRecentPings(next);
   }
 
+  // Pings on screen count as read — let their senders know. Waits while the
+  // dashboard is hidden so a ping arriving in the background stays unread.
+  useEffect(() => {
+    if (!recentPings.some((p) => p.messageId && !p.read)) return;
+    const markRead = () => {
+      if (document.visibilityState !== 'visible') return;
+      window.zenstate.teamMarkPingsRead().then(setRecentPings).catch(() => {});
+    };
+    markRead();
+    document.addEventListener('visibilitychange', markRead);
+    return () => document.removeEventListener('visibilitychange', markRead);
+  }, [recentPings]);
+
   function formatRelativeTs(iso: string): string {
     const ago = (Date.now() - new Date(iso).getTime()) / 1000;
     if (ago < 60) return 'just now';
@@ -97,6 +216,32 @@ export default function TeamTab({ currentUser, peers }: Props) {
     );
   }, [onlinePeers, searchText]);
 
+  // Everyone we've seen before who isn't online right now, most recent first.
+  const offlineMembers = useMemo(() => {
+    const onlineIds = new Set(onlinePeers.map((p) => p.id));
+    const q = searchText.toLowerCase();
+    return directory.filter((entry) =>
+      entry.user.id !== currentUser.id
+      && !onlineIds.has(entry.user.id)
+      && (!q || entry.user.name.toLowerCase().includes(q) || entry.user.username.toLowerCase().includes(q))
+    );
+  }, [directory, onlinePeers, currentUser.id, searchText]);
+
+  const hasStaleEntries = useMemo(
+    () => offlineMembers.some((e) => Date.now() - new Date(e.lastSeen).getTime() > STALE_AGE_MS),
+    [offlineMembers],
+  );
+
+  async function handleForget(entry: KnownPeer) {
+    if (!confirm(`Remove ${entry.user.name} from your team list? They'll reappear next time they come online.`)) return;
+    setDirectory(await window.zenstate.teamDirectoryForget(entry.user.id));
+  }
+
+  async function handleForgetStale() {
+    if (!confirm('Remove everyone not seen in the last 30 days?')) return;
+    setDirectory(await window.zenstate.teamDirectoryForgetStale());
+  }
+
   const presenceCounts = useMemo(() => ({
     available: allMembers.filter((u) => u.status === AvailabilityStatus.Available).length,
     occupied: allMembers.filter((u) => u.status === AvailabilityStatus.Occupied).length,
@@ -104,8 +249,9 @@ export default function TeamTab({ currentUser, peers }: Props) {
     total: allMembers.length,
   }), [allMembers]);
 
-  function handleSendRequest(userId: string, message?: string) {
-    window.zenstate.sendMeetingRequest(userId, message);
+  // With `slots`, a request for one of those times rather than now.
+  function handleSendRequest(userId: string, message?: string, slots?: MeetingSlot[]) {
+    window.zenstate.sendMeetingRequest(userId, message, slots?.length ? slots : undefined);
     setPendingRequests((prev) => ({ ...prev, [userId]: true }));
     setSentConfirms((prev) => ({ ...prev, [userId]: true }));
     setTimeout(() => {
@@ -135,8 +281,18 @@ export default function TeamTab({ currentUser, peers }: Props) {
     });
   }
 
-  function handleSendEmergency(userId: string) {
-    window.zenstate.sendEmergencyRequest(userId);
+  // The team policy may ask for a reason first, and main may still refuse
+  // (not allowed, daily limit) — the refusal shows on the card.
+  async function handleSendEmergency(userId: string, reason?: string) {
+    const result = await window.zenstate.sendEmergencyRequest(userId, reason).catch(() => ({ ok: false, error: 'Could not send' }));
+    if (!result.ok) {
+      setEmergencyErrors((prev) => ({ ...prev, [userId]: result.error ?? 'Could not send' }));
+      return;
+    }
+    setEmergencyErrors((prev) => {
+      const { [userId]: _, ...rest } = prev;
+      return rest;
+    });
     setCooldowns((prev) => ({ ...prev, [`emergency_${userId}`]: 60 }));
     const interval = setInterval(() => {
       setCooldowns((prev) => {
@@ -221,6 +377,14 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     <span>·</span>
                     <span>{formatRelativeTs(p.timestamp)}</span>
                   </div>
+                  {p.conversationId && (
+                    <PingThread
+                      replies={threadWith(p.conversationId, p.senderId)}
+                      currentUserId={currentUser.id}
+                      outbox={outbox}
+                      onReply={(text) => sendReply(p.conversationId!, p.senderId, text)}
+                    />
+                  )}
                 </div>
                 <button
                   onClick={() => dismissPing(p.id)}
@@ -238,6 +402,52 @@ export default function TeamTab({ currentUser, peers }: Props) {
         </div>
       )}
 
+      {/* Sent pings — per-recipient delivery state, including anyone the
+          ping is still queued for. */}
+      {sentPings.length > 0 && (
+        <div className="card" style={{ marginBottom: 16 }}>
+          <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 10, color: 'var(--zen-text)' }}>
+            Sent
+          </div>
+          <div style={{ display: 'flex', flexDirection: 'column', gap: 6, maxHeight: 220, overflowY: 'auto' }}>
+            {sentPings.map((entries) => (
+              <div key={entries[0].id} style={{
+                padding: '8px 12px',
+                borderRadius: 'var(--radius-sm)',
+                background: 'var(--zen-tertiary-bg)',
+                border: '1px solid var(--zen-divider)',
+              }}>
+                <div style={{ display: 'flex', gap: 8, alignItems: 'baseline' }}>
+                  <div style={{ flex: 1, fontSize: 13, color: 'var(--zen-text)', lineHeight: 1.4 }}>{entries[0].text}</div>
+                  <span style={{ fontSize: 11, color: 'var(--zen-tertiary-text)' }}>{formatRelativeTs(entries[0].createdAt)}</span>
+                </div>
+                <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px', marginTop: 4 }}>
+                  {entries.map((e) => (
+                    <span key={e.recipientId} style={{ display: 'inline-flex', alignItems: 'center', gap: 5, fontSize: 11, color: 'var(--zen-secondary-text)' }}>
+                      {e.recipientName} <DeliveryBadge state={e.state} />
+                    </span>
+                  ))}
+                </div>
+                {/* One thread per recipient who answered */}
+                {entries.map((e) => {
+                  const thread = threadWith(e.conversationId, e.recipientId);
+                  if (thread.length === 0) return null;
+                  return (
+                    <PingThread
+                      key={e.recipientId}
+                      replies={thread}
+                      currentUserId={currentUser.id}
+                      outbox={outbox}
+                      onReply={(text) => sendReply(e.conversationId!, e.recipientId, text)}
+                    />
+                  );
+                })}
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       {/* Presence Summary */}
       <div className="card" style={{ display: 'flex', gap: 24, padding: '12px 16px' }}>
         <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
@@ -255,7 +465,7 @@ export default function TeamTab({ currentUser, peers }: Props) {
       </div>
 
       {/* Search */}
-      {onlinePeers.length > 3 && (
+      {onlinePeers.length + offlineMembers.length > 3 && (
         <div style={{ marginBottom: 16 }}>
           <input
             className="text-input"
@@ -367,26 +577,47 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     Wait {cooldowns[peer.id]}s
                   </button>
                 ) : peer.status === AvailabilityStatus.Focused ? (
-                  // Focused users: only show emergency button for authorized users
-                  (currentUser.canSendEmergency || currentUser.isAdmin) && (
-                    cooldowns[`emergency_${peer.id}`] ? (
-                      <button
-                        className="btn btn-secondary"
-                        style={{ flex: 1, fontSize: 10 }}
-                        disabled
-                      >
-                        Wait {cooldowns[`emergency_${peer.id}`]}s
-                      </button>
-                    ) : (
-                      <button
-                        className="btn btn-danger"
-                        style={{ flex: 1, fontSize: 10 }}
-                        onClick={() => handleSendEmergency(peer.id)}
-                      >
-                        🚨 Emergency Request
-                      </button>
-                    )
-                  )
+                  // Focused users: a request for later, and the emergency
+                  // button for authorized users
+                  <>
+                    <button
+                      className={messagePopup === peer.id ? 'btn btn-danger' : 'btn btn-secondary'}
+                      style={{ flex: 1, fontSize: 10 }}
+                      onClick={() => {
+                        setMessagePopup(messagePopup === peer.id ? null : peer.id);
+                        setMessageText('');
+                        setRequestSlots([]);
+                      }}
+                    >
+                      {messagePopup === peer.id ? 'Close' : 'Propose a Time'}
+                    </button>
+                    {(currentUser.canSendEmergency || currentUser.isAdmin) && (
+                      cooldowns[`emergency_${peer.id}`] ? (
+                        <button
+                          className="btn btn-secondary"
+                          style={{ flex: 1, fontSize: 10 }}
+                          disabled
+                        >
+                          Wait {cooldowns[`emergency_${peer.id}`]}s
+                        </button>
+                      ) : (
+                        <button
+                          className="btn btn-danger"
+                          style={{ flex: 1, fontSize: 10 }}
+                          onClick={() => {
+                            if (!emergencyPolicy?.requireReason) {
+                              handleSendEmergency(peer.id);
+                              return;
+                            }
+                            setEmergencyReasonFor(emergencyReasonFor === peer.id ? null : peer.id);
+                            setEmergencyReason('');
+                          }}
+                        >
+                          🚨 Emergency Request
+                        </button>
+                      )
+                    )}
+                  </>
                 ) : (
                   <button
                     className={messagePopup === peer.id ? 'btn btn-danger' : 'btn btn-primary'}
@@ -394,6 +625,7 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     onClick={() => {
                       setMessagePopup(messagePopup === peer.id ? null : peer.id);
                       setMessageText('');
+                      setRequestSlots([]);
                     }}
                   >
                     {messagePopup === peer.id ? 'Close' : 'Request Meeting'}
@@ -401,6 +633,64 @@ export default function TeamTab({ currentUser, peers }: Props) {
                 )}
               </div>
 
+              {emergencyErrors[peer.id] && (
+                <div style={{ marginTop: 6, fontSize: 10, color: 'var(--status-focused)', textAlign: 'center' }}>
+                  {emergencyErrors[peer.id]}
+                </div>
+              )}
+
+              {/* Reason for an emergency, when the team policy asks for one */}
+              {emergencyReasonFor === peer.id && (
+                <div style={{
+                  marginTop: 8,
+                  padding: 12,
+                  background: 'var(--zen-tertiary-bg)',
+                  borderRadius: 10,
+                  border: '1px solid var(--zen-divider)',
+                }}>
+                  <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 8 }}>
+                    Why is this urgent?
+                  </div>
+                  <input
+                    className="text-input"
+                    placeholder="Your team asks for a reason..."
+                    value={emergencyReason}
+                    onChange={(e) => setEmergencyReason(e.target.value)}
+                    autoFocus
+                    onKeyDown={(e) => {
+                      if (e.key === 'Enter' && emergencyReason.trim()) {
+                        handleSendEmergency(peer.id, emergencyReason.trim());
+                        setEmergencyReasonFor(null);
+                      }
+                      if (e.key === 'Escape') setEmergencyReasonFor(null);
+                    }}
+                    style={{ marginBottom: 8 }}
+                  />
+                  <div style={{ display: 'flex', gap: 8, justifyContent: 'flex-end' }}>
+                    <button className="btn btn-secondary" style={{ fontSize: 10 }} onClick={() => setEmergencyReasonFor(null)}>
+                      Cancel
+                    </button>
+                    <button
+                      className="btn btn-danger"
+                      style={{ fontSize: 10 }}
+                      disabled={!emergencyReason.trim()}
+                      onClick={() => {
+                        handleSendEmergency(peer.id, emergencyReason.trim());
+                        setEmergencyReasonFor(null);
+                      }}
+                    >
+                      Send emergency
+                    </button>
+                  </div>
+                </div>
+              )}
+
+              {pendingRequests[peer.id] && meetingRequestState[peer.id] && (
+                <div style={{ marginTop: 6, display: 'flex', justifyContent: 'center' }}>
+                  <DeliveryBadge state={meetingRequestState[peer.id].state} />
+                </div>
+              )}
+
               {/* Meeting request message popup */}
               {messagePopup === peer.id && (
                 <div style={{
@@ -413,6 +703,16 @@ export default function TeamTab({ currentUser, peers }: Props) {
                   <div style={{ fontSize: 13, fontWeight: 600, marginBottom: 8 }}>
                     Request meeting with {peer.name}
                   </div>
+                  {/* Times to offer instead of now — a Focused teammate can
+                      only be asked for later */}
+                  <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 6 }}>
+                    {peer.status === AvailabilityStatus.Focused ? 'When? (pick at least one)' : 'Now, or propose times:'}
+                  </div>
+                  <ProposeSlots
+                    slots={requestSlots}
+                    onChange={setRequestSlots}
+                    allowAfterFocus={peer.status === AvailabilityStatus.Focused}
+                  />
                   <input
                     className="text-input"
                     placeholder="Add a message (optional)..."
@@ -421,7 +721,8 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     autoFocus
                     onKeyDown={(e) => {
                       if (e.key === 'Enter') {
-                        handleSendRequest(peer.id, messageText || undefined);
+                        if (peer.status === AvailabilityStatus.Focused && requestSlots.length === 0) return;
+                        handleSendRequest(peer.id, messageText || undefined, requestSlots);
                         setMessagePopup(null);
                         setMessageText('');
                       }
@@ -436,8 +737,9 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     <button
                       className="btn btn-secondary"
                       style={{ fontSize: 10 }}
+                      disabled={peer.status === AvailabilityStatus.Focused && requestSlots.length === 0}
                       onClick={() => {
-                        handleSendRequest(peer.id);
+                        handleSendRequest(peer.id, undefined, requestSlots);
                         setMessagePopup(null);
                         setMessageText('');
                       }}
@@ -447,8 +749,9 @@ export default function TeamTab({ currentUser, peers }: Props) {
                     <button
                       className="btn btn-primary"
                       style={{ fontSize: 10 }}
+                      disabled={peer.status === AvailabilityStatus.Focused && requestSlots.length === 0}
                       onClick={() => {
-                        handleSendRequest(peer.id, messageText || undefined);
+                        handleSendRequest(peer.id, messageText || undefined, requestSlots);
                         setMessagePopup(null);
                         setMessageText('');
                       }}
@@ -463,9 +766,171 @@ export default function TeamTab({ currentUser, peers }: Props) {
         )}
       </div>
 
+      {/* Offline — remembered from earlier sessions, frozen at disconnect */}
+      {offlineMembers.length > 0 && (
+        <>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 8, margin: '20px 0 10px' }}>
+            <div style={{ fontSize: 12, fontWeight: 600, color: 'var(--zen-secondary-text)' }}>
+              Offline · {offlineMembers.length}
+            </div>
+            <div style={{ flex: 1 }} />
+            {hasStaleEntries && (
+              <button className="btn btn-secondary" style={{ fontSize: 10 }} onClick={handleForgetStale}>
+                Forget stale
+              </button>
+            )}
+          </div>
+          <div className="team-grid">
+            {offlineMembers.map((entry) => {
+              const peer = entry.user;
+              return (
+                <div key={peer.id} className="card team-card" style={{ opacity: 0.55 }}>
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 8 }}>
+                    <div style={{
+                      width: 44,
+                      height: 44,
+                      borderRadius: '50%',
+                      background: peer.avatarColor || '#8E8E93',
+                      display: 'flex',
+                      alignItems: 'center',
+                      justifyContent: 'center',
+                      fontSize: 22,
+                      filter: 'grayscale(1)',
+                      overflow: 'hidden',
+                      flexShrink: 0,
+                    }}>
+                      {peer.avatarImageData ? (
+                        <img src={`data:image/png;base64,${peer.avatarImageData}`} style={{ width: '100%', height: '100%', objectFit: 'cover' }} />
+                      ) : peer.avatarEmoji ? (
+                        peer.avatarEmoji
+                      ) : (
+                        <span style={{ fontSize: 16, fontWeight: 600, color: 'white' }}>{peer.name.charAt(0).toUpperCase()}</span>
+                      )}
+                    </div>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontSize: 14, fontWeight: 600, whiteSpace: 'nowrap', overflow: 'hidden', textOverflow: 'ellipsis' }}>
+                        {peer.name}
+                      </div>
+                      <div style={{ fontSize: 11, color: 'var(--status-offline)' }}>
+                        ● Last seen {formatLastSeen(entry.lastSeen)}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => handleForget(entry)}
+                      title="Forget"
+                      style={{ background: 'transparent', border: 'none', cursor: 'pointer', color: 'var(--zen-tertiary-text)', display: 'flex', padding: 4, borderRadius: 4 }}
+                    >
+                      <X size={13} />
+                    </button>
+                  </div>
+                  {queuedFor(peer.id) > 0 && (
+                    <div style={{ fontSize: 10, color: 'var(--zen-secondary-text)', marginBottom: 4 }}>
+                      🕓 {queuedFor(peer.id)} queued — delivered when they're back
+                    </div>
+                  )}
+                  <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)' }}>
+                    {peer.currentFocusSession
+                      ? `🎯 Was on ${peer.currentFocusSession.taskLabel} (${formatDuration(peer.currentFocusSession.duration)})`
+                      : peer.status !== AvailabilityStatus.Offline
+                        ? `Was ${getStatusLabel(peer.status)}`
+                        : `Total focus: ${formatDuration(peer.totalFocusTime)}`}
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </>
+      )}
+
+      {/* Meetings agreed for later — each side gets a reminder when it's due */}
+      {upcomingMeetings.length > 0 && (
+        <div className="card" style={{ marginTop: 20 }}>
+          <div style={{ fontSize: 12, fontWeight: 600, marginBottom: 8 }}>Upcoming meetings</div>
+          {upcomingMeetings.map((m) => (
+            <div key={m.id} style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 12, padding: '4px 0' }}>
+              <span style={{ flex: 1 }}>
+                <strong>{m.withName}</strong> {describeSlot({ id: m.id, kind: 'at', at: m.at }, 'their')}
+                {m.message && <span style={{ color: 'var(--zen-secondary-text)' }}> · {m.message}</span>}
+              </span>
+              <button className="footer-btn" onClick={() => removeUpcomingMeeting(m.id)} title="Remove reminder">
+                <X size={12} />
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <TeamCalendar names={teammateNames} />
+
       {showPingSheet && (
         <SendPingSheet peers={peers} onClose={() => setShowPingSheet(false)} />
       )}
     </div>
   );
 }
+
+// ── Sub-components ──────────────────────────────────────────────
+
+// A ping's replies with one teammate, plus the quick-reply chips and a
+// free-text field. Our own replies carry their delivery state.
+function PingThread({ replies, currentUserId, outbox, onReply }: {
+  replies: PingReply[];
+  currentUserId: string;
+  outbox: OutboundMessage[];
+  onReply: (text: string) => void;
+}) {
+  const [composing, setComposing] = useState(false);
+  const [text, setText] = useState('');
+
+  function send(message: string) {
+    onReply(message);
+    setComposing(false);
+    setText('');
+  }
+
+  return (
+    <div style={{ marginTop: 6 }}>
+      {replies.map((r) => {
+        const mine = r.fromId === currentUserId;
+        const entry = mine ? outbox.find((e) => e.id === r.id) : undefined;
+        return (
+          <div key={r.id} style={{
+            display: 'flex', alignItems: 'baseline', gap: 6,
+            fontSize: 12, lineHeight: 1.4,
+            padding: '3px 0 3px 8px',
+            borderLeft: `2px solid ${mine ? 'var(--zen-primary)' : 'var(--zen-divider)'}`,
+          }}>
+            <span style={{ fontWeight: 500, color: 'var(--zen-secondary-text)', flexShrink: 0 }}>{mine ? 'You' : r.fromName}</span>
+            <span style={{ flex: 1, color: 'var(--zen-text)' }}>{r.message}</span>
+            {entry && <DeliveryBadge state={entry.state} />}
+          </div>
+        );
+      })}
+      {composing ? (
+        <input
+          className="text-input"
+          placeholder="Reply…"
+          value={text}
+          autoFocus
+          onChange={(e) => setText(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter' && text.trim()) send(text.trim());
+            if (e.key === 'Escape') { setComposing(false); setText(''); }
+          }}
+          style={{ marginTop: 6, fontSize: 12 }}
+        />
+      ) : (
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 4, marginTop: 6 }}>
+          {PING_QUICK_REPLIES.map((preset) => (
+            <button key={preset} className="category-chip" onClick={() => send(preset)}>
+              {preset}
+            </button>
+          ))}
+          <button className="category-chip" style={{ borderStyle: 'dashed' }} onClick={() => setComposing(true)}>
+            Reply…
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,8 +1,12 @@
 import React, { useState, useMemo, useEffect } from 'react';
-import { Pencil, Trash2, FileText, Download, Plus } from 'lucide-react';
-import { DailyRecord, DailySession } from '../../../shared/types';
+import { Pencil, Trash2, FileText, Download, Plus, RefreshCw, GitCompare } from 'lucide-react';
+import { AppSettings, DailyRecord, DailySession, IPC, TimesheetSyncOp, TimesheetSyncStatus, SuggestedSession } from '../../../shared/types';
+import { billingValue, formatMoney, sessionBilling } from '../../../shared/billing';
 import SessionEditModal from '../../components/SessionEditModal';
 import AddSessionModal from '../../components/AddSessionModal';
+import ReconcileModal from '../../components/ReconcileModal';
+import SegmentBar from '../../components/SegmentBar';
+import UntrackedLane from '../../components/UntrackedLane';
 import Toast, { useToast } from '../../components/Toast';
 // Plain neutral tag for legacy session.category data — no per-category colors anymore.
 const plainCategoryTagStyle: React.CSSProperties = {
@@ -15,6 +19,14 @@ const plainCategoryTagStyle: React.CSSProperties = {
   border: '1px solid var(--zen-divider)',
   color: 'var(--zen-secondary-text)',
 };
+// Row badge for sessions with a Basecamp write still in the sync queue.
+const pendingSyncTagStyle: React.CSSProperties = {
+  display: 'inline-flex', alignItems: 'center', gap: 3,
+  fontSize: 9, fontWeight: 600, padding: '1px 5px',
+  borderRadius: 4, background: 'var(--zen-tertiary-bg)',
+  border: '1px solid var(--zen-divider)', color: 'var(--zen-secondary-text)',
+  whiteSpace: 'nowrap',
+};
 import { ProBadge } from '../../components/ProGate';
 
 interface Props {
@@ -25,6 +37,10 @@ interface Props {
 
 type StatPeriod = 'all' | 'month' | 'week' | 'today';
 
+// Stable empty list for days without a record, so the untracked lane doesn't
+// refetch on every render.
+const NO_SESSIONS: DailySession[] = [];
+
 function formatTime(seconds: number): string {
   const h = Math.floor(seconds / 3600);
   const m = Math.floor((seconds % 3600) / 60);
@@ -64,6 +80,12 @@ function getStartOfWeek(): Date {
   return d;
 }
 
+// Local YYYY-MM-DD of an ISO timestamp.
+function isoDateOf(iso: string): string {
+  const d = new Date(iso);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+}
+
 function formatDateLabel(dateStr: string): string {
   const d = new Date(dateStr + 'T00:00:00');
   return d.toLocaleDateString('en-US', { weekday: 'long', month: 'short', day: 'numeric' });
@@ -73,6 +95,8 @@ function formatDateLabel(dateStr: string): string {
 interface UpdateSessionResult {
   ok: boolean;
   basecampSynced: boolean;
+  basecampQueued?: boolean;
+  basecampConflict?: boolean;
   needsManualFix: boolean;
   error?: string;
 }
@@ -80,18 +104,19 @@ interface UpdateSessionResult {
 interface DeleteSessionResult {
   ok: boolean;
   basecampDeleted: boolean;
+  basecampQueued?: boolean;
   hadBasecampLink: boolean;
   error?: string;
 }
 
 function basecampEntryUrl(session: DailySession): string | undefined {
-  const bc = session.basecamp;
-  if (!bc) return undefined;
+  if (session.link?.provider !== 'basecamp') return undefined;
+  const bc = session.link.ref;
   return `https://3.basecamp.com/${bc.accountId}/buckets/${bc.projectId}/todos/${bc.todoId}`;
 }
 
 function isLegacySession(session: DailySession): boolean {
-  return !!(session.basecamp?.synced === true && !session.basecamp?.entryId);
+  return !!(session.link?.synced === true && !session.link?.entryId);
 }
 
 export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props) {
@@ -104,7 +129,53 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
   // "+ Add session" — log time the user spent without having started a timer.
   // Posts to Basecamp immediately for linked entries.
   const [addingSession, setAddingSession] = useState(false);
+  // Side-by-side check of local sessions vs the user's Basecamp entries.
+  const [reconciling, setReconciling] = useState(false);
   const { toasts, addToast, dismiss } = useToast();
+  // Basecamp writes that haven't landed yet (offline, failing, or conflicted).
+  const [syncStatus, setSyncStatus] = useState<TimesheetSyncStatus | null>(null);
+
+  useEffect(() => {
+    window.zenstate.bcSyncGetStatus().then(setSyncStatus).catch(() => {});
+    return window.zenstate.on(IPC.BC_SYNC_CHANGED, (status: unknown) => {
+      setSyncStatus(status as TimesheetSyncStatus);
+    });
+  }, []);
+
+  // Time the app tracker matched to a rule with no timer running (suggest mode).
+  const [suggestions, setSuggestions] = useState<SuggestedSession[]>([]);
+
+  useEffect(() => {
+    window.zenstate.appSuggestionsGet().then(setSuggestions).catch(() => {});
+    return window.zenstate.on(IPC.APP_SUGGESTIONS_CHANGED, (next: unknown) => {
+      setSuggestions(next as SuggestedSession[]);
+    });
+  }, []);
+
+  // Sessions queued for the end-of-day review ("review later" mode).
+  const [reviewCount, setReviewCount] = useState(0);
+
+  useEffect(() => {
+    window.zenstate.timesheetReviewGetCount().then(setReviewCount).catch(() => {});
+    return window.zenstate.on(IPC.TIMESHEET_REVIEW_CHANGED, (count: unknown) => {
+      setReviewCount(count as number);
+    });
+  }, []);
+
+  // Billing rules, for the billable split — they're applied as set now.
+  const [settings, setSettings] = useState<AppSettings | null>(null);
+
+  useEffect(() => {
+    window.zenstate.getSettings().then(setSettings).catch(() => {});
+    return window.zenstate.on('settings:updated', (next: unknown) => {
+      setSettings(next as AppSettings);
+    });
+  }, []);
+
+  const pendingSessionIds = useMemo(
+    () => new Set((syncStatus?.ops ?? []).map((op) => op.sessionId)),
+    [syncStatus],
+  );
 
   // Filter records by period
   const filteredRecords = useMemo(() => {
@@ -130,21 +201,29 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
     const totalSessions = filteredRecords.reduce((sum, r) => sum + r.sessions.length, 0);
     const avgSession = totalSessions > 0 ? totalTime / totalSessions : 0;
 
-    // Category breakdown
+    // Category breakdown, and the billable split
     const categoryMap: Record<string, number> = {};
+    let billableTime = 0;
+    let billableValue = 0;
     filteredRecords.forEach((r) => {
       r.sessions.forEach((s) => {
         const cat = s.category || 'Uncategorized';
         categoryMap[cat] = (categoryMap[cat] || 0) + s.duration;
+        if (!settings) return;
+        const billing = sessionBilling(settings, s);
+        if (!billing.billable) return;
+        billableTime += s.duration;
+        billableValue += billingValue(s.duration, billing);
       });
     });
+    const nonBillableTime = totalTime - billableTime;
 
     const categories = Object.entries(categoryMap)
       .map(([name, time]) => ({ name, time, percentage: totalTime > 0 ? (time / totalTime) * 100 : 0 }))
       .sort((a, b) => b.time - a.time);
 
-    return { totalTime, totalSessions, avgSession, categories };
-  }, [filteredRecords]);
+    return { totalTime, totalSessions, avgSession, categories, billableTime, nonBillableTime, billableValue };
+  }, [filteredRecords, settings]);
 
   // Today's data
   const todayRecord = useMemo(() => {
@@ -201,6 +280,8 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
       addToast('error', res.error ?? 'Failed to delete session.');
     } else if (res.basecampDeleted) {
       addToast('success', 'Deleted — also removed from Basecamp');
+    } else if (res.basecampQueued) {
+      addToast('warning', 'Deleted locally. Basecamp will be updated once it\'s reachable.');
     } else if (res.hadBasecampLink && !res.basecampDeleted) {
       addToast('warning', 'Deleted locally. Basecamp entry could not be removed — remove it manually.', 'Open in Basecamp', basecampEntryUrl(session));
     } else {
@@ -208,7 +289,7 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
     }
   }
 
-  async function handleSaveEdit(sessionId: string, date: string, updates: { taskLabel: string; duration: number; notes: string; basecamp?: unknown }) {
+  async function handleSaveEdit(sessionId: string, date: string, updates: { taskLabel: string; duration: number; notes: string; link?: unknown; billing?: unknown }) {
     const bcUrl = editingSession ? basecampEntryUrl(editingSession.session) : undefined;
     const res: UpdateSessionResult = await window.zenstate.updateSession(sessionId, date, updates);
     onRefreshRecords();
@@ -218,6 +299,12 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
       addToast('error', res.error ?? 'Failed to update session.');
     } else if (res.basecampSynced) {
       addToast('success', 'Updated — synced to Basecamp');
+    } else if (res.basecampConflict) {
+      addToast('warning', 'Updated locally. This entry was also changed in Basecamp — pick a version above.');
+    } else if (res.basecampQueued) {
+      addToast('warning', 'Updated locally. Basecamp will be updated once it\'s reachable.');
+    } else if (res.error) {
+      addToast('error', `Updated locally. Basecamp rejected the change: ${res.error}`);
     } else if (res.needsManualFix) {
       addToast('warning', 'Updated locally. This session was created before v5.1 — also fix it in Basecamp', 'Open in Basecamp', bcUrl);
     } else {
@@ -237,7 +324,8 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
 
   // Build a CSV from the currently-filtered records and trigger a browser
   // download. Columns chosen to be useful for invoicing + auditing:
-  // date, task, project, hh:mm + decimal hours, notes, Basecamp sync state.
+  // date, task, project, hh:mm + decimal hours, notes, Basecamp sync state,
+  // and billing as it resolves now.
   function escapeCsv(v: string | number | undefined | null): string {
     if (v === undefined || v === null) return '';
     const s = String(v);
@@ -245,7 +333,7 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
     return s;
   }
   function handleDownloadCsv() {
-    const header = ['Date', 'Started', 'Task', 'Project', 'Category', 'Duration (h:m)', 'Decimal hours', 'Notes', 'Basecamp todo ID', 'Synced'];
+    const header = ['Date', 'Started', 'Task', 'Project', 'Category', 'Duration (h:m)', 'Decimal hours', 'Notes', 'Basecamp todo ID', 'Synced', 'Billable', 'Client', 'Rate', 'Value'];
     const rows: string[][] = [header];
     // Sort: oldest first within the CSV for spreadsheet readability.
     const sorted = [...filteredRecords].sort((a, b) => a.date.localeCompare(b.date));
@@ -259,6 +347,7 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
           const m = mins % 60;
           const hm = `${h}h ${m}m`;
           const dec = (s.duration / 3600).toFixed(2);
+          const billing = settings ? sessionBilling(settings, s) : null;
           rows.push([
             dateStr,
             s.startTime ? new Date(s.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : '',
@@ -268,8 +357,12 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
             hm,
             dec,
             s.notes ?? '',
-            s.basecamp?.todoId ? String(s.basecamp.todoId) : '',
-            s.basecamp?.synced ? 'yes' : (s.basecamp ? 'no' : ''),
+            s.link?.provider === 'basecamp' ? String(s.link.ref.todoId) : '',
+            s.link?.synced ? 'yes' : (s.link ? 'no' : ''),
+            billing ? (billing.billable ? 'yes' : 'no') : '',
+            billing?.client ?? '',
+            billing?.billable && billing.hourlyRate ? String(billing.hourlyRate) : '',
+            billing?.billable && billing.hourlyRate ? billingValue(s.duration, billing).toFixed(2) : '',
           ]);
         });
     });
@@ -291,6 +384,14 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
       <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 20 }}>
         <h1 style={{ fontSize: 22, fontWeight: 700, margin: 0 }}>Timesheet</h1>
         <div style={{ flex: 1 }} />
+        <button
+          className="btn btn-secondary"
+          onClick={() => setReconciling(true)}
+          style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}
+          title="Compare your sessions with your Basecamp timesheet"
+        >
+          <GitCompare size={14} /> Reconcile
+        </button>
         <button
           className="btn btn-primary"
           onClick={() => setAddingSession(true)}
@@ -301,6 +402,30 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
         </button>
       </div>
 
+      {syncStatus && syncStatus.ops.length > 0 && (
+        <SyncQueueCard status={syncStatus} onStatus={setSyncStatus} />
+      )}
+
+      {reviewCount > 0 && (
+        <div className="card" style={{ display: 'flex', alignItems: 'center', gap: 12 }}>
+          <span style={{ fontSize: 13, flex: 1 }}>
+            🗂 {reviewCount} {reviewCount === 1 ? 'session is' : 'sessions are'} waiting for your timesheet review.
+          </span>
+          <button className="btn btn-primary" onClick={() => window.zenstate.timesheetReviewOpen()}>
+            Review now
+          </button>
+        </div>
+      )}
+
+      {suggestions.length > 0 && (
+        <SuggestionsCard
+          suggestions={suggestions}
+          onSuggestions={setSuggestions}
+          onAdded={() => { onRefreshRecords(); addToast('success', 'Session added'); }}
+          onError={(message) => addToast('error', message)}
+        />
+      )}
+
       {/* Overall Stats */}
       <div className="card">
         <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, flexWrap: 'wrap' }}>
@@ -378,6 +503,26 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
           </div>
         </div>
 
+        {/* Billable split — sessions inherit from their project or category
+            unless billing was set on the session itself. */}
+        {settings && stats.totalSessions > 0 && (
+          <div style={{ display: 'flex', gap: 12, marginBottom: 16, fontSize: 12 }}>
+            <div style={{ flex: 1, padding: '8px 12px', background: 'var(--zen-tertiary-bg)', borderRadius: 8 }}>
+              <div style={{ fontSize: 10, color: 'var(--zen-secondary-text)', marginBottom: 2 }}>Billable</div>
+              <span style={{ fontFamily: 'var(--font-mono)', fontWeight: 600 }}>{formatDuration(stats.billableTime)}</span>
+              {stats.billableValue > 0 && (
+                <span style={{ color: 'var(--zen-secondary-text)' }}>
+                  {' · '}{formatMoney(stats.billableValue, settings.billingCurrency)}
+                </span>
+              )}
+            </div>
+            <div style={{ flex: 1, padding: '8px 12px', background: 'var(--zen-tertiary-bg)', borderRadius: 8 }}>
+              <div style={{ fontSize: 10, color: 'var(--zen-secondary-text)', marginBottom: 2 }}>Non-billable</div>
+              <span style={{ fontFamily: 'var(--font-mono)', fontWeight: 600 }}>{formatDuration(stats.nonBillableTime)}</span>
+            </div>
+          </div>
+        )}
+
       </div>
 
       {/* Today's Sessions */}
@@ -391,6 +536,8 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
           )}
         </div>
 
+        <UntrackedLane date={todayStr} sessions={todayRecord?.sessions ?? NO_SESSIONS} onAdded={onRefreshRecords} />
+
         {todaySessions.length === 0 ? (
           <div style={{ textAlign: 'center', padding: 20, color: 'var(--zen-tertiary-text)', fontSize: 12 }}>
             No recordings yet today
@@ -426,11 +573,21 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
                       </a>
                     );
                   })()}
+                  {pendingSessionIds.has(session.id) && (
+                    <span style={pendingSyncTagStyle} title="Waiting to sync to Basecamp">
+                      <RefreshCw size={9} /> Pending sync
+                    </span>
+                  )}
                 </div>
                 <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginTop: 2 }}>
                   {session.startTime ? new Date(session.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}
                   {session.endTime ? ` — ${new Date(session.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}` : ''}
                 </div>
+                {session.segments && session.segments.length > 1 && (
+                  <div style={{ marginTop: 4, maxWidth: 240 }}>
+                    <SegmentBar segments={session.segments} />
+                  </div>
+                )}
               </div>
               <div style={{
                 fontSize: 12,
@@ -588,6 +745,7 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
       {selectedDate && (
         <div className="card fade-in">
           <div className="card-title">{formatDateLabel(selectedDate)}</div>
+          <UntrackedLane date={selectedDate} sessions={selectedRecord?.sessions ?? NO_SESSIONS} onAdded={onRefreshRecords} />
           {selectedRecord ? (
             <>
               <div style={{ fontSize: 12, color: 'var(--zen-secondary-text)', marginBottom: 12 }}>
@@ -623,10 +781,20 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
                           </a>
                         );
                       })()}
+                      {pendingSessionIds.has(session.id) && (
+                        <span style={pendingSyncTagStyle} title="Waiting to sync to Basecamp">
+                          <RefreshCw size={9} /> Pending sync
+                        </span>
+                      )}
                     </div>
                     <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginTop: 2 }}>
                       {session.startTime ? new Date(session.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' }) : ''}
                     </div>
+                    {session.segments && session.segments.length > 1 && (
+                      <div style={{ marginTop: 4, maxWidth: 240 }}>
+                        <SegmentBar segments={session.segments} />
+                      </div>
+                    )}
                   </div>
                   <div style={{
                     fontSize: 12,
@@ -688,7 +856,7 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
             onClick={(e) => e.stopPropagation()}
           >
             <div style={{ fontSize: 14, fontWeight: 600, marginBottom: 10 }}>Delete this session?</div>
-            {deleteConfirm.session.basecamp?.entryId ? (
+            {deleteConfirm.session.link?.entryId ? (
               <div style={{ fontSize: 12, color: 'var(--zen-secondary-text)', lineHeight: 1.6, marginBottom: 16 }}>
                 This also permanently removes the matching Basecamp timesheet entry.{' '}
                 <strong>This cannot be undone</strong> — Basecamp does not keep deleted entries in any trash.
@@ -736,8 +904,184 @@ export default function TimesheetTab({ records, isPro, onRefreshRecords }: Props
         />
       )}
 
+      {/* Reconcile Modal */}
+      {reconciling && (
+        <ReconcileModal
+          onClose={() => setReconciling(false)}
+          onChanged={onRefreshRecords}
+        />
+      )}
+
       {/* Toast notifications */}
       <Toast toasts={toasts} onDismiss={dismiss} />
     </div>
   );
 }
+
+const SYNC_OP_LABELS: Record<TimesheetSyncOp['kind'], string> = {
+  create: 'Post',
+  update: 'Update',
+  delete: 'Delete',
+};
+
+// Timesheet writes still waiting on Basecamp. Pending ones replay on their
+// own; conflicts and rejected writes need the user to pick what happens.
+function SyncQueueCard({ status, onStatus }: { status: TimesheetSyncStatus; onStatus: (s: TimesheetSyncStatus) => void }) {
+  const [busy, setBusy] = useState(false);
+
+  async function run(action: () => Promise<TimesheetSyncStatus>) {
+    setBusy(true);
+    try {
+      onStatus(await action());
+    } catch {
+      // The next BC_SYNC_CHANGED broadcast brings the card back in line.
+    } finally {
+      setBusy(false);
+    }
+  }
+
+  const reason = !status.connected
+    ? 'Basecamp is disconnected — these go out when you reconnect.'
+    : status.retryAt
+      ? `Basecamp couldn't be reached. Next try at ${new Date(status.retryAt).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}.`
+      : null;
+  const count = status.ops.length;
+
+  return (
+    <div className="card">
+      <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: reason ? 4 : 10 }}>
+        <span className="card-title" style={{ margin: 0 }}>
+          {count} {count === 1 ? 'change' : 'changes'} waiting for Basecamp
+        </span>
+        <div className="spacer" />
+        <button
+          className="btn btn-secondary"
+          disabled={busy || !status.connected}
+          onClick={() => run(() => window.zenstate.bcSyncRetry())}
+          style={{ display: 'inline-flex', alignItems: 'center', gap: 6 }}
+        >
+          <RefreshCw size={12} /> Retry now
+        </button>
+      </div>
+      {reason && (
+        <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginBottom: 10 }}>{reason}</div>
+      )}
+
+      {status.ops.map((op) => (
+        <div key={op.id} className="session-row" style={{ alignItems: 'flex-start' }}>
+          <div style={{ flex: 1, minWidth: 0 }}>
+            <div style={{ fontSize: 12, fontWeight: 500 }}>
+              {SYNC_OP_LABELS[op.kind]} · {op.taskLabel}
+              <span style={{ fontWeight: 400, color: 'var(--zen-tertiary-text)' }}> · {formatDateLabel(op.sessionDate.split('T')[0])}</span>
+            </div>
+            {op.status === 'conflict' ? (
+              <div style={{ fontSize: 11, color: 'var(--zen-secondary-text)', marginTop: 2, lineHeight: 1.5 }}>
+                {op.remote
+                  ? <>Changed in Basecamp to <strong>{op.remote.hours}h</strong>{op.remote.description ? ` — “${op.remote.description}”` : ''}.</>
+                  : 'Deleted in Basecamp.'}
+                {op.fields && <> Yours: <strong>{op.fields.hours}h</strong>{op.fields.description ? ` — “${op.fields.description}”` : ''}.</>}
+              </div>
+            ) : op.lastError ? (
+              <div style={{ fontSize: 11, color: op.status === 'failed' ? 'var(--status-focused)' : 'var(--zen-tertiary-text)', marginTop: 2 }}>
+                {op.status === 'failed' ? 'Basecamp rejected this: ' : `Tried ${op.attempts}× — `}{op.lastError}
+              </div>
+            ) : null}
+          </div>
+          <div style={{ display: 'flex', gap: 6, flexShrink: 0 }}>
+            {op.status === 'conflict' && (
+              <>
+                <button className="category-chip" disabled={busy} onClick={() => run(() => window.zenstate.bcSyncResolve(op.id, 'local'))}>
+                  Keep mine
+                </button>
+                <button className="category-chip" disabled={busy} onClick={() => run(() => window.zenstate.bcSyncResolve(op.id, 'remote'))}>
+                  Keep Basecamp's
+                </button>
+              </>
+            )}
+            {op.status === 'failed' && (
+              <>
+                <button className="category-chip" disabled={busy} onClick={() => run(() => window.zenstate.bcSyncRetry())}>
+                  Retry
+                </button>
+                <button className="category-chip" disabled={busy} onClick={() => run(() => window.zenstate.bcSyncDiscard(op.id))}>
+                  Discard
+                </button>
+              </>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+// Suggested sessions from the app tracker. Add turns one into a normal
+// session (posting it if it's linked to a to-do); Dismiss forgets it.
+function SuggestionsCard({ suggestions, onSuggestions, onAdded, onError }: {
+  suggestions: SuggestedSession[];
+  onSuggestions: (s: SuggestedSession[]) => void;
+  onAdded: () => void;
+  onError: (message: string) => void;
+}) {
+  const [busyId, setBusyId] = useState<string | null>(null);
+
+  async function add(s: SuggestedSession) {
+    setBusyId(s.id);
+    const res = await window.zenstate.addSession({
+      taskLabel: s.taskLabel,
+      duration: Math.round((new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / 1000),
+      startTime: s.startTime,
+      category: s.category,
+      task: s.task ?? null,
+    }).catch((e) => ({ ok: false as const, error: (e as Error).message }));
+    if (res.ok) {
+      onSuggestions(await window.zenstate.appSuggestionsDismiss(s.id).catch(() => suggestions));
+      onAdded();
+    } else {
+      onError(res.error || 'Failed to add session.');
+    }
+    setBusyId(null);
+  }
+
+  async function dismiss(id: string) {
+    setBusyId(id);
+    onSuggestions(await window.zenstate.appSuggestionsDismiss(id).catch(() => suggestions));
+    setBusyId(null);
+  }
+
+  const clock = (iso: string) => new Date(iso).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+  return (
+    <div className="card">
+      <div className="card-title" style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+        Suggested sessions
+        <span style={{ fontSize: 11, fontWeight: 400, color: 'var(--zen-secondary-text)' }}>
+          from the apps you used with no timer running
+        </span>
+      </div>
+      {[...suggestions].reverse().map((s) => {
+        const seconds = (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / 1000;
+        return (
+          <div key={s.id} className="session-row">
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <div style={{ fontSize: 12, fontWeight: 500, display: 'flex', alignItems: 'center', gap: 6 }}>
+                {s.taskLabel}
+                {s.category && <span style={plainCategoryTagStyle}>{s.category}</span>}
+              </div>
+              <div style={{ fontSize: 10, color: 'var(--zen-tertiary-text)', marginTop: 2, overflow: 'hidden', textOverflow: 'ellipsis', whiteSpace: 'nowrap' }}>
+                {formatDateLabel(isoDateOf(s.startTime))} · {clock(s.startTime)} — {clock(s.endTime)} · {s.appName}{s.windowTitle ? ` — ${s.windowTitle}` : ''}
+              </div>
+            </div>
+            <div style={{ fontSize: 12, fontFamily: 'var(--font-mono)', color: 'var(--zen-secondary-text)', marginRight: 8 }}>
+              {formatDuration(seconds)}
+            </div>
+            <div style={{ display: 'flex', gap: 6, flexShrink: 0 }}>
+              <button className="category-chip" disabled={busyId === s.id} onClick={() => add(s)}>Add</button>
+              <button className="category-chip" disabled={busyId === s.id} onClick={() => dismiss(s.id)}>Dismiss</button>
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,21 +1,21 @@
 import React, { useEffect, useState, useCallback, useMemo, useRef } from 'react';
-import { Plus, Play, Pause, Square, X, Clock, Briefcase, Check, ArrowLeft, Search, Timer, ChevronDown } from 'lucide-react';
+import { Plus, Play, Pause, Square, X, Clock, Briefcase, Check, ArrowLeft, Search, Timer, ChevronDown, Repeat, ArrowRightLeft } from 'lucide-react';
 import {
   IPC, TodayPlan, PinnedTodo, RecentTodo,
-  BasecampAuthState, BasecampProject, BasecampTodoList, BasecampTodo, DailyRecord,
-  MyAssignment, MyAssignmentsResponse, MyAssignmentsDueScope, TodoSearchResult,
+  BasecampAuthState, BasecampConnectedAccount, BasecampProject, BasecampTodoList, BasecampTodo, DailyRecord,
+  MyAssignment, MyAssignmentsResponse, MyAssignmentsDueScope, TodoSearchResult, TimerCycleInfo, TaskRef,
 } from '../../../shared/types';
 
 // Bridge type — avoids `(window as any)` at every call site.
 const zs = window.zenstate as unknown as {
-  bcGetMyAssignments: () => Promise<{ ok: true; data: MyAssignmentsResponse } | { ok: false; error: string }>;
-  bcGetMyAssignmentsDue: (scope: string) => Promise<{ ok: true; data: MyAssignment[] } | { ok: false; error: string }>;
-  bcSearchTodos: (query: string) => Promise<{ ok: true; data: TodoSearchResult[] } | { ok: false; error: string }>;
-  bcListProjects: () => Promise<{ ok: true; data: BasecampProject[] } | { ok: false; error: string }>;
-  bcListTodoLists: (projectId: number, todoSetId: number) => Promise<{ ok: true; data: BasecampTodoList[] } | { ok: false; error: string }>;
-  bcListTodos: (projectId: number, todoListId: number) => Promise<{ ok: true; data: BasecampTodo[] } | { ok: false; error: string }>;
-  bcCreateTodo: (data: { projectId: number; todoListId: number; content: string }) => Promise<{ ok: true; data: BasecampTodo } | { ok: false; error: string }>;
-  bcPostComment: (data: { projectId: number; todoId: number; content: string }) => Promise<{ ok: true } | { ok: false; error: string }>;
+  bcGetMyAssignments: (accountId?: number) => Promise<{ ok: true; data: MyAssignmentsResponse } | { ok: false; error: string }>;
+  bcGetMyAssignmentsDue: (scope: string, accountId?: number) => Promise<{ ok: true; data: MyAssignment[] } | { ok: false; error: string }>;
+  bcSearchTodos: (query: string, accountId?: number) => Promise<{ ok: true; data: TodoSearchResult[] } | { ok: false; error: string }>;
+  bcListProjects: (accountId?: number) => Promise<{ ok: true; data: BasecampProject[] } | { ok: false; error: string }>;
+  bcListTodoLists: (projectId: number, todoSetId: number, accountId?: number) => Promise<{ ok: true; data: BasecampTodoList[] } | { ok: false; error: string }>;
+  bcListTodos: (projectId: number, todoListId: number, accountId?: number) => Promise<{ ok: true; data: BasecampTodo[] } | { ok: false; error: string }>;
+  bcCreateTodo: (data: { accountId?: number; projectId: number; todoListId: number; content: string }) => Promise<{ ok: true; data: BasecampTodo } | { ok: false; error: string }>;
+  bcPostComment: (data: { accountId?: number; projectId: number; todoId: number; content: string }) => Promise<{ ok: true } | { ok: false; error: string }>;
   todayPinMany: (items: PinnedTodo[]) => Promise<{ plan: TodayPlan; added: number }>;
   tomorrowPinMany: (items: PinnedTodo[]) => Promise<{ plan: unknown; added: number }>;
 };
@@ -26,6 +26,7 @@ interface TimerState {
   isRunning: boolean;
   isPaused: boolean;
   taskLabel: string;
+  cycle?: TimerCycleInfo;
 }
 
 interface Props {
@@ -111,13 +112,33 @@ export default function TodayTab({ timerState, records, onOpenSettings, onRefres
   }, []);
 
   const handleStartTimer = useCallback((item: PinnedTodo) => {
+    const task: TaskRef = {
+      provider: 'basecamp',
+      ref: {
+        accountId: item.accountId,
+        projectId: item.projectId,
+        todoId: item.todoId,
+        todoListId: item.todoListId,
+      },
+    };
+    // With another to-do's timer running, carry on timing under this one.
+    if (timerState.isRunning) {
+      window.zenstate.switchTimer(item.content, undefined, task, item.projectName);
+      return;
+    }
+    window.zenstate.startTimer(item.content, undefined, undefined, task, item.projectName);
+  }, [timerState.isRunning]);
+
+  const handleStartCycle = useCallback((item: PinnedTodo) => {
     window.zenstate.startTimer(item.content, undefined, undefined, {
-      accountId: item.accountId,
-      projectId: item.projectId,
-      todoId: item.todoId,
-      todoListId: item.todoListId,
-      projectName: item.projectName,
-    });
+      provider: 'basecamp',
+      ref: {
+        accountId: item.accountId,
+        projectId: item.projectId,
+        todoId: item.todoId,
+        todoListId: item.todoListId,
+      },
+    }, item.projectName, true);
   }, []);
 
   const handleToggleComplete = useCallback(async (todoId: number) => {
@@ -162,8 +183,8 @@ export default function TodayTab({ timerState, records, onOpenSettings, onRefres
   const trackedByTodoId = useMemo(() => {
     const map = new Map<number, number>();
     for (const s of todaySessions) {
-      if (s.basecamp?.todoId) {
-        map.set(s.basecamp.todoId, (map.get(s.basecamp.todoId) ?? 0) + s.duration);
+      if (s.link?.provider === 'basecamp') {
+        map.set(s.link.ref.todoId, (map.get(s.link.ref.todoId) ?? 0) + s.duration);
       }
     }
     return map;
@@ -211,12 +232,15 @@ export default function TodayTab({ timerState, records, onOpenSettings, onRefres
                 item={item}
                 running={isRunning(item)}
                 paused={isRunning(item) && timerState.isPaused}
+                onBreak={isRunning(item) && !!timerState.cycle && timerState.cycle.phase !== 'work'}
+                switching={timerState.isRunning && !isRunning(item)}
                 trackedToday={trackedByTodoId.get(item.todoId) ?? 0}
                 editingEstimate={editingEstimate === item.todoId}
                 onStartEditEstimate={() => setEditingEstimate(item.todoId)}
                 onSaveEstimate={(min) => handleSetEstimate(item.todoId, min)}
                 onCancelEditEstimate={() => setEditingEstimate(null)}
                 onStartTimer={() => handleStartTimer(item)}
+                onStartCycle={() => handleStartCycle(item)}
                 onPauseTimer={() => window.zenstate.pauseTimer()}
                 onResumeTimer={() => window.zenstate.resumeTimer()}
                 onStopTimer={() => window.zenstate.stopTimer()}
@@ -287,6 +311,7 @@ export default function TodayTab({ timerState, records, onOpenSettings, onRefres
           recents={recents}
           alreadyPinned={new Set(plan.items.map((i) => i.todoId))}
           accountId={authState.account.id}
+          accounts={authState.accounts}
           onClose={() => setPickerOpen(false)}
           onPinned={handlePinned}
         />
@@ -354,12 +379,15 @@ interface PinnedRowProps {
   item: PinnedTodo;
   running: boolean;
   paused: boolean;
+  onBreak: boolean;
+  switching: boolean; // another to-do's timer is running; Start switches to this one
   trackedToday: number;
   editingEstimate: boolean;
   onStartEditEstimate: () => void;
   onSaveEstimate: (minutes: number | null) => void;
   onCancelEditEstimate: () => void;
   onStartTimer: () => void;
+  onStartCycle: () => void;
   onPauseTimer: () => void;
   onResumeTimer: () => void;
   onStopTimer: () => void;
@@ -369,9 +397,9 @@ interface PinnedRowProps {
 }
 
 function PinnedRow({
-  item, running, paused, trackedToday, editingEstimate,
+  item, running, paused, onBreak, switching, trackedToday, editingEstimate,
   onStartEditEstimate, onSaveEstimate, onCancelEditEstimate,
-  onStartTimer, onPauseTimer, onResumeTimer, onStopTimer, onUnpin, onToggleComplete, onLogTime,
+  onStartTimer, onStartCycle, onPauseTimer, onResumeTimer, onStopTimer, onUnpin, onToggleComplete, onLogTime,
 }: PinnedRowProps) {
   // Two-field estimate (hours + minutes). The stored value is still a single
   // minutes integer — we just split for the UI so anyone planning a 2h+ task
@@ -521,7 +549,7 @@ function PinnedRow({
             tasks — uncheck first to reuse. */}
         {running ? (
           <div style={{ display: 'inline-flex', gap: 6 }}>
-            <button
+            {!onBreak && <button
               onClick={paused ? onResumeTimer : onPauseTimer}
               className="btn btn-secondary"
               title={paused ? 'Resume' : 'Pause'}
@@ -529,7 +557,7 @@ function PinnedRow({
             >
               {paused ? <Play size={11} /> : <Pause size={11} />}
               {paused ? 'Resume' : 'Pause'}
-            </button>
+            </button>}
             <button onClick={onStopTimer} className="btn btn-secondary" style={{ display: 'inline-flex', alignItems: 'center', gap: 4, padding: '6px 12px' }}>
               <Square size={11} /> Stop
             </button>
@@ -539,14 +567,29 @@ function PinnedRow({
             onClick={onStartTimer}
             className="btn btn-primary"
             disabled={isComplete}
-            title={isComplete ? 'Un-check this task to restart the timer' : undefined}
+            title={isComplete ? 'Un-check this task to restart the timer' : switching ? 'Save the time so far as its own session and keep timing on this to-do' : undefined}
             style={{
               display: 'inline-flex', alignItems: 'center', gap: 4, padding: '6px 12px',
               opacity: isComplete ? 0.4 : 1,
               cursor: isComplete ? 'not-allowed' : 'pointer',
             }}
           >
-            <Play size={11} /> Start
+            {switching ? <><ArrowRightLeft size={11} /> Switch</> : <><Play size={11} /> Start</>}
+          </button>
+        )}
+        {!running && (
+          <button
+            onClick={onStartCycle}
+            className="btn btn-secondary"
+            disabled={isComplete}
+            title={isComplete ? 'Un-check this task to restart the timer' : 'Start a focus cycle — work and break rounds (lengths in Settings)'}
+            style={{
+              display: 'inline-flex', alignItems: 'center', padding: '6px 8px',
+              opacity: isComplete ? 0.4 : 1,
+              cursor: isComplete ? 'not-allowed' : 'pointer',
+            }}
+          >
+            <Repeat size={11} />
           </button>
         )}
 
@@ -616,6 +659,8 @@ export interface PinPickerProps {
   recents: RecentTodo[];
   alreadyPinned: Set<number>;
   accountId: number;
+  // Every connected account; a switcher shows when there's more than one.
+  accounts?: BasecampConnectedAccount[];
   onClose: () => void;
   onPinned?: (pinnedTodoIds: number[]) => void;
   // v5.1.0 — when present (single mode), the picker hands the constructed
@@ -657,8 +702,10 @@ function searchResultToPinned(r: TodoSearchResult, accountId: number): PinnedTod
   };
 }
 
-export function PinPicker({ open, mode, target, recents, alreadyPinned, accountId, onClose, onPinned, onPickedItem, title }: PinPickerProps) {
+export function PinPicker({ open, mode, target, recents, alreadyPinned, accountId, accounts, onClose, onPinned, onPickedItem, title }: PinPickerProps) {
   const [tab, setTab] = useState<PickerTab>('browse');
+  const [account, setAccount] = useState(accountId);
+  useEffect(() => setAccount(accountId), [accountId]);
 
   useEffect(() => {
     if (!open) return;
@@ -681,6 +728,17 @@ export function PinPicker({ open, mode, target, recents, alreadyPinned, accountI
           <h3 style={{ fontSize: 'var(--text-lg)', fontWeight: 600, margin: 0, flex: 1, letterSpacing: '-0.01em' }}>
             {title ?? (target === 'tomorrow' ? 'Pin to tomorrow' : 'Pin a to-do')}
           </h3>
+          {accounts && accounts.length > 1 && (
+            <select
+              className="text-input"
+              value={account}
+              onChange={(e) => setAccount(Number(e.target.value))}
+              title="Basecamp account"
+              style={{ fontSize: 'var(--text-sm)', width: 'auto', maxWidth: 200 }}
+            >
+              {accounts.map((a) => <option key={a.id} value={a.id}>{a.name}</option>)}
+            </select>
+          )}
           <button
             onClick={onClose}
             style={{ background: 'transparent', border: 'none', color: 'var(--zen-tertiary-text)', cursor: 'pointer', padding: 4, display: 'flex', alignItems: 'center', borderRadius: 4 }}
@@ -713,13 +771,15 @@ export function PinPicker({ open, mode, target, recents, alreadyPinned, accountI
           })}
         </div>
 
+        {/* Keyed by account so lists, search results and selections start over on a switch. */}
         <PickerBody
+          key={account}
           tab={tab}
           mode={mode}
           target={target}
           recents={recents}
           alreadyPinned={alreadyPinned}
-          accountId={accountId}
+          accountId={account}
           onClose={onClose}
           onPinned={onPinned}
           onPickedItem={onPickedItem}
@@ -948,11 +1008,11 @@ function MyTodosTab({ alreadyPinned, accountId, pending, onRowClick }: MyTodosTa
 
   const fetchData = useCallback(() => {
     setLoading(true); setError(null);
-    zs.bcGetMyAssignments()
+    zs.bcGetMyAssignments(accountId)
       .then((res) => { if (res.ok) setData(res.data); else setError(res.error); })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
-  }, []);
+  }, [accountId]);
 
   useEffect(() => {
     if (fetched.current) return;
@@ -1046,11 +1106,11 @@ function CreateTodoInline({ accountId, onCreated }: CreateTodoInlineProps) {
   const loadProjects = useCallback(() => {
     if (projects.length > 0) return;
     setLoadingP(true);
-    zs.bcListProjects()
+    zs.bcListProjects(accountId)
       .then((res) => { if (res.ok) setProjects(res.data); })
       .catch(() => {})
       .finally(() => setLoadingP(false));
-  }, [projects.length]);
+  }, [projects.length, accountId]);
 
   useEffect(() => { if (open) loadProjects(); }, [open, loadProjects]);
 
@@ -1059,7 +1119,7 @@ function CreateTodoInline({ accountId, onCreated }: CreateTodoInlineProps) {
     setSelProject(p); setSelList(null); setLists([]);
     if (!p?.todoSetId) return;
     setLoadingL(true);
-    zs.bcListTodoLists(p.id, p.todoSetId)
+    zs.bcListTodoLists(p.id, p.todoSetId, accountId)
       .then((res) => { if (res.ok) setLists(res.data); })
       .catch(() => {})
       .finally(() => setLoadingL(false));
@@ -1069,7 +1129,7 @@ function CreateTodoInline({ accountId, onCreated }: CreateTodoInlineProps) {
     if (!selProject || !selList || !content.trim() || creating) return;
     setCreating(true); setError(null);
     try {
-      const res = await zs.bcCreateTodo({ projectId: selProject.id, todoListId: selList.id, content: content.trim() });
+      const res = await zs.bcCreateTodo({ accountId, projectId: selProject.id, todoListId: selList.id, content: content.trim() });
       if (!res.ok) { setError(res.error); setCreating(false); return; }
       const todo = res.data;
       onCreated({ todoId: todo.id, projectId: selProject.id, todoListId: selList.id, accountId, content: todo.content, projectName: selProject.name });
@@ -1162,11 +1222,11 @@ function DueTab({ alreadyPinned, accountId, pending, onRowClick }: DueTabProps)
   const fetchScope = useCallback((s: MyAssignmentsDueScope) => {
     if (cache[s]) return;
     setLoading(true); setError(null);
-    zs.bcGetMyAssignmentsDue(s)
+    zs.bcGetMyAssignmentsDue(s, accountId)
       .then((res) => { if (res.ok) setCache((prev) => ({ ...prev, [s]: res.data })); else setError(res.error); })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
-  }, [cache]);
+  }, [cache, accountId]);
 
   useEffect(() => { fetchScope(scope); }, [scope, fetchScope]);
 
@@ -1257,14 +1317,14 @@ function SearchTab({ alreadyPinned, accountId, pending, onRowClick }: SearchTabP
   const doSearch = useCallback((q: string) => {
     if (q.length < 2) { setResults([]); return; }
     setLoading(true); setError(null);
-    zs.bcSearchTodos(q)
+    zs.bcSearchTodos(q, accountId)
       .then((res) => {
         if (res.ok) setResults(res.data.filter((r) => !alreadyPinned.has(r.id)));
         else setError(res.error);
       })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
-  }, [alreadyPinned]);
+  }, [alreadyPinned, accountId]);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const q = e.target.value;
@@ -1334,11 +1394,11 @@ function BrowseTab({ alreadyPinned, accountId, pending, onRowClick }: BrowseTabP
 
   const fetchProjects = useCallback(() => {
     setLoading(true); setError(null);
-    zs.bcListProjects()
+    zs.bcListProjects(accountId)
       .then((res) => { if (res.ok) setProjects(res.data); else setError(res.error); })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
-  }, []);
+  }, [accountId]);
 
   useEffect(() => {
     if (fetched.current) return;
@@ -1351,7 +1411,7 @@ function BrowseTab({ alreadyPinned, accountId, pending, onRowClick }: BrowseTabP
   const goToLists = (p: BasecampProject) => {
     setProject(p); setStep('lists'); setLists([]); setLoading(true); setError(null);
     if (!p.todoSetId) { setError('Project has no to-do set'); setLoading(false); return; }
-    zs.bcListTodoLists(p.id, p.todoSetId)
+    zs.bcListTodoLists(p.id, p.todoSetId, accountId)
       .then((res) => { if (res.ok) setLists(res.data); else setError(res.error); })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
@@ -1360,7 +1420,7 @@ function BrowseTab({ alreadyPinned, accountId, pending, onRowClick }: BrowseTabP
   const goToTodos = (l: BasecampTodoList) => {
     if (!project) return;
     setList(l); setStep('todos'); setTodos([]); setLoading(true); setError(null);
-    zs.bcListTodos(project.id, l.id)
+    zs.bcListTodos(project.id, l.id, accountId)
       .then((res) => { if (res.ok) setTodos(res.data); else setError(res.error); })
       .catch((e: Error) => setError(e.message))
       .finally(() => setLoading(false));
@@ -1375,7 +1435,7 @@ function BrowseTab({ alreadyPinned, accountId, pending, onRowClick }: BrowseTabP
     if (!project || !list || !createContent.trim() || creating) return;
     setCreating(true); setCreateError(null);
     try {
-      const res = await zs.bcCreateTodo({ projectId: project.id, todoListId: list.id, content: createContent.trim() });
+      const res = await zs.bcCreateTodo({ accountId, projectId: project.id, todoListId: list.id, content: createContent.trim() });
       if (!res.ok) { setCreateError(res.error); setCreating(false); return; }
       const todo = res.data;
       setTodos((prev) => [...prev, todo]);
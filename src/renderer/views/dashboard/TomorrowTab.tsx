@@ -164,6 +164,7 @@ export default function TomorrowTab({ onOpenSettings }: Props) {
           recents={recents}
           alreadyPinned={new Set(plan.items.map((i) => i.todoId))}
           accountId={authState.account.id}
+          accounts={authState.accounts}
           onClose={() => setPickerOpen(false)}
           onPinned={handlePinned}
           title="Pin to tomorrow"
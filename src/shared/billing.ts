@@ -0,0 +1,54 @@
+import { AppSettings, BillingInfo, DailySession, TaskRef } from './types';
+
+// Billable or not, for whom and at what rate. A session only stores billing
+// when it was overridden by hand; otherwise it inherits from its Basecamp
+// project, then its category — so changing a rule re-prices past time too.
+
+type BillingSettings = Pick<AppSettings, 'projectBilling' | 'categoryBilling'>;
+
+export const NOT_BILLABLE: BillingInfo = { billable: false };
+
+// Where inherited billing comes from, for the session editor's hint.
+export interface BillingSource {
+  billing: BillingInfo;
+  from: 'project' | 'category';
+  name: string;
+}
+
+export function billingSource(settings: BillingSettings, task?: TaskRef, category?: string): BillingSource | null {
+  if (task?.provider === 'basecamp') {
+    const rule = settings.projectBilling.find((r) => r.accountId === task.ref.accountId && r.projectId === task.ref.projectId);
+    if (rule) return { billing: rule, from: 'project', name: rule.projectName };
+  }
+  if (category) {
+    const rule = settings.categoryBilling.find((r) => r.category === category);
+    if (rule) return { billing: rule, from: 'category', name: rule.category };
+  }
+  return null;
+}
+
+export function inheritedBilling(settings: BillingSettings, task?: TaskRef, category?: string): BillingInfo {
+  const source = billingSource(settings, task, category);
+  if (!source) return NOT_BILLABLE;
+  const { billable, client, hourlyRate } = source.billing;
+  return { billable, client, hourlyRate };
+}
+
+export function sessionBilling(settings: BillingSettings, session: Pick<DailySession, 'billing' | 'link' | 'category'>): BillingInfo {
+  return session.billing ?? inheritedBilling(settings, session.link, session.category);
+}
+
+// What the time is worth — 0 when it isn't billable or has no rate.
+export function billingValue(seconds: number, billing: BillingInfo): number {
+  if (!billing.billable || !billing.hourlyRate) return 0;
+  return (seconds / 3600) * billing.hourlyRate;
+}
+
+export function formatMoney(amount: number, currency: string): string {
+  try {
+    return new Intl.NumberFormat(undefined, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Not an ISO code — show it as typed.
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+}
@@ -0,0 +1,33 @@
+import { MeetingSlot } from './types';
+
+// Times offered by one meeting request or counter-proposal. More than a
+// handful isn't really proposing anything.
+export const MAX_MEETING_SLOTS = 4;
+
+// The next time the clock reads "HH:MM" — later today, or tomorrow once
+// it's passed. Null when the value isn't a time.
+export function nextOccurrence(time: string, now = new Date()): string | null {
+  const m = time.match(/^(\d{1,2}):(\d{2})$/);
+  if (!m) return null;
+  const hour = parseInt(m[1], 10);
+  const minute = parseInt(m[2], 10);
+  if (hour > 23 || minute > 59) return null;
+  const at = new Date(now.getFullYear(), now.getMonth(), now.getDate(), hour, minute);
+  if (at.getTime() <= now.getTime()) at.setDate(at.getDate() + 1);
+  return at.toISOString();
+}
+
+// "at 15:30", "tomorrow at 09:00", or "after your focus block" — `whose` is
+// the reader's view of whose block an afterFocus slot waits for.
+export function describeSlot(slot: MeetingSlot, whose: 'your' | 'their', now = new Date()): string {
+  if (!slot.at) return `after ${whose} focus block`;
+  const at = new Date(slot.at);
+  const time = at.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+  const days = Math.round(
+    (new Date(at.getFullYear(), at.getMonth(), at.getDate()).getTime()
+      - new Date(now.getFullYear(), now.getMonth(), now.getDate()).getTime()) / (24 * 60 * 60 * 1000),
+  );
+  if (days === 0) return `at ${time}`;
+  if (days === 1) return `tomorrow at ${time}`;
+  return `${at.toLocaleDateString([], { weekday: 'short', month: 'short', day: 'numeric' })} at ${time}`;
+}
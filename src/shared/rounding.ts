@@ -0,0 +1,56 @@
+import { AppSettings, RoundingRule, TaskRef } from './types';
+
+// Tracked time → posted time. Used by every path that writes hours to a
+// timesheet (auto-post, the confirmations, manual adds, edits, backfill) and
+// by reconcile, so what's compared is what would have been posted; the
+// confirm alerts use it for their preview.
+
+export const NO_ROUNDING: RoundingRule = { mode: 'none', incrementMinutes: 15, minimumMinutes: 0 };
+
+// The rule for time on `task`: its Basecamp project's own, else the default.
+export function roundingRuleFor(settings: Pick<AppSettings, 'defaultRounding' | 'projectRounding'>, task?: TaskRef): RoundingRule {
+  if (task?.provider === 'basecamp') {
+    const rule = settings.projectRounding.find((r) => r.accountId === task.ref.accountId && r.projectId === task.ref.projectId);
+    if (rule) return rule;
+  }
+  return settings.defaultRounding ?? NO_ROUNDING;
+}
+
+// Short of one increment, 'down' gives 0 and 'nearest' may; only 'up' or a
+// minimum entry lifts it. isPostable keeps those zeros off the timesheet.
+export function roundSeconds(seconds: number, rule: RoundingRule): number {
+  let rounded = seconds;
+  const step = rule.incrementMinutes * 60;
+  if (rule.mode !== 'none' && step > 0) {
+    const steps = seconds / step;
+    const whole = rule.mode === 'up' ? Math.ceil(steps) : rule.mode === 'down' ? Math.floor(steps) : Math.round(steps);
+    rounded = whole * step;
+  }
+  return Math.max(rounded, rule.minimumMinutes * 60);
+}
+
+// Whether a session is worth an entry at all. Under a minute is noise (a
+// start clicked by mistake) unless the rule sets a minimum entry, and time
+// the rule rounds to nothing has nothing to post.
+export function isPostable(seconds: number, rule: RoundingRule): boolean {
+  if (seconds <= 0 || roundSeconds(seconds, rule) <= 0) return false;
+  return seconds >= 60 || rule.minimumMinutes > 0;
+}
+
+// Decimal hours as posted — two places, like every entry we've ever written.
+export function postedHours(seconds: number, rule: RoundingRule): string {
+  return (roundSeconds(seconds, rule) / 3600).toFixed(2);
+}
+
+// "Rounded up to 15 min, at least 30 min" — for previews and settings.
+export function describeRounding(rule: RoundingRule): string {
+  const parts: string[] = [];
+  if (rule.mode !== 'none' && rule.incrementMinutes > 0) {
+    const how = rule.mode === 'nearest' ? 'to the nearest' : `${rule.mode} to`;
+    parts.push(`rounded ${how} ${rule.incrementMinutes} min`);
+  }
+  if (rule.minimumMinutes > 0) parts.push(`at least ${rule.minimumMinutes} min`);
+  if (parts.length === 0) return 'Exact';
+  const text = parts.join(', ');
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
@@ -21,11 +21,30 @@ export interface User {
   avatarEmoji?: string;
   avatarColor?: string;
   avatarImageData?: string; // base64
+  avatarHash?: string; // sha256 of avatarImageData — peers cache avatars by it
+  // Hash of the profile fields a lightweight heartbeat leaves out; a peer
+  // refetches the UserInfo when it changes. Absent from older clients.
+  profileVersion?: string;
   isAdmin: boolean;
   canSendEmergency: boolean;
   currentFocusSession?: FocusSession;
 }
 
+// What a lightweight heartbeat or status update carries instead of the whole
+// User — the fields that change while the profile doesn't.
+export const PRESENCE_FIELDS = [
+  'status',
+  'lastSeen',
+  'activeStatusMessage',
+  'statusMessageExpiry',
+  'customMeetingMessage',
+  'totalFocusTime',
+  'focusSessionCount',
+  'currentFocusSession',
+] as const;
+
+export type PeerPresence = Pick<User, typeof PRESENCE_FIELDS[number]> & { profileVersion: string };
+
 export interface FocusSession {
   id: string;
   taskLabel: string;
@@ -46,6 +65,30 @@ export enum MessageType {
   EmergencyMeetingRequest = 'emergencyMeetingRequest',
   EmergencyAccessGrant = 'emergencyAccessGrant',
   QuickPing = 'quickPing', // lightweight team-wide notification (anyone can send)
+  PingReply = 'pingReply', // answer to a QuickPing; `conversationId` is the ping's messageId
+  // Secure transport handshake (see SecureChannel.ts). Sent as ordinary legacy
+  // frames so clients that don't know them just ignore them.
+  SecureHello = 'secureHello',
+  SecureHelloReply = 'secureHelloReply',
+  SecureFinish = 'secureFinish',
+  // Receipts for pings and meeting requests. `messageId` names the message
+  // being acknowledged.
+  MessageDelivered = 'messageDelivered',
+  MessageRead = 'messageRead',
+  // Profile deltas, between clients that both set `supportsProfileDeltas`:
+  // ask for a UserInfo after a heartbeat's profileVersion moved, and fetch an
+  // avatar by hash (`requestMessage`) that isn't in the local cache.
+  UserInfoRequest = 'userInfoRequest',
+  AvatarRequest = 'avatarRequest',
+  AvatarData = 'avatarData', // `payload` is the base64 image itself
+  // Answers to a meeting request that proposed `slots`: other times instead
+  // (`slots`), or "ask me again in `snoozeMinutes`". Older clients ignore both.
+  MeetingRequestCountered = 'meetingRequestCountered',
+  MeetingRequestSnoozed = 'meetingRequestSnoozed',
+  // The team's SignedEmergencyPolicy as JSON in `payload`. Every client
+  // passes on the newest it has to peers on secure connections; older
+  // clients ignore it.
+  EmergencyPolicyUpdate = 'emergencyPolicyUpdate',
 }
 
 // A reusable list of peers a user can ping with one tap. Stored per-machine.
@@ -55,6 +98,14 @@ export interface PeerGroup {
   memberIds: string[]; // ZenState peer userIds
 }
 
+// A teammate remembered across disconnects. `user` is the last profile we
+// received, so status and focus session are as of when they went offline.
+export interface KnownPeer {
+  user: User;
+  firstSeen: string; // ISO
+  lastSeen: string;  // ISO — last time we heard from them
+}
+
 // A ping the user has received (kept in memory + persisted briefly so users
 // who missed the toast can still see "what happened in the last hour").
 export interface ReceivedPing {
@@ -63,6 +114,61 @@ export interface ReceivedPing {
   senderName: string;
   message: string;
   timestamp: string;   // ISO
+  messageId?: string;  // sender's id, for read receipts (absent from older clients)
+  conversationId?: string; // replies thread under this; absent = can't be replied to
+  read?: boolean;      // read receipt already sent
+}
+
+// One message in a ping's thread, from either side. Kept in main-process
+// memory alongside recent pings.
+export interface PingReply {
+  id: string;             // messageId
+  conversationId: string; // the original ping's messageId
+  fromId: string;
+  fromName: string;
+  toId: string;
+  message: string;
+  timestamp: string;      // ISO
+}
+
+// One-tap answers offered on the ping notification and in the Team tab.
+export const PING_QUICK_REPLIES = ['5 min', 'On my way', "Can't now"];
+
+// Where an outgoing ping or meeting request is for one recipient. `sent` is
+// as far as older clients (and the Mac app) ever get — they don't send receipts.
+export type DeliveryState = 'queued' | 'sent' | 'delivered' | 'read' | 'expired';
+
+// A time a meeting request proposes. `afterFocus` is "when your focus block
+// ends" — only the recipient knows when that is, so it gets its `at` when
+// they accept it.
+export interface MeetingSlot {
+  id: string;
+  kind: 'at' | 'afterFocus';
+  at?: string; // ISO — always set on an accepted slot
+}
+
+// A meeting agreed for later. Both sides keep one and get an alert at `at`.
+export interface MeetingReminder {
+  id: string;          // the accepted slot's id
+  withUserId: string;
+  withName: string;
+  at: string;          // ISO
+  message?: string;
+}
+
+// One recipient's copy of an outgoing ping or meeting request. A ping to
+// three people is three entries sharing an `id`.
+export interface OutboundMessage {
+  id: string;          // PeerMessage.messageId
+  kind: 'ping' | 'pingReply' | 'meetingRequest';
+  conversationId?: string; // pings and replies
+  recipientId: string;
+  recipientName: string;
+  text?: string;
+  slots?: MeetingSlot[]; // meeting requests for later; none = now
+  createdAt: string;   // ISO — also the PeerMessage timestamp
+  updatedAt: string;   // ISO — last state change
+  state: DeliveryState;
 }
 
 export interface PeerMessage {
@@ -72,6 +178,15 @@ export interface PeerMessage {
   payload?: string; // Base64-encoded JSON User data (for wire compat with Swift)
   timestamp: string; // ISO date
   requestMessage?: string;
+  messageId?: string; // pings and meeting requests, so they can be acknowledged and deduplicated
+  conversationId?: string; // QuickPing and PingReply — the thread this belongs to
+  supportsReceipts?: boolean; // on UserInfo — this client acknowledges messageIds
+  // On UserInfo — this client understands `presence` heartbeats and avatars by hash.
+  supportsProfileDeltas?: boolean;
+  presence?: PeerPresence; // Heartbeat/StatusUpdate to such a client, in place of `payload`
+  slots?: MeetingSlot[]; // MeetingRequest and MeetingRequestCountered — times to choose from
+  slot?: MeetingSlot;    // MeetingRequestAccepted — the one chosen; absent = now
+  snoozeMinutes?: number; // MeetingRequestSnoozed
 }
 
 export interface DailySession {
@@ -82,17 +197,234 @@ export interface DailySession {
   duration: number;
   category?: string;
   notes?: string;
-  basecamp?: {
-    accountId: number;
+  link?: SessionLink; // the task this time was tracked against, if any
+  // When the timer was actually running, in order. Only timed sessions have
+  // them, and they're dropped if the duration is edited by hand.
+  segments?: WorkSegment[];
+  // Set only when edited on the session; otherwise the billing comes from its
+  // project or category (shared/billing.ts) as they're set now.
+  billing?: BillingInfo;
+}
+
+// Why a timer was paused. 'manual' is the user's own pause; 'restart' closes
+// the segment a crash or quit interrupted before the session was resumed.
+export type PauseReason = 'manual' | 'suspend' | 'lock' | 'idle' | 'focus-loss' | 'restart';
+
+export interface WorkSegment {
+  start: string; // ISO
+  end: string;   // ISO
+  pauseReason?: PauseReason; // why the timer paused after this; absent on the last
+}
+
+// ── Time-tracking providers ────────────────────────────────────
+// A provider is where a session's hours are posted (services/providers).
+// Each one declares the shape of its task reference and time entry id here.
+
+export interface BasecampTaskRef {
+  accountId: number;
+  projectId: number;
+  todoId: number;
+  todoListId?: number;
+}
+
+export interface ProviderLinkTypes {
+  basecamp: { ref: BasecampTaskRef; entryId: number };
+}
+
+export type TimeProviderId = keyof ProviderLinkTypes;
+
+// A task in one provider — what a timer or session is tracked against.
+export type TaskRef = {
+  [P in TimeProviderId]: { provider: P; ref: ProviderLinkTypes[P]['ref'] };
+}[TimeProviderId];
+
+export type TimeEntryId = ProviderLinkTypes[TimeProviderId]['entryId'];
+
+export type SessionLink = TaskRef & {
+  synced?: boolean; // true once posted to the provider's timesheet
+  // The provider's time entry, set after a successful create. Required for
+  // update/delete propagation. Basecamp sessions created before v5.1.0 don't
+  // have this — UI falls back to "fix in Basecamp manually" links.
+  entryId?: TimeEntryId;
+  // The entry as we last wrote it. If the provider has something different
+  // when a queued update/delete replays, someone edited it there — a conflict.
+  lastPushed?: TimesheetEntryFields;
+};
+
+// The running timer as last written to disk, so a crash, reboot or quit
+// mid-session can be recovered on the next launch. Cleared when the timer
+// stops normally.
+export interface TimerCheckpoint {
+  taskLabel: string;
+  category?: string;
+  targetDuration?: number;
+  task?: TaskRef;
+  notes: string;
+  startedBySchedule: boolean;
+  segments?: WorkSegment[];    // closed segments; the open one starts at runningSince. Missing from older builds
+  accumulatedSeconds: number; // elapsed before `runningSince`
+  runningSince: string | null; // ISO; null while paused
+  savedAt: string;             // ISO; when this checkpoint was written
+  lastActivityAt: string;      // ISO; last keyboard/mouse activity as of savedAt
+  // Set when the timer is a focus cycle's work interval, so recovery goes
+  // on with the cycle. Breaks have no timer and aren't checkpointed.
+  cycle?: { round: number; roundsPerLongBreak: number; projectName?: string };
+}
+
+// A named timer running alongside the primary one — an on-call shift, a
+// render job. It only counts: no countdown, cycle, idle pause or break
+// reminder, and it isn't on the pill or tray. Each stop is its own session.
+// Written to disk on every change and periodically, like TimerCheckpoint.
+export interface BackgroundTimer {
+  id: string;
+  taskLabel: string;
+  category?: string;
+  task?: TaskRef;
+  projectName?: string;
+  notes: string;
+  segments: WorkSegment[];     // closed segments; the open one starts at runningSince
+  accumulatedSeconds: number; // elapsed before `runningSince`
+  runningSince: string | null; // ISO; null while paused
+  savedAt: string;             // ISO; when the list was last written
+}
+
+// One session in the end-of-timer review, when switching tasks left more
+// than one to confirm. `notes` pre-fill the description.
+export interface TimesheetReviewItem {
+  sessionId: string;
+  taskLabel: string;
+  durationSec: number;
+  notes: string;
+  rounding: RoundingRule; // for the "posts as" preview
+}
+
+// A row in the end-of-day review. `groupKey` is the same for every session
+// on one task, so the window can show them together.
+export interface DailyReviewItem extends TimesheetReviewItem {
+  date: string; // YYYY-MM-DD, the session's day
+  groupKey: string;
+}
+
+// A stopped session waiting for the end-of-day review.
+export interface QueuedTimesheetReview {
+  sessionId: string;
+  sessionDate: string; // YYYY-MM-DD
+}
+
+// What the user picked for one TimesheetReviewItem.
+export interface TimesheetReviewChoice {
+  sessionId: string;
+  post: boolean;
+  hours?: string;
+  notes?: string;
+  durationSec?: number;
+}
+
+// What the machine was doing, logged all day whether or not a timer runs (see
+// services/activityLog.ts). `off` — ZenState wasn't running, so nothing is known.
+export type ActivityState = 'active' | 'idle' | 'locked' | 'suspended' | 'off';
+
+export interface ActivityTransition {
+  at: string; // ISO
+  state: ActivityState;
+}
+
+// One state held from `start` to `end` (ISO), clipped to the day asked for.
+export interface ActivitySpan {
+  start: string;
+  end: string;
+  state: ActivityState;
+}
+
+// A teammate's status as this client saw it change (services/peerStatusHistory.ts).
+// `null` — we stopped watching (quit, sign-out), so nothing is known after it.
+export interface PeerStatusTransition {
+  userId: string;
+  at: string; // ISO
+  status: AvailabilityStatus | null;
+}
+
+export interface PeerStatusLog {
+  transitions: PeerStatusTransition[]; // oldest first
+  observedUntil: string | null; // ISO — last checkpoint, closes open statuses after a crash
+}
+
+// One teammate's statuses between two times, for the team calendar. Time we
+// weren't watching has no span.
+export interface PeerStatusTimeline {
+  userId: string;
+  spans: { start: string; end: string; status: AvailabilityStatus }[];
+}
+
+export interface TimesheetEntryFields {
+  date: string;        // YYYY-MM-DD
+  hours: string;       // decimal, e.g. "1.50"
+  description: string;
+}
+
+// A timesheet write recorded before it's attempted and replayed until the
+// provider accepts it (see services/providers/syncQueue.ts). Ops for one
+// session run strictly in order.
+export interface TimesheetSyncOp {
+  id: string;
+  kind: 'create' | 'update' | 'delete';
+  sessionId: string;
+  sessionDate: string;     // DailyRecord date key the session lives under
+  taskLabel: string;       // for the pending list — the session may be gone
+  task: TaskRef;
+  entryId?: TimeEntryId;   // update/delete; filled in when a queued create lands
+  fields?: TimesheetEntryFields;   // create/update
+  baseline?: TimesheetEntryFields; // update/delete — see SessionLink.lastPushed
+  createdAt: string;
+  attempts: number;
+  lastError?: string;
+  // `conflict`: the provider's copy changed since we wrote it; `failed`: the
+  // provider rejected the request (4xx). Both wait for the user.
+  status: 'pending' | 'conflict' | 'failed';
+  remote?: TimesheetEntryFields | null; // conflict only — null when deleted there
+}
+
+export interface TimesheetSyncStatus {
+  ops: TimesheetSyncOp[];
+  retryAt: string | null; // next automatic attempt after a network failure
+  connected: boolean;     // false = waiting for a provider to be reconnected
+}
+
+// One disagreement between the local timesheet and the user's own Basecamp
+// timesheet entries. `local` is absent for entries only Basecamp has,
+// `remote` for sessions Basecamp doesn't have.
+export type ReconcileKind = 'missingLocal' | 'missingRemote' | 'mismatch';
+export type ReconcileAction = 'pull' | 'push' | 'ignore';
+
+export interface ReconcileRow {
+  key: string;               // stable while both sides stay as they are
+  kind: ReconcileKind;
+  taskLabel: string;
+  local?: {
+    sessionIds: string[];    // several when Backfill merged them into one entry
+    sessionDate: string;
+    fields: TimesheetEntryFields;
     projectId: number;
     todoId: number;
-    todoListId?: number;
-    synced?: boolean; // true once pushed to Basecamp's timesheet
-    // Persistent Basecamp Timesheet::Entry id, set after a successful create.
-    // Required for update/delete propagation. Sessions created before v5.1.0
-    // don't have this — UI falls back to "fix in Basecamp manually" links.
-    entryId?: number;
   };
+  remote?: {
+    entryId: number;
+    fields: TimesheetEntryFields;
+    projectId?: number;
+    todoId: number;
+    appUrl: string;
+  };
+  differences: Array<keyof TimesheetEntryFields>;
+  canPull: boolean;          // false when one entry covers several sessions
+}
+
+export interface ReconcileResult {
+  startDate: string;         // YYYY-MM-DD
+  endDate: string;
+  rows: ReconcileRow[];
+  matched: number;           // pairs that agree
+  ignored: number;
+  pending: number;           // sessions skipped because a sync is queued for them
 }
 
 export interface DailyRecord {
@@ -102,17 +434,29 @@ export interface DailyRecord {
   sessions: DailySession[];
 }
 
+// A recurring focus block. While the window is open the scheduler in main flips
+// the user's status to Focused and reverts it when the window closes.
 export interface FocusSchedule {
   id: string;
   name: string;
   enabled: boolean;
+  // Also start a timer for the block (labelled `taskLabel`, falling back to
+  // `name`). The timer is stopped again when the block ends.
   autoStartFocus: boolean;
   startTime: { hour: number; minute: number };
-  endTime: { hour: number; minute: number };
-  daysOfWeek: number[]; // 0=Sun, 6=Sat
+  endTime: { hour: number; minute: number }; // at/before startTime = runs past midnight
+  daysOfWeek: number[]; // 0=Sun, 6=Sat — the day the block opens
   taskLabel?: string;
 }
 
+// The focus block currently driving the user's status (main → renderer).
+export interface ActiveFocusBlockInfo {
+  scheduleId: string;
+  name: string;
+  startsAt: string; // ISO
+  endsAt: string;   // ISO
+}
+
 export interface AppSettings {
   breakReminderEnabled: boolean;
   breakReminderIntervalSeconds: number;
@@ -121,6 +465,10 @@ export interface AppSettings {
   // When true, a Basecamp timesheet entry isn't posted automatically when a
   // timer stops — the user reviews the duration first in a confirmation alert.
   requireTimesheetConfirmation: boolean;
+  // With confirmation on: `eachStop` asks as every timer stops; `endOfDay`
+  // queues the sessions and opens one review at `timesheetReviewTime`.
+  timesheetReviewMode: 'eachStop' | 'endOfDay';
+  timesheetReviewTime: { hour: number; minute: number };
   // When true, a small floating pill window appears on top of all other apps
   // (including full-screen apps) while a timer is running.
   miniTimerEnabled: boolean;
@@ -129,6 +477,250 @@ export interface AppSettings {
   // When true, the floating pill fades to ~50% opacity after a few seconds
   // of no hover, so it stays out of the way without going invisible.
   miniTimerAutoDim: boolean;
+  // Encrypt and authenticate peer connections with the team key from the
+  // license. Needs a valid license; ignored on the free tier.
+  secureTransportEnabled: boolean;
+  // With secure transport on, still talk plaintext to peers that can't
+  // negotiate it (older builds, the Swift app). A peer whose identity is
+  // already pinned is never accepted in plaintext either way.
+  allowLegacyPeers: boolean;
+  // Also register with a self-hosted relay (scripts/relay-server.js) so
+  // teammates on other subnets/VPNs show up. Address is "host" or "host:port".
+  relayEnabled: boolean;
+  relayAddress: string;
+  relayToken: string;
+  // Focus cycles: work intervals alternating with breaks, a long break after
+  // every `cycleRoundsPerLongBreak` work intervals.
+  cycleWorkMinutes: number;
+  cycleShortBreakMinutes: number;
+  cycleLongBreakMinutes: number;
+  cycleRoundsPerLongBreak: number;
+  // Opt-in foreground-app tracker (services/appTracker.ts). `prompt` offers to
+  // start a timer when a rule matches; `suggest` quietly records the matched
+  // time as suggested sessions on the Timesheet tab.
+  appTrackerEnabled: boolean;
+  appTrackerMode: 'prompt' | 'suggest';
+  appRules: AppRule[];
+  // How tracked time becomes posted hours (shared/rounding.ts). A Basecamp
+  // project with a rule of its own uses that; everything else the default.
+  // Sessions keep their raw duration locally either way.
+  defaultRounding: RoundingRule;
+  projectRounding: ProjectRoundingRule[];
+  // Whether time is billable, and to whom at what rate (shared/billing.ts). A
+  // Basecamp project's rule wins over its category's; with neither, the time
+  // isn't billable. Rates are hourly, in `billingCurrency`.
+  billingCurrency: string;
+  projectBilling: ProjectBilling[];
+  categoryBilling: CategoryBilling[];
+  // Which incoming alerts (meeting requests, emergencies, pings, break
+  // reminders) may interrupt, and when. Held ones come back as one digest
+  // (services/doNotDisturb.ts).
+  dndPolicy: DndPolicy;
+}
+
+export type RoundingMode = 'none' | 'nearest' | 'up' | 'down';
+
+// Round to a multiple of `incrementMinutes` (ignored for `none`), then post
+// at least `minimumMinutes` (0 = no minimum).
+export interface RoundingRule {
+  mode: RoundingMode;
+  incrementMinutes: number;
+  minimumMinutes: number;
+}
+
+export interface ProjectRoundingRule extends RoundingRule {
+  accountId: number;
+  projectId: number;
+  projectName: string; // for the settings list
+}
+
+export interface BillingInfo {
+  billable: boolean;
+  client?: string;
+  hourlyRate?: number;
+}
+
+export interface ProjectBilling extends BillingInfo {
+  accountId: number;
+  projectId: number;
+  projectName: string; // for the settings list
+}
+
+export interface CategoryBilling extends BillingInfo {
+  category: string;
+}
+
+export interface DndPolicy {
+  enabled: boolean;
+  // Hold everything but emergencies between these times. End at/before the
+  // start runs past midnight, as with focus schedules; null = no quiet hours.
+  quietHours: { start: { hour: number; minute: number }; end: { hour: number; minute: number } } | null;
+  focusedOnlyEmergencies: boolean; // while Focused, only emergencies get through
+  holdInMeetingMode: boolean;      // while the timer is in meeting mode, hold everything
+  // Teammates (userIds) who always get through, and who never interrupt —
+  // alerts from the latter wait for the next digest.
+  allowSenderIds: string[];
+  denySenderIds: string[];
+}
+
+export type HeldAlertKind = 'meetingRequest' | 'meetingResponse' | 'meetingReminder' | 'emergency' | 'ping' | 'pingReply' | 'breakReminder';
+
+// Why an alert was held: the policy's context at the time, or the sender.
+export type DndHoldReason = 'meetingMode' | 'focused' | 'quietHours' | 'sender';
+
+// An alert the DND policy kept from popping up.
+export interface HeldAlert {
+  kind: HeldAlertKind;
+  senderId?: string;
+  senderName?: string;
+  text?: string;
+  at: string; // ISO
+  reason: DndHoldReason;
+}
+
+// Team-wide rules for emergency requests, set by an admin (licensed
+// `isAdmin`) and passed from peer to peer — the newest `updatedAt` wins.
+// Until an admin saves one, the old per-peer grants apply and every
+// emergency gets through.
+export interface EmergencyPolicy {
+  allowedSenderIds: string[]; // userIds who may send, besides `adminIds`
+  adminIds: string[];         // admins who have saved the policy — they may always send
+  dailyLimit: number | null;  // emergencies per sender per day; null = no limit
+  requireReason: boolean;     // the request's message must say why
+  updatedAt: string | null;   // ISO; null = never set
+  updatedById?: string;       // the admin who saved it last
+  updatedBy?: string;         // ...and their name
+}
+
+export const DEFAULT_EMERGENCY_POLICY: EmergencyPolicy = {
+  allowedSenderIds: [],
+  adminIds: [],
+  dailyLimit: null,
+  requireReason: false,
+  updatedAt: null,
+};
+
+// A policy as it travels between clients: the JSON exactly as an admin's
+// device identity key signed it, and the issuer's attestation that the key
+// is an admin's.
+export interface SignedEmergencyPolicy {
+  policy: string;      // EmergencyPolicy as JSON
+  signerId: string;    // the admin vouching for it — not necessarily its author
+  attestation: string; // AdminAttestationPayload signed by the license issuer
+  identityKey: string; // base64 SPKI of their device identity key
+  signature: string;   // base64 Ed25519 signature over `policy`
+}
+
+// The license issuer's word that a device identity key belongs to one of a
+// team's admins (scripts/generate-license.js --attest-admin). Signed and
+// encoded like a license key, but carries no secret, so it's safe to send.
+export interface AdminAttestationPayload {
+  kind: 'adminAttestation';
+  teamName: string;
+  fingerprint: string; // sha256 hex of the device identity key's SPKI
+  expiresAt: string;   // ISO date
+  issuedAt: string;    // ISO date
+}
+
+// This device's attestation as shown in Settings → Admin.
+export interface AdminAttestationState {
+  fingerprint: string; // this device's identity key, to send to the issuer
+  isValid: boolean;
+  expiresAt?: string;
+  error?: string;
+}
+
+// `blocked` is an emergency the policy stopped — one we tried to send, or
+// one that arrived and was shown as an ordinary meeting request.
+export type EmergencyAuditAction = 'sent' | 'received' | 'blocked' | 'granted' | 'revoked' | 'policyChanged';
+
+// One line of the local emergency audit log. `actor` did it; `target` is who
+// it was sent to or granted to.
+export interface EmergencyAuditEntry {
+  id: string;
+  at: string; // ISO
+  action: EmergencyAuditAction;
+  actorId: string;
+  actorName: string;
+  targetId?: string;
+  targetName?: string;
+  reason?: string; // the emergency's message
+  detail?: string; // why it was blocked, or what the policy changed to
+}
+
+// App tracker rule: when the frontmost app and its window title both match,
+// the work is `taskLabel` — linked to `task` when it points at a to-do, or
+// just filed under `category`. Patterns are case-insensitive regexes; an
+// empty one matches anything.
+export interface AppRule {
+  id: string;
+  appPattern: string;
+  titlePattern: string;
+  taskLabel: string;
+  task?: TaskRef;
+  category?: string;
+}
+
+// Time a rule matched while no timer was running, waiting on the Timesheet
+// tab to be added as a session or dismissed.
+export interface SuggestedSession {
+  id: string;
+  ruleId: string;
+  taskLabel: string;
+  task?: TaskRef;
+  category?: string;
+  startTime: string; // ISO
+  endTime: string;   // ISO
+  appName: string;   // what matched, for context
+  windowTitle: string;
+}
+
+// Settings → Timer suggestions readout: what the tracker last saw, or why it
+// couldn't look (usually a missing OS permission).
+export interface AppTrackerStatus {
+  running: boolean;
+  appName: string | null;
+  windowTitle: string | null;
+  error: string | null;
+}
+
+export type TimerCyclePhase = 'work' | 'shortBreak' | 'longBreak';
+
+// Sent with timer updates while a focus cycle runs. `round` counts work
+// intervals from 1 and keeps going past a long break.
+export interface TimerCycleInfo {
+  phase: TimerCyclePhase;
+  round: number;
+  roundsPerLongBreak: number;
+}
+
+// Snapshot for Settings → Network → Relay (main → renderer).
+export interface RelayStatus {
+  configured: boolean; // enabled with a parseable address
+  connected: boolean;  // registered with the relay right now
+  error: string | null;
+  peerCount: number;   // teammates registered on the relay
+}
+
+// A teammate's device identity key, pinned the first time they connected over
+// the secure transport.
+export interface PinnedPeerIdentity {
+  userId: string;
+  name: string;
+  fingerprint: string; // hex SHA-256 of the Ed25519 public key
+  firstSeen: string;   // ISO
+  lastSeen: string;    // ISO
+}
+
+export type PeerTransport = 'secure' | 'legacy';
+
+// Snapshot for Settings → Network → Secure connections.
+export interface SecureTransportStatus {
+  enabled: boolean;          // setting on AND a team key is available
+  available: boolean;        // a valid license provides a team key
+  fingerprint: string;       // this device's identity fingerprint
+  peers: { userId: string; name: string; transport: PeerTransport }[];
+  pinned: PinnedPeerIdentity[];
 }
 
 // ── Basecamp Types ─────────────────────────────────────────────
@@ -147,12 +739,21 @@ export interface BasecampAccount {
 
 export interface BasecampAuthState {
   isConnected: boolean;
+  // The active account — used when a call doesn't name one.
   account?: { id: number; name: string };
   identity?: { id: number; firstName: string; lastName: string; emailAddress: string };
   expiresAt?: string;
+  // Every connected account, across all connected logins.
+  accounts?: BasecampConnectedAccount[];
   error?: string;
 }
 
+export interface BasecampConnectedAccount {
+  id: number;
+  name: string;
+  emailAddress: string; // the login it was connected with
+}
+
 export interface BasecampProject {
   id: number;
   name: string;
@@ -199,6 +800,7 @@ export interface BasecampTimesheetEntry {
   date: string;          // YYYY-MM-DD
   hours: string;         // decimal as string, e.g. "1.5"
   description?: string;
+  projectId?: number;    // bucket — present on report results
   parentId: number;      // recording id (todo or message)
   parentTitle?: string;
   parentType?: string;
@@ -294,6 +896,9 @@ export interface LicensePayload {
   expiresAt: string; // ISO date
   features: string[];
   issuedAt: string;  // ISO date
+  // Random per-team value keying secure peer connections. Keys issued before
+  // it existed fall back to the key itself (see LicenseManager.getTeamSecret).
+  teamSecret?: string;
 }
 
 export interface LicenseState {
@@ -322,8 +927,17 @@ export const IPC = {
   SEND_MEETING_REQUEST: 'user:send-meeting-request',
   CANCEL_MEETING_REQUEST: 'user:cancel-meeting-request',
   RESPOND_MEETING_REQUEST: 'user:respond-meeting-request',
-  SEND_EMERGENCY_REQUEST: 'user:send-emergency-request',
+  COUNTER_MEETING_REQUEST: 'user:counter-meeting-request',
+  SNOOZE_MEETING_REQUEST: 'user:snooze-meeting-request',
+  SEND_EMERGENCY_REQUEST: 'user:send-emergency-request', // → { ok, error? }
   GRANT_EMERGENCY_ACCESS: 'user:grant-emergency-access',
+  EMERGENCY_POLICY_GET: 'emergency:policy-get',
+  EMERGENCY_POLICY_SAVE: 'emergency:policy-save', // admins only
+  EMERGENCY_ATTESTATION_GET: 'emergency:attestation-get',
+  EMERGENCY_ATTESTATION_SAVE: 'emergency:attestation-save', // → AdminAttestationState
+  EMERGENCY_POLICY_CHANGED: 'emergency:policy-changed', // main → renderer
+  EMERGENCY_AUDIT_GET: 'emergency:audit-get',
+  EMERGENCY_AUDIT_CHANGED: 'emergency:audit-changed', // main → renderer
 
   // Window management (renderer → main)
   OPEN_DASHBOARD: 'window:open-dashboard',
@@ -336,8 +950,21 @@ export const IPC = {
   STOP_TIMER: 'timer:stop',
   PAUSE_TIMER: 'timer:pause',
   RESUME_TIMER: 'timer:resume',
+  // Move the running timer onto another task: the time so far is saved as
+  // its own session and timing carries on under the new one.
+  SWITCH_TIMER: 'timer:switch',
   TIMER_UPDATE: 'timer:update',
   TIMER_COMPLETE: 'timer:complete',
+  // Background timers, next to the primary one above. Promoting one makes it
+  // the primary timer; the primary can be sent to the background in turn.
+  BACKGROUND_TIMER_START: 'timer:background-start',
+  BACKGROUND_TIMER_STOP: 'timer:background-stop',
+  BACKGROUND_TIMER_PAUSE: 'timer:background-pause',
+  BACKGROUND_TIMER_RESUME: 'timer:background-resume',
+  BACKGROUND_TIMER_PROMOTE: 'timer:background-promote',
+  TIMER_SEND_TO_BACKGROUND: 'timer:send-to-background',
+  BACKGROUND_TIMERS_GET: 'timer:background-get',
+  BACKGROUND_TIMERS_CHANGED: 'timer:background-changed', // main → renderer
 
   // Data (renderer → main)
   GET_USER: 'data:get-user',
@@ -347,6 +974,8 @@ export const IPC = {
   DELETE_SESSION: 'data:delete-session',
   UPDATE_SESSION: 'data:update-session',
   ADD_SESSION: 'data:add-session',
+  // Activity log for one day (YYYY-MM-DD) — drives the untracked-time lane.
+  ACTIVITY_GET_DAY: 'data:activity-get-day',
 
   // Settings & Templates (renderer → main)
   GET_SETTINGS: 'data:get-settings',
@@ -368,6 +997,18 @@ export const IPC = {
   // show a "still working?" alert that the user can confirm or let lapse.
   TIMER_IDLE_RESPONSE: 'timer:idle-response',
 
+  // Timer left running by a crash or quit: resume it, stop it at the last
+  // recorded activity, or discard it (renderer → main).
+  TIMER_RECOVERY_RESPONSE: 'timer:recovery-response',
+
+  // Foreground-app tracker: answer to a "start timer?" prompt, plus the
+  // suggested sessions it records (renderer ↔ main).
+  APP_SUGGESTION_RESPONSE: 'app-tracker:suggestion-response',
+  APP_TRACKER_GET_STATUS: 'app-tracker:get-status',
+  APP_SUGGESTIONS_GET: 'app-tracker:suggestions-get',
+  APP_SUGGESTIONS_DISMISS: 'app-tracker:suggestions-dismiss',
+  APP_SUGGESTIONS_CHANGED: 'app-tracker:suggestions-changed', // main → renderer
+
   // Meeting mode: per-session toggle that suppresses idle pause entirely
   // (for video calls where the user isn't touching keyboard/mouse).
   TIMER_SET_MEETING_MODE: 'timer:set-meeting-mode',
@@ -375,6 +1016,14 @@ export const IPC = {
 
   // Pre-flight Basecamp timesheet confirmation (renderer → main)
   TIMER_TIMESHEET_CONFIRM: 'timer:timesheet-confirm',
+  // Same, for every session a switched timer produced — one review at stop.
+  TIMER_TIMESHEET_BATCH_CONFIRM: 'timer:timesheet-batch-confirm',
+  // End-of-day review: open it now, post the user's choices (renderer → main),
+  // and the queue size as it changes (main → renderer).
+  TIMESHEET_REVIEW_OPEN: 'timesheet-review:open',
+  TIMESHEET_REVIEW_GET_COUNT: 'timesheet-review:get-count',
+  TIMESHEET_REVIEW_SUBMIT: 'timesheet-review:submit',
+  TIMESHEET_REVIEW_CHANGED: 'timesheet-review:changed',
   // Mini-timer pill state changes (renderer → main)
   MINI_TIMER_RESIZE: 'mini-timer:resize',
   MINI_TIMER_MOVE_BY: 'mini-timer:move-by',
@@ -388,12 +1037,46 @@ export const IPC = {
   TEAM_PING_RECEIVED: 'team:ping-received',  // main → renderer
   TEAM_GET_RECENT_PINGS: 'team:get-recent-pings',
   TEAM_DISMISS_PING: 'team:dismiss-ping',
+  TEAM_MARK_PINGS_READ: 'team:mark-pings-read',
+  TEAM_REPLY_PING: 'team:reply-ping',
+  TEAM_GET_PING_REPLIES: 'team:get-ping-replies',
+  TEAM_PING_REPLIES_CHANGED: 'team:ping-replies-changed', // main → renderer
+  OUTBOX_GET: 'outbox:get',
+  OUTBOX_CHANGED: 'outbox:changed', // main → renderer
+
+  // Team directory — every teammate ever seen, online or not
+  TEAM_DIRECTORY_GET: 'team:directory-get',
+  TEAM_DIRECTORY_FORGET: 'team:directory-forget',
+  TEAM_DIRECTORY_FORGET_STALE: 'team:directory-forget-stale',
+  TEAM_DIRECTORY_CHANGED: 'team:directory-changed', // main → renderer
+  TEAM_HISTORY_GET: 'team:history-get', // (from, to) ISO → PeerStatusTimeline[]
+
+  // Meetings agreed for later (accepted slots of meeting requests)
+  MEETING_REMINDERS_GET: 'meeting-reminders:get',
+  MEETING_REMINDERS_REMOVE: 'meeting-reminders:remove',
+  MEETING_REMINDERS_CHANGED: 'meeting-reminders:changed', // main → renderer
 
   // Peer groups (saved sets of people for one-tap multi-select)
   GROUPS_GET: 'groups:get',
   GROUPS_SAVE: 'groups:save',          // create or update — full PeerGroup payload
   GROUPS_DELETE: 'groups:delete',
 
+  // Focus schedules — recurring blocks that drive status (and optionally a timer)
+  SCHEDULES_GET: 'schedules:get',
+  SCHEDULES_SAVE: 'schedules:save',        // create or update — full FocusSchedule payload
+  SCHEDULES_DELETE: 'schedules:delete',
+  SCHEDULES_GET_ACTIVE: 'schedules:get-active',
+  SCHEDULES_ACTIVE_CHANGED: 'schedules:active-changed', // main → renderer
+
+  // Secure peer transport
+  SECURITY_GET_STATUS: 'security:get-status',
+  SECURITY_FORGET_PEER: 'security:forget-peer',
+  SECURITY_PEER_REJECTED: 'security:peer-rejected', // main → renderer
+
+  // Relay (cross-subnet discovery)
+  RELAY_GET_STATUS: 'relay:get-status',
+  RELAY_STATUS_CHANGED: 'relay:status-changed', // main → renderer
+
   // Admin notifications (bidirectional)
 
   // Tray updates (renderer → main)
@@ -410,6 +1093,7 @@ export const IPC = {
   BC_CONNECT: 'basecamp:connect',
   BC_CANCEL_CONNECT: 'basecamp:cancel-connect',
   BC_DISCONNECT: 'basecamp:disconnect',
+  BC_SET_ACTIVE_ACCOUNT: 'basecamp:set-active-account',
   BC_GET_AUTH_STATE: 'basecamp:get-auth-state',
   BC_LIST_PROJECTS: 'basecamp:list-projects',
   BC_LIST_TODO_LISTS: 'basecamp:list-todo-lists',
@@ -418,11 +1102,20 @@ export const IPC = {
   BC_POST_COMMENT: 'basecamp:post-comment',
   BC_CREATE_TIME_ENTRY: 'basecamp:create-time-entry',
   // v5.1.0 — propagate local edits/deletes back to Basecamp using the
-  // entry id persisted on DailySession.basecamp.entryId.
+  // entry id persisted on DailySession.link.entryId.
   BC_UPDATE_TIME_ENTRY: 'basecamp:update-time-entry',
   BC_DELETE_TIME_ENTRY: 'basecamp:delete-time-entry',
   BC_GET_PROJECT_TIMESHEET: 'basecamp:get-project-timesheet',
   BC_BACKFILL_TIMESHEET: 'basecamp:backfill-timesheet',
+  // Offline timesheet write queue (services/providers/syncQueue.ts).
+  BC_SYNC_GET_STATUS: 'basecamp:sync-get-status',
+  BC_SYNC_RETRY: 'basecamp:sync-retry',
+  BC_SYNC_RESOLVE: 'basecamp:sync-resolve',
+  BC_SYNC_DISCARD: 'basecamp:sync-discard',
+  BC_SYNC_CHANGED: 'basecamp:sync-changed', // main → renderer
+  // Local vs Basecamp timesheet diff (services/basecamp/reconcile.ts).
+  BC_RECONCILE_GET: 'basecamp:reconcile-get',
+  BC_RECONCILE_APPLY: 'basecamp:reconcile-apply',
   // v5.1.0 — pin UX shortcuts. /my/assignments.json removes the 3-layer drill
   // for the common "pin one of my todos" case; search/due are tab fallbacks.
   BC_GET_MY_ASSIGNMENTS: 'basecamp:get-my-assignments',